@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { InvoiceData, QuotationData, User, AppSettings, InvoiceItem } from './types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { InvoiceData, QuotationData, User, AppSettings, InvoiceItem, Client, CreditNote, RecurringSchedule, ExchangeRate, CatalogItem, AuditEntry, LoginAttempt, TwoFactorStatus, DocumentEmail, ShareLink } from './types';
 import Dashboard from './views/Dashboard';
 import InvoiceList from './views/InvoiceList';
 import InvoiceEditor from './views/InvoiceEditor';
@@ -8,22 +8,57 @@ import QuotationEditor from './views/QuotationEditor';
 import Reports from './views/Reports';
 import Users from './views/Users';
 import Settings from './views/Settings';
+import Clients from './views/Clients';
+import ClientDetail from './views/ClientDetail';
+import Catalog from './views/Catalog';
+import CreditNoteList from './views/CreditNoteList';
+import CreditNoteEditor from './views/CreditNoteEditor';
+import RecurringSchedules from './views/RecurringSchedules';
+import AuditLog from './views/AuditLog';
+import Account from './views/Account';
 import Login from './views/Login';
-import { LayoutDashboardIcon, FileTextIcon, UsersIcon, SettingsIcon, BarChartIcon, PalmTreeIcon, LogOutIcon, MenuIcon, XIcon, ClipboardListIcon } from './components/Icons';
-import { supabase } from './lib/supabaseClient';
+import SharedDocument from './views/SharedDocument';
+import { LayoutDashboardIcon, FileTextIcon, UsersIcon, SettingsIcon, BarChartIcon, PalmTreeIcon, LogOutIcon, MenuIcon, XIcon, ClipboardListIcon, BriefcaseIcon, ReceiptIcon, RepeatIcon, PackageIcon, HistoryIcon } from './components/Icons';
+import { db, DataError } from './lib/data';
+import { AuditFilter } from './lib/audit';
+import { Session, loadSession, saveSession, clearSession, DEFAULT_SESSION_IDLE_MINUTES, DEFAULT_LOGIN_LOCKOUT_THRESHOLD, DEFAULT_LOGIN_LOCKOUT_MINUTES, SESSION_REFRESH_INTERVAL_MS } from './lib/session';
+import { can } from './lib/permissions';
+import { quotationToInvoice } from './lib/quotationToInvoice';
+import { derivePaymentStatus, calculateTotals } from './lib/invoiceTotals';
+import { creditNoteFromInvoice } from './lib/creditNotes';
+import { duePeriods, invoiceForPeriod, scheduleFromInvoice } from './lib/recurring';
+import { rateOn, availableCurrencies } from './lib/exchangeRates';
+import { DEFAULT_INVOICE_NUMBER_PATTERN, DEFAULT_QUOTATION_NUMBER_PATTERN, DEFAULT_CREDIT_NOTE_NUMBER_PATTERN } from './lib/documentNumbers';
+import { DEFAULT_BRAND_COLOR } from './lib/documentModel';
+import {
+  EmailMessage, DEFAULT_INVOICE_EMAIL_SUBJECT, DEFAULT_INVOICE_EMAIL_BODY, DEFAULT_QUOTATION_EMAIL_SUBJECT, DEFAULT_QUOTATION_EMAIL_BODY
+} from './lib/documentEmail';
 
 type ViewState = 
   | { type: 'dashboard' }
   | { type: 'invoices' }
-  | { type: 'invoice-editor'; invoiceId?: string; mode?: 'edit' | 'preview'; autoPrint?: boolean }
+  | { type: 'invoice-editor'; invoiceId?: string; fromQuotationId?: string; mode?: 'edit' | 'preview' }
   | { type: 'quotations' }
-  | { type: 'quotation-editor'; quotationId?: string; mode?: 'edit' | 'preview'; autoPrint?: boolean }
+  | { type: 'quotation-editor'; quotationId?: string; mode?: 'edit' | 'preview' }
+  | { type: 'credit-notes' }
+  | { type: 'credit-note-editor'; creditNoteId?: string; invoiceId?: string; mode?: 'edit' | 'preview'; autoPrint?: boolean }
+  | { type: 'recurring'; fromInvoiceId?: string }
+  | { type: 'clients' }
+  | { type: 'client-detail'; clientId: string }
+  | { type: 'catalog' }
   | { type: 'reports' }
   | { type: 'users' }
-  | { type: 'settings' };
+  | { type: 'settings' }
+  | { type: 'audit' }
+  | { type: 'account' };
+
+// Clients open shared documents at ?share=<token>, without signing in
+const shareToken = new URLSearchParams(window.location.search).get('share');
 
 export default function App() {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<string | null>(null);
+  const [loginNotice, setLoginNotice] = useState<string | null>(null);
   const [view, setView] = useState<ViewState>({ type: 'dashboard' });
   const [loading, setLoading] = useState(false);
   const [appInitialized, setAppInitialized] = useState(false);
@@ -36,104 +71,119 @@ export default function App() {
     companyEmail: 'contact@sandpixmaldives.com',
     gstNumber: undefined,
     defaultTaxRate: 6,
+    baseCurrency: 'MVR',
     currencySymbol: 'MVR',
-    logoUrl: undefined
+    logoUrl: undefined,
+    invoiceNumberPattern: DEFAULT_INVOICE_NUMBER_PATTERN,
+    quotationNumberPattern: DEFAULT_QUOTATION_NUMBER_PATTERN,
+    creditNoteNumberPattern: DEFAULT_CREDIT_NOTE_NUMBER_PATTERN,
+    sessionIdleMinutes: DEFAULT_SESSION_IDLE_MINUTES,
+    loginLockoutThreshold: DEFAULT_LOGIN_LOCKOUT_THRESHOLD,
+    loginLockoutMinutes: DEFAULT_LOGIN_LOCKOUT_MINUTES,
+    twoFactorRoles: [],
+    invoiceTemplate: 'classic',
+    quotationTemplate: 'classic',
+    brandColor: DEFAULT_BRAND_COLOR,
+    documentFont: 'sans',
+    documentFooter: '',
+    invoiceEmailSubject: DEFAULT_INVOICE_EMAIL_SUBJECT,
+    invoiceEmailBody: DEFAULT_INVOICE_EMAIL_BODY,
+    quotationEmailSubject: DEFAULT_QUOTATION_EMAIL_SUBJECT,
+    quotationEmailBody: DEFAULT_QUOTATION_EMAIL_BODY
   });
 
   const [users, setUsers] = useState<User[]>([]);
   const [invoices, setInvoices] = useState<InvoiceData[]>([]);
   const [quotations, setQuotations] = useState<QuotationData[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [recurringSchedules, setRecurringSchedules] = useState<RecurringSchedule[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [catalog, setCatalog] = useState<CatalogItem[]>([]);
 
-  // Check for persisted user session
+  // Re-check the stored session with the server so disabled accounts and role changes apply at once
   useEffect(() => {
-    const storedUser = localStorage.getItem('sandpix_user');
-    if (storedUser) {
-      try {
-        const user = JSON.parse(storedUser);
-        setCurrentUser(user);
-        if (user.role === 'viewer') {
-          setView({ type: 'invoices' });
-        }
-      } catch (e) {
-        localStorage.removeItem('sandpix_user');
-      }
+    const session = loadSession();
+    if (!session) {
+      setAppInitialized(true);
+      return;
     }
-    setAppInitialized(true);
+    db.auth.setSessionToken(session.token);
+    db.auth.refreshSession().then(({ data, error }) => {
+      if (error) console.error('Error restoring session:', error);
+      if (data) {
+        handleLogin(data.user, { token: session.token, expiresAt: data.expiresAt });
+      } else {
+        db.auth.setSessionToken(null);
+        clearSession();
+      }
+      setAppInitialized(true);
+    });
   }, []);
 
-  // Fetch Data from Supabase
-  const fetchData = async () => {
+  // Fetch Data from the configured backend
+  const fetchData = async (generateRecurring = true) => {
     try {
       setLoading(true);
       
-      const { data: settingsData } = await supabase.from('settings').select('*').single();
-      if (settingsData) {
-        setSettings({
-          companyName: settingsData.company_name,
-          companyAddress: settingsData.company_address,
-          companyEmail: settingsData.company_email,
-          gstNumber: settingsData.gst_number,
-          defaultTaxRate: settingsData.default_tax_rate,
-          currencySymbol: settingsData.currency_symbol,
-          logoUrl: settingsData.logo_url
-        });
+      // Signed out, only what the login screen shows can be read
+      if (!currentUser) {
+        const { data: publicSettings } = await db.settings.getPublic();
+        if (publicSettings) setSettings(current => ({ ...current, ...publicSettings }));
+        return;
       }
 
-      if (!currentUser) return;
+      const { data: settingsData } = await db.settings.get();
+      const baseCurrency = settingsData?.baseCurrency || settings.baseCurrency;
+      if (settingsData) {
+        setSettings({ ...settingsData, baseCurrency });
+      }
 
-      const { data: usersData } = await supabase.from('users').select('*');
+      const { data: usersData } = await db.users.list();
       if (usersData) setUsers(usersData);
 
-      // Fetch Invoices
-      const { data: invoicesData } = await supabase.from('invoices').select(`*, invoice_items (*)`);
+      const { data: clientsData } = await db.clients.list();
+      if (clientsData) setClients(clientsData);
+
+      const { data: catalogData } = await db.catalog.list();
+      if (catalogData) setCatalog(catalogData);
+
+      const { data: ratesData } = await db.exchangeRates.list();
+      const rates = ratesData || [];
+      if (ratesData) setExchangeRates(ratesData);
+
+      // Fetch Credit Notes first so invoices can carry their credited total
+      const creditedByInvoice: Record<string, number> = {};
+      const { data: creditNotesData } = await db.creditNotes.list();
+      if (creditNotesData) {
+        creditNotesData.filter(cn => cn.status === 'issued').forEach(cn => {
+          creditedByInvoice[cn.invoiceId] = (creditedByInvoice[cn.invoiceId] || 0) + calculateTotals(cn).total;
+        });
+        setCreditNotes(creditNotesData);
+      }
+
+      const { data: invoicesData } = await db.invoices.list();
       if (invoicesData) {
-        setInvoices(invoicesData.map((inv: any) => ({
-          id: inv.id,
-          invoiceNumber: inv.invoice_number,
-          status: inv.status,
-          date: inv.date,
-          dueDate: inv.due_date,
-          clientName: inv.client_name,
-          clientAddress: inv.client_address,
-          clientEmail: inv.client_email,
-          currency: inv.currency,
-          taxRate: inv.tax_rate,
-          notes: inv.notes,
-          terms: inv.terms,
-          items: inv.invoice_items.map((item: any) => ({
-            id: item.id,
-            description: item.description,
-            quantity: item.quantity,
-            rate: item.rate
-          }))
-        })));
+        setInvoices(invoicesData.map(inv => ({ ...inv, creditedAmount: creditedByInvoice[inv.id] || 0 })));
       }
 
-      // Fetch Quotations (assuming a similar table exists or creating logic for it)
-      const { data: quotationsData } = await supabase.from('quotations').select(`*, quotation_items (*)`);
-      if (quotationsData) {
-        setQuotations(quotationsData.map((q: any) => ({
-          id: q.id,
-          quotationNumber: q.quotation_number,
-          status: q.status,
-          date: q.date,
-          validUntil: q.valid_until,
-          clientName: q.client_name,
-          clientAddress: q.client_address,
-          clientEmail: q.client_email,
-          currency: q.currency,
-          taxRate: q.tax_rate,
-          notes: q.notes,
-          terms: q.terms,
-          items: q.quotation_items.map((item: any) => ({
-            id: item.id,
-            description: item.description,
-            quantity: item.quantity,
-            rate: item.rate
-          }))
-        })));
+      const { data: schedules } = await db.recurringSchedules.list();
+      if (schedules) {
+        setRecurringSchedules(schedules);
+
+        // Viewers cannot create invoices, so only editors and admins catch up due schedules
+        if (generateRecurring && can(currentUser, 'invoice.create') && invoicesData) {
+          const generated = await generateRecurringInvoices(schedules, invoicesData, rates, baseCurrency);
+          if (generated > 0) {
+            await fetchData(false);
+            return;
+          }
+        }
       }
 
+      const { data: quotationsData } = await db.quotations.list();
+      if (quotationsData) setQuotations(quotationsData);
+
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
@@ -145,105 +195,479 @@ export default function App() {
     fetchData();
   }, [currentUser]);
 
-  const handleLogin = (user: User) => {
+  // Creates every due invoice that has not been generated yet. A concurrent run by another
+  // session hits the unique (schedule, period) constraint and that period is simply skipped.
+  const generateRecurringInvoices = async (schedules: RecurringSchedule[], existingInvoices: InvoiceData[], rates: ExchangeRate[], baseCurrency: string) => {
+    const today = new Date().toISOString().split('T')[0];
+    let created = 0;
+    for (const schedule of schedules) {
+      const generatedPeriods = existingInvoices
+        .filter(inv => inv.recurringScheduleId === schedule.id)
+        .map(inv => inv.recurringPeriod!);
+      for (const period of duePeriods(schedule, generatedPeriods, today)) {
+        const inv = invoiceForPeriod(schedule, period);
+        const { error } = await db.invoices.save({
+          ...inv,
+          // Auto-issued invoices lock in the rate straight away; missing rates are locked on the next save
+          exchangeRate: inv.status === 'draft' ? undefined : rateOn(inv.currency, inv.date, rates, baseCurrency)
+        });
+        if (error) {
+          if (error.kind !== 'duplicate') console.error('Error generating recurring invoice:', error);
+          continue;
+        }
+        created++;
+      }
+    }
+    return created;
+  };
+
+  const handleLogin = (user: User, session: Session) => {
+    db.auth.setSessionToken(session.token);
+    saveSession(session);
+    setSessionExpiresAt(session.expiresAt);
+    setLoginNotice(null);
     setCurrentUser(user);
-    localStorage.setItem('sandpix_user', JSON.stringify(user));
-    if (user.role === 'viewer') setView({ type: 'invoices' });
+    if (!can(user, 'dashboard.view')) setView({ type: 'invoices' });
   };
 
-  const handleLogout = () => {
+  const handleLogout = async (notice?: string) => {
+    await db.auth.endSession();
+    db.auth.setSessionToken(null);
+    clearSession();
+    setSessionExpiresAt(null);
+    setLoginNotice(notice ?? null);
     setCurrentUser(null);
-    localStorage.removeItem('sandpix_user');
     setView({ type: 'dashboard' });
   };
 
+  // Sign out after the configured idle period or once the session expires. Activity is reported to the
+  // server at most once a minute, which also picks up role changes and ends sessions of disabled accounts.
+  useEffect(() => {
+    if (!currentUser) return;
+    let lastActivity = Date.now();
+    let lastRefresh = Date.now();
+    let refreshing = false;
+
+    const refresh = async () => {
+      refreshing = true;
+      lastRefresh = Date.now();
+      const { data, error } = await db.auth.refreshSession();
+      refreshing = false;
+      if (error) {
+        console.error('Error refreshing session:', error);
+        return;
+      }
+      if (!data) {
+        handleLogout('Your session has ended. Please sign in again.');
+        return;
+      }
+      const user = data.user;
+      setCurrentUser(prev => prev && JSON.stringify(prev) === JSON.stringify(user) ? prev : user);
+    };
+
+    const onActivity = () => {
+      lastActivity = Date.now();
+      if (!refreshing && lastActivity - lastRefresh > SESSION_REFRESH_INTERVAL_MS) refresh();
+    };
+
+    const timer = window.setInterval(() => {
+      if (Date.now() - lastActivity > settings.sessionIdleMinutes * 60 * 1000) {
+        handleLogout(`You were signed out after ${settings.sessionIdleMinutes} minutes of inactivity.`);
+      } else if (sessionExpiresAt && Date.now() > Date.parse(sessionExpiresAt)) {
+        handleLogout('Your session has expired. Please sign in again.');
+      }
+    }, 15 * 1000);
+
+    const activityEvents = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart'];
+    activityEvents.forEach(name => window.addEventListener(name, onActivity, { passive: true }));
+    return () => {
+      window.clearInterval(timer);
+      activityEvents.forEach(name => window.removeEventListener(name, onActivity));
+    };
+  }, [currentUser?.id, settings.sessionIdleMinutes, sessionExpiresAt]);
+
+  const loadAuditLog = async (filter: AuditFilter): Promise<AuditEntry[]> => {
+    const { data, error } = await db.audit.list(filter);
+    if (error) {
+      console.error('Error loading audit log:', error);
+      return [];
+    }
+    return data;
+  };
+
   const handleSettingsUpdate = async (newSettingsOrFn: AppSettings | ((prev: AppSettings) => AppSettings)) => {
     const newSettings = typeof newSettingsOrFn === 'function' ? newSettingsOrFn(settings) : newSettingsOrFn;
     setSettings(newSettings);
-    await supabase.from('settings').upsert({
-      id: 1,
-      company_name: newSettings.companyName,
-      company_address: newSettings.companyAddress,
-      company_email: newSettings.companyEmail,
-      gst_number: newSettings.gstNumber,
-      default_tax_rate: newSettings.defaultTaxRate,
-      currency_symbol: newSettings.currencySymbol,
-      logo_url: newSettings.logoUrl
-    });
+    const { error } = await db.settings.save(newSettings);
+
+    if (error) {
+      console.error('Error saving settings:', error);
+      setSettings(settings);
+      alert(error.kind === 'invalid' ? error.message : 'Could not save settings. Please try again.');
+      return;
+    }
+  };
+
+  const handleSaveUser = async (user: User): Promise<boolean> => {
+    const previous = users.find(u => u.id === user.id);
+    const { error } = await db.users.save(user);
+
+    if (error) {
+      console.error('Error saving user:', error);
+      alert(
+        error.kind === 'duplicate' ? 'Another team member already uses this email address.'
+          : error.kind === 'invalid' ? error.message
+          : 'Could not save user. Please try again.'
+      );
+      return false;
+    }
+
+    // New team members choose their own password from the invitation email
+    if (!previous) await handleInviteUser(user);
+
+    // Keep the signed-in session in step when admins edit their own profile
+    if (user.id === currentUser?.id) setCurrentUser(user);
+    await fetchData();
+    return true;
   };
 
-  const handleUsersUpdate = async (newUsersOrFn: User[] | ((prev: User[]) => User[])) => {
-    const nextUsers = typeof newUsersOrFn === 'function' ? newUsersOrFn(users) : newUsersOrFn;
-    setUsers(nextUsers);
-    // Persist logic already in previous version...
+  const handleInviteUser = async (user: User): Promise<boolean> => {
+    const { error } = await db.users.invite(user);
+    if (error) {
+      console.error('Error sending invite:', error);
+      alert(`Could not send an invitation to ${user.email}. Please try again.`);
+      return false;
+    }
+    alert(`An email with a link to set a password has been sent to ${user.email}.`);
+    return true;
   };
 
-  const handleSaveInvoice = async (data: InvoiceData) => {
-    setLoading(true);
-    const { data: savedInvoice, error: invError } = await supabase.from('invoices').upsert({
-      id: data.id.includes('-') && data.id.length > 20 ? data.id : undefined,
-      invoice_number: data.invoiceNumber,
-      status: data.status,
-      date: data.date,
-      due_date: data.dueDate,
-      client_name: data.clientName,
-      client_address: data.clientAddress,
-      client_email: data.clientEmail,
-      currency: data.currency,
-      tax_rate: data.taxRate,
-      notes: data.notes,
-      terms: data.terms
-    }).select().single();
-
-    if (!invError) {
-      const realId = savedInvoice.id;
-      await supabase.from('invoice_items').delete().eq('invoice_id', realId);
-      const itemsToInsert = data.items.map(item => ({
-        invoice_id: realId,
-        description: item.description,
-        quantity: item.quantity,
-        rate: item.rate
-      }));
-      if (itemsToInsert.length > 0) await supabase.from('invoice_items').insert(itemsToInsert);
+  const handleUnlockUser = async (user: User): Promise<boolean> => {
+    const { error } = await db.users.unlock(user.id);
+    if (error) {
+      console.error('Error unlocking user:', error);
+      alert('Could not unlock this account. Please try again.');
+      return false;
+    }
+    await fetchData();
+    return true;
+  };
+
+  const handleResetTwoFactor = async (user: User): Promise<boolean> => {
+    const { error } = await db.users.resetTwoFactor(user.id);
+    if (error) {
+      console.error('Error resetting two-factor authentication:', error);
+      alert('Could not reset two-factor authentication. Please try again.');
+      return false;
+    }
+    await fetchData();
+    return true;
+  };
+
+  const loadLoginAttempts = async (failedOnly: boolean): Promise<LoginAttempt[]> => {
+    const { data, error } = await db.users.loginAttempts(failedOnly);
+    if (error) {
+      console.error('Error loading sign-in activity:', error);
+      return [];
+    }
+    return data;
+  };
+
+  const handleChangePassword = async (currentPassword: string, newPassword: string): Promise<boolean> => {
+    const { data, error } = await db.auth.changePassword(currentPassword, newPassword);
+    if (error) {
+      console.error('Error changing password:', error);
+      alert(`Could not change your password: ${error.message}`);
+      return false;
+    }
+    if (!data) {
+      alert('Your current password is incorrect.');
+      return false;
+    }
+    return true;
+  };
+
+  const loadTwoFactorStatus = async (): Promise<TwoFactorStatus | null> => {
+    const { data, error } = await db.auth.twoFactorStatus();
+    if (error) {
+      console.error('Error loading two-factor status:', error);
+      return null;
+    }
+    return data;
+  };
+
+  const handleBeginTwoFactor = async (): Promise<string | null> => {
+    const { data, error } = await db.auth.beginTwoFactor();
+    if (error) {
+      console.error('Error starting two-factor setup:', error);
+      alert(`Could not set up two-factor authentication: ${error.message}`);
+      return null;
+    }
+    return data;
+  };
+
+  const handleConfirmTwoFactor = async (code: string): Promise<string[] | null> => {
+    const { data, error } = await db.auth.confirmTwoFactor(code);
+    if (error) {
+      console.error('Error confirming two-factor setup:', error);
+      return null;
+    }
+    return data;
+  };
+
+  const handleDisableTwoFactor = async (password: string): Promise<boolean> => {
+    const { data, error } = await db.auth.disableTwoFactor(password);
+    if (error) {
+      console.error('Error turning off two-factor authentication:', error);
+      alert(`Could not turn off two-factor authentication: ${error.message}`);
+      return false;
+    }
+    return data;
+  };
+
+  const handleRegenerateRecoveryCodes = async (password: string): Promise<string[] | null> => {
+    const { data, error } = await db.auth.regenerateRecoveryCodes(password);
+    if (error) {
+      console.error('Error creating recovery codes:', error);
+      alert(`Could not create new recovery codes: ${error.message}`);
+      return null;
+    }
+    return data;
+  };
+
+  // Document saves return the message for the editor to show, or null once saved.
+  // After a conflict the latest copy is loaded, so the editor can offer it in place of the stale one.
+  const documentSaveError = async (error: DataError, documentName: string) => {
+    if (error.kind === 'conflict') {
       await fetchData();
-      setView({ type: 'invoices' });
+      return `This ${documentName} was changed by ${error.changedBy || 'someone else'} since you opened it. Your changes were not saved.`;
     }
+    if (error.kind === 'forbidden') return `You are not allowed to save this ${documentName}.`;
+    if (error.kind === 'invalid') return error.message;
+    return `Could not save the ${documentName}: ${error.message}`;
+  };
+
+  const handleSaveInvoice = async (invoice: InvoiceData): Promise<string | null> => {
+    const data = { ...invoice, status: derivePaymentStatus(invoice) };
+    // The exchange rate is locked in the first time the invoice leaves draft
+    const exchangeRate = data.status === 'draft'
+      ? undefined
+      : data.exchangeRate ?? rateOn(data.currency, data.date, exchangeRates, settings.baseCurrency);
+    if (data.status !== 'draft' && exchangeRate === undefined) {
+      return `There is no ${data.currency} exchange rate on or before ${data.date}. Add one in Settings before issuing this invoice.`;
+    }
+    setLoading(true);
+    const { error: invError } = await db.invoices.save({ ...data, exchangeRate });
+
+    if (invError) {
+      console.error('Error saving invoice:', invError);
+      const message = invError.kind === 'duplicate' && invError.field === 'invoiceNumber'
+        ? `Invoice number ${data.invoiceNumber} is already in use. The invoice was not saved.`
+        : invError.kind === 'duplicate' && data.quotationId
+          ? 'This quotation has already been converted to an invoice.'
+          : await documentSaveError(invError, 'invoice');
+      setLoading(false);
+      return message;
+    }
+    await fetchData();
+    setView({ type: 'invoices' });
+    setLoading(false);
+    return null;
+  };
+
+  const handleSaveQuotation = async (data: QuotationData): Promise<string | null> => {
+    setLoading(true);
+    const { error: qError } = await db.quotations.save(data);
+
+    if (qError) {
+      console.error('Error saving quotation:', qError);
+      const message = qError.kind === 'duplicate' && qError.field === 'quotationNumber'
+        ? `Quotation number ${data.quotationNumber} is already in use. The quotation was not saved.`
+        : await documentSaveError(qError, 'quotation');
+      setLoading(false);
+      return message;
+    }
+    await fetchData();
+    setView({ type: 'quotations' });
     setLoading(false);
+    return null;
   };
 
-  const handleSaveQuotation = async (data: QuotationData) => {
+  const handleSaveCreditNote = async (data: CreditNote) => {
     setLoading(true);
-    const { data: savedQuotation, error: qError } = await supabase.from('quotations').upsert({
-      id: data.id.includes('-') && data.id.length > 20 ? data.id : undefined,
-      quotation_number: data.quotationNumber,
-      status: data.status,
-      date: data.date,
-      valid_until: data.validUntil,
-      client_name: data.clientName,
-      client_address: data.clientAddress,
-      client_email: data.clientEmail,
-      currency: data.currency,
-      tax_rate: data.taxRate,
-      notes: data.notes,
-      terms: data.terms
-    }).select().single();
-
-    if (!qError) {
-      const realId = savedQuotation.id;
-      await supabase.from('quotation_items').delete().eq('quotation_id', realId);
-      const itemsToInsert = data.items.map(item => ({
-        quotation_id: realId,
-        description: item.description,
-        quantity: item.quantity,
-        rate: item.rate
-      }));
-      if (itemsToInsert.length > 0) await supabase.from('quotation_items').insert(itemsToInsert);
+    const { error: cnError } = await db.creditNotes.save(data);
+
+    if (cnError) {
+      console.error('Error saving credit note:', cnError);
+      alert(cnError.kind === 'invalid' ? cnError.message : 'Could not save credit note. Please try again.');
+    } else {
       await fetchData();
-      setView({ type: 'quotations' });
+      setView({ type: 'credit-notes' });
     }
     setLoading(false);
   };
 
+  const handleSaveRecurringSchedule = async (schedule: RecurringSchedule): Promise<boolean> => {
+    const { error } = await db.recurringSchedules.save(schedule);
+
+    if (error) {
+      console.error('Error saving recurring schedule:', error);
+      alert('Could not save recurring schedule. Please try again.');
+      return false;
+    }
+    await fetchData();
+    return true;
+  };
+
+  const handleSaveClient = async (client: Client): Promise<boolean> => {
+    const { error } = await db.clients.save(client);
+
+    if (error) {
+      console.error('Error saving client:', error);
+      alert(error.kind === 'duplicate' ? 'A client with this name already exists.' : 'Could not save client. Please try again.');
+      return false;
+    }
+    await fetchData();
+    return true;
+  };
+
+  const handleSaveCatalogItem = async (item: CatalogItem): Promise<boolean> => {
+    const { error } = await db.catalog.save(item);
+
+    if (error) {
+      console.error('Error saving catalog item:', error);
+      alert(error.kind === 'duplicate' ? 'A catalog item with this name already exists.' : 'Could not save catalog item. Please try again.');
+      return false;
+    }
+    await fetchData();
+    return true;
+  };
+
+  // Imported rates replace any existing rate for the same currency and date
+  const handleSaveExchangeRates = async (rates: Omit<ExchangeRate, 'id'>[]): Promise<boolean> => {
+    const { error } = await db.exchangeRates.save(rates);
+
+    if (error) {
+      console.error('Error saving exchange rates:', error);
+      alert('Could not save exchange rates. Please try again.');
+      return false;
+    }
+    await fetchData();
+    return true;
+  };
+
+  const handleDeleteExchangeRate = async (id: string) => {
+    const { error } = await db.exchangeRates.remove(id);
+    if (error) {
+      console.error('Error deleting exchange rate:', error);
+      alert('Could not delete exchange rate. Please try again.');
+      return;
+    }
+    await fetchData();
+  };
+
+  // The PDF library is only loaded the first time a PDF is made
+  const handleDownloadPdf = async (download: (pdf: typeof import('./lib/pdf')) => Promise<void>) => {
+    try {
+      await download(await import('./lib/pdf'));
+    } catch (err) {
+      console.error('Error creating PDF:', err);
+      alert('Could not create the PDF. Please try again.');
+    }
+  };
+
+  // The PDF is made from the saved document and goes out with the message as the user left it in the send form
+  const handleSendDocument = async (
+    documentType: DocumentEmail['documentType'],
+    documentId: string,
+    message: EmailMessage,
+    attach: (pdf: typeof import('./lib/pdf')) => Promise<{ name: string; content: string }>
+  ): Promise<string | null> => {
+    let file;
+    try {
+      file = await attach(await import('./lib/pdf'));
+    } catch (err) {
+      console.error('Error creating PDF:', err);
+      return 'Could not create the PDF. Please try again.';
+    }
+
+    const { error } = await db.emails.send({
+      documentType,
+      documentId,
+      to: message.to,
+      subject: message.subject,
+      body: message.body,
+      attachmentName: file.name,
+      attachment: file.content
+    });
+    if (error) {
+      console.error('Error sending email:', error);
+      if (error.kind === 'forbidden') return `You are not allowed to send this ${documentType}.`;
+      if (error.kind === 'invalid') return error.message;
+      return `Could not send the ${documentType}: ${error.message}`;
+    }
+    await fetchData();
+    return null;
+  };
+
+  const loadDocumentEmails = async (documentType: DocumentEmail['documentType'], documentId: string): Promise<DocumentEmail[]> => {
+    const { data, error } = await db.emails.list(documentType, documentId);
+    if (error) {
+      console.error('Error loading sent emails:', error);
+      return [];
+    }
+    return data;
+  };
+
+  // The token is only available now; the database keeps a hash of it
+  const handleCreateShareLink = async (
+    documentType: ShareLink['documentType'],
+    document: { id: string; status: string }
+  ): Promise<string | null> => {
+    const { data, error } = await db.shareLinks.create(documentType, document.id);
+    if (error) {
+      console.error('Error creating share link:', error);
+      alert(error.kind === 'forbidden' ? `You are not allowed to share this ${documentType}.` : `Could not create the link: ${error.message}`);
+      return null;
+    }
+    // Sharing moves a draft quotation to sent, as emailing it does
+    if (documentType === 'quotation' && document.status === 'draft') await fetchData();
+    return `${window.location.origin}${window.location.pathname}?share=${data}`;
+  };
+
+  const handleRevokeShareLink = async (linkId: string): Promise<boolean> => {
+    const { error } = await db.shareLinks.revoke(linkId);
+    if (error) {
+      console.error('Error revoking share link:', error);
+      alert(`Could not revoke the link: ${error.message}`);
+      return false;
+    }
+    return true;
+  };
+
+  const loadShareLinks = async (documentType: ShareLink['documentType'], documentId: string): Promise<ShareLink[]> => {
+    const { data, error } = await db.shareLinks.list(documentType, documentId);
+    if (error) {
+      console.error('Error loading share links:', error);
+      return [];
+    }
+    return data;
+  };
+
+  // A draft converted from another document gets fresh ids, so it is built once when the conversion starts
+  // rather than on every render, which would hand the editor a new document each time
+  const fromQuotationId = view.type === 'invoice-editor' ? view.fromQuotationId : undefined;
+  const convertedInvoice = useMemo(() => {
+    const sourceQuotation = fromQuotationId ? quotations.find(q => q.id === fromQuotationId) : undefined;
+    return sourceQuotation ? quotationToInvoice(sourceQuotation) : null;
+  }, [fromQuotationId]);
+
+  const creditedInvoiceId = view.type === 'credit-note-editor' && !view.creditNoteId ? view.invoiceId : undefined;
+  const newCreditNote = useMemo(() => {
+    const creditedInvoice = creditedInvoiceId ? invoices.find(i => i.id === creditedInvoiceId) : undefined;
+    return creditedInvoice ? creditNoteFromInvoice(creditedInvoice) : null;
+  }, [creditedInvoiceId]);
+
   const changeView = (newView: ViewState) => {
     setView(newView);
     setMobileMenuOpen(false);
@@ -260,37 +684,49 @@ export default function App() {
 
     switch(view.type) {
       case 'dashboard':
-        return <Dashboard invoices={invoices} users={users} currency={settings.currencySymbol} />;
+        return <Dashboard invoices={invoices} creditNotes={creditNotes} users={users} exchangeRates={exchangeRates} baseCurrency={settings.baseCurrency} />;
       case 'invoices':
         return <InvoiceList 
           invoices={invoices} 
-          currency={settings.currencySymbol}
           onCreate={() => changeView({ type: 'invoice-editor', mode: 'edit' })}
           onEdit={(inv) => changeView({ type: 'invoice-editor', invoiceId: inv.id, mode: 'edit' })}
           onView={(inv) => changeView({ type: 'invoice-editor', invoiceId: inv.id, mode: 'preview' })}
-          onDownload={(inv) => changeView({ type: 'invoice-editor', invoiceId: inv.id, mode: 'preview', autoPrint: true })}
+          onDownload={(inv) => handleDownloadPdf(pdf => pdf.downloadInvoicePdf(inv, settings))}
           currentUser={currentUser!}
         />;
       case 'invoice-editor':
-        const initialInv = view.invoiceId ? invoices.find(i => i.id === view.invoiceId) : null;
+        const initialInv = view.invoiceId ? invoices.find(i => i.id === view.invoiceId) : convertedInvoice;
         return <InvoiceEditor 
           initialData={initialInv} 
           settings={settings}
           onSave={handleSaveInvoice}
           onBack={() => changeView({ type: 'invoices' })} 
+          onCreateCreditNote={(inv) => changeView({ type: 'credit-note-editor', invoiceId: inv.id, mode: 'edit' })}
+          onMakeRecurring={(inv) => changeView({ type: 'recurring', fromInvoiceId: inv.id })}
+          onLoadHistory={(invoiceId) => loadAuditLog({ entityType: 'invoice', entityId: invoiceId })}
+          onDownload={(inv) => handleDownloadPdf(pdf => pdf.downloadInvoicePdf(inv, settings))}
+          onSend={(inv, message) => handleSendDocument('invoice', inv.id, message, pdf => pdf.invoicePdfAttachment(inv, settings))}
+          onLoadEmails={(invoiceId) => loadDocumentEmails('invoice', invoiceId)}
+          onCreateShareLink={(inv) => handleCreateShareLink('invoice', inv)}
+          onRevokeShareLink={handleRevokeShareLink}
+          onLoadShareLinks={(invoiceId) => loadShareLinks('invoice', invoiceId)}
+          clients={clients}
+          currencies={availableCurrencies(exchangeRates, settings.baseCurrency)}
+          catalog={catalog}
+          exchangeRates={exchangeRates}
           isSaving={loading}
           initialMode={view.mode || 'edit'}
-          autoPrint={view.autoPrint}
           currentUser={currentUser!}
         />;
       case 'quotations':
         return <QuotationList 
           quotations={quotations} 
-          currency={settings.currencySymbol}
           onCreate={() => changeView({ type: 'quotation-editor', mode: 'edit' })}
           onEdit={(q) => changeView({ type: 'quotation-editor', quotationId: q.id, mode: 'edit' })}
           onView={(q) => changeView({ type: 'quotation-editor', quotationId: q.id, mode: 'preview' })}
-          onDownload={(q) => changeView({ type: 'quotation-editor', quotationId: q.id, mode: 'preview', autoPrint: true })}
+          onDownload={(q) => handleDownloadPdf(pdf => pdf.downloadQuotationPdf(q, settings))}
+          onConvert={(q) => changeView({ type: 'invoice-editor', fromQuotationId: q.id, mode: 'edit' })}
+          onOpenInvoice={(invoiceId) => changeView({ type: 'invoice-editor', invoiceId, mode: 'preview' })}
           currentUser={currentUser!}
         />;
       case 'quotation-editor':
@@ -300,17 +736,121 @@ export default function App() {
           settings={settings}
           onSave={handleSaveQuotation}
           onBack={() => changeView({ type: 'quotations' })} 
+          clients={clients}
+          currencies={availableCurrencies(exchangeRates, settings.baseCurrency)}
+          catalog={catalog}
+          exchangeRates={exchangeRates}
+          onConvert={(q) => changeView({ type: 'invoice-editor', fromQuotationId: q.id, mode: 'edit' })}
+          onOpenInvoice={(invoiceId) => changeView({ type: 'invoice-editor', invoiceId, mode: 'preview' })}
+          onDownload={(q) => handleDownloadPdf(pdf => pdf.downloadQuotationPdf(q, settings))}
+          onSend={(q, message) => handleSendDocument('quotation', q.id, message, pdf => pdf.quotationPdfAttachment(q, settings))}
+          onLoadEmails={(quotationId) => loadDocumentEmails('quotation', quotationId)}
+          onCreateShareLink={(q) => handleCreateShareLink('quotation', q)}
+          onRevokeShareLink={handleRevokeShareLink}
+          onLoadShareLinks={(quotationId) => loadShareLinks('quotation', quotationId)}
+          isSaving={loading}
+          initialMode={view.mode || 'edit'}
+          currentUser={currentUser!}
+        />;
+      case 'credit-notes':
+        return <CreditNoteList
+          creditNotes={creditNotes}
+          onView={(cn) => changeView({ type: 'credit-note-editor', creditNoteId: cn.id, mode: 'preview' })}
+          onEdit={(cn) => changeView({ type: 'credit-note-editor', creditNoteId: cn.id, mode: 'edit' })}
+          onDownload={(cn) => changeView({ type: 'credit-note-editor', creditNoteId: cn.id, mode: 'preview', autoPrint: true })}
+          currentUser={currentUser!}
+        />;
+      case 'credit-note-editor':
+        const initialCn = view.creditNoteId ? creditNotes.find(cn => cn.id === view.creditNoteId) : newCreditNote;
+        if (!initialCn) return <div>Not found</div>;
+        return <CreditNoteEditor
+          initialData={initialCn}
+          invoice={invoices.find(i => i.id === initialCn.invoiceId) || null}
+          creditNotes={creditNotes}
+          settings={settings}
+          onSave={handleSaveCreditNote}
+          onBack={() => changeView({ type: 'credit-notes' })}
           isSaving={loading}
           initialMode={view.mode || 'edit'}
           autoPrint={view.autoPrint}
           currentUser={currentUser!}
         />;
+      case 'recurring':
+        const templateInvoice = view.fromInvoiceId ? invoices.find(i => i.id === view.fromInvoiceId) : null;
+        return <RecurringSchedules
+          schedules={recurringSchedules}
+          invoices={invoices}
+          initialDraft={templateInvoice ? scheduleFromInvoice(templateInvoice) : null}
+          onSave={handleSaveRecurringSchedule}
+          onViewInvoice={(inv) => changeView({ type: 'invoice-editor', invoiceId: inv.id, mode: 'preview' })}
+          currentUser={currentUser!}
+        />;
+      case 'clients':
+        return <Clients
+          clients={clients}
+          invoices={invoices}
+          exchangeRates={exchangeRates}
+          baseCurrency={settings.baseCurrency}
+          onSave={handleSaveClient}
+          onView={(c) => changeView({ type: 'client-detail', clientId: c.id })}
+          currentUser={currentUser!}
+        />;
+      case 'client-detail':
+        const client = clients.find(c => c.id === view.clientId);
+        if (!client) return <div>Not found</div>;
+        return <ClientDetail
+          client={client}
+          invoices={invoices}
+          quotations={quotations}
+          exchangeRates={exchangeRates}
+          baseCurrency={settings.baseCurrency}
+          onBack={() => changeView({ type: 'clients' })}
+          onViewInvoice={(inv) => changeView({ type: 'invoice-editor', invoiceId: inv.id, mode: 'preview' })}
+          onViewQuotation={(q) => changeView({ type: 'quotation-editor', quotationId: q.id, mode: 'preview' })}
+        />;
+      case 'catalog':
+        return <Catalog
+          catalog={catalog}
+          currency={settings.baseCurrency}
+          defaultTaxRate={settings.defaultTaxRate}
+          onSave={handleSaveCatalogItem}
+          currentUser={currentUser!}
+        />;
       case 'reports':
-        return <Reports invoices={invoices} currency={settings.currencySymbol} />;
+        return <Reports invoices={invoices} creditNotes={creditNotes} catalog={catalog} exchangeRates={exchangeRates} baseCurrency={settings.baseCurrency} />;
       case 'users':
-        return <Users users={users} setUsers={handleUsersUpdate} currentUser={currentUser!} />;
+        return <Users
+          users={users}
+          onSave={handleSaveUser}
+          onInvite={handleInviteUser}
+          onUnlock={handleUnlockUser}
+          onResetTwoFactor={handleResetTwoFactor}
+          onLoadLoginAttempts={loadLoginAttempts}
+          currentUser={currentUser!}
+        />;
       case 'settings':
-        return <Settings settings={settings} setSettings={handleSettingsUpdate} currentUser={currentUser!} />;
+        return <Settings
+          settings={settings}
+          setSettings={handleSettingsUpdate}
+          exchangeRates={exchangeRates}
+          baseCurrencyLocked={exchangeRates.length > 0 || invoices.length > 0 || quotations.length > 0 || creditNotes.length > 0}
+          onSaveExchangeRates={handleSaveExchangeRates}
+          onDeleteExchangeRate={handleDeleteExchangeRate}
+          currentUser={currentUser!}
+        />;
+      case 'account':
+        return <Account
+          user={currentUser!}
+          issuer={settings.companyName}
+          onChangePassword={handleChangePassword}
+          onLoadTwoFactorStatus={loadTwoFactorStatus}
+          onBeginTwoFactor={handleBeginTwoFactor}
+          onConfirmTwoFactor={handleConfirmTwoFactor}
+          onDisableTwoFactor={handleDisableTwoFactor}
+          onRegenerateRecoveryCodes={handleRegenerateRecoveryCodes}
+        />;
+      case 'audit':
+        return <AuditLog users={users} onLoad={loadAuditLog} />;
       default:
         return <div>Not found</div>;
     }
@@ -319,15 +859,14 @@ export default function App() {
   const navItemClass = (active: boolean) => 
     `flex items-center gap-3 px-4 py-3 text-sm font-medium rounded-lg transition-colors ${active ? 'bg-sandpix-600 text-white' : 'text-gray-300 hover:bg-white/10 hover:text-white'}`;
 
+  if (shareToken) return <SharedDocument token={shareToken} />;
   if (!appInitialized) return null;
-  if (!currentUser) return <Login onLogin={handleLogin} logoUrl={settings.logoUrl} companyName={settings.companyName} />;
+  if (!currentUser) return <Login onLogin={handleLogin} notice={loginNotice} logoUrl={settings.logoUrl} companyName={settings.companyName} />;
 
-  if (view.type === 'invoice-editor' || view.type === 'quotation-editor') {
+  if (view.type === 'invoice-editor' || view.type === 'quotation-editor' || view.type === 'credit-note-editor') {
     return <div className="bg-gray-100 min-h-screen">{renderView()}</div>;
   }
 
-  const isViewer = currentUser.role === 'viewer';
-
   return (
     <div className="flex h-screen bg-gray-100 overflow-hidden">
       <div className="md:hidden fixed top-0 left-0 right-0 h-16 bg-slate-900 z-20 flex items-center px-4 justify-between border-b border-white/10 shadow-md">
@@ -364,29 +903,34 @@ export default function App() {
 
         <nav className="flex-1 p-4 space-y-2 overflow-y-auto">
           <div className="px-4 py-2 mb-2 text-xs font-semibold text-gray-500 uppercase tracking-wider">Menu</div>
-          {!isViewer && <button onClick={() => changeView({ type: 'dashboard' })} className={navItemClass(view.type === 'dashboard')}><LayoutDashboardIcon /> Dashboard</button>}
+          {can(currentUser, 'dashboard.view') && <button onClick={() => changeView({ type: 'dashboard' })} className={navItemClass(view.type === 'dashboard')}><LayoutDashboardIcon /> Dashboard</button>}
           <button onClick={() => changeView({ type: 'quotations' })} className={navItemClass(view.type === 'quotations')}><ClipboardListIcon /> Quotations</button>
+          <button onClick={() => changeView({ type: 'clients' })} className={navItemClass(view.type === 'clients' || view.type === 'client-detail')}><BriefcaseIcon /> Clients</button>
+          <button onClick={() => changeView({ type: 'catalog' })} className={navItemClass(view.type === 'catalog')}><PackageIcon /> Catalog</button>
           <button onClick={() => changeView({ type: 'invoices' })} className={navItemClass(view.type === 'invoices')}><FileTextIcon /> Invoices</button>
+          <button onClick={() => changeView({ type: 'credit-notes' })} className={navItemClass(view.type === 'credit-notes')}><ReceiptIcon /> Credit Notes</button>
+          <button onClick={() => changeView({ type: 'recurring' })} className={navItemClass(view.type === 'recurring')}><RepeatIcon /> Recurring</button>
           <button onClick={() => changeView({ type: 'reports' })} className={navItemClass(view.type === 'reports')}><BarChartIcon /> Reports</button>
           
-          {!isViewer && (
+          {(can(currentUser, 'team.view') || can(currentUser, 'settings.view')) && (
             <>
               <div className="px-4 py-2 mt-6 mb-2 text-xs font-semibold text-gray-500 uppercase tracking-wider">Administration</div>
-              <button onClick={() => changeView({ type: 'users' })} className={navItemClass(view.type === 'users')}><UsersIcon /> Team</button>
-               <button onClick={() => changeView({ type: 'settings' })} className={navItemClass(view.type === 'settings')}><SettingsIcon /> Settings</button>
+              {can(currentUser, 'team.view') && <button onClick={() => changeView({ type: 'users' })} className={navItemClass(view.type === 'users')}><UsersIcon /> Team</button>}
+              {can(currentUser, 'settings.view') && <button onClick={() => changeView({ type: 'settings' })} className={navItemClass(view.type === 'settings')}><SettingsIcon /> Settings</button>}
+              {can(currentUser, 'audit.view') && <button onClick={() => changeView({ type: 'audit' })} className={navItemClass(view.type === 'audit')}><HistoryIcon /> Audit Log</button>}
             </>
           )}
         </nav>
         
         <div className="p-4 border-t border-white/10 safe-area-bottom">
-          <div className="flex items-center gap-3 px-4 py-3 mb-2">
+          <button onClick={() => changeView({ type: 'account' })} title="My account" className={`flex items-center gap-3 px-4 py-3 mb-2 w-full text-left rounded-lg transition-colors ${view.type === 'account' ? 'bg-white/10' : 'hover:bg-white/5'}`}>
             <div className="w-8 h-8 rounded-full bg-sandpix-600 flex items-center justify-center text-sm font-bold shrink-0">{currentUser.name.charAt(0).toUpperCase()}</div>
             <div className="flex-1 overflow-hidden">
                <p className="text-sm font-medium truncate">{currentUser.name}</p>
                <p className="text-xs text-gray-400 truncate capitalize">{currentUser.role}</p>
             </div>
-          </div>
-          <button onClick={handleLogout} className="flex items-center gap-3 px-4 py-2 text-sm font-medium text-red-300 hover:text-red-100 hover:bg-white/5 rounded-lg transition-colors w-full">
+          </button>
+          <button onClick={() => handleLogout()} className="flex items-center gap-3 px-4 py-2 text-sm font-medium text-red-300 hover:text-red-100 hover:bg-white/5 rounded-lg transition-colors w-full">
             <LogOutIcon /> Sign Out
           </button>
         </div>
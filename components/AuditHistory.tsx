@@ -0,0 +1,71 @@
+import React, { useState, useEffect } from 'react';
+import { AuditChange, AuditEntry } from '../types';
+import { auditFieldLabel, formatAuditValue } from '../lib/audit';
+
+export const formatAuditTime = (value: string) => new Date(value).toLocaleString();
+
+export function AuditChangeList({ changes }: { changes: AuditChange[] }) {
+  if (changes.length === 0) return <span className="text-gray-400">No field changes</span>;
+  return (
+    <ul className="space-y-0.5">
+      {changes.map(change => (
+        <li key={change.field}>
+          <span className="font-medium text-gray-700">{auditFieldLabel(change.field)}:</span>{' '}
+          <span className="text-gray-400 line-through break-words">{formatAuditValue(change.from)}</span>{' '}
+          → <span className="text-gray-800 break-words">{formatAuditValue(change.to)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface AuditHistoryProps {
+  load: () => Promise<AuditEntry[]>;
+}
+
+// Collapsible change history for a single document, loaded when first opened
+export default function AuditHistory({ load }: AuditHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+
+  useEffect(() => {
+    if (isOpen && entries === null) load().then(setEntries);
+  }, [isOpen]);
+
+  return (
+    <div className="mt-6 bg-white rounded-xl shadow-sm border border-gray-100 no-print">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-6 py-4 flex justify-between items-center text-sm font-semibold text-gray-700 hover:bg-gray-50 rounded-xl"
+      >
+        History
+        <span className="text-xs font-normal text-gray-400">{isOpen ? 'Hide' : 'Show'}</span>
+      </button>
+      {isOpen && (
+        <div className="px-6 pb-6">
+          {entries === null ? (
+            <p className="text-sm text-gray-400">Loading...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-400">No changes recorded yet.</p>
+          ) : (
+            <ol className="space-y-4 border-l border-gray-200 pl-4">
+              {entries.map(entry => (
+                <li key={entry.id} className="text-sm">
+                  <p className="text-gray-900">
+                    <span className="font-medium">{entry.actorName || 'Unknown user'}</span>{' '}
+                    {entry.action === 'create' ? 'created' : 'updated'} this document
+                    <span className="text-xs text-gray-400 ml-2">{formatAuditTime(entry.createdAt)}</span>
+                  </p>
+                  <div className="mt-1 text-xs text-gray-500">
+                    <AuditChangeList changes={entry.changes} />
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { CatalogItem } from '../types';
+
+interface CatalogAutocompleteProps {
+  value: string;
+  catalog: CatalogItem[];
+  currency: string;
+  onChange: (description: string) => void;
+  onSelect: (item: CatalogItem) => void;
+  className?: string;
+}
+
+// Description field for a line item that offers matching active catalog items while typing
+export default function CatalogAutocomplete({ value, catalog, currency, onChange, onSelect, className }: CatalogAutocompleteProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const query = value.trim().toLowerCase();
+  const matches = query
+    ? catalog.filter(item => item.active && (item.name.toLowerCase().includes(query) || item.description.toLowerCase().includes(query))).slice(0, 6)
+    : [];
+
+  return (
+    <div className="relative">
+      <textarea
+        dir="auto"
+        value={value}
+        onChange={e => { onChange(e.target.value); setIsOpen(true); }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        placeholder="Item description"
+        rows={1}
+        className={className}
+        onInput={(e) => {
+          const target = e.target as HTMLTextAreaElement;
+          target.style.height = "auto";
+          target.style.height = target.scrollHeight + "px";
+        }}
+      />
+      {isOpen && matches.length > 0 && (
+        <ul className="absolute z-10 left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden no-print">
+          {matches.map(item => (
+            <li key={item.id}>
+              {/* onMouseDown fires before the textarea blurs and closes the list */}
+              <button
+                type="button"
+                onMouseDown={e => { e.preventDefault(); onSelect(item); setIsOpen(false); }}
+                className="w-full text-left px-3 py-2 hover:bg-sandpix-50 transition-colors"
+              >
+                <p className="text-sm font-medium text-gray-900">{item.name}</p>
+                <p className="text-xs text-gray-500">
+                  {item.rate.toLocaleString()} {currency} / {item.unit || 'unit'}
+                  {item.taxExempt ? ' · GST exempt' : item.taxRate !== undefined ? ` · GST ${item.taxRate}%` : ''}
+                </p>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
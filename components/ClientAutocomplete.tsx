@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { Client } from '../types';
+
+interface ClientAutocompleteProps {
+  value: string;
+  clients: Client[];
+  onChange: (name: string) => void;
+  onSelect: (client: Client) => void;
+  className?: string;
+}
+
+export default function ClientAutocomplete({ value, clients, onChange, onSelect, className }: ClientAutocompleteProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const query = value.trim().toLowerCase();
+  const matches = query
+    ? clients.filter(c => c.name.toLowerCase().includes(query) || c.email.toLowerCase().includes(query)).slice(0, 6)
+    : [];
+
+  return (
+    <div className="relative">
+      <input
+        dir="auto"
+        placeholder="Client Name"
+        value={value}
+        onChange={e => { onChange(e.target.value); setIsOpen(true); }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        className={className}
+      />
+      {isOpen && matches.length > 0 && (
+        <ul className="absolute z-10 left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden no-print">
+          {matches.map(client => (
+            <li key={client.id}>
+              {/* onMouseDown fires before the input blurs and closes the list */}
+              <button
+                type="button"
+                onMouseDown={e => { e.preventDefault(); onSelect(client); setIsOpen(false); }}
+                className="w-full text-left px-3 py-2 hover:bg-sandpix-50 transition-colors"
+              >
+                <p className="text-sm font-medium text-gray-900">{client.name}</p>
+                {client.email && <p className="text-xs text-gray-500">{client.email}</p>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,184 @@
+import React from 'react';
+import { DocumentTemplate, PublicSettings } from '../types';
+import { PrintableDocument, DocumentTotal, documentFont } from '../lib/documentModel';
+import { DocumentLabel, documentLabel } from '../lib/documentLabels';
+import { PalmTreeIcon } from './Icons';
+
+interface DocumentLayoutProps {
+  document: PrintableDocument;
+  template: DocumentTemplate;
+  settings: PublicSettings;
+}
+
+// The page as it is previewed and printed. lib/pdf.ts draws the same templates for downloads,
+// so a change to one layout here needs the matching change there.
+// Sides are logical (start/end) so Dhivehi documents mirror; figures sit in <bdi> so they keep reading left to right.
+export default function DocumentLayout({ document: doc, template, settings }: DocumentLayoutProps) {
+  const brand = settings.brandColor;
+  const compact = template === 'compact';
+  const modern = template === 'modern';
+  const label = `${compact ? 'text-[10px]' : 'text-xs'} font-bold uppercase tracking-wider`;
+  const cell = compact ? 'py-1.5' : 'py-4';
+  const text = (key: DocumentLabel) => documentLabel(doc.language, key);
+
+  const logo = doc.company.logoUrl ? (
+    <img src={doc.company.logoUrl} alt="Logo" className={`${compact ? 'h-12' : 'h-20'} w-auto object-contain`} />
+  ) : (
+    <div
+      className={`${compact ? 'w-12 h-12' : 'w-16 h-16'} rounded-lg flex items-center justify-center`}
+      style={{ backgroundColor: modern ? 'rgba(255, 255, 255, 0.15)' : `${brand}1a`, color: modern ? '#ffffff' : brand }}
+    >
+      <PalmTreeIcon className={compact ? 'w-6 h-6' : 'w-8 h-8'} />
+    </div>
+  );
+
+  const companyLines = (
+    <>
+      <p className="whitespace-pre-line"><bdi>{doc.company.address}</bdi></p>
+      <p><bdi>{doc.company.email}</bdi></p>
+      {doc.company.gstNumber && <p>{text('gstNumber')}: <bdi>{doc.company.gstNumber}</bdi></p>}
+    </>
+  );
+
+  const details = (
+    <div className={compact ? 'space-y-0.5' : 'space-y-2'}>
+      {doc.details.map(detail => (
+        <div key={detail.label} className="flex flex-row justify-end gap-4 items-center">
+          <span className={`${compact ? 'text-[10px]' : 'text-sm'} font-semibold text-gray-600 uppercase`}>{detail.label}</span>
+          <bdi className="text-gray-900">{detail.value}</bdi>
+        </div>
+      ))}
+    </div>
+  );
+
+  const totalRow = (total: DocumentTotal) => {
+    if (total.emphasis === 'breakdown') {
+      return (
+        <div key={total.label} className="flex justify-between text-xs text-gray-500 ps-2 border-s-2 border-gray-100">
+          <span>{total.label}</span>
+          <bdi>{total.value}</bdi>
+        </div>
+      );
+    }
+    if (total.emphasis) {
+      const size = total.emphasis === 'total' ? (compact ? 'text-base' : 'text-xl') : (compact ? 'text-sm' : 'text-lg');
+      return (
+        <div
+          key={total.label}
+          className={`flex justify-between ${size} font-bold border-t pt-3`}
+          style={{ color: modern ? brand : '#111827', borderColor: modern ? brand : '#e5e7eb' }}
+        >
+          <span>{total.label}</span>
+          <bdi>{total.value}</bdi>
+        </div>
+      );
+    }
+    return (
+      <div key={total.label} className="flex justify-between text-gray-600">
+        <span>{total.label}</span>
+        <bdi>{total.value}</bdi>
+      </div>
+    );
+  };
+
+  const headings = [
+    text('description'), text('quantity'), text('rate'),
+    ...(doc.columns.discount ? [text('lineDiscount')] : []), ...(doc.columns.tax ? [text('lineTax')] : []), text('amount')
+  ];
+
+  return (
+    <div
+      dir={doc.direction}
+      lang={doc.language === 'dv' ? 'dv' : 'en'}
+      className={`bg-white rounded-xl shadow-lg print:shadow-none print:rounded-none max-w-[210mm] min-w-[210mm] mx-auto overflow-hidden text-gray-900 ${compact ? 'p-8 text-sm' : 'p-12'}`}
+      style={{ fontFamily: documentFont(settings.documentFont).css }}
+    >
+      {/* Header */}
+      {modern ? (
+        <>
+          <div className="-mx-12 -mt-12 px-12 py-8 mb-8 flex flex-row justify-between items-center gap-8 text-white" style={{ backgroundColor: brand }}>
+            <div className="flex items-center gap-4">
+              {logo}
+              <h2 className="font-bold leading-tight" style={{ fontSize: '16pt' }}>{doc.company.name}</h2>
+            </div>
+            <h1 className="text-4xl font-light uppercase tracking-widest">{doc.title}</h1>
+          </div>
+          <div className="flex flex-row justify-between items-start gap-8 mb-10">
+            <div className="text-sm text-gray-500">{companyLines}</div>
+            {details}
+          </div>
+        </>
+      ) : (
+        <div className={`flex flex-row justify-between items-start gap-8 ${compact ? 'mb-6' : 'mb-12'}`}>
+          <div className={`flex ${compact ? 'flex-row items-center gap-4' : 'flex-col items-start gap-2'}`}>
+            {logo}
+            <div className={compact ? '' : 'mt-2'}>
+              <h2 className="font-bold text-gray-900 leading-tight" style={{ fontSize: compact ? '12pt' : '14pt' }}>{doc.company.name}</h2>
+              <div className={`${compact ? 'text-xs' : 'text-sm mt-1'} text-gray-500`}>{companyLines}</div>
+            </div>
+          </div>
+          <div className="text-end">
+            <h1 className={`${compact ? 'text-2xl mb-2' : 'text-4xl mb-4'} font-light uppercase tracking-widest`} style={{ color: brand }}>{doc.title}</h1>
+            {details}
+          </div>
+        </div>
+      )}
+
+      {/* Client */}
+      <div className={compact ? 'mb-6' : 'mb-12'}>
+        <h3 className={`${label} mb-3`} style={{ color: brand }}>{doc.clientHeading}</h3>
+        <p className={`font-bold ${compact ? 'text-base' : 'text-lg'}`}><bdi>{doc.client.name || text('noClient')}</bdi></p>
+        <p className="whitespace-pre-line"><bdi>{doc.client.address}</bdi></p>
+        <p><bdi>{doc.client.email}</bdi></p>
+      </div>
+
+      {/* Items */}
+      <table className={`w-full ${compact ? 'mb-6' : 'mb-8'}`}>
+        <thead>
+          <tr className="border-b-2" style={modern ? { backgroundColor: brand, borderColor: brand } : { borderColor: brand }}>
+            {headings.map((heading, index) => (
+              <th
+                key={heading}
+                className={`${index === 0 ? 'text-start w-[50%]' : 'text-end'} ${compact ? 'py-1.5' : 'py-3'} ${modern ? 'px-2 text-white' : 'text-gray-400'} ${label}`}
+              >
+                {heading}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {doc.lines.map(line => (
+            <tr key={line.id} className="avoid-break">
+              <td className={`${cell} ${modern ? 'px-2' : ''} align-top font-medium text-gray-800 whitespace-pre-wrap`}><bdi>{line.description}</bdi></td>
+              <td className={`${cell} ${modern ? 'px-2' : ''} align-top text-end text-gray-600`}><bdi>{line.quantity}</bdi></td>
+              <td className={`${cell} ${modern ? 'px-2' : ''} align-top text-end text-gray-600`}><bdi>{line.rate}</bdi></td>
+              {doc.columns.discount && <td className={`${cell} ${modern ? 'px-2' : ''} align-top text-end text-gray-600`}><bdi>{line.discount}</bdi></td>}
+              {doc.columns.tax && <td className={`${cell} ${modern ? 'px-2' : ''} align-top text-end text-gray-600`}><bdi>{line.tax}</bdi></td>}
+              <td className={`${cell} ${modern ? 'px-2' : ''} align-top text-end font-medium text-gray-900`}><bdi>{line.amount}</bdi></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* Totals & Notes */}
+      <div className={`flex flex-row border-t border-gray-100 avoid-break ${compact ? 'gap-8 pt-4' : 'gap-12 pt-8'}`}>
+        <div className={`flex-1 ${compact ? 'space-y-3' : 'space-y-6'}`}>
+          {[[text('notes'), doc.notes], [text('terms'), doc.terms]].filter(([, body]) => body).map(([heading, body]) => (
+            <div key={heading}>
+              <h3 className={`${label} mb-2`} style={{ color: brand }}>{heading}</h3>
+              <p dir="auto" className={`${compact ? 'text-xs' : 'text-sm'} text-gray-600 whitespace-pre-line`}>{body}</p>
+            </div>
+          ))}
+        </div>
+        <div className={`${compact ? 'w-72 space-y-1.5' : 'w-80 space-y-3'}`}>
+          {doc.totals.map(totalRow)}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className={`${compact ? 'mt-8' : 'mt-16'} text-center text-xs text-gray-400 whitespace-pre-line`}>
+        <p>{doc.footer}</p>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
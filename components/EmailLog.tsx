@@ -0,0 +1,46 @@
+import React, { useState, useEffect } from 'react';
+import { DocumentEmail } from '../types';
+import { formatAuditTime } from './AuditHistory';
+
+const STATUS_STYLES: Record<DocumentEmail['status'], string> = {
+  queued: 'bg-yellow-100 text-yellow-700',
+  sent: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700'
+};
+
+interface EmailLogProps {
+  load: () => Promise<DocumentEmail[]>;
+}
+
+// Emails sent for a single document; hidden until there is at least one
+export default function EmailLog({ load }: EmailLogProps) {
+  const [emails, setEmails] = useState<DocumentEmail[]>([]);
+
+  useEffect(() => {
+    load().then(setEmails);
+  }, []);
+
+  if (emails.length === 0) return null;
+  return (
+    <div className="mt-6 bg-white rounded-xl shadow-sm border border-gray-100 p-6 no-print">
+      <h3 className="text-sm font-semibold text-gray-700 mb-3">Sent Emails</h3>
+      <ul className="divide-y divide-gray-50">
+        {emails.map(email => (
+          <li key={email.id} className="py-2 text-sm flex flex-col md:flex-row md:items-center justify-between gap-1">
+            <div>
+              <p className="text-gray-900">
+                <span className="font-medium">{email.toAddress}</span>
+                <span className="text-gray-500"> · {email.subject}</span>
+              </p>
+              <p className="text-xs text-gray-400">
+                {email.sentByName || 'Unknown user'}, {formatAuditTime(email.createdAt)}
+                {email.lastError && email.status !== 'sent' && <span className="text-red-500"> · {email.lastError}</span>}
+              </p>
+            </div>
+            <span className={`self-start md:self-auto px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[email.status]}`}>{email.status}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
\ No newline at end of file
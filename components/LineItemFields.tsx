@@ -0,0 +1,100 @@
+import React from 'react';
+import { DiscountType, InvoiceItem } from '../types';
+import { TaxBreakdownLine } from '../lib/invoiceTotals';
+
+const formatAmount = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function formatDiscount(type: DiscountType | undefined, value: number | undefined, currency: string) {
+  if (!value) return '';
+  return type === 'fixed' ? `${currency}${formatAmount(value)}` : `${value}%`;
+}
+
+interface DiscountFieldProps {
+  type?: DiscountType;
+  value?: number;
+  currency: string;
+  onChange: (type: DiscountType, value: number) => void;
+}
+
+export function DiscountField({ type = 'percent', value, currency, onChange }: DiscountFieldProps) {
+  return (
+    <div className="flex items-center justify-end gap-1">
+      <input
+        type="number"
+        min="0"
+        value={value || ''}
+        placeholder="0"
+        onChange={e => onChange(type, parseFloat(e.target.value) || 0)}
+        className="w-14 text-right bg-transparent focus:outline-none text-gray-600"
+      />
+      <select
+        value={type}
+        onChange={e => onChange(e.target.value as DiscountType, value || 0)}
+        className="bg-transparent text-xs text-gray-500 focus:outline-none"
+      >
+        <option value="percent">%</option>
+        <option value="fixed">{currency}</option>
+      </select>
+    </div>
+  );
+}
+
+interface LineTaxFieldProps {
+  item: InvoiceItem;
+  documentTaxRate: number;
+  onChange: (changes: Partial<InvoiceItem>) => void;
+}
+
+// Blank rate means the line follows the document rate
+export function LineTaxField({ item, documentTaxRate, onChange }: LineTaxFieldProps) {
+  return (
+    <div className="flex flex-col items-end gap-1">
+      {!item.taxExempt && (
+        <div className="flex items-center justify-end">
+          <input
+            type="number"
+            min="0"
+            value={item.taxRate ?? ''}
+            placeholder={String(documentTaxRate)}
+            onChange={e => onChange({ taxRate: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0 })}
+            className="w-12 text-right bg-transparent focus:outline-none text-gray-600"
+          />
+          <span className="text-xs text-gray-500">%</span>
+        </div>
+      )}
+      <label className="flex items-center gap-1 text-xs text-gray-400">
+        <input
+          type="checkbox"
+          checked={!!item.taxExempt}
+          onChange={e => onChange({ taxExempt: e.target.checked })}
+        />
+        Exempt
+      </label>
+    </div>
+  );
+}
+
+export function lineTaxLabel(item: InvoiceItem, documentTaxRate: number) {
+  if (item.taxExempt) return 'Exempt';
+  return `${item.taxRate ?? documentTaxRate}%`;
+}
+
+interface TaxBreakdownRowsProps {
+  breakdown: TaxBreakdownLine[];
+  currency: string;
+}
+
+// Printed under the tax total whenever a document mixes rates or exempt lines
+export function TaxBreakdownRows({ breakdown, currency }: TaxBreakdownRowsProps) {
+  if (breakdown.length < 2 && !breakdown.some(line => line.exempt)) return null;
+  return (
+    <div className="space-y-1 text-xs text-gray-500 pl-2 border-l-2 border-gray-100">
+      {breakdown.map(line => (
+        <div key={line.exempt ? 'exempt' : line.rate} className="flex justify-between">
+          <span>{line.exempt ? 'Exempt' : `GST ${line.rate}%`} on {currency}{formatAmount(line.taxable)}</span>
+          <span>{currency}{formatAmount(line.tax)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { EmailMessage } from '../lib/documentEmail';
+import { MailIcon } from './Icons';
+
+interface SendDocumentFormProps {
+  initialMessage: EmailMessage; // Filled in from the email templates in Settings
+  attachmentName: string;
+  onSend: (message: EmailMessage) => Promise<string | null>; // Resolves to the error to show, or null once queued
+  onCancel: () => void;
+}
+
+export default function SendDocumentForm({ initialMessage, attachmentName, onSend, onCancel }: SendDocumentFormProps) {
+  const [message, setMessage] = useState(initialMessage);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSend = async () => {
+    if (!message.to.trim()) {
+      setError("Enter the client's email address.");
+      return;
+    }
+    setIsSending(true);
+    setError(null);
+    const sendError = await onSend(message);
+    setIsSending(false);
+    setError(sendError);
+  };
+
+  return (
+    <div className="mb-6 bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4 no-print">
+      <h3 className="text-sm font-semibold text-gray-700 flex items-center gap-2"><MailIcon className="w-4 h-4" /> Send to Client</h3>
+      {error && <div className="p-3 bg-red-50 border border-red-100 text-red-600 text-sm rounded-lg">{error}</div>}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+        <input
+          type="email"
+          value={message.to}
+          onChange={e => setMessage({ ...message, to: e.target.value })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Subject</label>
+        <input
+          value={message.subject}
+          onChange={e => setMessage({ ...message, subject: e.target.value })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Message</label>
+        <textarea
+          rows={7}
+          value={message.body}
+          onChange={e => setMessage({ ...message, body: e.target.value })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500"
+        />
+        <p className="mt-1 text-xs text-gray-500">Attached: {attachmentName}</p>
+      </div>
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={onCancel}
+          disabled={isSending}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSend}
+          disabled={isSending}
+          className="px-6 py-2 text-sm font-medium text-white bg-sandpix-600 rounded-lg hover:bg-sandpix-700 transition-colors shadow-sm disabled:opacity-70"
+        >
+          {isSending ? 'Sending...' : 'Send'}
+        </button>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
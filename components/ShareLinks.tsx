@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import { ShareLink } from '../types';
+import { formatAuditTime } from './AuditHistory';
+import { LinkIcon } from './Icons';
+
+interface ShareLinksProps {
+  load: () => Promise<ShareLink[]>;
+  onCreate: () => Promise<string | null>; // Resolves to the new link's URL, or null if it could not be created
+  onRevoke: (linkId: string) => Promise<boolean>;
+  canManage: boolean;
+}
+
+const linkState = (link: ShareLink) => {
+  if (link.revokedAt) return { label: 'Revoked', style: 'bg-gray-100 text-gray-600' };
+  if (link.expiresOn && link.expiresOn < new Date().toISOString().split('T')[0]) return { label: 'Expired', style: 'bg-yellow-100 text-yellow-700' };
+  return { label: 'Active', style: 'bg-green-100 text-green-700' };
+};
+
+// Read-only links for the client. Only a hash of each link is stored, so a new link is shown once, right after it is created.
+export default function ShareLinks({ load, onCreate, onRevoke, canManage }: ShareLinksProps) {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [newUrl, setNewUrl] = useState<string | null>(null);
+  const [isCopied, setIsCopied] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    load().then(setLinks);
+  }, []);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    const url = await onCreate();
+    setIsCreating(false);
+    if (!url) return;
+    setNewUrl(url);
+    setIsCopied(false);
+    setLinks(await load());
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(newUrl!);
+      setIsCopied(true);
+    } catch (err) {
+      console.error('Error copying link:', err);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!window.confirm('Revoke this link? The client will no longer be able to open it.')) return;
+    if (await onRevoke(link.id)) setLinks(await load());
+  };
+
+  if (!canManage && links.length === 0) return null;
+  return (
+    <div className="mt-6 bg-white rounded-xl shadow-sm border border-gray-100 p-6 no-print">
+      <div className="flex justify-between items-center gap-3 mb-3">
+        <h3 className="text-sm font-semibold text-gray-700">Share Links</h3>
+        {canManage && (
+          <button
+            onClick={handleCreate}
+            disabled={isCreating}
+            className="flex items-center gap-2 px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium disabled:opacity-70"
+          >
+            <LinkIcon className="w-4 h-4" /> {isCreating ? 'Creating...' : 'Create Link'}
+          </button>
+        )}
+      </div>
+
+      {newUrl && (
+        <div className="mb-4 p-4 bg-sandpix-50 border border-sandpix-100 rounded-lg">
+          <div className="flex flex-col md:flex-row gap-2">
+            <input
+              readOnly
+              value={newUrl}
+              onFocus={e => e.target.select()}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono bg-white focus:outline-none"
+            />
+            <button
+              onClick={handleCopy}
+              className="px-4 py-2 text-sm font-medium text-white bg-sandpix-600 rounded-lg hover:bg-sandpix-700 transition-colors whitespace-nowrap"
+            >
+              {isCopied ? 'Copied' : 'Copy Link'}
+            </button>
+          </div>
+          <p className="mt-2 text-xs text-gray-600">Copy this link now and send it to the client. It cannot be shown again.</p>
+        </div>
+      )}
+
+      {links.length === 0 ? (
+        <p className="text-sm text-gray-500">No links yet. A link lets the client view this document without signing in.</p>
+      ) : (
+        <ul className="divide-y divide-gray-50">
+          {links.map(link => {
+            const state = linkState(link);
+            return (
+              <li key={link.id} className="py-2 text-sm flex flex-col md:flex-row md:items-center justify-between gap-1">
+                <div>
+                  <p className="text-gray-900">
+                    Created by <span className="font-medium">{link.createdByName || 'Unknown user'}</span>, {formatAuditTime(link.createdAt)}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    {link.viewCount === 0 ? 'Not opened yet' : `Opened ${link.viewCount} ${link.viewCount === 1 ? 'time' : 'times'}, last ${formatAuditTime(link.lastViewedAt!)}`}
+                    {link.expiresOn && ` · Expires after ${link.expiresOn}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3 self-start md:self-auto">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${state.style}`}>{state.label}</span>
+                  {canManage && state.label === 'Active' && (
+                    <button onClick={() => handleRevoke(link)} className="text-xs font-medium text-red-600 hover:text-red-700">Revoke</button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,70 @@
+import React, { useState, useEffect } from 'react';
+import { totpUri, totpQrCode, formatTotpSecret, recoveryCodesText } from '../lib/twoFactor';
+
+interface TotpEnrolmentProps {
+  secret: string;
+  accountName: string;
+  issuer: string;
+}
+
+// QR code to scan with an authenticator app, with the secret spelled out for manual entry
+export function TotpEnrolment({ secret, accountName, issuer }: TotpEnrolmentProps) {
+  const [qrCode, setQrCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    totpQrCode(totpUri(secret, accountName, issuer)).then(setQrCode, err => console.error('Error drawing QR code:', err));
+  }, [secret, accountName, issuer]);
+
+  return (
+    <div className="space-y-3 text-sm text-gray-600">
+      <p>Scan this QR code with an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password.</p>
+      <div className="flex justify-center">
+        {qrCode ? (
+          <img src={qrCode} alt="Two-factor QR code" className="w-48 h-48 border border-gray-200 rounded" />
+        ) : (
+          <div className="w-48 h-48 bg-gray-50 border border-gray-200 rounded" />
+        )}
+      </div>
+      <p>
+        Can't scan it? Enter this key instead:{' '}
+        <code className="block mt-1 px-2 py-1 bg-gray-50 border border-gray-200 rounded font-mono text-xs text-gray-800 break-all">{formatTotpSecret(secret)}</code>
+      </p>
+    </div>
+  );
+}
+
+interface RecoveryCodeListProps {
+  codes: string[];
+  issuer: string;
+}
+
+// Shown once after enrolment or regeneration; only hashes are kept in the database
+export function RecoveryCodeList({ codes, issuer }: RecoveryCodeListProps) {
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([recoveryCodesText(codes, issuer)], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <p className="text-gray-600">
+        Keep these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator. They will not be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 p-3 bg-gray-50 border border-gray-200 rounded font-mono text-gray-800">
+        {codes.map(code => <li key={code}>{code}</li>)}
+      </ul>
+      <div className="flex gap-4">
+        <button type="button" onClick={download} className="text-sandpix-600 hover:text-sandpix-800 font-medium">
+          Download
+        </button>
+        <button type="button" onClick={() => navigator.clipboard.writeText(codes.join('\n'))} className="text-sandpix-600 hover:text-sandpix-800 font-medium">
+          Copy
+        </button>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,112 @@
+import { AppSettings, AuditChange, AuditEntityType, AuditValue, DiscountType, InvoiceData, InvoiceItem, QuotationData, User } from '../types';
+import { calculateTotals } from './invoiceTotals';
+
+type AuditRecord = Record<string, AuditValue | undefined>;
+
+export interface AuditFilter {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actorId?: string;
+  from?: string; // Inclusive dates, yyyy-mm-dd
+  to?: string;
+  limit?: number;
+}
+
+const describeItems = (items: InvoiceItem[]) =>
+  items.map(item => `${item.quantity} × ${item.description} @ ${item.rate}`).join('; ');
+
+const describeDiscount = (type?: DiscountType, value?: number) =>
+  value ? (type === 'fixed' ? `${value}` : `${value}%`) : null;
+
+// Documents are flattened into readable values so line items and payments show up as one field each
+export function invoiceAuditRecord(invoice: InvoiceData): AuditRecord {
+  return {
+    invoiceNumber: invoice.invoiceNumber,
+    status: invoice.status,
+    date: invoice.date,
+    dueDate: invoice.dueDate,
+    clientName: invoice.clientName,
+    clientAddress: invoice.clientAddress,
+    clientEmail: invoice.clientEmail,
+    currency: invoice.currency,
+    exchangeRate: invoice.exchangeRate,
+    taxRate: invoice.taxRate,
+    discount: describeDiscount(invoice.discountType, invoice.discountValue),
+    items: describeItems(invoice.items),
+    payments: invoice.payments.filter(p => p.amount > 0).map(p => `${p.date} ${p.amount} (${p.method.replace('_', ' ')})`).join('; '),
+    total: calculateTotals(invoice).total,
+    notes: invoice.notes,
+    terms: invoice.terms,
+    language: invoice.language
+  };
+}
+
+export function quotationAuditRecord(quotation: QuotationData): AuditRecord {
+  return {
+    quotationNumber: quotation.quotationNumber,
+    status: quotation.status,
+    date: quotation.date,
+    validUntil: quotation.validUntil,
+    clientName: quotation.clientName,
+    clientAddress: quotation.clientAddress,
+    clientEmail: quotation.clientEmail,
+    currency: quotation.currency,
+    taxRate: quotation.taxRate,
+    discount: describeDiscount(quotation.discountType, quotation.discountValue),
+    items: describeItems(quotation.items),
+    total: calculateTotals(quotation).total,
+    notes: quotation.notes,
+    terms: quotation.terms,
+    language: quotation.language
+  };
+}
+
+export function settingsAuditRecord(settings: AppSettings): AuditRecord {
+  const { logoUrl, twoFactorRoles, ...rest } = settings;
+  return {
+    ...rest,
+    twoFactorRoles: twoFactorRoles.join(', '),
+    // Uploaded logos are data URLs; keep the log readable
+    logoUrl: logoUrl?.startsWith('data:') ? `Uploaded image (${Math.round(logoUrl.length * 3 / 4 / 1024)} KB)` : logoUrl
+  };
+}
+
+export function userAuditRecord(user: User): AuditRecord {
+  return {
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    active: user.active !== false,
+    twoFactor: user.twoFactorEnabled ? 'On' : 'Off'
+  };
+}
+
+const normalize = (value: AuditValue | undefined): AuditValue => value === undefined || value === '' ? null : value;
+
+// Field-level differences; with no previous record every field that has a value is listed
+export function auditChanges(before: AuditRecord | undefined, after: AuditRecord): AuditChange[] {
+  return Object.keys(after)
+    .map(field => ({ field, from: normalize(before?.[field]), to: normalize(after[field]) }))
+    .filter(change => change.from !== change.to);
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  gstNumber: 'GST Number',
+  taxRate: 'Tax Rate (%)',
+  defaultTaxRate: 'Default Tax Rate (%)',
+  logoUrl: 'Logo',
+  password: 'Password',
+  twoFactor: 'Two-Factor Authentication',
+  twoFactorRoles: 'Two-Factor Required For',
+  brandColor: 'Brand Colour'
+};
+
+export function auditFieldLabel(field: string) {
+  return FIELD_LABELS[field] || field.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+}
+
+export function formatAuditValue(value: AuditValue) {
+  if (value === null) return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
\ No newline at end of file
@@ -0,0 +1,137 @@
+// Visual ordering of mixed Dhivehi and English text for the PDF, where there is no text engine to do it.
+// This is the part of the Unicode Bidirectional Algorithm (UAX #9) that document text needs: one line
+// at a time, no explicit embeddings, numbers kept left to right and bracket pairs resolved together.
+// Browsers run the full algorithm themselves, so the screen layout only sets dir and isolates values.
+
+type BidiType = 'L' | 'R' | 'EN' | 'ES' | 'ET' | 'CS' | 'WS' | 'ON';
+
+const MIRRORED: Record<string, string> = { '(': ')', ')': '(', '[': ']', ']': '[', '{': '}', '}': '{', '<': '>', '>': '<', '«': '»', '»': '«' };
+const BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+const typeOf = (char: string): BidiType => {
+  if (/[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufeff]/.test(char)) return 'R'; // Thaana, and Arabic or Hebrew if pasted in
+  if (/[0-9]/.test(char)) return 'EN';
+  if (char === '+' || char === '-') return 'ES';
+  if (/[#$%\u00a2-\u00a5\u00b0\u20a0-\u20cf]/.test(char)) return 'ET';
+  if (/[,.:/\u00a0]/.test(char)) return 'CS';
+  if (/\s/.test(char)) return 'WS';
+  if (/\p{L}/u.test(char)) return 'L';
+  return 'ON';
+};
+
+// Numbers count as right to left when deciding the direction of the neutrals around them
+const strong = (type: BidiType): 'L' | 'R' | null => (type === 'EN' ? 'R' : type === 'L' || type === 'R' ? type : null);
+
+// Direction of the first letter, as the browser does for dir="auto"; text without letters reads left to right
+export function textDirection(text: string): 'ltr' | 'rtl' {
+  for (const char of text) {
+    const type = typeOf(char);
+    if (type === 'L') return 'ltr';
+    if (type === 'R') return 'rtl';
+  }
+  return 'ltr';
+}
+
+// Letters with their combining marks (Thaana fili), which always stay together
+export function clusters(text: string) {
+  const result: string[] = [];
+  for (const char of text) {
+    if (result.length > 0 && /\p{M}/u.test(char)) result[result.length - 1] += char;
+    else result.push(char);
+  }
+  return result;
+}
+
+// The clusters of one line in the order they are drawn, left to right, with brackets mirrored inside right-to-left runs
+export function visualOrder(text: string, direction: 'ltr' | 'rtl') {
+  const units = clusters(text);
+  const embedding: 'L' | 'R' = direction === 'rtl' ? 'R' : 'L';
+  const original = units.map(unit => typeOf(unit));
+  const types = [...original];
+  const n = types.length;
+
+  // Separators inside a number and symbols attached to it (10,000.00, 8%) belong to the number
+  for (let i = 1; i < n - 1; i++) {
+    if ((types[i] === 'ES' || types[i] === 'CS') && types[i - 1] === 'EN' && types[i + 1] === 'EN') types[i] = 'EN';
+  }
+  for (let i = 0; i < n; i++) {
+    if (types[i] !== 'ET') continue;
+    let end = i;
+    while (end < n && types[end] === 'ET') end++;
+    if ((i > 0 && types[i - 1] === 'EN') || (end < n && types[end] === 'EN')) types.fill('EN', i, end);
+    i = end - 1;
+  }
+  for (let i = 0; i < n; i++) {
+    if (types[i] === 'ES' || types[i] === 'ET' || types[i] === 'CS') types[i] = 'ON';
+  }
+  // A number after English text is part of it (MVR1,000.00)
+  let lastStrong: BidiType = embedding;
+  for (let i = 0; i < n; i++) {
+    if (types[i] === 'L' || types[i] === 'R') lastStrong = types[i];
+    else if (types[i] === 'EN' && lastStrong === 'L') types[i] = 'L';
+  }
+
+  // Bracket pairs take the direction of what they enclose, so "ޖީއެސްޓީ (8%)" keeps both brackets with the Thaana
+  const open: { index: number; close: string }[] = [];
+  const pairs: [number, number][] = [];
+  units.forEach((unit, i) => {
+    if (types[i] !== 'ON') return;
+    if (BRACKETS[unit]) open.push({ index: i, close: BRACKETS[unit] });
+    else {
+      const match = open.map(entry => entry.close).lastIndexOf(unit);
+      if (match >= 0) {
+        pairs.push([open[match].index, i]);
+        open.length = match;
+      }
+    }
+  });
+  pairs.sort((a, b) => a[0] - b[0]).forEach(([from, to]) => {
+    const inside = types.slice(from + 1, to).map(strong);
+    if (inside.includes(embedding)) types[from] = types[to] = embedding;
+    else if (inside.some(Boolean)) {
+      // Only the opposite direction inside: the pair follows whatever comes before it
+      let before: 'L' | 'R' = embedding;
+      for (let i = from - 1; i >= 0; i--) {
+        const type = strong(types[i]);
+        if (type) {
+          before = type;
+          break;
+        }
+      }
+      types[from] = types[to] = before;
+    }
+  });
+
+  // Spaces and punctuation between two runs of the same direction join them; otherwise they follow the line
+  for (let i = 0; i < n; i++) {
+    if (types[i] !== 'WS' && types[i] !== 'ON') continue;
+    let end = i;
+    while (end < n && (types[end] === 'WS' || types[end] === 'ON')) end++;
+    const before = (i > 0 && strong(types[i - 1])) || embedding;
+    const after = (end < n && strong(types[end])) || embedding;
+    types.fill(before === after ? before : embedding, i, end);
+    i = end - 1;
+  }
+
+  const baseLevel = direction === 'rtl' ? 1 : 0;
+  const levels = types.map(type => {
+    if (type === 'EN') return 2;
+    if (baseLevel === 0) return type === 'R' ? 1 : 0;
+    return type === 'L' ? 2 : 1;
+  });
+  // Trailing spaces stay at the end of the line
+  for (let i = n - 1; i >= 0 && original[i] === 'WS'; i--) levels[i] = baseLevel;
+
+  const order = units.map((unit, i) => ({ unit: levels[i] % 2 === 1 && MIRRORED[unit] ? MIRRORED[unit] : unit, level: levels[i] }));
+  const highest = Math.max(0, ...levels);
+  for (let level = highest; level >= 1; level--) {
+    for (let i = 0; i < n; i++) {
+      if (order[i].level < level) continue;
+      let end = i;
+      while (end < n && order[end].level >= level) end++;
+      order.splice(i, end - i, ...order.slice(i, end).reverse());
+      i = end - 1;
+    }
+  }
+  return order.map(entry => entry.unit);
+}
\ No newline at end of file
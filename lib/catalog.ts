@@ -0,0 +1,15 @@
+import { CatalogItem, ExchangeRate, InvoiceItem } from '../types';
+import { rateOn } from './exchangeRates';
+
+// Catalog prices are kept in the base currency and converted at the document date's rate.
+// Without a rate the base price is used as is so the line can still be corrected by hand.
+export function lineFromCatalog(item: CatalogItem, currency: string, date: string, rates: ExchangeRate[], baseCurrency: string): Partial<InvoiceItem> {
+  const exchangeRate = rateOn(currency, date, rates, baseCurrency);
+  return {
+    catalogItemId: item.id,
+    description: item.description || item.name,
+    rate: exchangeRate ? Math.round(item.rate / exchangeRate * 100) / 100 : item.rate,
+    taxRate: item.taxRate,
+    taxExempt: item.taxExempt
+  };
+}
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { CreditNote, InvoiceData } from '../types';
+import { calculateTotals } from './invoiceTotals';
+
+// Start a draft credit note for the whole invoice; lines can then be removed or reduced.
+// A fixed document discount is carried over as its equivalent percentage so that
+// crediting part of the invoice also credits a matching share of the discount.
+export function creditNoteFromInvoice(invoice: InvoiceData): CreditNote {
+  const { subtotal, discount } = calculateTotals(invoice);
+  return {
+    id: crypto.randomUUID(),
+    creditNoteNumber: '', // Allocated on save
+    status: 'draft',
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    date: new Date().toISOString().split('T')[0],
+    reason: '',
+    clientId: invoice.clientId,
+    clientName: invoice.clientName,
+    clientAddress: invoice.clientAddress,
+    clientEmail: invoice.clientEmail,
+    currency: invoice.currency,
+    taxRate: invoice.taxRate,
+    discountType: 'percent',
+    discountValue: subtotal > 0 ? discount / subtotal * 100 : 0,
+    refundAmount: 0,
+    exchangeRate: invoice.exchangeRate,
+    items: invoice.items.map(item => ({ ...item, id: crypto.randomUUID() }))
+  };
+}
+
+// How much of the invoice can still be credited, ignoring the credit note being edited
+export function creditableAmount(invoice: InvoiceData, creditNotes: CreditNote[], excludeId?: string) {
+  const alreadyCredited = creditNotes
+    .filter(cn => cn.invoiceId === invoice.id && cn.status === 'issued' && cn.id !== excludeId)
+    .reduce((sum, cn) => sum + calculateTotals(cn).total, 0);
+  return Math.max(0, calculateTotals(invoice).total - alreadyCredited);
+}
\ No newline at end of file
@@ -0,0 +1,10 @@
+import { createLocalBackend } from './localBackend';
+import { createSupabaseBackend } from './supabaseBackend';
+import { DataBackend } from './types';
+
+export * from './types';
+
+// Set VITE_DATA_BACKEND=local to run against the in-memory backend instead of Supabase
+const backendName = (import.meta.env && import.meta.env.VITE_DATA_BACKEND) || 'supabase';
+
+export const db: DataBackend = backendName === 'local' ? createLocalBackend() : createSupabaseBackend();
\ No newline at end of file
@@ -0,0 +1,699 @@
+import {
+  AppSettings, AuditAction, AuditChange, AuditEntityType, AuditEntry, CatalogItem, Client, CreditNote, DocumentEmail, ExchangeRate, InvoiceData, LoginAttempt, QuotationData,
+  RecurringSchedule, ShareLink, User
+} from '../../types';
+import { Permission, can } from '../permissions';
+import {
+  formatDocumentNumber, DEFAULT_INVOICE_NUMBER_PATTERN, DEFAULT_QUOTATION_NUMBER_PATTERN, DEFAULT_CREDIT_NOTE_NUMBER_PATTERN
+} from '../documentNumbers';
+import { DEFAULT_SESSION_IDLE_MINUTES, DEFAULT_LOGIN_LOCKOUT_THRESHOLD, DEFAULT_LOGIN_LOCKOUT_MINUTES } from '../session';
+import { DEFAULT_BRAND_COLOR } from '../documentModel';
+import {
+  DEFAULT_INVOICE_EMAIL_SUBJECT, DEFAULT_INVOICE_EMAIL_BODY, DEFAULT_QUOTATION_EMAIL_SUBJECT, DEFAULT_QUOTATION_EMAIL_BODY
+} from '../documentEmail';
+import { calculateTotals } from '../invoiceTotals';
+import { creditableAmount } from '../creditNotes';
+import { auditChanges, invoiceAuditRecord, quotationAuditRecord, settingsAuditRecord, userAuditRecord } from '../audit';
+import { DataBackend, DataError, DataResult } from './types';
+
+// In-memory backend for running the app and automated tests without a Supabase project.
+// It keeps the rules the database enforces (permissions, unique numbers, gap-free numbering, the last admin)
+// but not the sign-in hardening: there is no throttling, lockout or two-factor step. Everything resets on reload.
+
+export interface LocalUser extends User {
+  password: string;
+}
+
+export interface LocalSeed {
+  settings?: Partial<AppSettings>;
+  users?: LocalUser[];
+  invoices?: InvoiceData[];
+  quotations?: QuotationData[];
+  creditNotes?: CreditNote[];
+  recurringSchedules?: RecurringSchedule[];
+  clients?: Client[];
+  catalog?: CatalogItem[];
+  exchangeRates?: ExchangeRate[];
+}
+
+// Signs in to an empty local backend
+export const LOCAL_DEMO_USER = { email: 'admin@example.com', password: 'password' };
+
+const DEFAULT_SETTINGS: AppSettings = {
+  companyName: 'SANDPIX MALDIVES',
+  companyAddress: 'Maafushi, Kaafu Atoll\nRepublic of Maldives',
+  companyEmail: 'contact@sandpixmaldives.com',
+  defaultTaxRate: 6,
+  baseCurrency: 'MVR',
+  currencySymbol: 'MVR',
+  invoiceNumberPattern: DEFAULT_INVOICE_NUMBER_PATTERN,
+  quotationNumberPattern: DEFAULT_QUOTATION_NUMBER_PATTERN,
+  creditNoteNumberPattern: DEFAULT_CREDIT_NOTE_NUMBER_PATTERN,
+  sessionIdleMinutes: DEFAULT_SESSION_IDLE_MINUTES,
+  loginLockoutThreshold: DEFAULT_LOGIN_LOCKOUT_THRESHOLD,
+  loginLockoutMinutes: DEFAULT_LOGIN_LOCKOUT_MINUTES,
+  twoFactorRoles: [],
+  invoiceTemplate: 'classic',
+  quotationTemplate: 'classic',
+  brandColor: DEFAULT_BRAND_COLOR,
+  documentFont: 'sans',
+  documentFooter: '',
+  invoiceEmailSubject: DEFAULT_INVOICE_EMAIL_SUBJECT,
+  invoiceEmailBody: DEFAULT_INVOICE_EMAIL_BODY,
+  quotationEmailSubject: DEFAULT_QUOTATION_EMAIL_SUBJECT,
+  quotationEmailBody: DEFAULT_QUOTATION_EMAIL_BODY
+};
+
+const SESSION_LIFETIME_MS = 12 * 60 * 60 * 1000;
+const LINK_LIFETIME_MS = { invite: 7 * 24 * 60 * 60 * 1000, reset: 60 * 60 * 1000 };
+
+const TWO_FACTOR_UNAVAILABLE = 'Two-factor authentication is not available with the local backend';
+
+// Callers get copies so editing a returned object never changes the store
+const copy = <T>(value: T): T => structuredClone(value);
+
+const ok = <T>(data: T): DataResult<T> => ({ data: copy(data), error: null });
+const fail = <T>(kind: DataError['kind'], message: string, field?: string): DataResult<T> => ({ data: null, error: { kind, message, field } });
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const publicUser = ({ password, ...user }: LocalUser): User => user;
+
+function upsert<T extends { id: string }>(list: T[], record: T) {
+  const index = list.findIndex(existing => existing.id === record.id);
+  if (index === -1) list.push(record);
+  else list[index] = record;
+}
+
+export function createLocalBackend(seed: LocalSeed = {}): DataBackend {
+  let settings: AppSettings = { ...DEFAULT_SETTINGS, ...seed.settings };
+  const users: LocalUser[] = copy(seed.users ?? [{
+    id: crypto.randomUUID(),
+    name: 'Admin',
+    email: LOCAL_DEMO_USER.email,
+    role: 'admin',
+    active: true,
+    password: LOCAL_DEMO_USER.password
+  }]);
+  const invoices: InvoiceData[] = copy(seed.invoices ?? []);
+  const quotations: QuotationData[] = copy(seed.quotations ?? []);
+  const creditNotes: CreditNote[] = copy(seed.creditNotes ?? []);
+  const recurringSchedules: RecurringSchedule[] = copy(seed.recurringSchedules ?? []);
+  const clients: Client[] = copy(seed.clients ?? []);
+  const catalog: CatalogItem[] = copy(seed.catalog ?? []);
+  let exchangeRates: ExchangeRate[] = copy(seed.exchangeRates ?? []);
+  const loginAttempts: LoginAttempt[] = [];
+  const auditLog: AuditEntry[] = [];
+  const sentEmails: DocumentEmail[] = [];
+  const shareLinks: (ShareLink & { token: string })[] = [];
+
+  const sessions = new Map<string, { userId: string; expiresAt: string }>();
+  const linkTokens = new Map<string, { userId: string; purpose: 'invite' | 'reset'; expiresAt: number }>();
+  const counters = new Map<string, number>();
+  const lastEditors = new Map<string, string>(); // Document id to the user who saved it last
+  const editedVersions = new Map<string, number>(); // Quotation id to its version before it was sent or shared
+  let sessionToken: string | null = null;
+
+  const currentUser = () => {
+    const session = sessionToken ? sessions.get(sessionToken) : undefined;
+    if (!session || Date.parse(session.expiresAt) <= Date.now()) return undefined;
+    return users.find(user => user.id === session.userId && user.active !== false);
+  };
+
+  // Mirrors the row-level security policies: reading needs a session, writing needs the table's permission
+  const denied = (permission?: Permission): DataResult<never> | null =>
+    currentUser() && (!permission || can(currentUser(), permission)) ? null : fail('forbidden', 'Not allowed');
+
+  const openSession = (user: LocalUser) => {
+    const session = { token: crypto.randomUUID(), expiresAt: new Date(Date.now() + SESSION_LIFETIME_MS).toISOString() };
+    sessions.set(session.token, { userId: user.id, expiresAt: session.expiresAt });
+    return session;
+  };
+
+  // Same counters and patterns as next_document_number() in the database
+  const nextNumber = (docType: string, pattern: string, date: string) => {
+    const day = new Date(`${date}T00:00:00`);
+    const key = `${docType}:${pattern.includes('{YY') ? day.getFullYear() : 'all'}`;
+    const sequence = (counters.get(key) || 0) + 1;
+    counters.set(key, sequence);
+    return formatDocumentNumber(pattern, day, sequence);
+  };
+
+  // Stands in for the send-mail function: the link is written to the console instead of emailed
+  const issueLink = (user: LocalUser, purpose: 'invite' | 'reset') => {
+    const token = crypto.randomUUID();
+    linkTokens.set(token, { userId: user.id, purpose, expiresAt: Date.now() + LINK_LIFETIME_MS[purpose] });
+    console.info(`[local backend] ${purpose === 'invite' ? 'Invitation' : 'Password reset'} link for ${user.email}: ${window.location.origin}/?token=${token}`);
+  };
+
+  const validLink = (token: string) => {
+    const link = linkTokens.get(token);
+    const user = link && link.expiresAt > Date.now() ? users.find(u => u.id === link.userId && u.active !== false) : undefined;
+    return link && user ? { link, user } : undefined;
+  };
+
+  const recordAttempt = (identifier: string, userId: string | undefined, reason?: LoginAttempt['reason']) => {
+    loginAttempts.unshift({ id: crypto.randomUUID(), identifier, userId, succeeded: !reason, reason, createdAt: new Date().toISOString() });
+  };
+
+  // Same check as save_invoice() and save_quotation(): the saved copy must still be the one the editor started from,
+  // apart from a quotation being sent or shared since
+  const staleVersion = (label: string, stored: { id: string; version?: number } | undefined, version?: number) => {
+    if (!stored || stored.version === version) return null;
+    const edited = editedVersions.get(stored.id);
+    if (edited !== undefined && version !== undefined && version >= edited && version < (stored.version ?? 0)) return null;
+    const error: DataError = {
+      kind: 'conflict',
+      message: `${label} was changed by someone else`,
+      changedBy: users.find(user => user.id === lastEditors.get(stored.id))?.name
+    };
+    return { data: null, error };
+  };
+
+  // Same rules as shared_document(): revoked links are dead and quotation links end after the valid-until date
+  const openShareLink = (token: string) => {
+    const link = shareLinks.find(l => l.token === token && !l.revokedAt);
+    if (!link) return undefined;
+    if (link.documentType === 'invoice') {
+      const invoice = invoices.find(inv => inv.id === link.documentId);
+      return invoice ? { link, invoice } : undefined;
+    }
+    const quotation = quotations.find(q => q.id === link.documentId);
+    return quotation && (!quotation.validUntil || quotation.validUntil >= new Date().toISOString().split('T')[0]) ? { link, quotation } : undefined;
+  };
+
+  // Like the Supabase backend's shared invoices, an invoice is reduced by its issued credit notes
+  const withCredits = (invoice: InvoiceData): InvoiceData => ({
+    ...invoice,
+    creditedAmount: creditNotes
+      .filter(cn => cn.invoiceId === invoice.id && cn.status === 'issued')
+      .reduce((sum, cn) => sum + calculateTotals(cn).total, 0)
+  });
+
+  const stamp = <T extends { id: string; version?: number }>(record: T, stored: T | undefined): T => {
+    lastEditors.set(record.id, currentUser()!.id);
+    return { ...record, version: (stored?.version ?? 0) + 1 };
+  };
+
+  // Same check as guard_base_currency(): every stored rate is relative to the base currency
+  const baseCurrencyInUse = () =>
+    exchangeRates.length > 0 || invoices.length > 0 || quotations.length > 0 || creditNotes.length > 0;
+
+  // Stands in for the audit triggers. Changes made without a session are logged under the name given.
+  const logChange = (
+    entityType: AuditEntityType, entityId: string, entityLabel: string, action: AuditAction, changes: AuditChange[], actorName = ''
+  ) => {
+    if (action === 'update' && changes.length === 0) return;
+    const actor = currentUser();
+    auditLog.unshift({
+      id: crypto.randomUUID(),
+      entityType,
+      entityId,
+      entityLabel,
+      action,
+      actorId: actor?.id,
+      actorName: actor?.name ?? actorName,
+      changes,
+      createdAt: new Date().toISOString()
+    });
+  };
+
+  const logQuotation = (stored: QuotationData | undefined, saved: QuotationData, actorName?: string) =>
+    logChange('quotation', saved.id, saved.quotationNumber, stored ? 'update' : 'create',
+      auditChanges(stored && quotationAuditRecord(stored), quotationAuditRecord(saved)), actorName);
+
+  // Same as mark_quotation_sent(): the version goes up, but an editor opened before can still save
+  const markSent = (quotation: QuotationData) => {
+    const sent: QuotationData = { ...quotation, status: 'sent', version: (quotation.version ?? 0) + 1 };
+    if (!editedVersions.has(quotation.id)) editedVersions.set(quotation.id, quotation.version ?? 0);
+    upsert(quotations, sent);
+    logQuotation(quotation, sent);
+  };
+
+  return {
+    auth: {
+      setSessionToken(token) {
+        sessionToken = token;
+      },
+
+      async signIn(identifier, password) {
+        const user = users.find(u => sameText(u.email, identifier)) || users.find(u => u.name === identifier.trim());
+        if (!user || !user.password || user.password !== password) {
+          recordAttempt(identifier.trim(), user?.id, user ? 'invalid_password' : 'unknown_user');
+          return ok({ status: 'invalid' as const });
+        }
+        if (user.active === false) {
+          recordAttempt(identifier.trim(), user.id, 'disabled');
+          return ok({ status: 'disabled' as const });
+        }
+        recordAttempt(identifier.trim(), user.id);
+        return ok({ status: 'ok' as const, user: publicUser(user), session: openSession(user) });
+      },
+
+      async completeChallenge() {
+        return ok({ status: 'expired' as const });
+      },
+
+      async refreshSession() {
+        const user = currentUser();
+        return ok(user ? { user: publicUser(user), expiresAt: sessions.get(sessionToken!)!.expiresAt } : null);
+      },
+
+      async endSession() {
+        if (sessionToken) sessions.delete(sessionToken);
+        return ok(null);
+      },
+
+      async requestPasswordReset(email) {
+        const user = users.find(u => sameText(u.email, email) && u.active !== false);
+        if (user) issueLink(user, 'reset');
+        return ok(null);
+      },
+
+      async checkLinkToken(token) {
+        const valid = validLink(token);
+        return ok(valid ? { name: valid.user.name, email: valid.user.email, purpose: valid.link.purpose } : null);
+      },
+
+      async completeLinkToken(token, password) {
+        if (password.length < 8) return fail('invalid', 'Password must be at least 8 characters');
+        const valid = validLink(token);
+        if (!valid) return ok(false);
+        linkTokens.delete(token);
+        valid.user.password = password;
+        logChange('user', valid.user.id, valid.user.name, 'update', [{ field: 'password', from: null, to: 'Changed' }], valid.user.name);
+        sessions.forEach((session, key) => session.userId === valid.user.id && sessions.delete(key));
+        return ok(true);
+      },
+
+      async changePassword(currentPassword, newPassword) {
+        const user = currentUser();
+        if (!user) return fail('forbidden', 'Not signed in');
+        if (newPassword.length < 8) return fail('invalid', 'Password must be at least 8 characters');
+        if (user.password !== currentPassword) return ok(false);
+        user.password = newPassword;
+        logChange('user', user.id, user.name, 'update', [{ field: 'password', from: null, to: 'Changed' }]);
+        sessions.forEach((session, key) => session.userId === user.id && key !== sessionToken && sessions.delete(key));
+        return ok(true);
+      },
+
+      async twoFactorStatus() {
+        return currentUser() ? ok({ enabled: false, required: false, recoveryCodesLeft: 0 }) : ok(null);
+      },
+
+      async beginTwoFactor() {
+        return fail('invalid', TWO_FACTOR_UNAVAILABLE);
+      },
+
+      async confirmTwoFactor() {
+        return fail('invalid', TWO_FACTOR_UNAVAILABLE);
+      },
+
+      async disableTwoFactor() {
+        return fail('invalid', TWO_FACTOR_UNAVAILABLE);
+      },
+
+      async regenerateRecoveryCodes() {
+        return fail('invalid', TWO_FACTOR_UNAVAILABLE);
+      }
+    },
+
+    // The sign-in screen shows the company name and logo, so settings are readable without a session
+    settings: {
+      // As with the Supabase policy, signed-out callers find no settings and use getPublic()
+      async get() {
+        return ok(currentUser() ? settings : null);
+      },
+
+      async getPublic() {
+        const {
+          companyName, companyAddress, companyEmail, gstNumber, logoUrl, baseCurrency, currencySymbol,
+          invoiceTemplate, quotationTemplate, brandColor, documentFont, documentFooter
+        } = settings;
+        return ok({
+          companyName, companyAddress, companyEmail, gstNumber, logoUrl, baseCurrency, currencySymbol,
+          invoiceTemplate, quotationTemplate, brandColor, documentFont, documentFooter
+        });
+      },
+
+      async save(next) {
+        const forbidden = denied('settings.edit');
+        if (forbidden) return forbidden;
+        if (next.baseCurrency !== settings.baseCurrency && baseCurrencyInUse()) {
+          return fail('invalid', 'The base currency cannot be changed once documents or exchange rates exist');
+        }
+        logChange('settings', '1', 'Company settings', 'update', auditChanges(settingsAuditRecord(settings), settingsAuditRecord(next)));
+        settings = copy(next);
+        return ok(null);
+      }
+    },
+
+    users: {
+      async list() {
+        return denied() || ok(users.map(publicUser));
+      },
+
+      async save(user) {
+        const forbidden = denied('team.manage');
+        if (forbidden) return forbidden;
+        if (users.some(u => u.id !== user.id && sameText(u.email, user.email))) {
+          return fail('duplicate', 'Another team member already uses this email address', 'email');
+        }
+        const existing = users.find(u => u.id === user.id);
+        const saved: LocalUser = { ...copy(user), name: user.name.trim(), email: user.email.trim(), active: user.active !== false, password: existing?.password ?? '' };
+        const remaining = users.map(u => u.id === user.id ? saved : u);
+        if (existing && !remaining.some(u => u.role === 'admin' && u.active !== false)) {
+          return fail('invalid', 'At least one active admin is required');
+        }
+        upsert(users, saved);
+        logChange('user', saved.id, saved.name, existing ? 'update' : 'create',
+          auditChanges(existing && userAuditRecord(existing), userAuditRecord(saved)));
+        if (!saved.active) sessions.forEach((session, key) => session.userId === saved.id && sessions.delete(key));
+        return ok(null);
+      },
+
+      async invite(user) {
+        const forbidden = denied('team.manage');
+        if (forbidden) return forbidden;
+        const stored = users.find(u => u.id === user.id);
+        if (!stored) return fail('invalid', 'Team member not found');
+        issueLink(stored, 'invite');
+        return ok(null);
+      },
+
+      async unlock(userId) {
+        const forbidden = denied('team.manage');
+        if (forbidden) return forbidden;
+        const user = users.find(u => u.id === userId);
+        if (user?.lockedUntil && Date.parse(user.lockedUntil) > Date.now()) {
+          logChange('user', user.id, user.name, 'update', [{ field: 'lockedUntil', from: user.lockedUntil, to: null }]);
+        }
+        if (user) user.lockedUntil = undefined;
+        return ok(null);
+      },
+
+      async resetTwoFactor(userId) {
+        const forbidden = denied('team.manage');
+        if (forbidden) return forbidden;
+        const user = users.find(u => u.id === userId);
+        if (user) {
+          const before = userAuditRecord(user);
+          user.twoFactorEnabled = false;
+          logChange('user', user.id, user.name, 'update', auditChanges(before, userAuditRecord(user)));
+        }
+        return ok(null);
+      },
+
+      async loginAttempts(failedOnly) {
+        return denied('team.manage') || ok(loginAttempts.filter(attempt => !failedOnly || !attempt.succeeded).slice(0, 200));
+      }
+    },
+
+    invoices: {
+      async list() {
+        return denied() || ok(invoices.map(withCredits));
+      },
+
+      async save(invoice) {
+        const forbidden = denied('invoice.edit');
+        if (forbidden) return forbidden;
+        const stored = invoices.find(existing => existing.id === invoice.id);
+        const stale = staleVersion(`Invoice ${stored?.invoiceNumber}`, stored, invoice.version);
+        if (stale) return stale;
+        const others = invoices.filter(existing => existing.id !== invoice.id);
+        if (invoice.invoiceNumber && others.some(existing => existing.invoiceNumber === invoice.invoiceNumber)) {
+          return fail('duplicate', `Invoice number ${invoice.invoiceNumber} is already in use`, 'invoiceNumber');
+        }
+        if (invoice.quotationId && others.some(existing => existing.quotationId === invoice.quotationId)) {
+          return fail('duplicate', 'This quotation has already been converted to an invoice', 'quotationId');
+        }
+        if (invoice.recurringScheduleId && others.some(existing =>
+          existing.recurringScheduleId === invoice.recurringScheduleId && existing.recurringPeriod === invoice.recurringPeriod)) {
+          return fail('duplicate', 'An invoice has already been generated for this period', 'recurringPeriod');
+        }
+
+        const saved = stamp<InvoiceData>({
+          ...copy(invoice),
+          id: invoice.id || crypto.randomUUID(),
+          invoiceNumber: invoice.invoiceNumber || nextNumber('invoice', settings.invoiceNumberPattern, invoice.date),
+          payments: invoice.payments.filter(payment => payment.amount > 0),
+          creditedAmount: 0
+        }, stored);
+        upsert(invoices, saved);
+        logChange('invoice', saved.id, saved.invoiceNumber, stored ? 'update' : 'create',
+          auditChanges(stored && invoiceAuditRecord(stored), invoiceAuditRecord(saved)));
+        return ok(withCredits(saved));
+      }
+    },
+
+    quotations: {
+      async list() {
+        return denied() || ok(quotations.map(quotation => {
+          const invoice = invoices.find(inv => inv.quotationId === quotation.id);
+          return { ...quotation, invoiceId: invoice?.id, invoiceNumber: invoice?.invoiceNumber };
+        }));
+      },
+
+      async save(quotation) {
+        const forbidden = denied('quotation.edit');
+        if (forbidden) return forbidden;
+        const stored = quotations.find(q => q.id === quotation.id);
+        const stale = staleVersion(`Quotation ${stored?.quotationNumber}`, stored, quotation.version);
+        if (stale) return stale;
+        if (quotation.quotationNumber && quotations.some(q => q.id !== quotation.id && q.quotationNumber === quotation.quotationNumber)) {
+          return fail('duplicate', `Quotation number ${quotation.quotationNumber} is already in use`, 'quotationNumber');
+        }
+        const saved = stamp<QuotationData>({
+          ...copy(quotation),
+          id: quotation.id || crypto.randomUUID(),
+          clientResponse: stored?.clientResponse, // Only the client sets this, through a share link
+          // A draft sent while the editor was open still shows as a draft there
+          status: quotation.status === 'draft' && stored?.status === 'sent' && quotation.version !== stored.version ? 'sent' : quotation.status,
+          quotationNumber: quotation.quotationNumber || nextNumber('quotation', settings.quotationNumberPattern, quotation.date)
+        }, stored);
+        upsert(quotations, saved);
+        editedVersions.delete(saved.id);
+        logQuotation(stored, saved);
+        return ok(saved);
+      }
+    },
+
+    creditNotes: {
+      async list() {
+        return denied() || ok(creditNotes.map(creditNote => ({
+          ...creditNote,
+          invoiceNumber: invoices.find(inv => inv.id === creditNote.invoiceId)?.invoiceNumber
+        })));
+      },
+
+      async save(creditNote) {
+        const forbidden = denied('creditNote.edit');
+        if (forbidden) return forbidden;
+        const existing = creditNotes.find(cn => cn.id === creditNote.id);
+        if (existing?.status === 'issued') {
+          return fail('invalid', `Credit note ${existing.creditNoteNumber} has been issued and cannot be changed`);
+        }
+        // Same check as save_credit_note()
+        const invoice = invoices.find(inv => inv.id === creditNote.invoiceId);
+        if (!invoice) return fail('invalid', 'The original invoice could not be found');
+        const creditable = creditableAmount(invoice, creditNotes, creditNote.id);
+        if (calculateTotals(creditNote).total > creditable + 0.005) {
+          return fail('invalid', `This credit note exceeds the amount left to credit on ${invoice.invoiceNumber} (${creditable.toFixed(2)})`);
+        }
+        const saved: CreditNote = {
+          ...copy(creditNote),
+          creditNoteNumber: creditNote.creditNoteNumber || nextNumber('credit_note', settings.creditNoteNumberPattern, creditNote.date)
+        };
+        upsert(creditNotes, saved);
+        return ok(saved);
+      }
+    },
+
+    recurringSchedules: {
+      async list() {
+        return denied() || ok(recurringSchedules);
+      },
+
+      async save(schedule) {
+        const forbidden = denied('recurring.edit');
+        if (forbidden) return forbidden;
+        upsert(recurringSchedules, copy(schedule));
+        return ok(schedule);
+      }
+    },
+
+    clients: {
+      async list() {
+        return denied() || ok(clients);
+      },
+
+      async save(client) {
+        const forbidden = denied('client.edit');
+        if (forbidden) return forbidden;
+        if (clients.some(c => c.id !== client.id && sameText(c.name, client.name))) {
+          return fail('duplicate', 'A client with this name already exists', 'name');
+        }
+        upsert(clients, { ...copy(client), name: client.name.trim() });
+        return ok(null);
+      }
+    },
+
+    catalog: {
+      async list() {
+        return denied() || ok(catalog);
+      },
+
+      async save(item) {
+        const forbidden = denied('catalog.edit');
+        if (forbidden) return forbidden;
+        if (catalog.some(c => c.id !== item.id && c.name === item.name.trim())) {
+          return fail('duplicate', 'A catalog item with this name already exists', 'name');
+        }
+        upsert(catalog, { ...copy(item), name: item.name.trim(), taxRate: item.taxExempt ? undefined : item.taxRate });
+        return ok(null);
+      }
+    },
+
+    exchangeRates: {
+      async list() {
+        return denied() || ok(exchangeRates);
+      },
+
+      async save(rates) {
+        const forbidden = denied('settings.edit');
+        if (forbidden) return forbidden;
+        rates.forEach(rate => {
+          const currency = rate.currency.trim().toUpperCase();
+          const existing = exchangeRates.find(r => r.currency === currency && r.effectiveDate === rate.effectiveDate);
+          upsert(exchangeRates, { id: existing?.id || crypto.randomUUID(), currency, rate: rate.rate, effectiveDate: rate.effectiveDate });
+        });
+        return ok(null);
+      },
+
+      async remove(id) {
+        const forbidden = denied('settings.edit');
+        if (forbidden) return forbidden;
+        exchangeRates = exchangeRates.filter(rate => rate.id !== id);
+        return ok(null);
+      }
+    },
+
+    audit: {
+      // Document history is visible to anyone signed in; the full log needs audit.view
+      async list(filter) {
+        const forbidden = denied();
+        if (forbidden) return forbidden;
+        const canViewAll = can(currentUser(), 'audit.view');
+        const to = filter.to && new Date(Date.parse(filter.to) + 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+        return ok(auditLog
+          .filter(entry => canViewAll || entry.entityType === 'invoice' || entry.entityType === 'quotation')
+          .filter(entry => !filter.entityType || entry.entityType === filter.entityType)
+          .filter(entry => !filter.entityId || entry.entityId === filter.entityId)
+          .filter(entry => !filter.actorId || entry.actorId === filter.actorId)
+          .filter(entry => !filter.from || entry.createdAt >= filter.from)
+          .filter(entry => !to || entry.createdAt < to)
+          .slice(0, filter.limit ?? 500));
+      }
+    },
+
+    // Stands in for the send-mail function: the message is written to the console and counts as sent
+    emails: {
+      async send(email) {
+        const forbidden = denied(email.documentType === 'invoice' ? 'invoice.edit' : 'quotation.edit');
+        if (forbidden) return forbidden;
+        if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email.to.trim())) return fail('invalid', 'Enter a valid email address for the client');
+        const invoice = email.documentType === 'invoice' ? invoices.find(inv => inv.id === email.documentId) : undefined;
+        const quotation = email.documentType === 'quotation' ? quotations.find(q => q.id === email.documentId) : undefined;
+        const documentNumber = invoice?.invoiceNumber || quotation?.quotationNumber;
+        if (!documentNumber) return fail('invalid', 'Save the document before sending it');
+
+        console.info(`[local backend] Email to ${email.to.trim()} with ${email.attachmentName}\nSubject: ${email.subject}\n\n${email.body}`);
+        sentEmails.unshift({
+          id: crypto.randomUUID(),
+          documentType: email.documentType,
+          documentId: email.documentId,
+          documentNumber,
+          toAddress: email.to.trim(),
+          subject: email.subject,
+          sentByName: currentUser()!.name,
+          status: 'sent',
+          createdAt: new Date().toISOString()
+        });
+        if (quotation?.status === 'draft') markSent(quotation);
+        return ok(null);
+      },
+
+      async list(documentType, documentId) {
+        return denied() || ok(sentEmails.filter(email => email.documentType === documentType && email.documentId === documentId));
+      }
+    },
+
+    // Links last only until the page reloads, and opening one loads the page afresh, so the client page cannot be tried here
+    shareLinks: {
+      async create(documentType, documentId) {
+        const forbidden = denied(documentType === 'invoice' ? 'invoice.edit' : 'quotation.edit');
+        if (forbidden) return forbidden;
+        const invoice = documentType === 'invoice' ? invoices.find(inv => inv.id === documentId) : undefined;
+        const quotation = documentType === 'quotation' ? quotations.find(q => q.id === documentId) : undefined;
+        if (!invoice?.invoiceNumber && !quotation?.quotationNumber) return fail('invalid', 'Save the document before sharing it');
+
+        const token = crypto.randomUUID();
+        shareLinks.unshift({
+          id: crypto.randomUUID(),
+          token,
+          documentType,
+          documentId,
+          createdByName: currentUser()!.name,
+          createdAt: new Date().toISOString(),
+          expiresOn: quotation?.validUntil,
+          viewCount: 0
+        });
+        if (quotation?.status === 'draft') markSent(quotation);
+        return ok(token);
+      },
+
+      async list(documentType, documentId) {
+        return denied() || ok(shareLinks
+          .filter(link => link.documentType === documentType && link.documentId === documentId)
+          .map(({ token, ...link }) => ({
+            ...link,
+            expiresOn: quotations.find(q => q.id === link.documentId)?.validUntil
+          })));
+      },
+
+      async revoke(linkId) {
+        const link = shareLinks.find(l => l.id === linkId);
+        const forbidden = denied(link?.documentType === 'invoice' ? 'invoice.edit' : 'quotation.edit');
+        if (forbidden) return forbidden;
+        if (link && !link.revokedAt) link.revokedAt = new Date().toISOString();
+        return ok(null);
+      },
+
+      async open(token) {
+        const shared = openShareLink(token);
+        if (!shared) return ok(null);
+        shared.link.viewCount += 1;
+        shared.link.lastViewedAt = new Date().toISOString();
+        if (shared.quotation) return ok({ documentType: 'quotation' as const, quotation: shared.quotation });
+        return ok({ documentType: 'invoice' as const, invoice: withCredits(shared.invoice) });
+      },
+
+      async respond(token, response) {
+        const quotation = openShareLink(token)?.quotation;
+        if (!quotation) return fail('invalid', 'This link is invalid or has expired');
+        if (quotation.status !== 'sent') return fail('invalid', 'This quotation is no longer open for a response');
+        lastEditors.delete(quotation.id);
+        editedVersions.delete(quotation.id);
+        const answered: QuotationData = {
+          ...quotation,
+          status: response,
+          clientResponse: { status: response, respondedAt: new Date().toISOString(), userAgent: globalThis.navigator?.userAgent },
+          version: (quotation.version ?? 0) + 1
+        };
+        upsert(quotations, answered);
+        logQuotation(quotation, answered, 'Client (share link)');
+        return ok(null);
+      }
+    }
+  };
+}
\ No newline at end of file
@@ -0,0 +1,515 @@
+import {
+  AppSettings, AuditEntry, CatalogItem, Client, CreditNote, DocumentEmail, ExchangeRate, InvoiceData, InvoiceItem, LoginAttempt, Payment,
+  PublicSettings, QuotationData, RecurringSchedule, ShareLink, User
+} from '../../types';
+import { DEFAULT_INVOICE_NUMBER_PATTERN, DEFAULT_QUOTATION_NUMBER_PATTERN, DEFAULT_CREDIT_NOTE_NUMBER_PATTERN } from '../documentNumbers';
+import { DEFAULT_SESSION_IDLE_MINUTES, DEFAULT_LOGIN_LOCKOUT_THRESHOLD, DEFAULT_LOGIN_LOCKOUT_MINUTES } from '../session';
+import { DEFAULT_BRAND_COLOR } from '../documentModel';
+import {
+  DEFAULT_INVOICE_EMAIL_SUBJECT, DEFAULT_INVOICE_EMAIL_BODY, DEFAULT_QUOTATION_EMAIL_SUBJECT, DEFAULT_QUOTATION_EMAIL_BODY
+} from '../documentEmail';
+import { calculateTotals } from '../invoiceTotals';
+import { SharedDocument } from './types';
+
+// The one place database rows (snake_case) are converted to and from the app's types (camelCase).
+// Rows are typed loosely because the Supabase client is not generated from the schema.
+type Row = Record<string, any>;
+
+export function settingsFromRow(row: Row): AppSettings {
+  return {
+    companyName: row.company_name,
+    companyAddress: row.company_address,
+    companyEmail: row.company_email,
+    gstNumber: row.gst_number,
+    defaultTaxRate: row.default_tax_rate,
+    baseCurrency: row.base_currency || row.currency_symbol,
+    currencySymbol: row.currency_symbol,
+    logoUrl: row.logo_url,
+    invoiceNumberPattern: row.invoice_number_pattern || DEFAULT_INVOICE_NUMBER_PATTERN,
+    quotationNumberPattern: row.quotation_number_pattern || DEFAULT_QUOTATION_NUMBER_PATTERN,
+    creditNoteNumberPattern: row.credit_note_number_pattern || DEFAULT_CREDIT_NOTE_NUMBER_PATTERN,
+    sessionIdleMinutes: row.session_idle_minutes || DEFAULT_SESSION_IDLE_MINUTES,
+    loginLockoutThreshold: row.login_lockout_threshold || DEFAULT_LOGIN_LOCKOUT_THRESHOLD,
+    loginLockoutMinutes: row.login_lockout_minutes || DEFAULT_LOGIN_LOCKOUT_MINUTES,
+    twoFactorRoles: row.two_factor_roles || [],
+    invoiceTemplate: row.invoice_template || 'classic',
+    quotationTemplate: row.quotation_template || 'classic',
+    brandColor: row.brand_color || DEFAULT_BRAND_COLOR,
+    documentFont: row.document_font || 'sans',
+    documentFooter: row.document_footer || '',
+    invoiceEmailSubject: row.invoice_email_subject || DEFAULT_INVOICE_EMAIL_SUBJECT,
+    invoiceEmailBody: row.invoice_email_body || DEFAULT_INVOICE_EMAIL_BODY,
+    quotationEmailSubject: row.quotation_email_subject || DEFAULT_QUOTATION_EMAIL_SUBJECT,
+    quotationEmailBody: row.quotation_email_body || DEFAULT_QUOTATION_EMAIL_BODY
+  };
+}
+
+// public_settings() returns only these columns of the settings row
+export function publicSettingsFromRow(row: Row): PublicSettings {
+  return {
+    companyName: row.company_name,
+    companyAddress: row.company_address,
+    companyEmail: row.company_email,
+    gstNumber: row.gst_number,
+    baseCurrency: row.base_currency || row.currency_symbol,
+    currencySymbol: row.currency_symbol,
+    logoUrl: row.logo_url,
+    invoiceTemplate: row.invoice_template || 'classic',
+    quotationTemplate: row.quotation_template || 'classic',
+    brandColor: row.brand_color || DEFAULT_BRAND_COLOR,
+    documentFont: row.document_font || 'sans',
+    documentFooter: row.document_footer || ''
+  };
+}
+
+export function settingsToRow(settings: AppSettings): Row {
+  return {
+    id: 1,
+    company_name: settings.companyName,
+    company_address: settings.companyAddress,
+    company_email: settings.companyEmail,
+    gst_number: settings.gstNumber,
+    default_tax_rate: settings.defaultTaxRate,
+    base_currency: settings.baseCurrency,
+    currency_symbol: settings.currencySymbol,
+    logo_url: settings.logoUrl,
+    invoice_number_pattern: settings.invoiceNumberPattern,
+    quotation_number_pattern: settings.quotationNumberPattern,
+    credit_note_number_pattern: settings.creditNoteNumberPattern,
+    session_idle_minutes: settings.sessionIdleMinutes,
+    login_lockout_threshold: settings.loginLockoutThreshold,
+    login_lockout_minutes: settings.loginLockoutMinutes,
+    two_factor_roles: settings.twoFactorRoles,
+    invoice_template: settings.invoiceTemplate,
+    quotation_template: settings.quotationTemplate,
+    brand_color: settings.brandColor,
+    document_font: settings.documentFont,
+    document_footer: settings.documentFooter,
+    invoice_email_subject: settings.invoiceEmailSubject,
+    invoice_email_body: settings.invoiceEmailBody,
+    quotation_email_subject: settings.quotationEmailSubject,
+    quotation_email_body: settings.quotationEmailBody
+  };
+}
+
+// Passwords, two-factor secrets and lockout counters are not readable through the API
+export const USER_COLUMNS = 'id, name, email, role, avatar, active, locked_until, totp_enabled_at';
+
+export function userFromRow(row: Row): User {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    role: row.role,
+    avatar: row.avatar || undefined,
+    active: row.active,
+    lockedUntil: row.locked_until || undefined,
+    twoFactorEnabled: !!row.totp_enabled_at
+  };
+}
+
+export function userToRow(user: User): Row {
+  return {
+    id: user.id,
+    name: user.name.trim(),
+    email: user.email.trim(),
+    role: user.role,
+    avatar: user.avatar,
+    active: user.active !== false
+  };
+}
+
+export function loginAttemptFromRow(row: Row): LoginAttempt {
+  return {
+    id: row.id,
+    identifier: row.identifier,
+    userId: row.user_id || undefined,
+    clientIp: row.client_ip || undefined,
+    succeeded: row.succeeded,
+    reason: row.reason || undefined,
+    createdAt: row.created_at
+  };
+}
+
+// Line items are stored the same way on invoices, quotations, credit notes and recurring schedules
+export function lineItemFromRow(row: Row): InvoiceItem {
+  return {
+    id: row.id,
+    description: row.description,
+    quantity: row.quantity,
+    rate: row.rate,
+    discountType: row.discount_type || undefined,
+    discountValue: Number(row.discount_value) || undefined,
+    taxRate: row.tax_rate ?? undefined,
+    taxExempt: !!row.tax_exempt,
+    catalogItemId: row.catalog_item_id || undefined
+  };
+}
+
+export function lineItemToRow(item: InvoiceItem): Row {
+  return {
+    description: item.description,
+    quantity: item.quantity,
+    rate: item.rate,
+    discount_type: item.discountType || null,
+    discount_value: item.discountValue || 0,
+    tax_rate: item.taxRate ?? null,
+    tax_exempt: !!item.taxExempt,
+    catalog_item_id: item.catalogItemId || null
+  };
+}
+
+export function paymentFromRow(row: Row): Payment {
+  return {
+    id: row.id,
+    date: row.date,
+    amount: Number(row.amount),
+    method: row.method,
+    reference: row.reference || ''
+  };
+}
+
+export function paymentToRow(payment: Payment): Row {
+  return {
+    date: payment.date,
+    amount: payment.amount,
+    method: payment.method,
+    reference: payment.reference
+  };
+}
+
+// Ids created in the browser are UUIDs; anything else is left for the database to generate
+const storedId = (id: string) => id.includes('-') && id.length > 20 ? id : undefined;
+
+export const INVOICE_SELECT = '*, invoice_items (*), invoice_payments (*)';
+
+// creditedAmount is derived from credit notes by the caller
+export function invoiceFromRow(row: Row): InvoiceData {
+  return {
+    id: row.id,
+    invoiceNumber: row.invoice_number,
+    status: row.status,
+    date: row.date,
+    dueDate: row.due_date,
+    clientId: row.client_id || undefined,
+    clientName: row.client_name,
+    clientAddress: row.client_address,
+    clientEmail: row.client_email,
+    currency: row.currency,
+    taxRate: row.tax_rate,
+    discountType: row.discount_type || undefined,
+    discountValue: Number(row.discount_value) || undefined,
+    notes: row.notes,
+    terms: row.terms,
+    language: row.language || 'en',
+    quotationId: row.quotation_id || undefined,
+    recurringScheduleId: row.recurring_schedule_id || undefined,
+    recurringPeriod: row.recurring_period || undefined,
+    exchangeRate: row.exchange_rate != null ? Number(row.exchange_rate) : undefined,
+    items: (row.invoice_items || []).map(lineItemFromRow),
+    payments: (row.invoice_payments || []).map(paymentFromRow),
+    creditedAmount: 0,
+    version: row.version
+  };
+}
+
+export function invoiceToRow(invoice: InvoiceData): Row {
+  return {
+    id: storedId(invoice.id),
+    // Left empty on new invoices so the database trigger allocates the next number
+    invoice_number: invoice.invoiceNumber || null,
+    status: invoice.status,
+    date: invoice.date,
+    due_date: invoice.dueDate,
+    client_id: invoice.clientId || null,
+    client_name: invoice.clientName,
+    client_address: invoice.clientAddress,
+    client_email: invoice.clientEmail,
+    currency: invoice.currency,
+    tax_rate: invoice.taxRate,
+    discount_type: invoice.discountType || null,
+    discount_value: invoice.discountValue || 0,
+    notes: invoice.notes,
+    terms: invoice.terms,
+    language: invoice.language,
+    quotation_id: invoice.quotationId || null,
+    recurring_schedule_id: invoice.recurringScheduleId || null,
+    recurring_period: invoice.recurringPeriod || null,
+    exchange_rate: invoice.exchangeRate ?? null
+  };
+}
+
+export const QUOTATION_SELECT = '*, quotation_items (*), invoices (id, invoice_number)';
+
+export function quotationFromRow(row: Row): QuotationData {
+  const linkedInvoice = Array.isArray(row.invoices) ? row.invoices[0] : row.invoices;
+  return {
+    id: row.id,
+    quotationNumber: row.quotation_number,
+    status: row.status,
+    date: row.date,
+    validUntil: row.valid_until,
+    clientId: row.client_id || undefined,
+    clientName: row.client_name,
+    clientAddress: row.client_address,
+    clientEmail: row.client_email,
+    currency: row.currency,
+    taxRate: row.tax_rate,
+    discountType: row.discount_type || undefined,
+    discountValue: Number(row.discount_value) || undefined,
+    notes: row.notes,
+    terms: row.terms,
+    language: row.language || 'en',
+    invoiceId: linkedInvoice?.id,
+    invoiceNumber: linkedInvoice?.invoice_number,
+    clientResponse: row.client_response ? {
+      status: row.client_response,
+      respondedAt: row.client_responded_at,
+      clientIp: row.client_response_ip || undefined,
+      userAgent: row.client_response_user_agent || undefined
+    } : undefined,
+    items: (row.quotation_items || []).map(lineItemFromRow),
+    version: row.version
+  };
+}
+
+export function quotationToRow(quotation: QuotationData): Row {
+  return {
+    id: storedId(quotation.id),
+    quotation_number: quotation.quotationNumber || null,
+    status: quotation.status,
+    date: quotation.date,
+    valid_until: quotation.validUntil,
+    client_id: quotation.clientId || null,
+    client_name: quotation.clientName,
+    client_address: quotation.clientAddress,
+    client_email: quotation.clientEmail,
+    currency: quotation.currency,
+    tax_rate: quotation.taxRate,
+    discount_type: quotation.discountType || null,
+    discount_value: quotation.discountValue || 0,
+    notes: quotation.notes,
+    terms: quotation.terms,
+    language: quotation.language
+  };
+}
+
+export const CREDIT_NOTE_SELECT = '*, credit_note_items (*), invoices (invoice_number)';
+
+export function creditNoteFromRow(row: Row): CreditNote {
+  return {
+    id: row.id,
+    creditNoteNumber: row.credit_note_number,
+    status: row.status,
+    invoiceId: row.invoice_id,
+    invoiceNumber: row.invoices?.invoice_number,
+    date: row.date,
+    reason: row.reason || '',
+    clientId: row.client_id || undefined,
+    clientName: row.client_name,
+    clientAddress: row.client_address,
+    clientEmail: row.client_email,
+    currency: row.currency,
+    taxRate: row.tax_rate,
+    discountType: row.discount_type || undefined,
+    discountValue: Number(row.discount_value) || undefined,
+    refundAmount: Number(row.refund_amount) || 0,
+    exchangeRate: row.exchange_rate != null ? Number(row.exchange_rate) : undefined,
+    items: (row.credit_note_items || []).map(lineItemFromRow)
+  };
+}
+
+export function creditNoteToRow(creditNote: CreditNote): Row {
+  return {
+    id: creditNote.id,
+    credit_note_number: creditNote.creditNoteNumber || null,
+    status: creditNote.status,
+    invoice_id: creditNote.invoiceId,
+    date: creditNote.date,
+    reason: creditNote.reason,
+    client_id: creditNote.clientId || null,
+    client_name: creditNote.clientName,
+    client_address: creditNote.clientAddress,
+    client_email: creditNote.clientEmail,
+    currency: creditNote.currency,
+    tax_rate: creditNote.taxRate,
+    discount_type: creditNote.discountType || null,
+    discount_value: creditNote.discountValue || 0,
+    refund_amount: creditNote.refundAmount,
+    exchange_rate: creditNote.exchangeRate ?? null
+  };
+}
+
+export const RECURRING_SCHEDULE_SELECT = '*, recurring_schedule_items (*)';
+
+export function recurringScheduleFromRow(row: Row): RecurringSchedule {
+  return {
+    id: row.id,
+    name: row.name,
+    frequency: row.frequency,
+    startDate: row.start_date,
+    endDate: row.end_date || undefined,
+    autoIssue: row.auto_issue,
+    paymentTermsDays: row.payment_terms_days,
+    active: row.active,
+    clientId: row.client_id || undefined,
+    clientName: row.client_name,
+    clientAddress: row.client_address,
+    clientEmail: row.client_email,
+    currency: row.currency,
+    taxRate: row.tax_rate,
+    discountType: row.discount_type || undefined,
+    discountValue: Number(row.discount_value) || undefined,
+    notes: row.notes,
+    terms: row.terms,
+    language: row.language || 'en',
+    items: (row.recurring_schedule_items || []).map(lineItemFromRow)
+  };
+}
+
+export function recurringScheduleToRow(schedule: RecurringSchedule): Row {
+  return {
+    id: schedule.id,
+    name: schedule.name,
+    frequency: schedule.frequency,
+    start_date: schedule.startDate,
+    end_date: schedule.endDate || null,
+    auto_issue: schedule.autoIssue,
+    payment_terms_days: schedule.paymentTermsDays,
+    active: schedule.active,
+    client_id: schedule.clientId || null,
+    client_name: schedule.clientName,
+    client_address: schedule.clientAddress,
+    client_email: schedule.clientEmail,
+    currency: schedule.currency,
+    tax_rate: schedule.taxRate,
+    discount_type: schedule.discountType || null,
+    discount_value: schedule.discountValue || 0,
+    notes: schedule.notes,
+    terms: schedule.terms,
+    language: schedule.language
+  };
+}
+
+export function clientFromRow(row: Row): Client {
+  return {
+    id: row.id,
+    name: row.name,
+    address: row.address || '',
+    billingAddress: row.billing_address || '',
+    email: row.email || '',
+    ccEmails: row.cc_emails || '',
+    phone: row.phone || '',
+    taxId: row.tax_id || ''
+  };
+}
+
+export function clientToRow(client: Client): Row {
+  return {
+    id: client.id,
+    name: client.name.trim(),
+    address: client.address,
+    billing_address: client.billingAddress,
+    email: client.email,
+    cc_emails: client.ccEmails,
+    phone: client.phone,
+    tax_id: client.taxId
+  };
+}
+
+export function catalogItemFromRow(row: Row): CatalogItem {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || '',
+    unit: row.unit || '',
+    rate: Number(row.rate) || 0,
+    taxRate: row.tax_rate ?? undefined,
+    taxExempt: !!row.tax_exempt,
+    active: row.active
+  };
+}
+
+export function catalogItemToRow(item: CatalogItem): Row {
+  return {
+    id: item.id,
+    name: item.name.trim(),
+    description: item.description,
+    unit: item.unit,
+    rate: item.rate,
+    tax_rate: item.taxExempt ? null : item.taxRate ?? null,
+    tax_exempt: item.taxExempt,
+    active: item.active
+  };
+}
+
+export function exchangeRateFromRow(row: Row): ExchangeRate {
+  return {
+    id: row.id,
+    currency: row.currency,
+    rate: Number(row.rate),
+    effectiveDate: row.effective_date
+  };
+}
+
+export function exchangeRateToRow(rate: Omit<ExchangeRate, 'id'>): Row {
+  return {
+    currency: rate.currency.trim().toUpperCase(),
+    rate: rate.rate,
+    effective_date: rate.effectiveDate
+  };
+}
+
+export function auditEntryFromRow(row: Row): AuditEntry {
+  return {
+    id: row.id,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    entityLabel: row.entity_label,
+    action: row.action,
+    actorId: row.actor_id || undefined,
+    actorName: row.actor_name,
+    changes: row.changes || [],
+    createdAt: row.created_at
+  };
+}
+
+export function documentEmailFromRow(row: Row): DocumentEmail {
+  return {
+    id: row.id,
+    documentType: row.document_type,
+    documentId: row.document_id,
+    documentNumber: row.document_number,
+    toAddress: row.to_address,
+    subject: row.subject,
+    sentByName: row.sent_by_name,
+    status: row.status,
+    lastError: row.last_error || undefined,
+    createdAt: row.created_at
+  };
+}
+
+export function shareLinkFromRow(row: Row): ShareLink {
+  return {
+    id: row.id,
+    documentType: row.document_type,
+    documentId: row.document_id,
+    createdByName: row.created_by_name,
+    createdAt: row.created_at,
+    expiresOn: row.expires_on || undefined,
+    revokedAt: row.revoked_at || undefined,
+    viewCount: row.view_count,
+    lastViewedAt: row.last_viewed_at || undefined
+  };
+}
+
+// shared_document() nests the document's rows the same way the list selects do, plus an invoice's issued credit notes
+export function sharedDocumentFromRow(row: Row): SharedDocument {
+  if (row.document_type === 'quotation') {
+    return { documentType: 'quotation', quotation: quotationFromRow(row.document) };
+  }
+  const creditedAmount = (row.document.credit_notes || [])
+    .map(creditNoteFromRow)
+    .reduce((sum: number, creditNote: CreditNote) => sum + calculateTotals(creditNote).total, 0);
+  return { documentType: 'invoice', invoice: { ...invoiceFromRow(row.document), creditedAmount } };
+}
\ No newline at end of file
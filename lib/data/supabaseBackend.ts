@@ -0,0 +1,378 @@
+import { PostgrestError } from '@supabase/supabase-js';
+import { TwoFactorStatus } from '../../types';
+import { supabase, setSessionToken } from '../supabaseClient';
+import { deliverQueuedMail } from '../mail';
+import { SessionUserRow, userFromSessionRow } from '../session';
+import {
+  USER_COLUMNS, INVOICE_SELECT, QUOTATION_SELECT, CREDIT_NOTE_SELECT, RECURRING_SCHEDULE_SELECT,
+  settingsFromRow, publicSettingsFromRow, settingsToRow, userFromRow, userToRow, loginAttemptFromRow, lineItemToRow, paymentToRow,
+  invoiceFromRow, invoiceToRow, quotationFromRow, quotationToRow, creditNoteFromRow, creditNoteToRow,
+  recurringScheduleFromRow, recurringScheduleToRow, clientFromRow, clientToRow, catalogItemFromRow, catalogItemToRow,
+  exchangeRateFromRow, exchangeRateToRow, auditEntryFromRow, documentEmailFromRow, shareLinkFromRow, sharedDocumentFromRow
+} from './mappers';
+import { ChallengeResult, DataBackend, DataError, DataResult, LinkTokenInfo, SignInResult } from './types';
+
+// Unique constraint names contain the column; map them back to the field the app knows
+const DUPLICATE_FIELDS: [string, string][] = [
+  ['invoice_number', 'invoiceNumber'],
+  ['quotation_number', 'quotationNumber'],
+  ['quotation_id', 'quotationId'],
+  ['recurring_period', 'recurringPeriod'],
+  ['email', 'email'],
+  ['name', 'name']
+];
+
+function toDataError(error: PostgrestError): DataError {
+  switch (error.code) {
+    case '23505':
+      return { kind: 'duplicate', message: error.message, field: DUPLICATE_FIELDS.find(([column]) => error.message.includes(column))?.[1] };
+    case '42501':
+      return { kind: 'forbidden', message: error.message };
+    case 'PT409': // Stale version; the detail names who saved the newer one
+      return { kind: 'conflict', message: error.message, changedBy: error.details || undefined };
+    case 'P0001': // Raised by our own functions and triggers
+      return { kind: 'invalid', message: error.message };
+    default:
+      return { kind: 'unknown', message: error.message };
+  }
+}
+
+const ok = <T>(data: T): DataResult<T> => ({ data, error: null });
+const fail = <T>(error: PostgrestError): DataResult<T> => ({ data: null, error: toDataError(error) });
+
+const done = ({ error }: { error: PostgrestError | null }): DataResult<null> => error ? fail(error) : ok(null);
+
+interface LoginRow extends SessionUserRow {
+  status: SignInResult['status'];
+  retry_after: string | null;
+  session_token: string | null;
+  challenge_token: string | null;
+  totp_secret: string | null;
+}
+
+interface ChallengeRow extends SessionUserRow {
+  status: ChallengeResult['status'];
+  retry_after: string | null;
+  session_token: string | null;
+  recovery_codes: string[] | null;
+}
+
+export function createSupabaseBackend(): DataBackend {
+  return {
+    auth: {
+      setSessionToken,
+
+      // Credentials are checked in the database against the salted hash. Repeated failures are throttled there too.
+      async signIn(identifier, password) {
+        const { data, error } = await supabase
+          .rpc('verify_login', { p_identifier: identifier, p_password: password })
+          .single<LoginRow>();
+        if (error) return fail(error);
+        return ok({
+          status: data.status,
+          retryAfter: data.retry_after || undefined,
+          user: data.session_token ? userFromSessionRow(data) : undefined,
+          session: data.session_token ? { token: data.session_token, expiresAt: data.session_expires_at } : undefined,
+          challenge: data.challenge_token
+            ? { token: data.challenge_token, email: data.email, totpSecret: data.totp_secret || undefined }
+            : undefined
+        });
+      },
+
+      async completeChallenge(challengeToken, code) {
+        const { data, error } = await supabase
+          .rpc('complete_login_challenge', { p_challenge: challengeToken, p_code: code })
+          .single<ChallengeRow>();
+        if (error) return fail(error);
+        return ok({
+          status: data.status,
+          retryAfter: data.retry_after || undefined,
+          user: data.session_token ? userFromSessionRow(data) : undefined,
+          session: data.session_token ? { token: data.session_token, expiresAt: data.session_expires_at } : undefined,
+          recoveryCodes: data.recovery_codes || undefined
+        });
+      },
+
+      async refreshSession() {
+        const { data, error } = await supabase.rpc('refresh_session').maybeSingle<SessionUserRow>();
+        if (error) return fail(error);
+        return ok(data ? { user: userFromSessionRow(data), expiresAt: data.session_expires_at } : null);
+      },
+
+      async endSession() {
+        return done(await supabase.rpc('end_session'));
+      },
+
+      // Responds the same way whether or not the address belongs to an account
+      async requestPasswordReset(email) {
+        const { error } = await supabase.rpc('request_password_reset', { p_email: email });
+        if (error) return fail(error);
+        await deliverQueuedMail();
+        return ok(null);
+      },
+
+      async checkLinkToken(token) {
+        const { data, error } = await supabase.rpc('check_user_token', { p_token: token }).maybeSingle<LinkTokenInfo>();
+        return error ? fail(error) : ok(data);
+      },
+
+      async completeLinkToken(token, password) {
+        const { data, error } = await supabase.rpc('complete_user_token', { p_token: token, p_password: password });
+        return error ? fail(error) : ok(!!data);
+      },
+
+      async changePassword(currentPassword, newPassword) {
+        const { data, error } = await supabase.rpc('change_own_password', { p_current_password: currentPassword, p_new_password: newPassword });
+        return error ? fail(error) : ok(!!data);
+      },
+
+      async twoFactorStatus() {
+        const { data, error } = await supabase.rpc('two_factor_status')
+          .maybeSingle<{ enabled: boolean; required: boolean; recovery_codes_left: number }>();
+        if (error) return fail(error);
+        const status: TwoFactorStatus | null = data && { enabled: data.enabled, required: data.required, recoveryCodesLeft: data.recovery_codes_left };
+        return ok(status);
+      },
+
+      async beginTwoFactor() {
+        const { data, error } = await supabase.rpc('begin_totp_enrolment');
+        return error ? fail(error) : ok(data as string);
+      },
+
+      async confirmTwoFactor(code) {
+        const { data, error } = await supabase.rpc('confirm_totp_enrolment', { p_code: code });
+        return error ? fail(error) : ok(data as string[] | null);
+      },
+
+      async disableTwoFactor(password) {
+        const { data, error } = await supabase.rpc('disable_totp', { p_password: password });
+        return error ? fail(error) : ok(!!data);
+      },
+
+      async regenerateRecoveryCodes(password) {
+        const { data, error } = await supabase.rpc('regenerate_recovery_codes', { p_password: password });
+        return error ? fail(error) : ok(data as string[] | null);
+      }
+    },
+
+    settings: {
+      async get() {
+        const { data, error } = await supabase.from('settings').select('*').maybeSingle();
+        return error ? fail(error) : ok(data && settingsFromRow(data));
+      },
+
+      async getPublic() {
+        const { data, error } = await supabase.rpc('public_settings');
+        return error ? fail(error) : ok(data && publicSettingsFromRow(data));
+      },
+
+      async save(settings) {
+        return done(await supabase.from('settings').upsert(settingsToRow(settings)));
+      }
+    },
+
+    users: {
+      async list() {
+        const { data, error } = await supabase.from('users').select(USER_COLUMNS);
+        return error ? fail(error) : ok(data.map(userFromRow));
+      },
+
+      // The id column cannot be updated, which an upsert would try to do, so existing users are updated
+      // without it and anyone not found is inserted
+      async save(user) {
+        const { id, ...profile } = userToRow(user);
+        const { data: updated, error } = await supabase.from('users').update(profile).eq('id', id).select('id');
+        if (error) return fail(error);
+        return updated.length > 0 ? ok(null) : done(await supabase.from('users').insert(userToRow(user)));
+      },
+
+      async invite(user) {
+        const { error } = await supabase.rpc('send_user_invite', { p_user_id: user.id });
+        if (error) return fail(error);
+        await deliverQueuedMail();
+        return ok(null);
+      },
+
+      async unlock(userId) {
+        return done(await supabase.rpc('unlock_user', { p_user_id: userId }));
+      },
+
+      async resetTwoFactor(userId) {
+        return done(await supabase.rpc('reset_user_totp', { p_user_id: userId }));
+      },
+
+      async loginAttempts(failedOnly) {
+        let query = supabase.from('login_attempts').select('*').order('created_at', { ascending: false }).limit(200);
+        if (failedOnly) query = query.eq('succeeded', false);
+        const { data, error } = await query;
+        return error ? fail(error) : ok(data.map(loginAttemptFromRow));
+      }
+    },
+
+    invoices: {
+      async list() {
+        const { data, error } = await supabase.from('invoices').select(INVOICE_SELECT);
+        return error ? fail(error) : ok(data.map(invoiceFromRow));
+      },
+
+      // Header, lines and payments are written in one transaction by save_invoice()
+      async save(invoice) {
+        const { data: saved, error } = await supabase.rpc('save_invoice', {
+          p_invoice: invoiceToRow(invoice),
+          p_items: invoice.items.map(lineItemToRow),
+          p_payments: invoice.payments.filter(payment => payment.amount > 0).map(paymentToRow),
+          p_version: invoice.version ?? null
+        }).single<{ id: string; invoice_number: string; version: number }>();
+        if (error) return fail(error);
+        return ok({ ...invoice, id: saved.id, invoiceNumber: saved.invoice_number, version: saved.version });
+      }
+    },
+
+    quotations: {
+      async list() {
+        const { data, error } = await supabase.from('quotations').select(QUOTATION_SELECT);
+        return error ? fail(error) : ok(data.map(quotationFromRow));
+      },
+
+      async save(quotation) {
+        const { data: saved, error } = await supabase.rpc('save_quotation', {
+          p_quotation: quotationToRow(quotation),
+          p_items: quotation.items.map(lineItemToRow),
+          p_version: quotation.version ?? null
+        }).single<{ id: string; quotation_number: string; version: number }>();
+        if (error) return fail(error);
+        return ok({ ...quotation, id: saved.id, quotationNumber: saved.quotation_number, version: saved.version });
+      }
+    },
+
+    creditNotes: {
+      async list() {
+        const { data, error } = await supabase.from('credit_notes').select(CREDIT_NOTE_SELECT);
+        return error ? fail(error) : ok(data.map(creditNoteFromRow));
+      },
+
+      // save_credit_note() writes the note and its lines in one transaction and checks what is left to credit
+      async save(creditNote) {
+        const { data: saved, error } = await supabase.rpc('save_credit_note', {
+          p_credit_note: creditNoteToRow(creditNote),
+          p_items: creditNote.items.map(lineItemToRow)
+        }).single<{ id: string; credit_note_number: string }>();
+        if (error) return fail(error);
+        return ok({ ...creditNote, id: saved.id, creditNoteNumber: saved.credit_note_number });
+      }
+    },
+
+    recurringSchedules: {
+      async list() {
+        const { data, error } = await supabase.from('recurring_schedules').select(RECURRING_SCHEDULE_SELECT);
+        return error ? fail(error) : ok(data.map(recurringScheduleFromRow));
+      },
+
+      async save(schedule) {
+        const { data: saved, error } = await supabase.rpc('save_recurring_schedule', {
+          p_schedule: recurringScheduleToRow(schedule),
+          p_items: schedule.items.map(lineItemToRow)
+        }).single<{ id: string }>();
+        if (error) return fail(error);
+        return ok({ ...schedule, id: saved.id });
+      }
+    },
+
+    clients: {
+      async list() {
+        const { data, error } = await supabase.from('clients').select('*');
+        return error ? fail(error) : ok(data.map(clientFromRow));
+      },
+
+      async save(client) {
+        return done(await supabase.from('clients').upsert(clientToRow(client)));
+      }
+    },
+
+    catalog: {
+      async list() {
+        const { data, error } = await supabase.from('catalog_items').select('*');
+        return error ? fail(error) : ok(data.map(catalogItemFromRow));
+      },
+
+      async save(item) {
+        return done(await supabase.from('catalog_items').upsert(catalogItemToRow(item)));
+      }
+    },
+
+    exchangeRates: {
+      async list() {
+        const { data, error } = await supabase.from('exchange_rates').select('*');
+        return error ? fail(error) : ok(data.map(exchangeRateFromRow));
+      },
+
+      async save(rates) {
+        return done(await supabase.from('exchange_rates').upsert(rates.map(exchangeRateToRow), { onConflict: 'currency,effective_date' }));
+      },
+
+      async remove(id) {
+        return done(await supabase.from('exchange_rates').delete().eq('id', id));
+      }
+    },
+
+    audit: {
+      async list(filter) {
+        let query = supabase.from('audit_log').select('*').order('created_at', { ascending: false }).limit(filter.limit ?? 500);
+        if (filter.entityType) query = query.eq('entity_type', filter.entityType);
+        if (filter.entityId) query = query.eq('entity_id', filter.entityId);
+        if (filter.actorId) query = query.eq('actor_id', filter.actorId);
+        if (filter.from) query = query.gte('created_at', filter.from);
+        if (filter.to) query = query.lt('created_at', new Date(Date.parse(filter.to) + 24 * 60 * 60 * 1000).toISOString().split('T')[0]);
+        const { data, error } = await query;
+        return error ? fail(error) : ok(data.map(auditEntryFromRow));
+      }
+    },
+
+    emails: {
+      async send(email) {
+        const { error } = await supabase.rpc('send_document_email', {
+          p_document_type: email.documentType,
+          p_document_id: email.documentId,
+          p_to: email.to,
+          p_subject: email.subject,
+          p_body: email.body,
+          p_attachment_name: email.attachmentName,
+          p_attachment: email.attachment
+        });
+        if (error) return fail(error);
+        await deliverQueuedMail();
+        return ok(null);
+      },
+
+      async list(documentType, documentId) {
+        const { data, error } = await supabase.rpc('document_email_log', { p_document_type: documentType, p_document_id: documentId });
+        return error ? fail(error) : ok((data || []).map(documentEmailFromRow));
+      }
+    },
+
+    shareLinks: {
+      async create(documentType, documentId) {
+        const { data, error } = await supabase.rpc('create_share_link', { p_document_type: documentType, p_document_id: documentId });
+        return error ? fail(error) : ok(data as string);
+      },
+
+      async list(documentType, documentId) {
+        const { data, error } = await supabase.rpc('share_link_list', { p_document_type: documentType, p_document_id: documentId });
+        return error ? fail(error) : ok((data || []).map(shareLinkFromRow));
+      },
+
+      async revoke(linkId) {
+        return done(await supabase.rpc('revoke_share_link', { p_link_id: linkId }));
+      },
+
+      async open(token) {
+        const { data, error } = await supabase.rpc('shared_document', { p_token: token });
+        return error ? fail(error) : ok(data ? sharedDocumentFromRow(data) : null);
+      },
+
+      async respond(token, response) {
+        return done(await supabase.rpc('respond_to_shared_quotation', { p_token: token, p_response: response }));
+      }
+    }
+  };
+}
\ No newline at end of file
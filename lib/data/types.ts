@@ -0,0 +1,171 @@
+import {
+  AppSettings, AuditEntry, CatalogItem, Client, CreditNote, DocumentEmail, ExchangeRate, InvoiceData, LoginAttempt, PublicSettings,
+  QuotationData, QuotationResponse, RecurringSchedule, ShareLink, TwoFactorStatus, User
+} from '../../types';
+import { AuditFilter } from '../audit';
+import { Session } from '../session';
+
+// Backend-neutral failure. duplicate is a clash on a unique value, invalid is a rule the backend enforces
+// (the message is meant for the user), forbidden means the signed-in role may not do this and
+// conflict means the record was changed by someone else since it was loaded.
+export interface DataError {
+  kind: 'duplicate' | 'invalid' | 'forbidden' | 'conflict' | 'unknown';
+  message: string;
+  field?: string; // The clashing field for duplicates, e.g. invoiceNumber
+  changedBy?: string; // Who made the newer change, for conflicts
+}
+
+// Same shape as Supabase responses so callers keep the `const { data, error } = await ...` style
+export type DataResult<T> = { data: T; error: null } | { data: null; error: DataError };
+
+export interface LoginChallenge {
+  token: string;
+  email: string;
+  totpSecret?: string; // Present when the account still has to enrol
+}
+
+export interface SignInResult {
+  status: 'ok' | 'invalid' | 'throttled' | 'locked' | 'disabled' | 'two_factor' | 'two_factor_setup';
+  retryAfter?: string;
+  user?: User;
+  session?: Session;
+  challenge?: LoginChallenge;
+}
+
+export interface ChallengeResult {
+  status: 'ok' | 'invalid' | 'expired' | 'locked';
+  retryAfter?: string;
+  user?: User;
+  session?: Session;
+  recoveryCodes?: string[]; // Issued when the second step completes enrolment
+}
+
+export interface LinkTokenInfo {
+  name: string;
+  email: string;
+  purpose: 'invite' | 'reset';
+}
+
+export interface AuthRepository {
+  setSessionToken(token: string | null): void;
+  signIn(identifier: string, password: string): Promise<DataResult<SignInResult>>;
+  completeChallenge(challengeToken: string, code: string): Promise<DataResult<ChallengeResult>>;
+  // The current profile, or null once the session is no longer valid. Also marks the session as active.
+  refreshSession(): Promise<DataResult<{ user: User; expiresAt: string } | null>>;
+  endSession(): Promise<DataResult<null>>;
+  requestPasswordReset(email: string): Promise<DataResult<null>>;
+  checkLinkToken(token: string): Promise<DataResult<LinkTokenInfo | null>>;
+  completeLinkToken(token: string, password: string): Promise<DataResult<boolean>>;
+  changePassword(currentPassword: string, newPassword: string): Promise<DataResult<boolean>>;
+  twoFactorStatus(): Promise<DataResult<TwoFactorStatus | null>>;
+  beginTwoFactor(): Promise<DataResult<string>>;
+  confirmTwoFactor(code: string): Promise<DataResult<string[] | null>>;
+  disableTwoFactor(password: string): Promise<DataResult<boolean>>;
+  regenerateRecoveryCodes(password: string): Promise<DataResult<string[] | null>>;
+}
+
+export interface SettingsRepository {
+  get(): Promise<DataResult<AppSettings | null>>;
+  getPublic(): Promise<DataResult<PublicSettings | null>>; // Readable without signing in
+  save(settings: AppSettings): Promise<DataResult<null>>;
+}
+
+export interface UserRepository {
+  list(): Promise<DataResult<User[]>>;
+  save(user: User): Promise<DataResult<null>>;
+  invite(user: User): Promise<DataResult<null>>; // Emails a link to set a password
+  unlock(userId: string): Promise<DataResult<null>>;
+  resetTwoFactor(userId: string): Promise<DataResult<null>>;
+  loginAttempts(failedOnly: boolean): Promise<DataResult<LoginAttempt[]>>;
+}
+
+// Saves return the stored document, with the id and number the backend allocated for new ones.
+// Invoices and quotations are written with their lines in one go, and only if their version is still
+// current; a document without a version is new and is never written over an existing one.
+export interface InvoiceRepository {
+  list(): Promise<DataResult<InvoiceData[]>>;
+  save(invoice: InvoiceData): Promise<DataResult<InvoiceData>>;
+}
+
+export interface QuotationRepository {
+  list(): Promise<DataResult<QuotationData[]>>;
+  save(quotation: QuotationData): Promise<DataResult<QuotationData>>;
+}
+
+export interface CreditNoteRepository {
+  list(): Promise<DataResult<CreditNote[]>>;
+  save(creditNote: CreditNote): Promise<DataResult<CreditNote>>;
+}
+
+export interface RecurringScheduleRepository {
+  list(): Promise<DataResult<RecurringSchedule[]>>;
+  save(schedule: RecurringSchedule): Promise<DataResult<RecurringSchedule>>;
+}
+
+export interface ClientRepository {
+  list(): Promise<DataResult<Client[]>>;
+  save(client: Client): Promise<DataResult<null>>;
+}
+
+export interface CatalogRepository {
+  list(): Promise<DataResult<CatalogItem[]>>;
+  save(item: CatalogItem): Promise<DataResult<null>>;
+}
+
+export interface ExchangeRateRepository {
+  list(): Promise<DataResult<ExchangeRate[]>>;
+  save(rates: Omit<ExchangeRate, 'id'>[]): Promise<DataResult<null>>; // Replaces rates for the same currency and date
+  remove(id: string): Promise<DataResult<null>>;
+}
+
+// Entries are written by the backend itself as changes are saved, never by the app
+export interface AuditRepository {
+  list(filter: AuditFilter): Promise<DataResult<AuditEntry[]>>;
+}
+
+export interface OutgoingDocumentEmail {
+  documentType: DocumentEmail['documentType'];
+  documentId: string;
+  to: string;
+  subject: string;
+  body: string;
+  attachmentName: string;
+  attachment: string; // Base64 PDF
+}
+
+// Sending queues the email for delivery and logs it against the document. A draft quotation becomes sent.
+export interface DocumentEmailRepository {
+  send(email: OutgoingDocumentEmail): Promise<DataResult<null>>;
+  list(documentType: DocumentEmail['documentType'], documentId: string): Promise<DataResult<DocumentEmail[]>>;
+}
+
+// What a client sees through a share link. Invoices carry their credited total, as on the invoice list.
+export type SharedDocument =
+  | { documentType: 'invoice'; invoice: InvoiceData }
+  | { documentType: 'quotation'; quotation: QuotationData };
+
+// The team creates and revokes links; open() and respond() are for clients and need no session.
+// Only a hash of the token is stored, so create() is the one chance to get the link.
+export interface ShareLinkRepository {
+  create(documentType: ShareLink['documentType'], documentId: string): Promise<DataResult<string>>; // The token
+  list(documentType: ShareLink['documentType'], documentId: string): Promise<DataResult<ShareLink[]>>;
+  revoke(linkId: string): Promise<DataResult<null>>;
+  open(token: string): Promise<DataResult<SharedDocument | null>>; // null once the link is revoked or expired
+  respond(token: string, response: QuotationResponse['status']): Promise<DataResult<null>>;
+}
+
+export interface DataBackend {
+  auth: AuthRepository;
+  settings: SettingsRepository;
+  users: UserRepository;
+  invoices: InvoiceRepository;
+  quotations: QuotationRepository;
+  creditNotes: CreditNoteRepository;
+  recurringSchedules: RecurringScheduleRepository;
+  clients: ClientRepository;
+  catalog: CatalogRepository;
+  exchangeRates: ExchangeRateRepository;
+  audit: AuditRepository;
+  emails: DocumentEmailRepository;
+  shareLinks: ShareLinkRepository;
+}
\ No newline at end of file
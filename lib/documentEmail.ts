@@ -0,0 +1,72 @@
+import { AppSettings, InvoiceData, QuotationData } from '../types';
+import { calculateTotals, balanceDue } from './invoiceTotals';
+import { money } from './documentModel';
+
+// Subject and body templates for emailing documents. {placeholders} are filled in when the send form opens,
+// and the result can still be edited before it goes out. Unknown placeholders are left as typed.
+
+export const DEFAULT_INVOICE_EMAIL_SUBJECT = 'Invoice {invoiceNumber} from {companyName}';
+export const DEFAULT_INVOICE_EMAIL_BODY = [
+  'Dear {clientName},',
+  '',
+  'Please find attached invoice {invoiceNumber} for {total}, due on {dueDate}.',
+  '',
+  'Kind regards,',
+  '{companyName}'
+].join('\n');
+
+export const DEFAULT_QUOTATION_EMAIL_SUBJECT = 'Quotation {quotationNumber} from {companyName}';
+export const DEFAULT_QUOTATION_EMAIL_BODY = [
+  'Dear {clientName},',
+  '',
+  'Please find attached our quotation {quotationNumber} for {total}, valid until {validUntil}.',
+  '',
+  'Kind regards,',
+  '{companyName}'
+].join('\n');
+
+export const INVOICE_EMAIL_PLACEHOLDERS = ['clientName', 'invoiceNumber', 'total', 'balanceDue', 'date', 'dueDate', 'companyName'];
+export const QUOTATION_EMAIL_PLACEHOLDERS = ['clientName', 'quotationNumber', 'total', 'date', 'validUntil', 'companyName'];
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export function fillEmailTemplate(template: string, values: Record<string, string>) {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+export function invoiceEmail(invoice: InvoiceData, settings: AppSettings): EmailMessage {
+  const values = {
+    clientName: invoice.clientName,
+    invoiceNumber: invoice.invoiceNumber,
+    total: `${invoice.currency}${money(calculateTotals(invoice).total)}`,
+    balanceDue: `${invoice.currency}${money(balanceDue(invoice))}`,
+    date: invoice.date,
+    dueDate: invoice.dueDate,
+    companyName: settings.companyName
+  };
+  return {
+    to: invoice.clientEmail,
+    subject: fillEmailTemplate(settings.invoiceEmailSubject, values),
+    body: fillEmailTemplate(settings.invoiceEmailBody, values)
+  };
+}
+
+export function quotationEmail(quotation: QuotationData, settings: AppSettings): EmailMessage {
+  const values = {
+    clientName: quotation.clientName,
+    quotationNumber: quotation.quotationNumber,
+    total: `${quotation.currency}${money(calculateTotals(quotation).total)}`,
+    date: quotation.date,
+    validUntil: quotation.validUntil,
+    companyName: settings.companyName
+  };
+  return {
+    to: quotation.clientEmail,
+    subject: fillEmailTemplate(settings.quotationEmailSubject, values),
+    body: fillEmailTemplate(settings.quotationEmailBody, values)
+  };
+}
\ No newline at end of file
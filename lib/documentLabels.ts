@@ -0,0 +1,74 @@
+import { DocumentLanguage } from '../types';
+
+// The fixed wording printed on invoices and quotations, in English and Dhivehi. Bilingual documents show
+// both, English first. Anything typed into the document (lines, notes, terms) is printed as written.
+
+export const DOCUMENT_LANGUAGES: { id: DocumentLanguage; name: string }[] = [
+  { id: 'en', name: 'English' },
+  { id: 'dv', name: 'Dhivehi (ދިވެހި)' },
+  { id: 'bilingual', name: 'English and Dhivehi' }
+];
+
+// [English, Dhivehi]. {name} placeholders are filled in by documentLabel.
+const LABELS = {
+  invoice: ['Invoice', 'ބިލު'],
+  quotation: ['Quotation', 'އަގު ހުށަހެޅުން'],
+  invoiceNumber: ['Invoice #', 'ބިލު ނަންބަރު'],
+  quotationNumber: ['Quote #', 'ނަންބަރު'],
+  date: ['Date', 'ތާރީޚު'],
+  dueDate: ['Due Date', 'ފައިސާ ދައްކަންޖެހޭ ތާރީޚު'],
+  validUntil: ['Valid Until', 'މުއްދަތު ހަމަވާ ތާރީޚު'],
+  currency: ['Currency', 'ކަރަންސީ'],
+  exchangeRate: ['Rate', 'ރޭޓް'],
+  status: ['Status', 'ހާލަތު'],
+  billTo: ['Bill To', 'ބިލު ލިބޭ ފަރާތް'],
+  preparedFor: ['Prepared For', 'ލިބޭ ފަރާތް'],
+  noClient: ['N/A', 'ނެތް'],
+  gstNumber: ['GST', 'ޖީއެސްޓީ ނަންބަރު'],
+  description: ['Description', 'ތަފްޞީލު'],
+  quantity: ['Qty', 'ޢަދަދު'],
+  rate: ['Rate', 'އަގު'],
+  lineDiscount: ['Disc.', 'ޑިސްކައުންޓް'],
+  lineTax: ['GST', 'ޖީއެސްޓީ'],
+  amount: ['Amount', 'ޖުމްލަ'],
+  exempt: ['Exempt', 'އިސްތިސްނާ'],
+  subtotal: ['Subtotal', 'ސަބްޓޯޓަލް'],
+  discount: ['Discount', 'ޑިސްކައުންޓް'],
+  gst: ['GST', 'ޖީއެސްޓީ'],
+  taxOn: ['{tax} on {amount}', '{amount} ގެ މައްޗަށް {tax}'],
+  total: ['Total', 'ހުރިހާ ޖުމްލަ'],
+  credited: ['Credited', 'ކްރެޑިޓް ކުރެވިފައި'],
+  paid: ['Paid', 'ދައްކާފައި'],
+  balanceDue: ['Balance Due', 'ދައްކަންޖެހޭ ބާކީ'],
+  notes: ['Notes', 'ނޯޓު'],
+  terms: ['Terms & Conditions', 'ޝަރުތުތައް'],
+  page: ['Page {page} of {count}', '{count} ޞަފްޙާގެ ތެރެއިން {page}'],
+  invoiceClosing: ['Thank you for your business!', 'ތިޔަ ފަރާތާއެކު މަސައްކަތް ކުރެވުނީތީ ޝުކުރިއްޔާ!'],
+  quotationClosing: ['Thank you for considering Sandpix Maldives!', 'ސޭންޑްޕިކްސް މޯލްޑިވްސް ހޮވުމަށް ވިސްނާލެއްވީތީ ޝުކުރިއްޔާ!'],
+  // Document statuses, keyed by their stored value
+  draft: ['Draft', 'ޑްރާފްޓް'],
+  pending: ['Pending', 'ދައްކަން ބާކީ'],
+  partially_paid: ['Partially Paid', 'ބައެއް ދައްކާފައި'],
+  sent: ['Sent', 'ފޮނުވިފައި'],
+  accepted: ['Accepted', 'ގަބޫލުކުރެވިފައި'],
+  rejected: ['Rejected', 'ރައްދުކުރެވިފައި']
+} satisfies Record<string, [string, string]>;
+
+export type DocumentLabel = keyof typeof LABELS;
+
+// Renders the text once per language and joins the two for bilingual documents
+export function inDocumentLanguage(language: DocumentLanguage, render: (single: 'en' | 'dv') => string) {
+  return language === 'bilingual' ? `${render('en')} / ${render('dv')}` : render(language);
+}
+
+export function documentLabel(language: DocumentLanguage, label: DocumentLabel, values: Record<string, string | number> = {}) {
+  return inDocumentLanguage(language, single =>
+    LABELS[label][single === 'en' ? 0 : 1].replace(/\{(\w+)\}/g, (_, name) => String(values[name]))
+  );
+}
+
+// Dhivehi documents are laid out right to left; bilingual ones keep the English layout
+export const documentDirection = (language: DocumentLanguage): 'ltr' | 'rtl' => (language === 'dv' ? 'rtl' : 'ltr');
+
+// Thaana letters and vowel signs (fili)
+export const THAANA_TEXT = /[\u0780-\u07bf]/;
\ No newline at end of file
@@ -0,0 +1,191 @@
+import { DiscountType, DocumentFont, DocumentLanguage, DocumentTemplate, InvoiceData, InvoiceItem, PublicSettings, QuotationData } from '../types';
+import { calculateTotals, lineAmount, lineTaxRate, amountPaid, balanceDue } from './invoiceTotals';
+import { DocumentLabel, documentDirection, documentLabel, inDocumentLanguage } from './documentLabels';
+
+// Invoices and quotations are reduced to this printable model once, and every template (on screen and in the PDF)
+// lays out the same model, so switching templates can change the look but never the figures.
+
+export const DEFAULT_BRAND_COLOR = '#0284c7'; // sandpix-600
+
+export const DOCUMENT_TEMPLATES: { id: DocumentTemplate; name: string; description: string }[] = [
+  { id: 'classic', name: 'Classic', description: 'Logo and company on the left, large title on the right' },
+  { id: 'compact', name: 'Compact', description: 'Smaller type and tighter rows to fit long documents on fewer pages' },
+  { id: 'modern', name: 'Modern', description: 'Brand-coloured header band and table headings' }
+];
+
+// Each choice maps to a CSS stack for the screen and one of the fonts built into every PDF reader.
+// None of those has Thaana, so Dhivehi text falls through to the Thaana fonts at the end of each stack.
+const THAANA_CSS = '"Noto Sans Thaana", "MV Faseyha", Faruma';
+
+export const DOCUMENT_FONTS: { id: DocumentFont; name: string; css: string; pdf: 'helvetica' | 'times' | 'courier' }[] = [
+  { id: 'sans', name: 'Sans-serif', css: `ui-sans-serif, system-ui, Helvetica, Arial, ${THAANA_CSS}, sans-serif`, pdf: 'helvetica' },
+  { id: 'serif', name: 'Serif', css: `Georgia, "Times New Roman", Times, ${THAANA_CSS}, serif`, pdf: 'times' },
+  { id: 'mono', name: 'Monospace', css: `ui-monospace, Menlo, Consolas, "Courier New", ${THAANA_CSS}, monospace`, pdf: 'courier' }
+];
+
+export const documentFont = (font: DocumentFont) => DOCUMENT_FONTS.find(option => option.id === font) || DOCUMENT_FONTS[0];
+
+export interface DocumentLine {
+  id: string;
+  description: string;
+  quantity: string;
+  rate: string;
+  discount: string;
+  tax: string;
+  amount: string;
+}
+
+export interface DocumentTotal {
+  label: string;
+  value: string;
+  emphasis?: 'total' | 'balance' | 'breakdown'; // Total and balance rows are bold; breakdown rows are small print
+}
+
+export interface PrintableDocument {
+  language: DocumentLanguage; // Renderers look up their own fixed wording (table headings, page numbers) with documentLabel
+  direction: 'ltr' | 'rtl';
+  title: string;
+  reference: string; // Document number, or Draft before the first save
+  details: { label: string; value: string }[]; // Shown under the title
+  company: { name: string; address: string; email: string; gstNumber?: string; logoUrl?: string };
+  clientHeading: string;
+  client: { name: string; address: string; email: string };
+  columns: { discount: boolean; tax: boolean }; // Optional line columns, shown only when a line uses them
+  lines: DocumentLine[];
+  totals: DocumentTotal[];
+  notes: string;
+  terms: string;
+  footer: string;
+}
+
+// A fixed locale keeps the numbers identical whichever browser shows or prints them
+export const money = (value: number) => value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// INV-2026-0012_ClientName.pdf; anything a file system might reject is dropped from the client name.
+// Lives here rather than in lib/pdf so screens can show the name without loading jsPDF.
+export function pdfFileName(documentNumber: string, clientName: string) {
+  const client = clientName.replace(/[^\p{L}\p{N}]+/gu, '');
+  return `${[documentNumber || 'Draft', client].filter(Boolean).join('_')}.pdf`;
+}
+
+const discountLabel = (type: DiscountType | undefined, value: number | undefined, currency: string) => {
+  if (!value) return '';
+  return type === 'fixed' ? `${currency}${money(value)}` : `${value}%`;
+};
+
+
+interface PricedDocument {
+  language: DocumentLanguage;
+  currency: string;
+  taxRate: number;
+  items: InvoiceItem[];
+  discountType?: DiscountType;
+  discountValue?: number;
+  notes: string;
+  terms: string;
+  clientName: string;
+  clientAddress: string;
+  clientEmail: string;
+}
+
+// Lines and totals are the same for both document types; only the rows after the total differ
+function pricedParts(source: PricedDocument, settings: PublicSettings, extraTotals: DocumentTotal[], closing: DocumentLabel) {
+  const c = source.currency;
+  const label = (key: DocumentLabel, values?: Record<string, string | number>) => documentLabel(source.language, key, values);
+  const { subtotal, discount, taxAmount, total, taxBreakdown } = calculateTotals(source);
+  const showBreakdown = taxBreakdown.length > 1 || taxBreakdown.some(line => line.exempt);
+  return {
+    language: source.language,
+    direction: documentDirection(source.language),
+    company: {
+      name: settings.companyName,
+      address: settings.companyAddress,
+      email: settings.companyEmail,
+      gstNumber: settings.gstNumber,
+      logoUrl: settings.logoUrl
+    },
+    client: { name: source.clientName, address: source.clientAddress, email: source.clientEmail },
+    columns: {
+      discount: source.items.some(item => item.discountValue),
+      tax: source.items.some(item => item.taxExempt || item.taxRate !== undefined)
+    },
+    lines: source.items.map(item => ({
+      id: item.id,
+      description: item.description,
+      quantity: String(item.quantity),
+      rate: money(item.rate),
+      discount: discountLabel(item.discountType, item.discountValue, c),
+      tax: item.taxExempt ? label('exempt') : `${lineTaxRate(item, source.taxRate)}%`,
+      amount: money(lineAmount(item))
+    })),
+    totals: [
+      { label: label('subtotal'), value: `${c}${money(subtotal)}` },
+      ...(discount > 0
+        ? [{ label: `${label('discount')}${source.discountType !== 'fixed' ? ` (${source.discountValue}%)` : ''}`, value: `-${c}${money(discount)}` }]
+        : []),
+      { label: `${label('gst')}${taxBreakdown.length === 1 && !taxBreakdown[0].exempt ? ` (${taxBreakdown[0].rate}%)` : ''}`, value: `${c}${money(taxAmount)}` },
+      ...(showBreakdown
+        ? taxBreakdown.map(line => ({
+            label: inDocumentLanguage(source.language, single => documentLabel(single, 'taxOn', {
+              tax: line.exempt ? documentLabel(single, 'exempt') : `${documentLabel(single, 'gst')} ${line.rate}%`,
+              amount: `${c}${money(line.taxable)}`
+            })),
+            value: `${c}${money(line.tax)}`,
+            emphasis: 'breakdown' as const
+          }))
+        : []),
+      { label: label('total'), value: `${c}${money(total)}`, emphasis: 'total' as const },
+      ...extraTotals
+    ],
+    notes: source.notes,
+    terms: source.terms,
+    footer: settings.documentFooter || label(closing)
+  };
+}
+
+export function invoiceDocument(invoice: InvoiceData, settings: PublicSettings): PrintableDocument {
+  const c = invoice.currency;
+  const hasLedger = invoice.payments.length > 0 || invoice.creditedAmount > 0;
+  const label = (key: DocumentLabel) => documentLabel(invoice.language, key);
+  return {
+    title: label('invoice'),
+    reference: invoice.invoiceNumber || 'Draft',
+    details: [
+      { label: label('invoiceNumber'), value: invoice.invoiceNumber || label('draft') },
+      { label: label('date'), value: invoice.date },
+      { label: label('dueDate'), value: invoice.dueDate },
+      { label: label('currency'), value: invoice.currency },
+      ...(invoice.exchangeRate !== undefined && invoice.currency !== settings.baseCurrency
+        ? [{ label: label('exchangeRate'), value: `1 ${invoice.currency} = ${invoice.exchangeRate} ${settings.baseCurrency}` }]
+        : []),
+      { label: label('status'), value: label(invoice.status) }
+    ],
+    clientHeading: label('billTo'),
+    ...pricedParts(invoice, settings, [
+      ...(invoice.creditedAmount > 0 ? [{ label: label('credited'), value: `-${c}${money(invoice.creditedAmount)}` }] : []),
+      ...(hasLedger
+        ? [
+            { label: label('paid'), value: `-${c}${money(amountPaid(invoice))}` },
+            { label: label('balanceDue'), value: `${c}${money(balanceDue(invoice))}`, emphasis: 'balance' as const }
+          ]
+        : [])
+    ], 'invoiceClosing')
+  };
+}
+
+export function quotationDocument(quotation: QuotationData, settings: PublicSettings): PrintableDocument {
+  const label = (key: DocumentLabel) => documentLabel(quotation.language, key);
+  return {
+    title: label('quotation'),
+    reference: quotation.quotationNumber || 'Draft',
+    details: [
+      { label: label('quotationNumber'), value: quotation.quotationNumber || label('draft') },
+      { label: label('date'), value: quotation.date },
+      { label: label('validUntil'), value: quotation.validUntil },
+      { label: label('currency'), value: quotation.currency },
+      { label: label('status'), value: label(quotation.status) }
+    ],
+    clientHeading: label('preparedFor'),
+    ...pricedParts(quotation, settings, [], 'quotationClosing')
+  };
+}
\ No newline at end of file
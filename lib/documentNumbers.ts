@@ -0,0 +1,17 @@
+// Mirrors format_document_number() in the database so Settings can preview a pattern.
+// The real number is always allocated server-side when a document is first saved.
+export const DEFAULT_INVOICE_NUMBER_PATTERN = 'INV-{YYYY}-{0000}';
+export const DEFAULT_QUOTATION_NUMBER_PATTERN = 'QT-{YYYY}-{0000}';
+export const DEFAULT_CREDIT_NOTE_NUMBER_PATTERN = 'CN-{YYYY}-{0000}';
+
+export function formatDocumentNumber(pattern: string, date: Date, sequence: number) {
+  const year = String(date.getFullYear());
+  const result = pattern
+    .replace(/\{YYYY\}/g, year)
+    .replace(/\{YY\}/g, year.slice(-2))
+    .replace(/\{MM\}/g, String(date.getMonth() + 1).padStart(2, '0'));
+
+  const digits = result.match(/\{(0+)\}/);
+  if (!digits) return result + sequence;
+  return result.split(digits[0]).join(String(sequence).padStart(digits[1].length, '0'));
+}
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { ExchangeRate } from '../types';
+
+interface Convertible {
+  currency: string;
+  date: string;
+  exchangeRate?: number;
+}
+
+// Rates are quoted as units of the base currency for one unit of the foreign currency.
+// The latest rate on or before the date applies; undefined when none has been entered yet.
+export function rateOn(currency: string, date: string, rates: ExchangeRate[], baseCurrency: string): number | undefined {
+  if (currency === baseCurrency) return 1;
+  const candidates = rates
+    .filter(r => r.currency === currency && r.effectiveDate <= date)
+    .sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate));
+  return candidates[0]?.rate;
+}
+
+// Issued documents carry the rate locked in when they were issued; drafts follow the table
+export function documentRate(doc: Convertible, rates: ExchangeRate[], baseCurrency: string) {
+  return doc.exchangeRate ?? rateOn(doc.currency, doc.date, rates, baseCurrency);
+}
+
+// Converts an amount in the document's currency, or returns undefined when no rate is known
+export function toBaseCurrency(doc: Convertible, amount: number, rates: ExchangeRate[], baseCurrency: string) {
+  const rate = documentRate(doc, rates, baseCurrency);
+  return rate === undefined ? undefined : amount * rate;
+}
+
+// Currencies that can be picked on a document: the base currency plus any with a rate
+export function availableCurrencies(rates: ExchangeRate[], baseCurrency: string) {
+  return Array.from(new Set([baseCurrency, ...rates.map(r => r.currency)]));
+}
+
+// Accepts "currency,rate,date" lines as exported from a bank or spreadsheet; a header row is skipped
+export function parseExchangeRatesCsv(text: string) {
+  const rates: Omit<ExchangeRate, 'id'>[] = [];
+  const errors: string[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    const [currency, rate, effectiveDate] = trimmed.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, ''));
+    if (index === 0 && isNaN(parseFloat(rate))) return;
+    const value = parseFloat(rate);
+    if (!/^[A-Za-z]{3}$/.test(currency || '') || !(value > 0) || !/^\d{4}-\d{2}-\d{2}$/.test(effectiveDate || '')) {
+      errors.push(`Line ${index + 1}: ${trimmed}`);
+      return;
+    }
+    rates.push({ currency: currency.toUpperCase(), rate: value, effectiveDate });
+  });
+  return { rates, errors };
+}
\ No newline at end of file
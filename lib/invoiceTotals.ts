@@ -0,0 +1,83 @@
+import { DiscountType, InvoiceData, InvoiceItem, InvoiceStatus } from '../types';
+
+interface Totalable {
+  items: InvoiceItem[];
+  taxRate: number;
+  discountType?: DiscountType;
+  discountValue?: number;
+}
+
+export interface TaxBreakdownLine {
+  rate: number;
+  exempt: boolean;
+  taxable: number;
+  tax: number;
+}
+
+const discountOn = (amount: number, type?: DiscountType, value?: number) => {
+  if (!value || value <= 0 || amount <= 0) return 0;
+  return type === 'fixed' ? Math.min(value, amount) : amount * Math.min(value, 100) / 100;
+};
+
+// Line amount after its own discount, before the document discount and tax
+export function lineAmount(item: InvoiceItem) {
+  const gross = item.quantity * item.rate;
+  return gross - discountOn(gross, item.discountType, item.discountValue);
+}
+
+export function lineTaxRate(item: InvoiceItem, documentTaxRate: number) {
+  if (item.taxExempt) return 0;
+  return item.taxRate ?? documentTaxRate;
+}
+
+// Share of each line left after the document discount is spread over the lines pro rata
+export function discountFactor(doc: Totalable) {
+  const subtotal = doc.items.reduce((sum, item) => sum + lineAmount(item), 0);
+  const discount = discountOn(subtotal, doc.discountType, doc.discountValue);
+  return subtotal > 0 ? (subtotal - discount) / subtotal : 0;
+}
+
+// The single place totals are computed, so editors, lists and reports always agree.
+// The document discount is spread over the lines pro rata before tax is worked out per rate.
+export function calculateTotals(doc: Totalable) {
+  const subtotal = doc.items.reduce((sum, item) => sum + lineAmount(item), 0);
+  const discount = discountOn(subtotal, doc.discountType, doc.discountValue);
+  const factor = discountFactor(doc);
+
+  const byRate = new Map<string, TaxBreakdownLine>();
+  doc.items.forEach(item => {
+    const exempt = !!item.taxExempt;
+    const rate = lineTaxRate(item, doc.taxRate);
+    const key = exempt ? 'exempt' : String(rate);
+    const line = byRate.get(key) || { rate, exempt, taxable: 0, tax: 0 };
+    const taxable = lineAmount(item) * factor;
+    line.taxable += taxable;
+    line.tax += taxable * rate / 100;
+    byRate.set(key, line);
+  });
+
+  const taxBreakdown = Array.from(byRate.values()).sort((a, b) => b.rate - a.rate);
+  const taxAmount = taxBreakdown.reduce((sum, line) => sum + line.tax, 0);
+  const total = subtotal - discount + taxAmount;
+  return { subtotal, discount, taxAmount, total, taxBreakdown };
+}
+
+export function amountPaid(invoice: InvoiceData) {
+  return (invoice.payments || []).reduce((sum, p) => sum + p.amount, 0);
+}
+
+// Issued credit notes reduce what the client owes just like a payment does
+export function balanceDue(invoice: InvoiceData) {
+  return Math.max(0, calculateTotals(invoice).total - (invoice.creditedAmount || 0) - amountPaid(invoice));
+}
+
+// Status follows the payments ledger once the invoice has been issued.
+// Half a cent of tolerance absorbs floating point noise from tax calculations.
+export function derivePaymentStatus(invoice: InvoiceData): InvoiceStatus {
+  const paid = amountPaid(invoice);
+  if (invoice.status === 'draft' && paid === 0) return 'draft';
+  const owed = calculateTotals(invoice).total - (invoice.creditedAmount || 0);
+  if (paid > 0 && paid >= owed - 0.005) return 'paid';
+  if (paid > 0) return 'partially_paid';
+  return 'pending';
+}
\ No newline at end of file
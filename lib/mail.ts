@@ -0,0 +1,8 @@
+import { supabase } from './supabaseClient';
+
+// Emails are queued in the database and sent by the send-mail edge function. Anything that fails
+// stays queued for the next run, so callers only need to log the error.
+export async function deliverQueuedMail() {
+  const { error } = await supabase.functions.invoke('send-mail');
+  if (error) console.error('Error delivering mail:', error);
+}
\ No newline at end of file
@@ -0,0 +1,496 @@
+import { jsPDF } from 'jspdf';
+import autoTable, { CellHookData, RowInput, UserOptions } from 'jspdf-autotable';
+import { DocumentTemplate, InvoiceData, PublicSettings, QuotationData } from '../types';
+import { PrintableDocument, DocumentTotal, documentFont, invoiceDocument, quotationDocument, pdfFileName } from './documentModel';
+import { DocumentLabel, THAANA_TEXT, documentDirection, documentLabel } from './documentLabels';
+import { clusters, textDirection, visualOrder } from './bidi';
+
+// PDFs are drawn as text with jsPDF rather than captured from the screen, so the file is the same in every
+// browser, text stays selectable and long item tables break across pages with the header repeated.
+// Each template mirrors its on-screen layout in components/DocumentLayout.tsx.
+
+const PAGE_MARGIN = 15; // mm on every side of an A4 page
+const FOOTER_HEIGHT = 8;
+
+type Rgb = [number, number, number];
+type Align = 'left' | 'center' | 'right';
+type Direction = 'ltr' | 'rtl';
+
+const TEXT: Rgb = [17, 24, 39]; // gray-900
+const MUTED: Rgb = [75, 85, 99]; // gray-600
+const LABEL: Rgb = [156, 163, 175]; // gray-400
+const RULE: Rgb = [229, 231, 235]; // gray-200
+const ROW_RULE: Rgb = [243, 244, 246]; // gray-100
+const WHITE: Rgb = [255, 255, 255];
+
+// Type sizes (pt) and spacing (mm) per template
+const SCALES: Record<DocumentTemplate, { title: number; company: number; text: number; small: number; row: number; gap: number }> = {
+  classic: { title: 24, company: 14, text: 10, small: 8, row: 2.5, gap: 12 },
+  compact: { title: 18, company: 12, text: 8.5, small: 7, row: 1.2, gap: 7 },
+  modern: { title: 24, company: 15, text: 10, small: 8, row: 2.5, gap: 10 }
+};
+
+// None of the fonts built into PDF readers has Thaana, so Dhivehi text is drawn in Noto Sans Thaana.
+// It is only downloaded for documents that contain Thaana, once per session. The release is pinned so
+// a new one cannot change how existing documents are laid out.
+const THAANA_FONT = 'NotoSansThaana';
+const THAANA_FONT_URLS = {
+  normal: 'https://cdn.jsdelivr.net/fontsource/fonts/noto-sans-thaana@5.3.0/thaana-400-normal.ttf',
+  bold: 'https://cdn.jsdelivr.net/fontsource/fonts/noto-sans-thaana@5.3.0/thaana-700-normal.ttf'
+};
+
+// jsPDF keeps the parsed TrueType tables of an embedded font in getFont().metadata. They are not part of
+// its documented API, so glyph outlines are only read when the tables have the expected shape.
+interface GlyphBox {
+  xMin: number;
+  xMax: number;
+}
+
+interface FontTables {
+  head: { unitsPerEm: number };
+  characterToGlyph: (code: number) => number;
+  glyf: { glyphFor: (id: number) => GlyphBox | null };
+}
+
+const hasFontTables = (metadata: unknown): metadata is FontTables => {
+  const tables = metadata as Partial<FontTables> | undefined;
+  return typeof tables?.head?.unitsPerEm === 'number'
+    && typeof tables.characterToGlyph === 'function'
+    && typeof tables.glyf?.glyphFor === 'function';
+};
+
+// autotable's top offset for the first line of a cell (its PHYSICAL_LINE_HEIGHT), needed to draw cell text in its place
+const CELL_LINE_OFFSET = 2 - 1.15;
+
+// Text is put in visual order before it reaches jsPDF, so its own reordering is turned off
+const VISUAL_ORDER = { isInputVisual: true, isOutputVisual: true };
+
+const hexToRgb = (hex: string): Rgb => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return Number.isNaN(value) ? [2, 132, 199] : [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// Logos can be data URLs or links; one that cannot be loaded is left out rather than failing the export
+async function loadImage(url: string) {
+  try {
+    const blob = await (await fetch(url)).blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch (err) {
+    console.error('Error loading logo for PDF:', err);
+    return null;
+  }
+}
+
+// Unlike a logo, Dhivehi text cannot be left out, so a font that cannot be loaded fails the export
+let thaanaFonts: Promise<Record<keyof typeof THAANA_FONT_URLS, string>> | null = null;
+function loadThaanaFonts() {
+  thaanaFonts ??= Promise.all(Object.entries(THAANA_FONT_URLS).map(async ([style, url]) => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Could not load the Thaana font (HTTP ${response.status})`);
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return [style, btoa(binary)];
+  })).then(Object.fromEntries);
+  thaanaFonts.catch(() => { thaanaFonts = null; }); // Try again on the next export
+  return thaanaFonts;
+}
+
+// Draws a table and returns where it ended. The end-of-page hook sees the cursor after the last row of each page.
+function drawTable(doc: jsPDF, options: UserOptions) {
+  let finalY = 0;
+  autoTable(doc, { ...options, didDrawPage: data => { finalY = data.cursor?.y ?? finalY; } });
+  return finalY;
+}
+
+async function renderPdf(content: PrintableDocument, template: DocumentTemplate, settings: PublicSettings) {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  const right = pageWidth - PAGE_MARGIN;
+  const bottom = pageHeight - PAGE_MARGIN - FOOTER_HEIGHT;
+  const scale = SCALES[template];
+  const font = documentFont(settings.documentFont).pdf;
+  const brand = hexToRgb(settings.brandColor);
+  const modern = template === 'modern';
+
+  // Dhivehi documents are mirrored: text starts at the right margin and the columns run right to left
+  const rtl = content.direction === 'rtl';
+  const start = rtl ? right : PAGE_MARGIN;
+  const end = rtl ? PAGE_MARGIN : right;
+  const startAlign: Align = rtl ? 'right' : 'left';
+  const endAlign: Align = rtl ? 'left' : 'right';
+  const afterStart = (distance: number) => (rtl ? start - distance : start + distance);
+  const beforeEnd = (distance: number) => (rtl ? end + distance : end - distance);
+
+  if (THAANA_TEXT.test(JSON.stringify(content))) {
+    const fonts = await loadThaanaFonts();
+    for (const style of ['normal', 'bold'] as const) {
+      doc.addFileToVFS(`${THAANA_FONT}-${style}.ttf`, fonts[style]);
+      doc.addFont(`${THAANA_FONT}-${style}.ttf`, THAANA_FONT, style);
+    }
+  }
+
+  const setText = (size: number, color: Rgb, style: 'normal' | 'bold' = 'normal') => {
+    doc.setFont(font, style);
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+  };
+  const lineHeight = (size: number) => size * 0.3528 * 1.4; // pt to mm with comfortable leading
+
+  // Text with Thaana is split into runs: Thaana letters in the Thaana font, everything else in the document font.
+  // Any other text goes straight to jsPDF as before.
+  const fontRuns = (units: string[]) => units.reduce<{ text: string; thaana: boolean }[]>((runs, unit) => {
+    const thaana = THAANA_TEXT.test(unit);
+    const last = runs[runs.length - 1];
+    if (last && last.thaana === thaana) last.text += unit;
+    else runs.push({ text: unit, thaana });
+    return runs;
+  }, []);
+
+  const textWidth = (text: string) => {
+    if (!THAANA_TEXT.test(text)) return doc.getTextWidth(text);
+    const { fontStyle } = doc.getFont();
+    const width = fontRuns(clusters(text)).reduce((sum, run) => {
+      doc.setFont(run.thaana ? THAANA_FONT : font, fontStyle);
+      return sum + doc.getTextWidth(run.text);
+    }, 0);
+    doc.setFont(font, fontStyle);
+    return width;
+  };
+
+  const splitText = (text: string, width: number): string[] => {
+    if (!THAANA_TEXT.test(text)) return doc.splitTextToSize(text, width);
+    return text.split('\n').flatMap(paragraph => {
+      const lines: string[] = [];
+      let line = '';
+      paragraph.split(' ').forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && textWidth(candidate) > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+      return [...lines, line];
+    });
+  };
+
+  // The font places vowel signs (fili) through OpenType positioning, which jsPDF does not apply,
+  // so each sign is centred over its letter from the glyph outlines instead. Without the outlines
+  // a sign goes where plain text would put it, straight after its letter.
+  const drawThaana = (cluster: string, x: number, y: number, baseline?: 'middle') => {
+    const [letter, ...signs] = Array.from(cluster);
+    doc.text(letter, x, y, { baseline, ...VISUAL_ORDER });
+    const width = doc.getTextWidth(letter);
+    const { metadata } = doc.getFont();
+    const tables = hasFontTables(metadata) ? metadata : undefined;
+    signs.forEach(sign => {
+      let signX = x + width;
+      if (tables) {
+        const unit = doc.getFontSize() / tables.head.unitsPerEm / doc.internal.scaleFactor;
+        const glyph = tables.glyf.glyphFor(tables.characterToGlyph(sign.charCodeAt(0)));
+        signX = x + width / 2 - (glyph ? ((glyph.xMin + glyph.xMax) / 2) * unit : 0);
+      }
+      doc.text(sign, signX, y, { baseline, ...VISUAL_ORDER });
+    });
+    return width;
+  };
+
+  // Labels follow the document's direction; values and typed text take the direction of their first letter, like <bdi> on screen
+  const drawText = (
+    text: string,
+    x: number,
+    y: number,
+    options: { align?: Align; baseline?: 'middle'; maxWidth?: number; direction?: Direction } = {}
+  ) => {
+    const { align = 'left', baseline, maxWidth, direction } = options;
+    if (!THAANA_TEXT.test(text)) {
+      doc.text(text, x, y, { align, baseline, maxWidth });
+      return;
+    }
+    if (maxWidth) {
+      const step = (doc.getFontSize() * doc.getLineHeightFactor()) / doc.internal.scaleFactor;
+      splitText(text, maxWidth).forEach((line, index) => drawText(line, x, y + index * step, { align, baseline, direction }));
+      return;
+    }
+    const { fontStyle } = doc.getFont();
+    const width = textWidth(text);
+    let cursor = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+    fontRuns(visualOrder(text, direction ?? textDirection(text))).forEach(run => {
+      doc.setFont(run.thaana ? THAANA_FONT : font, fontStyle);
+      if (!run.thaana) {
+        doc.text(run.text, cursor, y, { baseline, ...VISUAL_ORDER });
+        cursor += doc.getTextWidth(run.text);
+      } else {
+        clusters(run.text).forEach(cluster => { cursor += drawThaana(cluster, cursor, y, baseline); });
+      }
+    });
+    doc.setFont(font, fontStyle);
+  };
+
+  // autotable writes cell text with jsPDF directly, so cells with Thaana are measured in the Thaana font and
+  // their lines are drawn with drawText where autotable would have put them
+  const cellLines = new WeakMap<object, string[]>();
+  const thaanaCells = (labelColumn?: number) => ({
+    didParseCell: (data: CellHookData) => {
+      if (THAANA_TEXT.test(data.cell.text.join(' '))) data.cell.styles.font = THAANA_FONT;
+    },
+    willDrawCell: (data: CellHookData) => {
+      if (data.cell.styles.font !== THAANA_FONT) return;
+      cellLines.set(data.cell, data.cell.text);
+      data.cell.text = [];
+    },
+    didDrawCell: (data: CellHookData) => {
+      const lines = cellLines.get(data.cell);
+      if (!lines) return;
+      const { styles } = data.cell;
+      const position = data.cell.getTextPos();
+      const size = styles.fontSize / doc.internal.scaleFactor;
+      const direction = data.section === 'head' || data.column.index === labelColumn ? content.direction : undefined;
+      doc.setFont(font, styles.fontStyle);
+      lines.forEach((line, index) => drawText(line, position.x, position.y + size * CELL_LINE_OFFSET + index * size * doc.getLineHeightFactor(), {
+        align: styles.halign === 'justify' ? 'left' : styles.halign,
+        direction
+      }));
+    }
+  });
+
+  // Logo scaled into the given box at the start margin; returns the drawn width, or 0 when there is none
+  const logo = content.company.logoUrl ? await loadImage(content.company.logoUrl) : null;
+  const drawLogo = (y: number, maxWidth: number, maxHeight: number) => {
+    if (!logo) return 0;
+    try {
+      const { width, height } = doc.getImageProperties(logo);
+      const fit = Math.min(maxWidth / width, maxHeight / height);
+      doc.addImage(logo, rtl ? start - width * fit : start, y + (maxHeight - height * fit) / 2, width * fit, height * fit);
+      return width * fit;
+    } catch (err) {
+      console.error('Error drawing logo in PDF:', err);
+      return 0;
+    }
+  };
+
+  // Header: modern puts the logo, company name and title in a full-width brand band
+  let leftY: number;
+  let rightY: number;
+  if (modern) {
+    const bandHeight = 30;
+    doc.setFillColor(...brand);
+    doc.rect(0, 0, pageWidth, bandHeight, 'F');
+    const logoWidth = drawLogo((bandHeight - 16) / 2, 40, 16);
+    setText(scale.company, WHITE, 'bold');
+    drawText(content.company.name || '', afterStart(logoWidth ? logoWidth + 4 : 0), bandHeight / 2, { align: startAlign, baseline: 'middle', maxWidth: contentWidth / 2 });
+    setText(scale.title, WHITE);
+    drawText(content.title.toUpperCase(), end, bandHeight / 2, { align: endAlign, baseline: 'middle', direction: content.direction });
+    leftY = bandHeight + 4;
+    rightY = bandHeight + 4;
+  } else {
+    const logoHeight = template === 'compact' ? 12 : 20;
+    leftY = PAGE_MARGIN;
+    if (drawLogo(leftY, 50, logoHeight)) leftY += logoHeight + 4;
+    setText(scale.company, TEXT, 'bold');
+    leftY += lineHeight(scale.company) * 0.7;
+    drawText(content.company.name || '', start, leftY, { align: startAlign, maxWidth: contentWidth / 2 });
+    rightY = PAGE_MARGIN + lineHeight(scale.title) * 0.7;
+    setText(scale.title, brand);
+    drawText(content.title.toUpperCase(), end, rightY, { align: endAlign, direction: content.direction });
+    rightY += scale.gap / 3;
+  }
+
+  // Company details at the start, document details at the end
+  setText(scale.text - 1, MUTED);
+  const companyLines = [...splitText(content.company.address || '', contentWidth / 2), content.company.email].filter(Boolean);
+  companyLines.forEach((line: string) => {
+    leftY += lineHeight(scale.text - 1);
+    drawText(line, start, leftY, { align: startAlign });
+  });
+  if (content.company.gstNumber) {
+    const gstLabel = `${documentLabel(content.language, 'gstNumber')}: `;
+    leftY += lineHeight(scale.text - 1);
+    drawText(gstLabel, start, leftY, { align: startAlign, direction: content.direction });
+    drawText(content.company.gstNumber, afterStart(textWidth(gstLabel)), leftY, { align: startAlign });
+  }
+  content.details.forEach(({ label, value }) => {
+    rightY += lineHeight(scale.text);
+    setText(scale.text, TEXT);
+    drawText(value, end, rightY, { align: endAlign });
+    const valueWidth = textWidth(value);
+    setText(scale.small, MUTED, 'bold');
+    drawText(label.toUpperCase(), beforeEnd(valueWidth + 5), rightY, { align: endAlign, direction: content.direction });
+  });
+
+  // Client
+  let y = Math.max(leftY, rightY) + scale.gap;
+  setText(scale.small, brand, 'bold');
+  drawText(content.clientHeading.toUpperCase(), start, y, { align: startAlign, direction: content.direction });
+  y += lineHeight(scale.text + 2);
+  setText(scale.text + 2, TEXT, 'bold');
+  drawText(content.client.name || documentLabel(content.language, 'noClient'), start, y, { align: startAlign });
+  setText(scale.text, TEXT);
+  [...splitText(content.client.address || '', contentWidth / 2), content.client.email].filter(Boolean).forEach((line: string) => {
+    y += lineHeight(scale.text);
+    drawText(line, start, y, { align: startAlign });
+  });
+  y += scale.gap * 2 / 3;
+
+  // Line items; the header row repeats on every page. Dhivehi documents list the columns right to left.
+  const inReadingOrder = <T,>(cells: T[]) => (rtl ? [...cells].reverse() : cells);
+  const labelText = (key: DocumentLabel) => documentLabel(content.language, key);
+  const head = inReadingOrder([
+    labelText('description'), labelText('quantity'), labelText('rate'),
+    ...(content.columns.discount ? [labelText('lineDiscount')] : []), ...(content.columns.tax ? [labelText('lineTax')] : []), labelText('amount')
+  ]);
+  const body: RowInput[] = content.lines.map(line => inReadingOrder([
+    line.description,
+    line.quantity,
+    line.rate,
+    ...(content.columns.discount ? [line.discount] : []),
+    ...(content.columns.tax ? [line.tax] : []),
+    line.amount
+  ]));
+  const descriptionColumn = rtl ? head.length - 1 : 0;
+  const amountColumn = rtl ? 0 : head.length - 1;
+  const numberColumns = Object.fromEntries(head.map((_, index) => index).filter(index => index !== descriptionColumn)
+    .map(index => [index, { halign: endAlign, cellWidth: 22 }]));
+  const sidePadding = modern ? 2 : 1;
+  const itemCells = thaanaCells();
+
+  y = drawTable(doc, {
+    startY: y,
+    head: [head.map(label => label.toUpperCase())],
+    body,
+    theme: 'plain',
+    showHead: 'everyPage',
+    rowPageBreak: 'avoid',
+    margin: { top: PAGE_MARGIN, right: PAGE_MARGIN, bottom: PAGE_MARGIN + FOOTER_HEIGHT, left: PAGE_MARGIN },
+    styles: { font, fontSize: scale.text - 0.5, textColor: TEXT, cellPadding: { top: scale.row, bottom: scale.row, left: sidePadding, right: sidePadding } },
+    headStyles: modern
+      ? { fontSize: scale.small, fontStyle: 'bold', textColor: WHITE, fillColor: brand }
+      : { fontSize: scale.small, fontStyle: 'bold', textColor: LABEL, lineColor: brand, lineWidth: { bottom: 0.5 } },
+    bodyStyles: { lineColor: ROW_RULE, lineWidth: { bottom: 0.2 } },
+    columnStyles: { ...numberColumns, [descriptionColumn]: { halign: startAlign }, [amountColumn]: { halign: endAlign, cellWidth: 28, fontStyle: 'bold' } },
+    didParseCell: data => {
+      if (data.section === 'head') data.cell.styles.halign = data.column.index === descriptionColumn ? startAlign : endAlign;
+      itemCells.didParseCell(data);
+    },
+    willDrawCell: itemCells.willDrawCell,
+    didDrawCell: itemCells.didDrawCell
+  }) + scale.gap / 2;
+
+  // Totals stay together on one page, against the end margin
+  const totalRow = ({ label, value, emphasis }: DocumentTotal): RowInput => {
+    const cells = inReadingOrder([label, value]);
+    if (emphasis === 'breakdown') return cells.map(text => ({ content: text, styles: { fontSize: scale.small, textColor: LABEL } }));
+    if (!emphasis) return cells;
+    const fontSize = emphasis === 'total' ? scale.text + 3 : scale.text + 1;
+    return cells.map(text => ({
+      content: text,
+      styles: { fontSize, fontStyle: 'bold' as const, textColor: modern ? brand : TEXT, lineColor: modern ? brand : RULE, lineWidth: { top: 0.3 } }
+    }));
+  };
+  const totalCells = thaanaCells(rtl ? 1 : 0);
+  y = drawTable(doc, {
+    startY: y,
+    body: content.totals.map(totalRow),
+    theme: 'plain',
+    pageBreak: 'avoid',
+    tableWidth: 80,
+    margin: { top: PAGE_MARGIN, right: PAGE_MARGIN, bottom: PAGE_MARGIN + FOOTER_HEIGHT, left: rtl ? PAGE_MARGIN : pageWidth - PAGE_MARGIN - 80 },
+    styles: { font, fontSize: scale.text, textColor: MUTED, cellPadding: { top: scale.row * 0.6, bottom: scale.row * 0.6, left: 1, right: 1 } },
+    columnStyles: rtl ? { 0: { halign: 'left' }, 1: { halign: 'right' } } : { 1: { halign: 'right' } },
+    ...totalCells
+  }) + scale.gap * 5 / 6;
+
+  // Notes and terms flow onto a new page when they do not fit
+  const bodySize = scale.text - 0.5;
+  const paragraph = (heading: string, body: string) => {
+    if (!body) return;
+    setText(bodySize, MUTED);
+    const lines = splitText(body, contentWidth);
+    if (y + 6 + lineHeight(bodySize) > bottom) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+    setText(scale.small, brand, 'bold');
+    drawText(heading.toUpperCase(), start, y, { align: startAlign, direction: content.direction });
+    y += 1.5;
+    setText(bodySize, MUTED);
+    lines.forEach(line => {
+      y += lineHeight(bodySize);
+      if (y > bottom) {
+        doc.addPage();
+        y = PAGE_MARGIN + lineHeight(bodySize);
+      }
+      drawText(line, start, y, { align: startAlign });
+    });
+    y += scale.gap * 2 / 3;
+  };
+  paragraph(labelText('notes'), content.notes);
+  paragraph(labelText('terms'), content.terms);
+
+  setText(scale.small, LABEL);
+  const footerLines = splitText(content.footer, contentWidth);
+  if (y + 6 + footerLines.length * lineHeight(scale.small) > bottom) {
+    doc.addPage();
+    y = PAGE_MARGIN;
+  }
+  footerLines.forEach((line, index) => drawText(line, pageWidth / 2, y + 6 + index * lineHeight(scale.small), { align: 'center', direction: content.direction }));
+
+  // Page numbers once the page count is known. Bilingual documents draw each language on its own,
+  // so the Dhivehi numbers are not read into the English ones beside them.
+  const pageCount = doc.getNumberOfPages();
+  const pageLanguages = content.language === 'bilingual' ? (['dv', 'en'] as const) : [content.language];
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    setText(scale.small, LABEL);
+    drawText(content.reference, start, pageHeight - PAGE_MARGIN, { align: startAlign });
+    let offset = 0;
+    pageLanguages.forEach((single, index) => {
+      const text = documentLabel(single, 'page', { page, count: pageCount }) + (index ? ' / ' : '');
+      drawText(text, beforeEnd(offset), pageHeight - PAGE_MARGIN, { align: endAlign, direction: documentDirection(single) });
+      offset += textWidth(text);
+    });
+  }
+
+  doc.setProperties({ title: `${content.title} ${content.reference}`, author: content.company.name, creator: content.company.name });
+  return doc;
+}
+
+export function invoicePdf(invoice: InvoiceData, settings: PublicSettings) {
+  return renderPdf(invoiceDocument(invoice, settings), settings.invoiceTemplate, settings);
+}
+
+export function quotationPdf(quotation: QuotationData, settings: PublicSettings) {
+  return renderPdf(quotationDocument(quotation, settings), settings.quotationTemplate, settings);
+}
+
+export async function downloadInvoicePdf(invoice: InvoiceData, settings: PublicSettings) {
+  (await invoicePdf(invoice, settings)).save(pdfFileName(invoice.invoiceNumber, invoice.clientName));
+}
+
+export async function downloadQuotationPdf(quotation: QuotationData, settings: PublicSettings) {
+  (await quotationPdf(quotation, settings)).save(pdfFileName(quotation.quotationNumber, quotation.clientName));
+}
+
+export interface PdfAttachment {
+  name: string;
+  content: string; // Base64
+}
+
+const attachment = (doc: jsPDF, name: string): PdfAttachment => ({ name, content: doc.output('datauristring').split(',')[1] });
+
+export async function invoicePdfAttachment(invoice: InvoiceData, settings: PublicSettings) {
+  return attachment(await invoicePdf(invoice, settings), pdfFileName(invoice.invoiceNumber, invoice.clientName));
+}
+
+export async function quotationPdfAttachment(quotation: QuotationData, settings: PublicSettings) {
+  return attachment(await quotationPdf(quotation, settings), pdfFileName(quotation.quotationNumber, quotation.clientName));
+}
\ No newline at end of file
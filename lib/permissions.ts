@@ -0,0 +1,47 @@
+import { User } from '../types';
+
+export type Permission =
+  | 'dashboard.view'
+  | 'invoice.create'
+  | 'invoice.edit'
+  | 'invoice.markPaid' // Change status and record payments
+  | 'quotation.edit'
+  | 'quotation.convert'
+  | 'creditNote.edit'
+  | 'creditNote.issue'
+  | 'recurring.edit'
+  | 'client.edit'
+  | 'catalog.edit'
+  | 'team.view'
+  | 'team.manage'
+  | 'settings.view'
+  | 'settings.edit'
+  | 'audit.view';
+
+const EDITOR_PERMISSIONS: Permission[] = [
+  'dashboard.view',
+  'invoice.create',
+  'invoice.edit',
+  'invoice.markPaid',
+  'quotation.edit',
+  'quotation.convert',
+  'creditNote.edit',
+  'creditNote.issue',
+  'recurring.edit',
+  'client.edit',
+  'catalog.edit',
+  'team.view',
+  'settings.view'
+];
+
+// Keep in step with role_has_permission() in the permissions migration, which enforces the same map in the database.
+// Every signed-in role can read documents; viewers get nothing beyond that.
+export const ROLE_PERMISSIONS: Record<User['role'], Permission[]> = {
+  admin: [...EDITOR_PERMISSIONS, 'team.manage', 'settings.edit', 'audit.view'],
+  editor: EDITOR_PERMISSIONS,
+  viewer: []
+};
+
+export function can(user: Pick<User, 'role'> | null | undefined, permission: Permission) {
+  return !!user && (ROLE_PERMISSIONS[user.role] ?? []).includes(permission);
+}
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { InvoiceData, QuotationData } from '../types';
+
+// Build a new draft invoice carrying over the client, currency, tax and line items of a quotation.
+export function quotationToInvoice(quotation: QuotationData): InvoiceData {
+  return {
+    id: crypto.randomUUID(),
+    invoiceNumber: '', // Allocated on save
+    status: 'draft',
+    date: new Date().toISOString().split('T')[0],
+    dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+    clientId: quotation.clientId,
+    clientName: quotation.clientName,
+    clientAddress: quotation.clientAddress,
+    clientEmail: quotation.clientEmail,
+    currency: quotation.currency,
+    taxRate: quotation.taxRate,
+    discountType: quotation.discountType,
+    discountValue: quotation.discountValue,
+    notes: quotation.notes,
+    terms: quotation.terms,
+    language: quotation.language,
+    items: quotation.items.map(item => ({ ...item, id: crypto.randomUUID() })),
+    payments: [],
+    creditedAmount: 0,
+    quotationId: quotation.id
+  };
+}
\ No newline at end of file
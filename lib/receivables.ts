@@ -0,0 +1,58 @@
+import { InvoiceData } from '../types';
+import { balanceDue } from './invoiceTotals';
+
+export type AgingBucket = 'current' | '1-30' | '31-60' | '61-90' | '90+';
+
+export const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: '1-30', label: '1–30 days' },
+  { key: '31-60', label: '31–60 days' },
+  { key: '61-90', label: '61–90 days' },
+  { key: '90+', label: '90+ days' }
+];
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Whole days between the due date and asOf; negative while the invoice is not yet due
+export function daysPastDue(invoice: InvoiceData, asOf: string = today()) {
+  return Math.floor((Date.parse(asOf) - Date.parse(invoice.dueDate)) / (24 * 60 * 60 * 1000));
+}
+
+// Overdue is derived rather than stored: an issued invoice with money owing past its due date
+export function isOverdue(invoice: InvoiceData, asOf: string = today()) {
+  if (invoice.status === 'draft' || invoice.status === 'paid') return false;
+  if (!invoice.dueDate) return false;
+  return daysPastDue(invoice, asOf) > 0 && balanceDue(invoice) > 0;
+}
+
+export function agingBucket(days: number): AgingBucket {
+  if (days <= 0) return 'current';
+  if (days <= 30) return '1-30';
+  if (days <= 60) return '31-60';
+  if (days <= 90) return '61-90';
+  return '90+';
+}
+
+// Outstanding balances of issued invoices grouped by how long they are past due.
+// Pass convert to report invoices in different currencies in a single currency.
+export function agingReport(invoices: InvoiceData[], asOf: string = today(), convert = (invoice: InvoiceData, amount: number) => amount) {
+  const report: Record<AgingBucket, { count: number; amount: number }> = {
+    'current': { count: 0, amount: 0 },
+    '1-30': { count: 0, amount: 0 },
+    '31-60': { count: 0, amount: 0 },
+    '61-90': { count: 0, amount: 0 },
+    '90+': { count: 0, amount: 0 }
+  };
+
+  invoices
+    .filter(inv => inv.status === 'pending' || inv.status === 'partially_paid')
+    .forEach(inv => {
+      const balance = balanceDue(inv);
+      if (balance <= 0) return;
+      const bucket = report[agingBucket(inv.dueDate ? daysPastDue(inv, asOf) : 0)];
+      bucket.count++;
+      bucket.amount += convert(inv, balance);
+    });
+
+  return report;
+}
\ No newline at end of file
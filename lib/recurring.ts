@@ -0,0 +1,95 @@
+import { InvoiceData, RecurringFrequency, RecurringSchedule } from '../types';
+
+const toDateString = (d: Date) => d.toISOString().split('T')[0];
+
+// Date of the nth occurrence counted from the start date. Months are clamped so a
+// schedule starting on the 31st runs on the last day of shorter months.
+export function occurrenceDate(startDate: string, frequency: RecurringFrequency, n: number) {
+  const start = new Date(startDate + 'T00:00:00Z');
+  if (frequency === 'weekly') {
+    return toDateString(new Date(start.getTime() + n * 7 * 24 * 60 * 60 * 1000));
+  }
+  const months = frequency === 'monthly' ? n : n * 3;
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return toDateString(new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), lastDay))));
+}
+
+// Every period up to and including asOf that has not been generated yet, oldest first.
+// Walking from the start date means periods missed while the app was closed are caught up.
+export function duePeriods(schedule: RecurringSchedule, generatedPeriods: string[], asOf: string) {
+  const periods: string[] = [];
+  if (!schedule.active) return periods;
+  const generated = new Set(generatedPeriods);
+  for (let n = 0; ; n++) {
+    const date = occurrenceDate(schedule.startDate, schedule.frequency, n);
+    if (date > asOf || (schedule.endDate && date > schedule.endDate)) break;
+    if (!generated.has(date)) periods.push(date);
+  }
+  return periods;
+}
+
+export function upcomingPeriods(schedule: RecurringSchedule, asOf: string, count: number) {
+  const periods: string[] = [];
+  if (!schedule.active) return periods;
+  for (let n = 0; periods.length < count; n++) {
+    const date = occurrenceDate(schedule.startDate, schedule.frequency, n);
+    if (schedule.endDate && date > schedule.endDate) break;
+    if (date > asOf) periods.push(date);
+  }
+  return periods;
+}
+
+export function invoiceForPeriod(schedule: RecurringSchedule, period: string): InvoiceData {
+  const due = new Date(new Date(period + 'T00:00:00Z').getTime() + schedule.paymentTermsDays * 24 * 60 * 60 * 1000);
+  return {
+    id: crypto.randomUUID(),
+    invoiceNumber: '',
+    status: schedule.autoIssue ? 'pending' : 'draft',
+    date: period,
+    dueDate: toDateString(due),
+    clientId: schedule.clientId,
+    clientName: schedule.clientName,
+    clientAddress: schedule.clientAddress,
+    clientEmail: schedule.clientEmail,
+    currency: schedule.currency,
+    taxRate: schedule.taxRate,
+    discountType: schedule.discountType,
+    discountValue: schedule.discountValue,
+    notes: schedule.notes,
+    terms: schedule.terms,
+    language: schedule.language,
+    items: schedule.items.map(item => ({ ...item, id: crypto.randomUUID() })),
+    payments: [],
+    creditedAmount: 0,
+    recurringScheduleId: schedule.id,
+    recurringPeriod: period
+  };
+}
+
+export function scheduleFromInvoice(invoice: InvoiceData): RecurringSchedule {
+  const termsDays = Math.max(0, Math.round((Date.parse(invoice.dueDate) - Date.parse(invoice.date)) / (24 * 60 * 60 * 1000)));
+  return {
+    id: crypto.randomUUID(),
+    name: `${invoice.clientName} retainer`,
+    frequency: 'monthly',
+    startDate: toDateString(new Date()),
+    endDate: undefined,
+    autoIssue: false,
+    paymentTermsDays: termsDays || 7,
+    active: true,
+    clientId: invoice.clientId,
+    clientName: invoice.clientName,
+    clientAddress: invoice.clientAddress,
+    clientEmail: invoice.clientEmail,
+    currency: invoice.currency,
+    taxRate: invoice.taxRate,
+    discountType: invoice.discountType,
+    discountValue: invoice.discountValue,
+    notes: invoice.notes,
+    terms: invoice.terms,
+    language: invoice.language,
+    items: invoice.items.map(item => ({ ...item, id: crypto.randomUUID() }))
+  };
+}
\ No newline at end of file
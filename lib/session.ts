@@ -0,0 +1,60 @@
+import { User } from '../types';
+
+export interface Session {
+  token: string;
+  expiresAt: string;
+}
+
+// Row shape returned by the verify_login and refresh_session functions
+export interface SessionUserRow {
+  id: string;
+  name: string;
+  email: string;
+  role: User['role'];
+  avatar?: string;
+  active?: boolean;
+  session_expires_at: string;
+}
+
+const STORAGE_KEY = 'sandpix_session';
+const LEGACY_USER_KEY = 'sandpix_user';
+
+export const DEFAULT_SESSION_IDLE_MINUTES = 30;
+export const DEFAULT_LOGIN_LOCKOUT_THRESHOLD = 5;
+export const DEFAULT_LOGIN_LOCKOUT_MINUTES = 15;
+
+// How often activity is reported to the server while the user is working
+export const SESSION_REFRESH_INTERVAL_MS = 60 * 1000;
+
+// Only the opaque token and its expiry are kept in the browser; the profile is always re-read from the server
+export function loadSession(): Session | null {
+  // Older versions stored the whole user object, sometimes including the password
+  localStorage.removeItem(LEGACY_USER_KEY);
+  try {
+    const session = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null') as Session | null;
+    if (session?.token && session.expiresAt && Date.parse(session.expiresAt) > Date.now()) return session;
+  } catch (e) {
+    // Fall through and clear the unreadable value
+  }
+  localStorage.removeItem(STORAGE_KEY);
+  return null;
+}
+
+export function saveSession(session: Session) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+}
+
+export function clearSession() {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+export function userFromSessionRow(row: SessionUserRow): User {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    role: row.role,
+    avatar: row.avatar ?? undefined,
+    active: row.active
+  };
+}
\ No newline at end of file
@@ -0,0 +1,19 @@
+import QRCode from 'qrcode';
+
+// Standard otpauth:// link understood by Google Authenticator, 1Password, Authy and similar apps.
+// The secret is base32 and the code settings match totp_code() in the database (SHA-1, 6 digits, 30 seconds).
+export function totpUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: '6', period: '30' });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+export function totpQrCode(uri: string): Promise<string> {
+  return QRCode.toDataURL(uri, { margin: 1, width: 200 });
+}
+
+// Groups of four are easier to type into an app by hand
+export const formatTotpSecret = (secret: string) => secret.replace(/(.{4})/g, '$1 ').trim();
+
+export const recoveryCodesText = (codes: string[], issuer: string) =>
+  `${issuer} recovery codes\nEach code can be used once instead of an authenticator code.\n\n${codes.join('\n')}\n`;
\ No newline at end of file
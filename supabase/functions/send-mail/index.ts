@@ -0,0 +1,52 @@
+// Delivers queued mail from mail_outbox. The app calls this right after queueing an invite, reset email or document.
+//
+// Environment:
+//   MAIL_TRANSPORT  console (default) or smtp
+//   SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD, MAIL_FROM  for the smtp transport
+//   APP_URL  base URL used in links, e.g. https://invoices.sandpixmaldives.com
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { transportFromEnv } from './transports.ts';
+import { renderMail } from './templates.ts';
+
+const MAX_ATTEMPTS = 5;
+
+Deno.serve(async () => {
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const transport = transportFromEnv();
+  const appUrl = Deno.env.get('APP_URL') || 'http://localhost:5173';
+
+  const { data: pending, error } = await supabase
+    .from('mail_outbox')
+    .select('*')
+    .is('sent_at', null)
+    .lt('attempts', MAX_ATTEMPTS)
+    .order('created_at')
+    .limit(20);
+  if (error) return new Response(JSON.stringify({ error: error.message }), { status: 500 });
+
+  let sent = 0;
+  for (const mail of pending) {
+    // Claim the row first so overlapping runs do not send the same mail twice
+    const { data: claimed } = await supabase
+      .from('mail_outbox')
+      .update({ attempts: mail.attempts + 1 })
+      .eq('id', mail.id)
+      .eq('attempts', mail.attempts)
+      .is('sent_at', null)
+      .select('id');
+    if (!claimed?.length) continue;
+
+    try {
+      await transport.send({ to: mail.to_address, ...renderMail(mail.template, mail.data, appUrl) });
+      await supabase.from('mail_outbox').update({ sent_at: new Date().toISOString(), data: {}, last_error: null }).eq('id', mail.id);
+      sent++;
+    } catch (e) {
+      console.error(`Could not send mail ${mail.id}:`, e);
+      await supabase.from('mail_outbox').update({ last_error: String(e) }).eq('id', mail.id);
+    }
+  }
+
+  return new Response(JSON.stringify({ sent, pending: pending.length - sent }), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+});
\ No newline at end of file
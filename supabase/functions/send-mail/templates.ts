@@ -0,0 +1,49 @@
+import { MailAttachment } from './transports.ts';
+
+export type MailTemplate = 'invite' | 'password_reset' | 'document';
+
+interface RenderedMail {
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+export function renderMail(template: MailTemplate, data: Record<string, string>, appUrl: string): RenderedMail {
+  const link = `${appUrl.replace(/\/$/, '')}/?token=${encodeURIComponent(data.token)}`;
+  switch (template) {
+    case 'invite':
+      return {
+        subject: 'You have been invited to Sandpix Invoices',
+        text: [
+          `Hi ${data.name},`,
+          '',
+          `${data.invited_by || 'An administrator'} has invited you to the Sandpix Maldives invoicing app.`,
+          'Choose a password to activate your account:',
+          '',
+          link,
+          '',
+          'This link can be used once and expires in 7 days.'
+        ].join('\n')
+      };
+    case 'password_reset':
+      return {
+        subject: 'Reset your Sandpix Invoices password',
+        text: [
+          `Hi ${data.name},`,
+          '',
+          'We received a request to reset your password. Choose a new one here:',
+          '',
+          link,
+          '',
+          'This link can be used once and expires in 1 hour. If you did not ask for a reset you can ignore this email.'
+        ].join('\n')
+      };
+    case 'document':
+      // Invoices and quotations arrive already written from the user's email template, with the PDF
+      return {
+        subject: data.subject,
+        text: data.body,
+        attachments: data.attachment ? [{ filename: data.attachment_name, content: data.attachment }] : []
+      };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,59 @@
+import nodemailer from 'npm:nodemailer@6';
+
+export interface MailAttachment {
+  filename: string;
+  content: string; // Base64
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailTransport {
+  send: (message: MailMessage) => Promise<void>;
+}
+
+// Prints mail to the function log instead of delivering it
+const consoleTransport = (): MailTransport => ({
+  send: async (message) => {
+    const attachments = (message.attachments || []).map(file => `\nAttachment: ${file.filename} (${Math.round(file.content.length * 0.75 / 1024)} KB)`);
+    console.log(`To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}${attachments.join('')}`);
+  }
+});
+
+// Any SMTP server. Point SMTP_HOST/SMTP_PORT at a local catcher such as Mailpit (port 1025) during development.
+const smtpTransport = (): MailTransport => {
+  const port = Number(Deno.env.get('SMTP_PORT') || 587);
+  const user = Deno.env.get('SMTP_USER');
+  const transporter = nodemailer.createTransport({
+    host: Deno.env.get('SMTP_HOST') || 'localhost',
+    port,
+    secure: port === 465,
+    auth: user ? { user, pass: Deno.env.get('SMTP_PASSWORD') || '' } : undefined
+  });
+  const from = Deno.env.get('MAIL_FROM') || 'Sandpix Maldives <no-reply@sandpixmaldives.com>';
+  return {
+    send: async (message) => {
+      await transporter.sendMail({
+        from,
+        ...message,
+        attachments: message.attachments?.map(file => ({ ...file, encoding: 'base64' }))
+      });
+    }
+  };
+};
+
+const TRANSPORTS: Record<string, () => MailTransport> = {
+  console: consoleTransport,
+  smtp: smtpTransport
+};
+
+export function transportFromEnv(): MailTransport {
+  const name = Deno.env.get('MAIL_TRANSPORT') || 'console';
+  const create = TRANSPORTS[name];
+  if (!create) throw new Error(`Unknown MAIL_TRANSPORT "${name}". Use one of: ${Object.keys(TRANSPORTS).join(', ')}`);
+  return create();
+}
\ No newline at end of file
@@ -0,0 +1,7 @@
+-- Link an invoice back to the quotation it was converted from.
+-- The unique constraint stops the same quotation from being invoiced twice.
+alter table invoices
+  add column if not exists quotation_id uuid references quotations(id) on delete set null;
+
+alter table invoices
+  add constraint invoices_quotation_id_key unique (quotation_id);
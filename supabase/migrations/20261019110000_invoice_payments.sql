@@ -0,0 +1,22 @@
+-- Payments received against an invoice. Paid amount and balance due are derived from these rows.
+create table if not exists invoice_payments (
+  id uuid primary key default gen_random_uuid(),
+  invoice_id uuid not null references invoices(id) on delete cascade,
+  date date not null,
+  amount numeric(12, 2) not null check (amount > 0),
+  method text not null default 'bank_transfer' check (method in ('cash', 'bank_transfer', 'card', 'other')),
+  reference text not null default '',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists invoice_payments_invoice_id_idx on invoice_payments (invoice_id);
+
+-- Invoices already marked paid get a single payment for their full total so collected figures stay unchanged.
+insert into invoice_payments (invoice_id, date, amount, method, reference)
+select i.id, i.date, round(sum(it.quantity * it.rate) * (1 + i.tax_rate / 100.0), 2), 'other', 'Backfilled from paid status'
+from invoices i
+join invoice_items it on it.invoice_id = i.id
+where i.status = 'paid'
+  and not exists (select 1 from invoice_payments p where p.invoice_id = i.id)
+group by i.id, i.date, i.tax_rate
+having sum(it.quantity * it.rate) > 0;
@@ -0,0 +1,38 @@
+-- Reusable client records. Documents keep their own copy of the client fields so
+-- printed invoices do not change when a client record is edited later.
+create table if not exists clients (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  address text not null default '',
+  billing_address text not null default '',
+  email text not null default '',
+  cc_emails text not null default '',
+  phone text not null default '',
+  tax_id text not null default '',
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists clients_name_key on clients (lower(trim(name)));
+
+alter table invoices add column if not exists client_id uuid references clients(id) on delete set null;
+alter table quotations add column if not exists client_id uuid references clients(id) on delete set null;
+
+-- Backfill: one client per distinct client name, taking the most recent address and email seen.
+insert into clients (name, address, email)
+select distinct on (lower(trim(client_name))) trim(client_name), coalesce(client_address, ''), coalesce(client_email, '')
+from (
+  select client_name, client_address, client_email, date from invoices
+  union all
+  select client_name, client_address, client_email, date from quotations
+) docs
+where coalesce(trim(client_name), '') <> ''
+order by lower(trim(client_name)), date desc
+on conflict do nothing;
+
+update invoices i set client_id = c.id
+from clients c
+where i.client_id is null and lower(trim(i.client_name)) = lower(trim(c.name));
+
+update quotations q set client_id = c.id
+from clients c
+where q.client_id is null and lower(trim(q.client_name)) = lower(trim(c.name));
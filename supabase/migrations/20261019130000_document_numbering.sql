@@ -0,0 +1,92 @@
+-- Gap-free sequential numbering for invoices and quotations.
+-- Numbers are assigned by a BEFORE INSERT trigger, so the counter increment commits or rolls back
+-- together with the document row and a failed save never burns a number.
+
+alter table settings add column if not exists invoice_number_pattern text not null default 'INV-{YYYY}-{0000}';
+alter table settings add column if not exists quotation_number_pattern text not null default 'QT-{YYYY}-{0000}';
+
+create table if not exists document_counters (
+  doc_type text not null,
+  period text not null, -- Year when the pattern contains a year token, otherwise 'all'
+  last_value integer not null default 0,
+  primary key (doc_type, period)
+);
+
+-- Supported tokens: {YYYY}, {YY}, {MM} and a run of zeros such as {0000} for the padded sequence.
+create or replace function format_document_number(p_pattern text, p_date date, p_seq integer)
+returns text language plpgsql immutable as $$
+declare
+  result text := p_pattern;
+  digits text;
+begin
+  result := replace(result, '{YYYY}', to_char(p_date, 'YYYY'));
+  result := replace(result, '{YY}', to_char(p_date, 'YY'));
+  result := replace(result, '{MM}', to_char(p_date, 'MM'));
+  digits := substring(result from '\{(0+)\}');
+  if digits is null then
+    return result || p_seq::text;
+  end if;
+  return replace(result, '{' || digits || '}',
+    case when length(p_seq::text) >= length(digits) then p_seq::text else lpad(p_seq::text, length(digits), '0') end);
+end $$;
+
+create or replace function next_document_number(p_doc_type text, p_pattern text, p_date date)
+returns text language plpgsql as $$
+declare
+  v_period text := case when p_pattern like '%{YY%' then to_char(p_date, 'YYYY') else 'all' end;
+  v_seq integer;
+begin
+  insert into document_counters (doc_type, period, last_value)
+  values (p_doc_type, v_period, 1)
+  on conflict (doc_type, period) do update set last_value = document_counters.last_value + 1
+  returning last_value into v_seq;
+  return format_document_number(p_pattern, p_date, v_seq);
+end $$;
+
+create or replace function assign_invoice_number() returns trigger language plpgsql as $$
+begin
+  if coalesce(new.invoice_number, '') = '' then
+    new.invoice_number := next_document_number(
+      'invoice',
+      coalesce((select invoice_number_pattern from settings where id = 1), 'INV-{YYYY}-{0000}'),
+      coalesce(new.date, current_date)
+    );
+  end if;
+  return new;
+end $$;
+
+create or replace function assign_quotation_number() returns trigger language plpgsql as $$
+begin
+  if coalesce(new.quotation_number, '') = '' then
+    new.quotation_number := next_document_number(
+      'quotation',
+      coalesce((select quotation_number_pattern from settings where id = 1), 'QT-{YYYY}-{0000}'),
+      coalesce(new.date, current_date)
+    );
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists invoices_assign_number on invoices;
+create trigger invoices_assign_number before insert on invoices
+  for each row execute function assign_invoice_number();
+
+drop trigger if exists quotations_assign_number on quotations;
+create trigger quotations_assign_number before insert on quotations
+  for each row execute function assign_quotation_number();
+
+-- Randomly generated legacy numbers may collide; suffix the later duplicates before enforcing uniqueness.
+update invoices i set invoice_number = i.invoice_number || '-' || d.rn
+from (
+  select id, row_number() over (partition by invoice_number order by date, id) as rn from invoices
+) d
+where d.id = i.id and d.rn > 1;
+
+update quotations q set quotation_number = q.quotation_number || '-' || d.rn
+from (
+  select id, row_number() over (partition by quotation_number order by date, id) as rn from quotations
+) d
+where d.id = q.id and d.rn > 1;
+
+alter table invoices add constraint invoices_invoice_number_key unique (invoice_number);
+alter table quotations add constraint quotations_quotation_number_key unique (quotation_number);
@@ -0,0 +1,78 @@
+-- Credit notes reference an existing invoice and credit some or all of its lines.
+-- Issued credit notes are never edited in place; a correction is another credit note.
+
+alter table settings add column if not exists credit_note_number_pattern text not null default 'CN-{YYYY}-{0000}';
+
+create table if not exists credit_notes (
+  id uuid primary key default gen_random_uuid(),
+  credit_note_number text not null unique,
+  status text not null default 'draft' check (status in ('draft', 'issued')),
+  invoice_id uuid not null references invoices(id) on delete restrict,
+  date date not null,
+  reason text not null default '',
+  client_id uuid references clients(id) on delete set null,
+  client_name text not null default '',
+  client_address text not null default '',
+  client_email text not null default '',
+  currency text not null,
+  tax_rate numeric not null default 0,
+  refund_amount numeric(12, 2) not null default 0 check (refund_amount >= 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists credit_notes_invoice_id_idx on credit_notes (invoice_id);
+
+create table if not exists credit_note_items (
+  id uuid primary key default gen_random_uuid(),
+  credit_note_id uuid not null references credit_notes(id) on delete cascade,
+  description text not null default '',
+  quantity numeric not null default 0,
+  rate numeric not null default 0
+);
+
+create or replace function assign_credit_note_number() returns trigger language plpgsql as $$
+begin
+  if coalesce(new.credit_note_number, '') = '' then
+    new.credit_note_number := next_document_number(
+      'credit_note',
+      coalesce((select credit_note_number_pattern from settings where id = 1), 'CN-{YYYY}-{0000}'),
+      coalesce(new.date, current_date)
+    );
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists credit_notes_assign_number on credit_notes;
+create trigger credit_notes_assign_number before insert on credit_notes
+  for each row execute function assign_credit_note_number();
+
+-- Lock issued credit notes against edits so the audit trail holds.
+create or replace function prevent_issued_credit_note_changes() returns trigger language plpgsql as $$
+begin
+  if old.status = 'issued' then
+    raise exception 'Credit note % has been issued and cannot be changed', old.credit_note_number;
+  end if;
+  return case when tg_op = 'DELETE' then old else new end;
+end $$;
+
+drop trigger if exists credit_notes_lock_issued on credit_notes;
+create trigger credit_notes_lock_issued before update or delete on credit_notes
+  for each row execute function prevent_issued_credit_note_changes();
+
+-- The lines of an issued credit note are locked with it. A line removed by deleting a draft note finds no parent.
+create or replace function prevent_issued_credit_note_item_changes() returns trigger language plpgsql as $$
+declare
+  v_number text;
+begin
+  select credit_note_number into v_number from credit_notes
+  where id in (old.credit_note_id, new.credit_note_id) and status = 'issued'
+  limit 1;
+  if found then
+    raise exception 'Credit note % has been issued and cannot be changed', v_number;
+  end if;
+  return case when tg_op = 'DELETE' then old else new end;
+end $$;
+
+drop trigger if exists credit_note_items_lock_issued on credit_note_items;
+create trigger credit_note_items_lock_issued before insert or update or delete on credit_note_items
+  for each row execute function prevent_issued_credit_note_item_changes();
@@ -0,0 +1,36 @@
+-- Recurring invoice templates. Each generated invoice records the schedule and the period it
+-- covers; the unique constraint makes generation idempotent if two sessions run it at once.
+create table if not exists recurring_schedules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  frequency text not null check (frequency in ('weekly', 'monthly', 'quarterly')),
+  start_date date not null,
+  end_date date,
+  auto_issue boolean not null default false,
+  payment_terms_days integer not null default 7 check (payment_terms_days >= 0),
+  active boolean not null default true,
+  client_id uuid references clients(id) on delete set null,
+  client_name text not null default '',
+  client_address text not null default '',
+  client_email text not null default '',
+  currency text not null,
+  tax_rate numeric not null default 0,
+  notes text not null default '',
+  terms text not null default '',
+  created_at timestamptz not null default now(),
+  check (end_date is null or end_date >= start_date)
+);
+
+create table if not exists recurring_schedule_items (
+  id uuid primary key default gen_random_uuid(),
+  schedule_id uuid not null references recurring_schedules(id) on delete cascade,
+  description text not null default '',
+  quantity numeric not null default 0,
+  rate numeric not null default 0
+);
+
+alter table invoices add column if not exists recurring_schedule_id uuid references recurring_schedules(id) on delete set null;
+alter table invoices add column if not exists recurring_period date;
+
+alter table invoices
+  add constraint invoices_recurring_period_key unique (recurring_schedule_id, recurring_period);
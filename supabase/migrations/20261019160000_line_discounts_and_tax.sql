@@ -0,0 +1,42 @@
+-- Per-line discounts and tax rates, plus a document-level discount.
+-- A null line tax_rate means the line follows the document's tax_rate.
+
+alter table invoice_items
+  add column if not exists discount_type text check (discount_type in ('percent', 'fixed')),
+  add column if not exists discount_value numeric not null default 0 check (discount_value >= 0),
+  add column if not exists tax_rate numeric check (tax_rate >= 0),
+  add column if not exists tax_exempt boolean not null default false;
+
+alter table quotation_items
+  add column if not exists discount_type text check (discount_type in ('percent', 'fixed')),
+  add column if not exists discount_value numeric not null default 0 check (discount_value >= 0),
+  add column if not exists tax_rate numeric check (tax_rate >= 0),
+  add column if not exists tax_exempt boolean not null default false;
+
+alter table credit_note_items
+  add column if not exists discount_type text check (discount_type in ('percent', 'fixed')),
+  add column if not exists discount_value numeric not null default 0 check (discount_value >= 0),
+  add column if not exists tax_rate numeric check (tax_rate >= 0),
+  add column if not exists tax_exempt boolean not null default false;
+
+alter table recurring_schedule_items
+  add column if not exists discount_type text check (discount_type in ('percent', 'fixed')),
+  add column if not exists discount_value numeric not null default 0 check (discount_value >= 0),
+  add column if not exists tax_rate numeric check (tax_rate >= 0),
+  add column if not exists tax_exempt boolean not null default false;
+
+alter table invoices
+  add column if not exists discount_type text check (discount_type in ('percent', 'fixed')),
+  add column if not exists discount_value numeric not null default 0 check (discount_value >= 0);
+
+alter table quotations
+  add column if not exists discount_type text check (discount_type in ('percent', 'fixed')),
+  add column if not exists discount_value numeric not null default 0 check (discount_value >= 0);
+
+alter table credit_notes
+  add column if not exists discount_type text check (discount_type in ('percent', 'fixed')),
+  add column if not exists discount_value numeric not null default 0 check (discount_value >= 0);
+
+alter table recurring_schedules
+  add column if not exists discount_type text check (discount_type in ('percent', 'fixed')),
+  add column if not exists discount_value numeric not null default 0 check (discount_value >= 0);
@@ -0,0 +1,46 @@
+-- Base currency for reporting and a hand-maintained table of exchange rates.
+-- Rates are units of the base currency for one unit of the foreign currency.
+
+alter table settings add column if not exists base_currency text;
+update settings set base_currency = coalesce(base_currency, currency_symbol, 'MVR');
+alter table settings alter column base_currency set not null;
+
+create table if not exists exchange_rates (
+  id uuid primary key default gen_random_uuid(),
+  currency text not null check (currency ~ '^[A-Z]{3}$'),
+  rate numeric not null check (rate > 0),
+  effective_date date not null,
+  created_at timestamptz not null default now(),
+  unique (currency, effective_date)
+);
+
+-- Locked in when a document is issued so later rate changes do not rewrite history
+alter table invoices add column if not exists exchange_rate numeric check (exchange_rate > 0);
+alter table credit_notes add column if not exists exchange_rate numeric check (exchange_rate > 0);
+
+-- Everything issued so far was billed in the base currency
+update invoices set exchange_rate = 1
+  where exchange_rate is null and status <> 'draft'
+    and currency = (select base_currency from settings limit 1);
+update credit_notes set exchange_rate = 1
+  where exchange_rate is null
+    and currency = (select base_currency from settings limit 1);
+
+-- Stored rates and locked-in document rates are all relative to the base currency, so it is fixed once either exists
+create or replace function guard_base_currency() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if new.base_currency is distinct from old.base_currency and (
+    exists (select 1 from exchange_rates)
+    or exists (select 1 from invoices)
+    or exists (select 1 from quotations)
+    or exists (select 1 from credit_notes)
+  ) then
+    raise exception 'The base currency cannot be changed once documents or exchange rates exist';
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists settings_base_currency on settings;
+create trigger settings_base_currency before update of base_currency on settings
+  for each row execute function guard_base_currency();
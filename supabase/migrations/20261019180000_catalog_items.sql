@@ -0,0 +1,21 @@
+-- Product and service catalog. Prices are in the base currency.
+
+create table if not exists catalog_items (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  description text not null default '',
+  unit text not null default '',
+  rate numeric not null default 0 check (rate >= 0),
+  tax_rate numeric check (tax_rate >= 0), -- null follows the document rate
+  tax_exempt boolean not null default false,
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+-- Lines remember which catalog item they came from so sales can be reported per item
+alter table invoice_items add column if not exists catalog_item_id uuid references catalog_items(id) on delete set null;
+alter table quotation_items add column if not exists catalog_item_id uuid references catalog_items(id) on delete set null;
+alter table credit_note_items add column if not exists catalog_item_id uuid references catalog_items(id) on delete set null;
+alter table recurring_schedule_items add column if not exists catalog_item_id uuid references catalog_items(id) on delete set null;
+
+create index if not exists invoice_items_catalog_item_id_idx on invoice_items (catalog_item_id);
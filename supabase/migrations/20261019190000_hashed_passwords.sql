@@ -0,0 +1,56 @@
+-- Salted password hashes instead of plaintext passwords.
+-- Credentials are only ever checked inside security definer functions, so the hash never leaves the database.
+
+create extension if not exists pgcrypto;
+
+alter table users add column if not exists password_hash text;
+
+-- Migrate the existing plaintext passwords, then drop them
+do $$
+begin
+  if exists (select 1 from information_schema.columns where table_name = 'users' and column_name = 'password') then
+    update users set password_hash = crypt(password, gen_salt('bf'))
+    where password_hash is null and coalesce(password, '') <> '';
+    alter table users drop column password;
+  end if;
+end $$;
+
+-- The client may read and edit profile columns but never the hash
+revoke select, insert, update on users from anon, authenticated;
+grant select (id, name, email, role, avatar, active) on users to anon, authenticated;
+grant insert (id, name, email, role, avatar, active) on users to anon, authenticated;
+grant update (name, email, role, avatar, active) on users to anon, authenticated;
+
+-- Sign in with an email address or a name. Email matches win over name matches.
+create or replace function verify_login(p_identifier text, p_password text)
+returns table (id text, name text, email text, role text, avatar text, active boolean)
+language plpgsql stable security definer set search_path = public, extensions as $$
+begin
+  return query
+  select u.id::text, u.name::text, u.email::text, u.role::text, u.avatar::text, u.active
+  from users u
+  where (lower(u.email) = lower(trim(p_identifier)) or u.name = trim(p_identifier))
+    and u.password_hash is not null
+    and u.password_hash = crypt(p_password, u.password_hash)
+  order by (lower(u.email) = lower(trim(p_identifier))) desc
+  limit 1;
+end $$;
+
+-- Requests carry no signed-in identity yet, so the server cannot tell an admin from anyone holding the
+-- public key. Until it can, passwords are set with the service role (SQL editor or dashboard) only.
+create or replace function set_user_password(p_user_id text, p_password text)
+returns void language plpgsql security definer set search_path = public, extensions as $$
+begin
+  if coalesce(nullif(current_setting('request.jwt.claims', true), '')::json ->> 'role', '') in ('anon', 'authenticated') then
+    raise exception 'Not allowed to change passwords' using errcode = '42501';
+  end if;
+  if length(coalesce(p_password, '')) < 8 then
+    raise exception 'Password must be at least 8 characters';
+  end if;
+  update users set password_hash = crypt(p_password, gen_salt('bf')) where id::text = p_user_id;
+end $$;
+
+revoke all on function verify_login(text, text) from public;
+revoke all on function set_user_password(text, text) from public;
+revoke all on function set_user_password(text, text) from anon, authenticated;
+grant execute on function verify_login(text, text) to anon, authenticated;
@@ -0,0 +1,21 @@
+-- Team members are managed from the Users view and written straight to this table.
+
+create unique index if not exists users_email_lower_key on users (lower(email));
+
+-- There must always be at least one active admin left to manage the team
+create or replace function protect_last_admin() returns trigger language plpgsql as $$
+begin
+  if old.role = 'admin' and coalesce(old.active, true)
+    and (tg_op = 'DELETE' or new.role <> 'admin' or new.active = false)
+    and not exists (
+      select 1 from users where id <> old.id and role = 'admin' and coalesce(active, true)
+    ) then
+    raise exception 'At least one active admin is required' using errcode = 'P0001';
+  end if;
+  return case when tg_op = 'DELETE' then old else new end;
+end $$;
+
+drop trigger if exists users_protect_last_admin on users;
+create trigger users_protect_last_admin
+  before update or delete on users
+  for each row execute function protect_last_admin();
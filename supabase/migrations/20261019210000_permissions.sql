@@ -0,0 +1,159 @@
+-- Role permissions enforced by row-level security.
+-- Every request carries the signed-in user's session token in the x-session-token header,
+-- and the policies below resolve it to a role. The role map mirrors lib/permissions.ts.
+
+create table if not exists user_sessions (
+  token uuid primary key default gen_random_uuid(),
+  user_id text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists user_sessions_user_id_idx on user_sessions (user_id);
+
+-- Sessions are only created and read through the functions below
+alter table user_sessions enable row level security;
+revoke all on user_sessions from anon, authenticated;
+
+create or replace function current_session_token() returns uuid
+language plpgsql stable as $$
+begin
+  return nullif(current_setting('request.headers', true)::json ->> 'x-session-token', '')::uuid;
+exception when others then
+  return null;
+end $$;
+
+-- Role of the active user behind the current request, or null when not signed in
+create or replace function current_app_role() returns text
+language sql stable security definer set search_path = public as $$
+  select u.role::text
+  from user_sessions s
+  join users u on u.id::text = s.user_id
+  where s.token = current_session_token() and coalesce(u.active, true)
+$$;
+
+create or replace function role_has_permission(p_role text, p_permission text) returns boolean
+language sql immutable as $$
+  select case p_role
+    when 'admin' then true
+    when 'editor' then p_permission not in ('team.manage', 'settings.edit')
+    else false
+  end
+$$;
+
+create or replace function has_permission(p_permission text) returns boolean
+language sql stable as $$
+  select coalesce(role_has_permission(current_app_role(), p_permission), false)
+$$;
+
+-- Signing in now also opens a session
+drop function if exists verify_login(text, text);
+create function verify_login(p_identifier text, p_password text)
+returns table (id text, name text, email text, role text, avatar text, active boolean, session_token uuid)
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+  v_user users%rowtype;
+  v_token uuid;
+begin
+  select u.* into v_user
+  from users u
+  where (lower(u.email) = lower(trim(p_identifier)) or u.name = trim(p_identifier))
+    and u.password_hash is not null
+    and u.password_hash = crypt(p_password, u.password_hash)
+  order by (lower(u.email) = lower(trim(p_identifier))) desc
+  limit 1;
+
+  if not found then
+    return;
+  end if;
+
+  if coalesce(v_user.active, true) then
+    insert into user_sessions (user_id) values (v_user.id::text) returning token into v_token;
+  end if;
+
+  return query select v_user.id::text, v_user.name::text, v_user.email::text, v_user.role::text,
+    v_user.avatar::text, v_user.active, v_token;
+end $$;
+
+create or replace function end_session() returns void
+language sql security definer set search_path = public as $$
+  delete from user_sessions where token = current_session_token()
+$$;
+
+-- Only team managers may set passwords for others
+create or replace function set_user_password(p_user_id text, p_password text)
+returns void language plpgsql security definer set search_path = public, extensions as $$
+begin
+  if not has_permission('team.manage') then
+    raise exception 'Not allowed to change passwords' using errcode = '42501';
+  end if;
+  if length(coalesce(p_password, '')) < 8 then
+    raise exception 'Password must be at least 8 characters';
+  end if;
+  update users set password_hash = crypt(p_password, gen_salt('bf')) where id::text = p_user_id;
+end $$;
+
+revoke all on function verify_login(text, text) from public;
+revoke all on function end_session() from public;
+grant execute on function verify_login(text, text) to anon, authenticated;
+grant execute on function end_session() to anon, authenticated;
+-- Callers are now checked against their session, so team managers can set passwords from the app again
+grant execute on function set_user_password(text, text) to anon, authenticated;
+
+-- Number counters are only touched by the numbering triggers
+alter function next_document_number(text, text, date) security definer set search_path = public;
+revoke all on document_counters from anon, authenticated;
+
+-- Signed-in users can read everything; writes need the table's permission
+do $$
+declare
+  t record;
+begin
+  for t in select * from (values
+    ('users', 'team.manage'),
+    ('clients', 'client.edit'),
+    ('catalog_items', 'catalog.edit'),
+    ('exchange_rates', 'settings.edit'),
+    ('invoices', 'invoice.edit'),
+    ('invoice_items', 'invoice.edit'),
+    ('invoice_payments', 'invoice.markPaid'),
+    ('quotations', 'quotation.edit'),
+    ('quotation_items', 'quotation.edit'),
+    ('credit_notes', 'creditNote.edit'),
+    ('credit_note_items', 'creditNote.edit'),
+    ('recurring_schedules', 'recurring.edit'),
+    ('recurring_schedule_items', 'recurring.edit')
+  ) as v(tbl, permission) loop
+    execute format('alter table %I enable row level security', t.tbl);
+    execute format('drop policy if exists %I on %I', t.tbl || '_read', t.tbl);
+    execute format('create policy %I on %I for select to anon, authenticated using (current_app_role() is not null)',
+      t.tbl || '_read', t.tbl);
+    execute format('drop policy if exists %I on %I', t.tbl || '_write', t.tbl);
+    execute format('create policy %I on %I for all to anon, authenticated using (has_permission(%L)) with check (has_permission(%L))',
+      t.tbl || '_write', t.tbl, t.permission, t.permission);
+  end loop;
+end $$;
+
+alter table settings enable row level security;
+drop policy if exists settings_read on settings;
+create policy settings_read on settings for select to anon, authenticated using (current_app_role() is not null);
+
+-- Signed out, the login screen and shared documents only need what every printed document shows:
+-- the company's details and how its documents look. Columns added later are left out unless listed here.
+create or replace function public_settings() returns jsonb
+language sql stable security definer set search_path = public as $$
+  select (
+    select jsonb_object_agg(c.key, c.value)
+    from jsonb_each(to_jsonb(s)) c
+    where c.key in (
+      'company_name', 'company_address', 'company_email', 'gst_number', 'logo_url', 'base_currency', 'currency_symbol',
+      'invoice_template', 'quotation_template', 'brand_color', 'document_font', 'document_footer'
+    )
+  )
+  from settings s where s.id = 1
+$$;
+
+revoke all on function public_settings() from public;
+grant execute on function public_settings() to anon, authenticated;
+drop policy if exists settings_write on settings;
+create policy settings_write on settings for all to anon, authenticated
+  using (has_permission('settings.edit')) with check (has_permission('settings.edit'));
@@ -0,0 +1,92 @@
+-- Sessions expire after a fixed lifetime and after a configurable idle period.
+-- The browser keeps only the session token; the user is looked up again with refresh_session().
+
+alter table settings add column if not exists session_idle_minutes integer not null default 30
+  check (session_idle_minutes > 0);
+
+alter table user_sessions add column if not exists expires_at timestamptz not null default now() + interval '12 hours';
+alter table user_sessions add column if not exists last_seen_at timestamptz not null default now();
+
+create or replace function session_idle_interval() returns interval
+language sql stable security definer set search_path = public as $$
+  select make_interval(mins => coalesce((select session_idle_minutes from settings where id = 1), 30))
+$$;
+
+create or replace function current_app_role() returns text
+language sql stable security definer set search_path = public as $$
+  select u.role::text
+  from user_sessions s
+  join users u on u.id::text = s.user_id
+  where s.token = current_session_token()
+    and s.expires_at > now()
+    and s.last_seen_at > now() - session_idle_interval()
+    and coalesce(u.active, true)
+$$;
+
+drop function if exists verify_login(text, text);
+create function verify_login(p_identifier text, p_password text)
+returns table (id text, name text, email text, role text, avatar text, active boolean, session_token uuid, session_expires_at timestamptz)
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+  v_user users%rowtype;
+  v_token uuid;
+  v_expires timestamptz;
+begin
+  delete from user_sessions where expires_at < now();
+
+  select u.* into v_user
+  from users u
+  where (lower(u.email) = lower(trim(p_identifier)) or u.name = trim(p_identifier))
+    and u.password_hash is not null
+    and u.password_hash = crypt(p_password, u.password_hash)
+  order by (lower(u.email) = lower(trim(p_identifier))) desc
+  limit 1;
+
+  if not found then
+    return;
+  end if;
+
+  if coalesce(v_user.active, true) then
+    insert into user_sessions (user_id) values (v_user.id::text) returning token, expires_at into v_token, v_expires;
+  end if;
+
+  return query select v_user.id::text, v_user.name::text, v_user.email::text, v_user.role::text,
+    v_user.avatar::text, v_user.active, v_token, v_expires;
+end $$;
+
+-- Marks the session as active and returns the current profile, so role changes and
+-- disabled accounts take effect immediately. Returns nothing once the session is no longer valid.
+create or replace function refresh_session()
+returns table (id text, name text, email text, role text, avatar text, active boolean, session_expires_at timestamptz)
+language plpgsql security definer set search_path = public as $$
+begin
+  return query
+  update user_sessions s set last_seen_at = now()
+  from users u
+  where s.token = current_session_token()
+    and u.id::text = s.user_id
+    and s.expires_at > now()
+    and s.last_seen_at > now() - session_idle_interval()
+    and coalesce(u.active, true)
+  returning u.id::text, u.name::text, u.email::text, u.role::text, u.avatar::text, u.active, s.expires_at;
+end $$;
+
+-- Disabling a user ends their sessions straight away
+create or replace function end_disabled_user_sessions() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if new.active = false then
+    delete from user_sessions where user_id = new.id::text;
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists users_end_disabled_sessions on users;
+create trigger users_end_disabled_sessions
+  after update of active on users
+  for each row execute function end_disabled_user_sessions();
+
+revoke all on function verify_login(text, text) from public;
+revoke all on function refresh_session() from public;
+grant execute on function verify_login(text, text) to anon, authenticated;
+grant execute on function refresh_session() to anon, authenticated;
@@ -0,0 +1,321 @@
+-- Append-only audit trail, written only by the database. Triggers compare invoices, quotations, settings and
+-- team members before and after each change, whether it came from the app, an RPC or the API directly, and
+-- record who made it and when. Nobody can add, update or delete entries through the API.
+
+create table if not exists audit_log (
+  id uuid primary key default gen_random_uuid(),
+  entity_type text not null check (entity_type in ('invoice', 'quotation', 'settings', 'user')),
+  entity_id text not null,
+  entity_label text not null default '', -- Document number or user name at the time of the change
+  action text not null check (action in ('create', 'update')),
+  actor_id text,
+  actor_name text not null default '',
+  changes jsonb not null default '[]', -- [{ field, from, to }]
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_entity_idx on audit_log (entity_type, entity_id, created_at desc);
+create index if not exists audit_log_created_at_idx on audit_log (created_at desc);
+
+create or replace function current_app_user_id() returns text
+language sql stable security definer set search_path = public as $$
+  select u.id::text
+  from user_sessions s
+  join users u on u.id::text = s.user_id
+  where s.token = current_session_token()
+    and s.expires_at > now()
+    and s.last_seen_at > now() - session_idle_interval()
+    and coalesce(u.active, true)
+$$;
+
+-- Changes made without a session, such as signing in with an invite, keep the actor name given by write_audit_entry
+create or replace function stamp_audit_entry() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  new.actor_id := current_app_user_id();
+  new.actor_name := coalesce((select name from users where id::text = new.actor_id), nullif(new.actor_name, ''), '');
+  new.created_at := now();
+  return new;
+end $$;
+
+drop trigger if exists audit_log_stamp on audit_log;
+create trigger audit_log_stamp
+  before insert on audit_log
+  for each row execute function stamp_audit_entry();
+
+create or replace function role_has_permission(p_role text, p_permission text) returns boolean
+language sql immutable as $$
+  select case p_role
+    when 'admin' then true
+    when 'editor' then p_permission not in ('team.manage', 'settings.edit', 'audit.view')
+    else false
+  end
+$$;
+
+alter table audit_log enable row level security;
+revoke insert, update, delete, truncate on audit_log from anon, authenticated;
+drop policy if exists audit_log_insert on audit_log;
+
+-- Document history is shown to anyone who can open the document; the full log is for auditors
+drop policy if exists audit_log_read on audit_log;
+create policy audit_log_read on audit_log for select to anon, authenticated
+  using (has_permission('audit.view') or (entity_type in ('invoice', 'quotation') and current_app_role() is not null));
+
+-- Records are [field, value] pairs in display order. Field names and values match lib/audit.ts,
+-- so entries read the same whichever backend wrote them.
+
+create or replace function audit_field_name(p_column text) returns text
+language sql immutable as $$
+  select string_agg(case when n = 1 then word else initcap(word) end, '' order by n)
+  from unnest(string_to_array(p_column, '_')) with ordinality as w(word, n)
+$$;
+
+create or replace function audit_number(p_value numeric) returns text
+language sql immutable as $$
+  select trim_scale(p_value)::text
+$$;
+
+-- Field-level differences; empty text counts as no value, and with no previous record every field that has a value is listed
+create or replace function audit_changes(p_before jsonb, p_after jsonb) returns jsonb
+language sql immutable as $$
+  select coalesce(jsonb_agg(jsonb_build_object('field', a.field, 'from', b.value, 'to', a.value) order by a.n), '[]')
+  from (
+    select f ->> 0 as field, nullif(nullif(f -> 1, '""'), 'null') as value, n
+    from jsonb_array_elements(p_after) with ordinality as e(f, n)
+  ) a
+  left join (
+    select f ->> 0 as field, nullif(nullif(f -> 1, '""'), 'null') as value
+    from jsonb_array_elements(coalesce(p_before, '[]')) as e(f)
+  ) b on b.field = a.field
+  where a.value is distinct from b.value
+$$;
+
+-- The actor is stamped by audit_log_stamp. Updates that changed nothing are not logged.
+create or replace function write_audit_entry(p_entity_type text, p_entity_id text, p_entity_label text, p_action text, p_changes jsonb)
+returns void language plpgsql security definer set search_path = public as $$
+begin
+  if p_action = 'update' and jsonb_array_length(p_changes) = 0 then
+    return;
+  end if;
+  insert into audit_log (entity_type, entity_id, entity_label, action, actor_name, changes)
+  values (p_entity_type, p_entity_id, coalesce(p_entity_label, ''), p_action,
+    coalesce(current_setting('app.audit_actor_name', true), ''), p_changes);
+end $$;
+
+-- Same sums as calculateTotals() in lib/invoiceTotals.ts: line discounts, then the document discount spread
+-- over the lines pro rata, then tax per line
+create or replace function audit_discount(p_amount numeric, p_type text, p_value numeric) returns numeric
+language sql immutable as $$
+  select case
+    when coalesce(p_value, 0) <= 0 or p_amount <= 0 then 0
+    when p_type = 'fixed' then least(p_value, p_amount)
+    else p_amount * least(p_value, 100) / 100
+  end
+$$;
+
+create or replace function audit_document_total(p_items jsonb, p_tax_rate numeric, p_discount_type text, p_discount_value numeric)
+returns numeric language sql immutable as $$
+  with lines as (
+    select r.quantity * r.rate - audit_discount(r.quantity * r.rate, r.discount_type, r.discount_value) as amount,
+      case when coalesce(r.tax_exempt, false) then 0 else coalesce(r.tax_rate, p_tax_rate, 0) end as tax_rate
+    from jsonb_to_recordset(p_items) as r(quantity numeric, rate numeric, discount_type text, discount_value numeric, tax_rate numeric, tax_exempt boolean)
+  ), sums as (
+    select coalesce(sum(amount), 0) as subtotal, coalesce(sum(amount * tax_rate / 100), 0) as undiscounted_tax
+    from lines
+  )
+  select round(subtotal - discount + undiscounted_tax * case when subtotal > 0 then (subtotal - discount) / subtotal else 0 end, 2)
+  from sums cross join lateral (select audit_discount(subtotal, p_discount_type, p_discount_value) as discount) d
+$$;
+
+create or replace function audit_discount_label(p_type text, p_value numeric) returns text
+language sql immutable as $$
+  select case when coalesce(p_value, 0) = 0 then null when p_type = 'fixed' then audit_number(p_value) else audit_number(p_value) || '%' end
+$$;
+
+create or replace function invoice_audit_record(p_id text) returns jsonb
+language sql stable security definer set search_path = public as $$
+  select jsonb_build_array(
+    jsonb_build_array('invoiceNumber', i.invoice_number),
+    jsonb_build_array('status', i.status),
+    jsonb_build_array('date', i.date),
+    jsonb_build_array('dueDate', i.due_date),
+    jsonb_build_array('clientName', i.client_name),
+    jsonb_build_array('clientAddress', i.client_address),
+    jsonb_build_array('clientEmail', i.client_email),
+    jsonb_build_array('currency', i.currency),
+    jsonb_build_array('exchangeRate', i.exchange_rate),
+    jsonb_build_array('taxRate', i.tax_rate),
+    jsonb_build_array('discount', audit_discount_label(i.discount_type, i.discount_value)),
+    jsonb_build_array('items', (
+      select string_agg(audit_number(it.quantity) || ' × ' || it.description || ' @ ' || audit_number(it.rate), '; ')
+      from invoice_items it where it.invoice_id = i.id
+    )),
+    jsonb_build_array('payments', (
+      select string_agg(p.date || ' ' || audit_number(p.amount) || ' (' || replace(p.method, '_', ' ') || ')', '; ' order by p.date, p.created_at)
+      from invoice_payments p where p.invoice_id = i.id
+    )),
+    jsonb_build_array('total', audit_document_total(
+      (select coalesce(jsonb_agg(to_jsonb(it)), '[]') from invoice_items it where it.invoice_id = i.id),
+      i.tax_rate, i.discount_type, i.discount_value
+    )),
+    jsonb_build_array('notes', i.notes),
+    jsonb_build_array('terms', i.terms)
+  )
+  from invoices i where i.id::text = p_id
+$$;
+
+create or replace function quotation_audit_record(p_id text) returns jsonb
+language sql stable security definer set search_path = public as $$
+  select jsonb_build_array(
+    jsonb_build_array('quotationNumber', q.quotation_number),
+    jsonb_build_array('status', q.status),
+    jsonb_build_array('date', q.date),
+    jsonb_build_array('validUntil', q.valid_until),
+    jsonb_build_array('clientName', q.client_name),
+    jsonb_build_array('clientAddress', q.client_address),
+    jsonb_build_array('clientEmail', q.client_email),
+    jsonb_build_array('currency', q.currency),
+    jsonb_build_array('taxRate', q.tax_rate),
+    jsonb_build_array('discount', audit_discount_label(q.discount_type, q.discount_value)),
+    jsonb_build_array('items', (
+      select string_agg(audit_number(it.quantity) || ' × ' || it.description || ' @ ' || audit_number(it.rate), '; ')
+      from quotation_items it where it.quotation_id = q.id
+    )),
+    jsonb_build_array('total', audit_document_total(
+      (select coalesce(jsonb_agg(to_jsonb(it)), '[]') from quotation_items it where it.quotation_id = q.id),
+      q.tax_rate, q.discount_type, q.discount_value
+    )),
+    jsonb_build_array('notes', q.notes),
+    jsonb_build_array('terms', q.terms)
+  )
+  from quotations q where q.id::text = p_id
+$$;
+
+-- A document and its lines are saved by several statements, so each document is compared once, at commit:
+-- the first change in a transaction keeps the document as it was, and a deferred trigger compares it with
+-- the final version. Documents that did not exist yet are logged as created.
+create table if not exists audit_pending (
+  transaction_id bigint not null default txid_current(),
+  entity_type text not null,
+  entity_id text not null,
+  before jsonb,
+  primary key (transaction_id, entity_type, entity_id)
+);
+
+alter table audit_pending enable row level security;
+revoke all on audit_pending from anon, authenticated;
+
+create or replace function document_audit_record(p_entity_type text, p_id text) returns jsonb
+language sql stable as $$
+  select case p_entity_type when 'invoice' then invoice_audit_record(p_id) else quotation_audit_record(p_id) end
+$$;
+
+-- Trigger arguments: the entity type and the column holding the document id
+create or replace function capture_document_audit() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  v_id text := to_jsonb(case when tg_op = 'DELETE' then old else new end) ->> tg_argv[1];
+begin
+  if not exists (
+    select 1 from audit_pending p
+    where p.transaction_id = txid_current() and p.entity_type = tg_argv[0] and p.entity_id = v_id
+  ) then
+    insert into audit_pending (entity_type, entity_id, before) values (tg_argv[0], v_id, document_audit_record(tg_argv[0], v_id));
+  end if;
+  return case when tg_op = 'DELETE' then old else new end;
+end $$;
+
+create or replace function flush_document_audit() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  v_id text := to_jsonb(case when tg_op = 'DELETE' then old else new end) ->> tg_argv[1];
+  v_pending audit_pending%rowtype;
+  v_after jsonb;
+begin
+  delete from audit_pending p
+  where p.transaction_id = txid_current() and p.entity_type = tg_argv[0] and p.entity_id = v_id
+  returning * into v_pending;
+  if not found then
+    return null; -- Already logged by another row of the same document
+  end if;
+
+  v_after := document_audit_record(tg_argv[0], v_id);
+  if v_after is not null then
+    perform write_audit_entry(tg_argv[0], v_id, v_after -> 0 ->> 1, -- The document number
+      case when v_pending.before is null then 'create' else 'update' end, audit_changes(v_pending.before, v_after));
+  end if;
+  return null;
+end $$;
+
+do $$
+declare
+  t record;
+begin
+  for t in select * from (values
+    ('invoices', 'invoice', 'id'),
+    ('invoice_items', 'invoice', 'invoice_id'),
+    ('invoice_payments', 'invoice', 'invoice_id'),
+    ('quotations', 'quotation', 'id'),
+    ('quotation_items', 'quotation', 'quotation_id')
+  ) as v(tbl, entity_type, id_column) loop
+    execute format('drop trigger if exists %I on %I', t.tbl || '_audit_capture', t.tbl);
+    execute format('create trigger %I before insert or update or delete on %I for each row execute function capture_document_audit(%L, %L)',
+      t.tbl || '_audit_capture', t.tbl, t.entity_type, t.id_column);
+    execute format('drop trigger if exists %I on %I', t.tbl || '_audit_flush', t.tbl);
+    execute format('create constraint trigger %I after insert or update or delete on %I deferrable initially deferred '
+      'for each row execute function flush_document_audit(%L, %L)', t.tbl || '_audit_flush', t.tbl, t.entity_type, t.id_column);
+  end loop;
+end $$;
+
+-- Every settings column except the key, with uploaded logos summarised and lists joined
+create or replace function settings_audit_record(p_settings settings) returns jsonb
+language sql stable as $$
+  select jsonb_agg(jsonb_build_array(audit_field_name(a.attname), case
+      when jsonb_typeof(x.value) = 'array' then to_jsonb((select string_agg(e, ', ') from jsonb_array_elements_text(x.value) e))
+      when a.attname = 'logo_url' and x.value #>> '{}' like 'data:%'
+        then to_jsonb('Uploaded image (' || round(length(x.value #>> '{}') * 3 / 4 / 1024.0) || ' KB)')
+      else x.value
+    end) order by a.attnum)
+  from pg_attribute a
+  cross join lateral (select to_jsonb(p_settings) -> a.attname::text as value) x
+  where a.attrelid = 'settings'::regclass and a.attnum > 0 and not a.attisdropped and a.attname <> 'id'
+$$;
+
+create or replace function audit_settings_change() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  perform write_audit_entry('settings', new.id::text, 'Company settings', 'update',
+    audit_changes(case when tg_op = 'UPDATE' then settings_audit_record(old) end, settings_audit_record(new)));
+  return null;
+end $$;
+
+drop trigger if exists settings_audit on settings;
+create trigger settings_audit after insert or update on settings
+  for each row execute function audit_settings_change();
+
+create or replace function user_audit_record(p_user users) returns jsonb
+language sql stable as $$
+  select jsonb_build_array(
+    jsonb_build_array('name', p_user.name),
+    jsonb_build_array('email', p_user.email),
+    jsonb_build_array('role', p_user.role),
+    jsonb_build_array('active', coalesce(p_user.active, true))
+  )
+$$;
+
+-- Passwords are never logged, only that one was set
+create or replace function audit_user_change() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  v_changes jsonb := audit_changes(case when tg_op = 'UPDATE' then user_audit_record(old) end, user_audit_record(new));
+begin
+  if tg_op = 'UPDATE' and new.password_hash is distinct from old.password_hash then
+    v_changes := v_changes || jsonb_build_array(jsonb_build_object('field', 'password', 'from', null, 'to', 'Changed'));
+  end if;
+  perform write_audit_entry('user', new.id::text, new.name, case when tg_op = 'INSERT' then 'create' else 'update' end, v_changes);
+  return null;
+end $$;
+
+drop trigger if exists users_audit on users;
+create trigger users_audit after insert or update on users
+  for each row execute function audit_user_change();
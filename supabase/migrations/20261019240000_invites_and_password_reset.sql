@@ -0,0 +1,171 @@
+-- Email invites, password reset links and self-service password changes.
+-- Links carry a random token; only its SHA-256 hash is stored and each token works once.
+-- Emails are queued in mail_outbox and delivered by the send-mail edge function.
+
+create table if not exists user_tokens (
+  token_hash text primary key,
+  user_id text not null,
+  purpose text not null check (purpose in ('invite', 'reset')),
+  expires_at timestamptz not null,
+  used_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists user_tokens_user_id_idx on user_tokens (user_id, purpose);
+
+create table if not exists mail_outbox (
+  id uuid primary key default gen_random_uuid(),
+  template text not null check (template in ('invite', 'password_reset')),
+  to_address text not null,
+  data jsonb not null default '{}', -- Template values; cleared once sent because they include the link token
+  created_at timestamptz not null default now(),
+  sent_at timestamptz,
+  attempts integer not null default 0,
+  last_error text
+);
+
+create index if not exists mail_outbox_pending_idx on mail_outbox (created_at) where sent_at is null;
+
+-- Neither table is reachable through the API; the mail function uses the service role
+alter table user_tokens enable row level security;
+alter table mail_outbox enable row level security;
+revoke all on user_tokens from anon, authenticated;
+revoke all on mail_outbox from anon, authenticated;
+
+create or replace function issue_user_token(p_user_id text, p_purpose text, p_valid_for interval) returns text
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+  v_token text := encode(gen_random_bytes(32), 'hex');
+begin
+  -- A new link replaces any earlier unused one
+  update user_tokens set used_at = now()
+  where user_id = p_user_id and purpose = p_purpose and used_at is null;
+  insert into user_tokens (token_hash, user_id, purpose, expires_at)
+  values (encode(digest(v_token, 'sha256'), 'hex'), p_user_id, p_purpose, now() + p_valid_for);
+  return v_token;
+end $$;
+
+create or replace function send_user_invite(p_user_id text) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_user users%rowtype;
+begin
+  if not has_permission('team.manage') then
+    raise exception 'Not allowed to invite team members' using errcode = '42501';
+  end if;
+  select * into v_user from users where id::text = p_user_id;
+  if not found then
+    raise exception 'Team member not found';
+  end if;
+
+  insert into mail_outbox (template, to_address, data)
+  values ('invite', v_user.email, jsonb_build_object(
+    'name', v_user.name,
+    'invited_by', coalesce((select name from users where id::text = current_app_user_id()), ''),
+    'token', issue_user_token(v_user.id::text, 'invite', interval '7 days')
+  ));
+end $$;
+
+-- Responds the same way whether or not the address belongs to an account
+create or replace function request_password_reset(p_email text) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_user users%rowtype;
+begin
+  select * into v_user from users where lower(email) = lower(trim(p_email)) and coalesce(active, true);
+  if not found then
+    return;
+  end if;
+  -- At most one reset email a minute per account
+  if exists (
+    select 1 from user_tokens
+    where user_id = v_user.id::text and purpose = 'reset' and created_at > now() - interval '1 minute'
+  ) then
+    return;
+  end if;
+
+  insert into mail_outbox (template, to_address, data)
+  values ('password_reset', v_user.email, jsonb_build_object(
+    'name', v_user.name,
+    'token', issue_user_token(v_user.id::text, 'reset', interval '1 hour')
+  ));
+end $$;
+
+-- Lets the set-password page greet the user before they choose a password
+create or replace function check_user_token(p_token text)
+returns table (name text, email text, purpose text)
+language sql stable security definer set search_path = public, extensions as $$
+  select u.name::text, u.email::text, t.purpose
+  from user_tokens t
+  join users u on u.id::text = t.user_id
+  where t.token_hash = encode(digest(p_token, 'sha256'), 'hex')
+    and t.used_at is null
+    and t.expires_at > now()
+    and coalesce(u.active, true)
+$$;
+
+create or replace function complete_user_token(p_token text, p_password text) returns boolean
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+  v_user_id text;
+begin
+  if length(coalesce(p_password, '')) < 8 then
+    raise exception 'Password must be at least 8 characters';
+  end if;
+
+  -- Same conditions as check_user_token(): a user disabled since the link was sent cannot use it
+  update user_tokens t set used_at = now()
+  from users u
+  where u.id::text = t.user_id
+    and t.token_hash = encode(digest(p_token, 'sha256'), 'hex') and t.used_at is null and t.expires_at > now()
+    and coalesce(u.active, true)
+  returning t.user_id into v_user_id;
+  if v_user_id is null then
+    return false;
+  end if;
+
+  -- There is no session yet, so the audit entry names the user setting their own password
+  perform set_config('app.audit_actor_name', (select name from users where id::text = v_user_id), true);
+  update users set password_hash = crypt(p_password, gen_salt('bf')) where id::text = v_user_id;
+  -- Anyone still signed in with the old password is signed out
+  delete from user_sessions where user_id = v_user_id;
+  return true;
+end $$;
+
+create or replace function change_own_password(p_current_password text, p_new_password text) returns boolean
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+  v_user_id text := current_app_user_id();
+begin
+  if v_user_id is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+  if length(coalesce(p_new_password, '')) < 8 then
+    raise exception 'Password must be at least 8 characters';
+  end if;
+
+  update users set password_hash = crypt(p_new_password, gen_salt('bf'))
+  where id::text = v_user_id and password_hash = crypt(p_current_password, password_hash);
+  if not found then
+    return false;
+  end if;
+
+  -- Other devices have to sign in again with the new password
+  delete from user_sessions where user_id = v_user_id and token <> current_session_token();
+  return true;
+end $$;
+
+-- Admins no longer choose passwords for other people
+drop function if exists set_user_password(text, text);
+
+revoke all on function issue_user_token(text, text, interval) from public;
+revoke all on function send_user_invite(text) from public;
+revoke all on function request_password_reset(text) from public;
+revoke all on function check_user_token(text) from public;
+revoke all on function complete_user_token(text, text) from public;
+revoke all on function change_own_password(text, text) from public;
+grant execute on function send_user_invite(text) to anon, authenticated;
+grant execute on function request_password_reset(text) to anon, authenticated;
+grant execute on function check_user_token(text) to anon, authenticated;
+grant execute on function complete_user_token(text, text) to anon, authenticated;
+grant execute on function change_own_password(text, text) to anon, authenticated;
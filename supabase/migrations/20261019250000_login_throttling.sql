@@ -0,0 +1,183 @@
+-- Brute-force protection for sign-in.
+-- Each consecutive failure on an account doubles the wait before the next try (up to 30 seconds), and reaching the
+-- configured threshold locks the account for a while. A client that fails across many accounts is blocked as well.
+-- Every attempt is recorded in login_attempts for admins to review.
+
+alter table settings add column if not exists login_lockout_threshold integer not null default 5
+  check (login_lockout_threshold > 0);
+alter table settings add column if not exists login_lockout_minutes integer not null default 15
+  check (login_lockout_minutes > 0);
+
+alter table users add column if not exists failed_login_count integer not null default 0;
+alter table users add column if not exists last_failed_login_at timestamptz;
+alter table users add column if not exists locked_until timestamptz;
+
+grant select (locked_until) on users to anon, authenticated;
+
+create table if not exists login_attempts (
+  id uuid primary key default gen_random_uuid(),
+  identifier text not null, -- What was typed into the sign-in form
+  user_id text,
+  client_ip text,
+  succeeded boolean not null,
+  reason text check (reason in ('unknown_user', 'invalid_password', 'locked', 'client_blocked', 'disabled')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists login_attempts_created_at_idx on login_attempts (created_at desc);
+create index if not exists login_attempts_client_ip_idx on login_attempts (client_ip, created_at desc);
+
+alter table login_attempts enable row level security;
+revoke all on login_attempts from anon, authenticated;
+grant select on login_attempts to anon, authenticated;
+drop policy if exists login_attempts_read on login_attempts;
+create policy login_attempts_read on login_attempts for select to anon, authenticated
+  using (has_permission('team.manage'));
+
+-- The proxy in front of the API appends the address it saw to X-Forwarded-For. Earlier entries come from the
+-- client and can be anything, so only the last one is trusted.
+create or replace function request_client_ip() returns text
+language plpgsql stable as $$
+begin
+  return nullif(trim(regexp_replace(current_setting('request.headers', true)::json ->> 'x-forwarded-for', '^.*,', '')), '');
+exception when others then
+  return null;
+end $$;
+
+drop function if exists verify_login(text, text);
+create function verify_login(p_identifier text, p_password text)
+returns table (
+  status text, -- ok, invalid, throttled, locked or disabled
+  retry_after timestamptz,
+  id text, name text, email text, role text, avatar text, active boolean,
+  session_token uuid, session_expires_at timestamptz
+)
+language plpgsql security definer set search_path = public, extensions as $$
+#variable_conflict use_column
+declare
+  v_identifier text := trim(p_identifier);
+  v_ip text := request_client_ip();
+  v_threshold integer;
+  v_window interval;
+  v_user users%rowtype;
+begin
+  select s.login_lockout_threshold, make_interval(mins => s.login_lockout_minutes)
+  into v_threshold, v_window
+  from settings s where s.id = 1;
+  v_threshold := coalesce(v_threshold, 5);
+  v_window := coalesce(v_window, interval '15 minutes');
+
+  delete from user_sessions where expires_at < now();
+
+  -- A client guessing across many accounts is blocked for the lockout period
+  if v_ip is not null and (
+    select count(*) from login_attempts a
+    where a.client_ip = v_ip and a.reason in ('unknown_user', 'invalid_password') and a.created_at > now() - v_window
+  ) >= v_threshold * 4 then
+    insert into login_attempts (identifier, client_ip, succeeded, reason) values (v_identifier, v_ip, false, 'client_blocked');
+    status := 'locked';
+    retry_after := (select max(a.created_at) from login_attempts a
+      where a.client_ip = v_ip and a.reason in ('unknown_user', 'invalid_password')) + v_window;
+    return next;
+    return;
+  end if;
+
+  -- Locked until this attempt is recorded, so parallel guesses queue up behind the delay and the lockout
+  select u.* into v_user
+  from users u
+  where lower(u.email) = lower(v_identifier) or u.name = v_identifier
+  order by (lower(u.email) = lower(v_identifier)) desc
+  limit 1
+  for update;
+
+  if not found then
+    insert into login_attempts (identifier, client_ip, succeeded, reason) values (v_identifier, v_ip, false, 'unknown_user');
+    status := 'invalid';
+    return next;
+    return;
+  end if;
+
+  if v_user.locked_until > now() then
+    insert into login_attempts (identifier, user_id, client_ip, succeeded, reason)
+    values (v_identifier, v_user.id::text, v_ip, false, 'locked');
+    status := 'locked';
+    retry_after := v_user.locked_until;
+    return next;
+    return;
+  end if;
+
+  -- Too soon after the previous failure: refuse without checking the password or counting the attempt
+  retry_after := v_user.last_failed_login_at
+    + make_interval(secs => least(30, power(2, greatest(v_user.failed_login_count - 1, 0))));
+  if v_user.failed_login_count > 0 and retry_after > now() then
+    status := 'throttled';
+    return next;
+    return;
+  end if;
+  retry_after := null;
+
+  if v_user.password_hash is null or v_user.password_hash <> crypt(p_password, v_user.password_hash) then
+    update users u set
+      failed_login_count = case when u.failed_login_count + 1 >= v_threshold then 0 else u.failed_login_count + 1 end,
+      last_failed_login_at = now(),
+      locked_until = case when u.failed_login_count + 1 >= v_threshold then now() + v_window end
+    where u.id = v_user.id
+    returning u.locked_until into retry_after;
+    insert into login_attempts (identifier, user_id, client_ip, succeeded, reason)
+    values (v_identifier, v_user.id::text, v_ip, false, 'invalid_password');
+    status := case when retry_after is not null then 'locked' else 'invalid' end;
+    return next;
+    return;
+  end if;
+
+  if not coalesce(v_user.active, true) then
+    insert into login_attempts (identifier, user_id, client_ip, succeeded, reason)
+    values (v_identifier, v_user.id::text, v_ip, false, 'disabled');
+    status := 'disabled';
+    return next;
+    return;
+  end if;
+
+  update users u set failed_login_count = 0, last_failed_login_at = null, locked_until = null where u.id = v_user.id;
+  insert into login_attempts (identifier, user_id, client_ip, succeeded) values (v_identifier, v_user.id::text, v_ip, true);
+  insert into user_sessions (user_id) values (v_user.id::text) returning token, expires_at into session_token, session_expires_at;
+
+  status := 'ok';
+  id := v_user.id::text;
+  name := v_user.name;
+  email := v_user.email;
+  role := v_user.role;
+  avatar := v_user.avatar;
+  active := v_user.active;
+  return next;
+end $$;
+
+create or replace function unlock_user(p_user_id text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  if not has_permission('team.manage') then
+    raise exception 'Not allowed to unlock team members' using errcode = '42501';
+  end if;
+  update users set locked_until = null, failed_login_count = 0, last_failed_login_at = null where id::text = p_user_id;
+end $$;
+
+-- Unlocking an account early is logged; locks that simply run out are not
+create or replace function audit_user_change() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  v_changes jsonb := audit_changes(case when tg_op = 'UPDATE' then user_audit_record(old) end, user_audit_record(new));
+begin
+  if tg_op = 'UPDATE' and new.password_hash is distinct from old.password_hash then
+    v_changes := v_changes || jsonb_build_array(jsonb_build_object('field', 'password', 'from', null, 'to', 'Changed'));
+  end if;
+  if tg_op = 'UPDATE' and old.locked_until > now() and new.locked_until is null then
+    v_changes := v_changes || jsonb_build_array(jsonb_build_object('field', 'lockedUntil', 'from', old.locked_until, 'to', null));
+  end if;
+  perform write_audit_entry('user', new.id::text, new.name, case when tg_op = 'INSERT' then 'create' else 'update' end, v_changes);
+  return null;
+end $$;
+
+revoke all on function verify_login(text, text) from public;
+revoke all on function unlock_user(text) from public;
+grant execute on function verify_login(text, text) to anon, authenticated;
+grant execute on function unlock_user(text) to anon, authenticated;
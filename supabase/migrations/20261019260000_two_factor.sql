@@ -0,0 +1,489 @@
+-- Optional TOTP two-factor authentication (RFC 6238: SHA-1, 6 digits, 30 second steps).
+-- After the password, verify_login hands out a short-lived challenge instead of a session when the account has
+-- two-factor turned on, or when its role requires it and it still has to enrol. complete_login_challenge() checks
+-- the code (or a one-time recovery code) and opens the session. Secrets never leave the database after enrolment.
+
+alter table settings add column if not exists two_factor_roles text[] not null default '{}'
+  check (two_factor_roles <@ array['admin', 'editor', 'viewer']);
+
+alter table users add column if not exists totp_secret text; -- Base32
+alter table users add column if not exists totp_pending_secret text; -- Shown during enrolment until the first code is confirmed
+alter table users add column if not exists totp_enabled_at timestamptz;
+alter table users add column if not exists totp_last_step bigint; -- Each code is accepted once
+
+grant select (totp_enabled_at) on users to anon, authenticated;
+
+create table if not exists user_recovery_codes (
+  code_hash text primary key,
+  user_id text not null,
+  used_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists user_recovery_codes_user_id_idx on user_recovery_codes (user_id);
+
+create table if not exists login_challenges (
+  token_hash text primary key,
+  user_id text not null,
+  identifier text not null, -- What was typed into the sign-in form, for login_attempts
+  purpose text not null check (purpose in ('verify', 'enrol')),
+  attempts integer not null default 0,
+  expires_at timestamptz not null default now() + interval '5 minutes'
+);
+
+alter table user_recovery_codes enable row level security;
+alter table login_challenges enable row level security;
+revoke all on user_recovery_codes from anon, authenticated;
+revoke all on login_challenges from anon, authenticated;
+
+alter table login_attempts drop constraint if exists login_attempts_reason_check;
+alter table login_attempts add constraint login_attempts_reason_check
+  check (reason in ('unknown_user', 'invalid_password', 'invalid_code', 'locked', 'client_blocked', 'disabled'));
+
+create or replace function base32_decode(p_value text) returns bytea
+language plpgsql immutable as $$
+declare
+  v_alphabet constant text := 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  v_char text;
+  v_bits bigint := 0;
+  v_bit_count integer := 0;
+  v_result bytea := '';
+begin
+  foreach v_char in array regexp_split_to_array(upper(regexp_replace(p_value, '[\s=]', '', 'g')), '') loop
+    v_bits := (v_bits << 5) | (strpos(v_alphabet, v_char) - 1);
+    v_bit_count := v_bit_count + 5;
+    if v_bit_count >= 8 then
+      v_bit_count := v_bit_count - 8;
+      v_result := v_result || set_byte('\x00'::bytea, 0, ((v_bits >> v_bit_count) & 255)::integer);
+      v_bits := v_bits & ((1::bigint << v_bit_count) - 1);
+    end if;
+  end loop;
+  return v_result;
+end $$;
+
+-- 160 random bits as 32 base32 characters; 256 is a multiple of 32, so every character is equally likely
+create or replace function new_totp_secret() returns text
+language sql volatile set search_path = public, extensions as $$
+  select string_agg(substr('ABCDEFGHIJKLMNOPQRSTUVWXYZ234567', get_byte(b.bytes, i) % 32 + 1, 1), '' order by i)
+  from (select gen_random_bytes(32) as bytes) b, generate_series(0, 31) i
+$$;
+
+create or replace function totp_code(p_key bytea, p_step bigint) returns text
+language plpgsql immutable set search_path = public, extensions as $$
+declare
+  v_hash bytea := hmac(int8send(p_step), p_key, 'sha1');
+  v_offset integer := get_byte(v_hash, 19) & 15;
+begin
+  -- Bitwise operators share one precedence level in Postgres, hence the parentheses
+  return lpad(((
+    ((get_byte(v_hash, v_offset) & 127)::bigint << 24)
+    | (get_byte(v_hash, v_offset + 1) << 16)
+    | (get_byte(v_hash, v_offset + 2) << 8)
+    | get_byte(v_hash, v_offset + 3)
+  ) % 1000000)::text, 6, '0');
+end $$;
+
+-- The time step the code belongs to, allowing one step of clock drift either way, or null when it does not match.
+-- Steps up to p_after_step have already been used.
+create or replace function totp_matching_step(p_secret text, p_code text, p_after_step bigint) returns bigint
+language plpgsql stable set search_path = public, extensions as $$
+declare
+  v_now integer := floor(extract(epoch from now()) / 30);
+  v_code text := regexp_replace(coalesce(p_code, ''), '\s', '', 'g');
+begin
+  if p_secret is null or v_code !~ '^\d{6}$' then
+    return null;
+  end if;
+  for v_step in v_now - 1 .. v_now + 1 loop
+    if v_step > coalesce(p_after_step, 0) and totp_code(base32_decode(p_secret), v_step) = v_code then
+      return v_step;
+    end if;
+  end loop;
+  return null;
+end $$;
+
+create or replace function recovery_code_hash(p_code text) returns text
+language sql immutable set search_path = public, extensions as $$
+  select encode(digest(lower(regexp_replace(coalesce(p_code, ''), '[\s-]', '', 'g')), 'sha256'), 'hex')
+$$;
+
+-- Replaces any earlier codes. The codes are returned once and only their hashes are kept.
+create or replace function issue_recovery_codes(p_user_id text) returns text[]
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+  v_codes text[];
+begin
+  select array_agg(substr(c, 1, 5) || '-' || substr(c, 6, 5))
+  into v_codes
+  from (select encode(gen_random_bytes(5), 'hex') as c from generate_series(1, 10)) g;
+
+  delete from user_recovery_codes where user_id = p_user_id;
+  insert into user_recovery_codes (code_hash, user_id)
+  select recovery_code_hash(c), p_user_id from unnest(v_codes) c;
+  return v_codes;
+end $$;
+
+create or replace function two_factor_required(p_role text) returns boolean
+language sql stable security definer set search_path = public as $$
+  select coalesce((select p_role = any(two_factor_roles) from settings where id = 1), false)
+$$;
+
+-- Counts a failed sign-in against the account and returns the time it is locked until, if it is now locked
+create or replace function record_failed_login(p_user_id text, p_identifier text, p_reason text) returns timestamptz
+language plpgsql security definer set search_path = public as $$
+declare
+  v_threshold integer;
+  v_window interval;
+  v_locked_until timestamptz;
+begin
+  select s.login_lockout_threshold, make_interval(mins => s.login_lockout_minutes)
+  into v_threshold, v_window
+  from settings s where s.id = 1;
+  v_threshold := coalesce(v_threshold, 5);
+  v_window := coalesce(v_window, interval '15 minutes');
+
+  update users u set
+    failed_login_count = case when u.failed_login_count + 1 >= v_threshold then 0 else u.failed_login_count + 1 end,
+    last_failed_login_at = now(),
+    locked_until = case when u.failed_login_count + 1 >= v_threshold then now() + v_window end
+  where u.id::text = p_user_id
+  returning u.locked_until into v_locked_until;
+  insert into login_attempts (identifier, user_id, client_ip, succeeded, reason)
+  values (p_identifier, p_user_id, request_client_ip(), false, p_reason);
+  return v_locked_until;
+end $$;
+
+drop function if exists verify_login(text, text);
+create function verify_login(p_identifier text, p_password text)
+returns table (
+  status text, -- ok, invalid, throttled, locked, disabled, two_factor or two_factor_setup
+  retry_after timestamptz,
+  id text, name text, email text, role text, avatar text, active boolean,
+  session_token uuid, session_expires_at timestamptz,
+  challenge_token text, -- For complete_login_challenge() when a second step is needed
+  totp_secret text -- New secret to enrol with, for two_factor_setup
+)
+language plpgsql security definer set search_path = public, extensions as $$
+#variable_conflict use_column
+declare
+  v_identifier text := trim(p_identifier);
+  v_ip text := request_client_ip();
+  v_threshold integer;
+  v_window interval;
+  v_user users%rowtype;
+  v_secret text;
+begin
+  select s.login_lockout_threshold, make_interval(mins => s.login_lockout_minutes)
+  into v_threshold, v_window
+  from settings s where s.id = 1;
+  v_threshold := coalesce(v_threshold, 5);
+  v_window := coalesce(v_window, interval '15 minutes');
+
+  delete from user_sessions where expires_at < now();
+  delete from login_challenges where expires_at < now();
+
+  -- A client guessing across many accounts is blocked for the lockout period
+  if v_ip is not null and (
+    select count(*) from login_attempts a
+    where a.client_ip = v_ip and a.reason in ('unknown_user', 'invalid_password') and a.created_at > now() - v_window
+  ) >= v_threshold * 4 then
+    insert into login_attempts (identifier, client_ip, succeeded, reason) values (v_identifier, v_ip, false, 'client_blocked');
+    status := 'locked';
+    retry_after := (select max(a.created_at) from login_attempts a
+      where a.client_ip = v_ip and a.reason in ('unknown_user', 'invalid_password')) + v_window;
+    return next;
+    return;
+  end if;
+
+  -- Locked until this attempt is recorded, so parallel guesses queue up behind the delay and the lockout
+  select u.* into v_user
+  from users u
+  where lower(u.email) = lower(v_identifier) or u.name = v_identifier
+  order by (lower(u.email) = lower(v_identifier)) desc
+  limit 1
+  for update;
+
+  if not found then
+    insert into login_attempts (identifier, client_ip, succeeded, reason) values (v_identifier, v_ip, false, 'unknown_user');
+    status := 'invalid';
+    return next;
+    return;
+  end if;
+
+  if v_user.locked_until > now() then
+    insert into login_attempts (identifier, user_id, client_ip, succeeded, reason)
+    values (v_identifier, v_user.id::text, v_ip, false, 'locked');
+    status := 'locked';
+    retry_after := v_user.locked_until;
+    return next;
+    return;
+  end if;
+
+  -- Too soon after the previous failure: refuse without checking the password or counting the attempt
+  retry_after := v_user.last_failed_login_at
+    + make_interval(secs => least(30, power(2, greatest(v_user.failed_login_count - 1, 0))));
+  if v_user.failed_login_count > 0 and retry_after > now() then
+    status := 'throttled';
+    return next;
+    return;
+  end if;
+  retry_after := null;
+
+  if v_user.password_hash is null or v_user.password_hash <> crypt(p_password, v_user.password_hash) then
+    retry_after := record_failed_login(v_user.id::text, v_identifier, 'invalid_password');
+    status := case when retry_after is not null then 'locked' else 'invalid' end;
+    return next;
+    return;
+  end if;
+
+  if not coalesce(v_user.active, true) then
+    insert into login_attempts (identifier, user_id, client_ip, succeeded, reason)
+    values (v_identifier, v_user.id::text, v_ip, false, 'disabled');
+    status := 'disabled';
+    return next;
+    return;
+  end if;
+
+  -- The failure count is only cleared once the second step succeeds, so codes cannot be guessed indefinitely
+  if v_user.totp_enabled_at is not null or two_factor_required(v_user.role::text) then
+    challenge_token := encode(gen_random_bytes(32), 'hex');
+    delete from login_challenges c where c.user_id = v_user.id::text;
+    insert into login_challenges (token_hash, user_id, identifier, purpose)
+    values (encode(digest(challenge_token, 'sha256'), 'hex'), v_user.id::text, v_identifier,
+      case when v_user.totp_enabled_at is null then 'enrol' else 'verify' end);
+
+    if v_user.totp_enabled_at is null then
+      v_secret := new_totp_secret();
+      update users u set totp_pending_secret = v_secret where u.id = v_user.id;
+      totp_secret := v_secret;
+      status := 'two_factor_setup';
+    else
+      status := 'two_factor';
+    end if;
+    name := v_user.name;
+    email := v_user.email;
+    return next;
+    return;
+  end if;
+
+  update users u set failed_login_count = 0, last_failed_login_at = null, locked_until = null where u.id = v_user.id;
+  insert into login_attempts (identifier, user_id, client_ip, succeeded) values (v_identifier, v_user.id::text, v_ip, true);
+  insert into user_sessions (user_id) values (v_user.id::text) returning token, expires_at into session_token, session_expires_at;
+
+  status := 'ok';
+  id := v_user.id::text;
+  name := v_user.name;
+  email := v_user.email;
+  role := v_user.role;
+  avatar := v_user.avatar;
+  active := v_user.active;
+  return next;
+end $$;
+
+-- Second sign-in step. p_code is a code from the authenticator app or, once enrolled, an unused recovery code.
+create or replace function complete_login_challenge(p_challenge text, p_code text)
+returns table (
+  status text, -- ok, invalid, expired or locked
+  retry_after timestamptz,
+  id text, name text, email text, role text, avatar text, active boolean,
+  session_token uuid, session_expires_at timestamptz,
+  recovery_codes text[] -- Issued when the second step completes enrolment
+)
+language plpgsql security definer set search_path = public, extensions as $$
+#variable_conflict use_column
+declare
+  v_challenge login_challenges%rowtype;
+  v_user users%rowtype;
+  v_step bigint;
+  v_recovery_hash text;
+begin
+  select * into v_challenge
+  from login_challenges c
+  where c.token_hash = encode(digest(coalesce(p_challenge, ''), 'sha256'), 'hex') and c.expires_at > now() and c.attempts < 5
+  for update;
+  if found then
+    select u.* into v_user from users u where u.id::text = v_challenge.user_id and coalesce(u.active, true) for update;
+  end if;
+  if v_user.id is null then
+    status := 'expired';
+    return next;
+    return;
+  end if;
+
+  if v_user.locked_until > now() then
+    delete from login_challenges c where c.token_hash = v_challenge.token_hash;
+    status := 'locked';
+    retry_after := v_user.locked_until;
+    return next;
+    return;
+  end if;
+
+  if v_challenge.purpose = 'enrol' then
+    v_step := totp_matching_step(v_user.totp_pending_secret, p_code, null);
+  else
+    v_step := totp_matching_step(v_user.totp_secret, p_code, v_user.totp_last_step);
+    if v_step is null then
+      v_recovery_hash := (select r.code_hash from user_recovery_codes r
+        where r.user_id = v_user.id::text and r.code_hash = recovery_code_hash(p_code) and r.used_at is null);
+    end if;
+  end if;
+
+  if v_step is null and v_recovery_hash is null then
+    update login_challenges c set attempts = c.attempts + 1 where c.token_hash = v_challenge.token_hash;
+    retry_after := record_failed_login(v_user.id::text, v_challenge.identifier, 'invalid_code');
+    status := case when retry_after is not null then 'locked' else 'invalid' end;
+    return next;
+    return;
+  end if;
+
+  delete from login_challenges c where c.token_hash = v_challenge.token_hash;
+  if v_recovery_hash is not null then
+    update user_recovery_codes r set used_at = now() where r.code_hash = v_recovery_hash;
+  end if;
+  if v_challenge.purpose = 'enrol' then
+    perform set_config('app.audit_actor_name', v_user.name, true); -- Not signed in yet; the change is their own
+    update users u set totp_secret = u.totp_pending_secret, totp_pending_secret = null, totp_enabled_at = now()
+    where u.id = v_user.id;
+    recovery_codes := issue_recovery_codes(v_user.id::text);
+  end if;
+
+  update users u set failed_login_count = 0, last_failed_login_at = null, locked_until = null,
+    totp_last_step = coalesce(v_step, u.totp_last_step)
+  where u.id = v_user.id;
+  insert into login_attempts (identifier, user_id, client_ip, succeeded)
+  values (v_challenge.identifier, v_user.id::text, request_client_ip(), true);
+  insert into user_sessions (user_id) values (v_user.id::text) returning token, expires_at into session_token, session_expires_at;
+
+  status := 'ok';
+  id := v_user.id::text;
+  name := v_user.name;
+  email := v_user.email;
+  role := v_user.role;
+  avatar := v_user.avatar;
+  active := v_user.active;
+  return next;
+end $$;
+
+-- Two-factor state of the signed-in user, for the account page
+create or replace function two_factor_status()
+returns table (enabled boolean, required boolean, recovery_codes_left integer)
+language sql stable security definer set search_path = public as $$
+  select u.totp_enabled_at is not null,
+    two_factor_required(u.role::text),
+    (select count(*)::integer from user_recovery_codes r where r.user_id = u.id::text and r.used_at is null)
+  from users u
+  where u.id::text = current_app_user_id()
+$$;
+
+-- Enrolment from the account page: begin returns a new secret, confirming it with a code turns two-factor on
+create or replace function begin_totp_enrolment() returns text
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+  v_secret text := new_totp_secret();
+begin
+  update users set totp_pending_secret = v_secret where id::text = current_app_user_id() and totp_enabled_at is null;
+  if not found then
+    raise exception 'Two-factor authentication is already turned on' using errcode = '42501';
+  end if;
+  return v_secret;
+end $$;
+
+-- Returns the recovery codes, or null when the code does not match
+create or replace function confirm_totp_enrolment(p_code text) returns text[]
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+  v_user_id text := current_app_user_id();
+  v_step bigint;
+begin
+  select totp_matching_step(totp_pending_secret, p_code, null) into v_step
+  from users where id::text = v_user_id and totp_enabled_at is null;
+  if v_step is null then
+    return null;
+  end if;
+
+  update users set totp_secret = totp_pending_secret, totp_pending_secret = null, totp_enabled_at = now(), totp_last_step = v_step
+  where id::text = v_user_id;
+  return issue_recovery_codes(v_user_id);
+end $$;
+
+-- Needs the password again, so an unattended session cannot switch two-factor off
+create or replace function disable_totp(p_password text) returns boolean
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+  v_user users%rowtype;
+begin
+  select * into v_user from users where id::text = current_app_user_id();
+  if not found then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+  if two_factor_required(v_user.role::text) then
+    raise exception 'Two-factor authentication is required for your role' using errcode = '42501';
+  end if;
+  if v_user.password_hash <> crypt(p_password, v_user.password_hash) then
+    return false;
+  end if;
+
+  update users set totp_secret = null, totp_pending_secret = null, totp_enabled_at = null, totp_last_step = null
+  where id = v_user.id;
+  delete from user_recovery_codes where user_id = v_user.id::text;
+  return true;
+end $$;
+
+-- Returns new recovery codes, or null when the password is wrong
+create or replace function regenerate_recovery_codes(p_password text) returns text[]
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+  v_user users%rowtype;
+begin
+  select * into v_user from users where id::text = current_app_user_id() and totp_enabled_at is not null;
+  if not found then
+    raise exception 'Two-factor authentication is not turned on' using errcode = '42501';
+  end if;
+  if v_user.password_hash <> crypt(p_password, v_user.password_hash) then
+    return null;
+  end if;
+  return issue_recovery_codes(v_user.id::text);
+end $$;
+
+-- For team members who lost their device and recovery codes. They enrol again at their next sign-in if their role requires it.
+create or replace function reset_user_totp(p_user_id text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  if not has_permission('team.manage') then
+    raise exception 'Not allowed to reset two-factor authentication' using errcode = '42501';
+  end if;
+  update users set totp_secret = null, totp_pending_secret = null, totp_enabled_at = null, totp_last_step = null
+  where id::text = p_user_id;
+  delete from user_recovery_codes where user_id = p_user_id;
+  delete from user_sessions where user_id = p_user_id;
+end $$;
+
+create or replace function user_audit_record(p_user users) returns jsonb
+language sql stable as $$
+  select jsonb_build_array(
+    jsonb_build_array('name', p_user.name),
+    jsonb_build_array('email', p_user.email),
+    jsonb_build_array('role', p_user.role),
+    jsonb_build_array('active', coalesce(p_user.active, true)),
+    jsonb_build_array('twoFactor', case when p_user.totp_enabled_at is null then 'Off' else 'On' end)
+  )
+$$;
+
+revoke all on function issue_recovery_codes(text) from public;
+revoke all on function record_failed_login(text, text, text) from public;
+revoke all on function verify_login(text, text) from public;
+revoke all on function complete_login_challenge(text, text) from public;
+revoke all on function two_factor_status() from public;
+revoke all on function begin_totp_enrolment() from public;
+revoke all on function confirm_totp_enrolment(text) from public;
+revoke all on function disable_totp(text) from public;
+revoke all on function regenerate_recovery_codes(text) from public;
+revoke all on function reset_user_totp(text) from public;
+grant execute on function verify_login(text, text) to anon, authenticated;
+grant execute on function complete_login_challenge(text, text) to anon, authenticated;
+grant execute on function two_factor_status() to anon, authenticated;
+grant execute on function begin_totp_enrolment() to anon, authenticated;
+grant execute on function confirm_totp_enrolment(text) to anon, authenticated;
+grant execute on function disable_totp(text) to anon, authenticated;
+grant execute on function regenerate_recovery_codes(text) to anon, authenticated;
+grant execute on function reset_user_totp(text) to anon, authenticated;
@@ -0,0 +1,169 @@
+-- Invoices and quotations are saved with their line items (and payments) in one transaction through
+-- save_invoice() and save_quotation(), so a failed save never leaves a document without lines.
+-- Every write bumps the document's version. A save based on an older version is rejected with
+-- PT409 (HTTP 409) and the name of whoever changed it in the error detail, instead of silently
+-- overwriting their changes. A quotation that has only been sent or shared since is not a conflict.
+
+alter table invoices add column if not exists version integer not null default 1;
+alter table invoices add column if not exists updated_at timestamptz not null default now();
+alter table invoices add column if not exists updated_by text;
+
+alter table quotations add column if not exists version integer not null default 1;
+alter table quotations add column if not exists updated_at timestamptz not null default now();
+alter table quotations add column if not exists updated_by text;
+
+-- Sending or sharing a draft quotation moves it to sent without editing it. The version still goes up, but
+-- edited_version does not, so an editor opened before then can save without a conflict.
+alter table quotations add column if not exists edited_version integer not null default 1;
+
+create or replace function stamp_document_version() returns trigger language plpgsql as $$
+begin
+  new.version := case when tg_op = 'INSERT' then 1 else old.version + 1 end;
+  new.updated_at := now();
+  new.updated_by := current_app_user_id();
+  if tg_table_name = 'quotations' and (tg_op = 'INSERT' or current_setting('app.status_change_only', true) is distinct from 'on') then
+    new.edited_version := new.version;
+  end if;
+  return new;
+end $$;
+
+-- Called by the functions that send or share a quotation
+create or replace function mark_quotation_sent(p_id text) returns void
+language plpgsql as $$
+begin
+  perform set_config('app.status_change_only', 'on', true);
+  update quotations set status = 'sent' where id::text = p_id and status = 'draft';
+  perform set_config('app.status_change_only', '', true);
+end $$;
+
+revoke all on function mark_quotation_sent(text) from public;
+
+drop trigger if exists invoices_stamp_version on invoices;
+create trigger invoices_stamp_version before insert or update on invoices
+  for each row execute function stamp_document_version();
+
+drop trigger if exists quotations_stamp_version on quotations;
+create trigger quotations_stamp_version before insert or update on quotations
+  for each row execute function stamp_document_version();
+
+create or replace function raise_stale_document(p_label text, p_updated_by text) returns void
+language plpgsql as $$
+begin
+  raise exception '% was changed by someone else', p_label
+    using errcode = 'PT409', detail = coalesce((select name from users where id::text = p_updated_by), '');
+end $$;
+
+-- Runs with the caller's rights, so the row-level security write policies still apply.
+-- p_version is the version the editor started from, or null for a new invoice.
+create or replace function save_invoice(p_invoice jsonb, p_items jsonb, p_payments jsonb, p_version integer)
+returns invoices language plpgsql as $$
+declare
+  v_current invoices%rowtype;
+  v_saved invoices%rowtype;
+begin
+  select * into v_current from invoices where id = (p_invoice ->> 'id')::uuid for update;
+
+  if found then
+    if p_version is distinct from v_current.version then
+      perform raise_stale_document('Invoice ' || v_current.invoice_number, v_current.updated_by);
+    end if;
+    update invoices i set
+      invoice_number = coalesce(r.invoice_number, i.invoice_number),
+      status = r.status,
+      date = r.date,
+      due_date = r.due_date,
+      client_id = r.client_id,
+      client_name = r.client_name,
+      client_address = r.client_address,
+      client_email = r.client_email,
+      currency = r.currency,
+      tax_rate = r.tax_rate,
+      discount_type = r.discount_type,
+      discount_value = r.discount_value,
+      notes = r.notes,
+      terms = r.terms,
+      quotation_id = r.quotation_id,
+      recurring_schedule_id = r.recurring_schedule_id,
+      recurring_period = r.recurring_period,
+      exchange_rate = r.exchange_rate
+    from jsonb_populate_record(null::invoices, p_invoice) r
+    where i.id = v_current.id
+    returning i.* into v_saved;
+  else
+    insert into invoices (
+      id, invoice_number, status, date, due_date, client_id, client_name, client_address, client_email, currency,
+      tax_rate, discount_type, discount_value, notes, terms, quotation_id, recurring_schedule_id, recurring_period, exchange_rate
+    )
+    select coalesce(r.id, gen_random_uuid()), r.invoice_number, r.status, r.date, r.due_date, r.client_id, r.client_name,
+      r.client_address, r.client_email, r.currency, r.tax_rate, r.discount_type, r.discount_value, r.notes, r.terms,
+      r.quotation_id, r.recurring_schedule_id, r.recurring_period, r.exchange_rate
+    from jsonb_populate_record(null::invoices, p_invoice) r
+    returning * into v_saved;
+  end if;
+
+  delete from invoice_items where invoice_id = v_saved.id;
+  insert into invoice_items (invoice_id, description, quantity, rate, discount_type, discount_value, tax_rate, tax_exempt, catalog_item_id)
+  select v_saved.id, r.description, r.quantity, r.rate, r.discount_type, r.discount_value, r.tax_rate, r.tax_exempt, r.catalog_item_id
+  from jsonb_populate_recordset(null::invoice_items, p_items) r;
+
+  delete from invoice_payments where invoice_id = v_saved.id;
+  insert into invoice_payments (invoice_id, date, amount, method, reference)
+  select v_saved.id, r.date, r.amount, r.method, r.reference
+  from jsonb_populate_recordset(null::invoice_payments, p_payments) r;
+
+  return v_saved;
+end $$;
+
+create or replace function save_quotation(p_quotation jsonb, p_items jsonb, p_version integer)
+returns quotations language plpgsql as $$
+declare
+  v_current quotations%rowtype;
+  v_saved quotations%rowtype;
+begin
+  select * into v_current from quotations where id = (p_quotation ->> 'id')::uuid for update;
+
+  if found then
+    -- Being sent or shared since the editor opened it is not a conflict (see mark_quotation_sent)
+    if p_version is null or p_version < v_current.edited_version or p_version > v_current.version then
+      perform raise_stale_document('Quotation ' || v_current.quotation_number, v_current.updated_by);
+    end if;
+    update quotations q set
+      quotation_number = coalesce(r.quotation_number, q.quotation_number),
+      -- A draft sent while the editor was open still shows as a draft there
+      status = case when r.status = 'draft' and v_current.status = 'sent' and p_version < v_current.version then 'sent' else r.status end,
+      date = r.date,
+      valid_until = r.valid_until,
+      client_id = r.client_id,
+      client_name = r.client_name,
+      client_address = r.client_address,
+      client_email = r.client_email,
+      currency = r.currency,
+      tax_rate = r.tax_rate,
+      discount_type = r.discount_type,
+      discount_value = r.discount_value,
+      notes = r.notes,
+      terms = r.terms
+    from jsonb_populate_record(null::quotations, p_quotation) r
+    where q.id = v_current.id
+    returning q.* into v_saved;
+  else
+    insert into quotations (
+      id, quotation_number, status, date, valid_until, client_id, client_name, client_address, client_email, currency,
+      tax_rate, discount_type, discount_value, notes, terms
+    )
+    select coalesce(r.id, gen_random_uuid()), r.quotation_number, r.status, r.date, r.valid_until, r.client_id, r.client_name,
+      r.client_address, r.client_email, r.currency, r.tax_rate, r.discount_type, r.discount_value, r.notes, r.terms
+    from jsonb_populate_record(null::quotations, p_quotation) r
+    returning * into v_saved;
+  end if;
+
+  delete from quotation_items where quotation_id = v_saved.id;
+  insert into quotation_items (quotation_id, description, quantity, rate, discount_type, discount_value, tax_rate, tax_exempt, catalog_item_id)
+  select v_saved.id, r.description, r.quantity, r.rate, r.discount_type, r.discount_value, r.tax_rate, r.tax_exempt, r.catalog_item_id
+  from jsonb_populate_recordset(null::quotation_items, p_items) r;
+
+  return v_saved;
+end $$;
+
+grant execute on function save_invoice(jsonb, jsonb, jsonb, integer) to anon, authenticated;
+grant execute on function save_quotation(jsonb, jsonb, integer) to anon, authenticated;
@@ -0,0 +1,12 @@
+-- Print layout and branding for invoices and quotations. Each document type has its own default template;
+-- the brand colour, font and footer apply to all of them. A blank footer keeps each document's own closing line.
+
+alter table settings add column if not exists invoice_template text not null default 'classic'
+  check (invoice_template in ('classic', 'compact', 'modern'));
+alter table settings add column if not exists quotation_template text not null default 'classic'
+  check (quotation_template in ('classic', 'compact', 'modern'));
+alter table settings add column if not exists brand_color text not null default '#0284c7'
+  check (brand_color ~ '^#[0-9a-fA-F]{6}$');
+alter table settings add column if not exists document_font text not null default 'sans'
+  check (document_font in ('sans', 'serif', 'mono'));
+alter table settings add column if not exists document_footer text not null default '';
@@ -0,0 +1,102 @@
+-- Invoices and quotations emailed to the client from the app. The app fills in the subject and body from the
+-- templates below and attaches the PDF; send_document_email() queues the message in mail_outbox for the send-mail
+-- function and logs it in document_emails. Sending a draft quotation marks it as sent.
+
+alter table settings add column if not exists invoice_email_subject text not null
+  default 'Invoice {invoiceNumber} from {companyName}';
+alter table settings add column if not exists invoice_email_body text not null
+  default E'Dear {clientName},\n\nPlease find attached invoice {invoiceNumber} for {total}, due on {dueDate}.\n\nKind regards,\n{companyName}';
+alter table settings add column if not exists quotation_email_subject text not null
+  default 'Quotation {quotationNumber} from {companyName}';
+alter table settings add column if not exists quotation_email_body text not null
+  default E'Dear {clientName},\n\nPlease find attached our quotation {quotationNumber} for {total}, valid until {validUntil}.\n\nKind regards,\n{companyName}';
+
+-- data holds subject, body, attachment_name and the base64 attachment until the mail is sent
+alter table mail_outbox drop constraint if exists mail_outbox_template_check;
+alter table mail_outbox add constraint mail_outbox_template_check
+  check (template in ('invite', 'password_reset', 'document'));
+
+create table if not exists document_emails (
+  id uuid primary key default gen_random_uuid(),
+  document_type text not null check (document_type in ('invoice', 'quotation')),
+  document_id uuid not null,
+  document_number text not null default '', -- At the time of sending
+  to_address text not null,
+  subject text not null,
+  mail_id uuid references mail_outbox (id) on delete set null,
+  sent_by text,
+  sent_by_name text not null default '',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists document_emails_document_idx on document_emails (document_type, document_id, created_at desc);
+
+-- Read through document_email_log(), which adds the delivery status from the outbox
+alter table document_emails enable row level security;
+revoke all on document_emails from anon, authenticated;
+
+create or replace function send_document_email(
+  p_document_type text, p_document_id text, p_to text, p_subject text, p_body text, p_attachment_name text, p_attachment text
+) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_number text;
+  v_mail_id uuid;
+  v_user_id text := current_app_user_id();
+begin
+  if p_document_type not in ('invoice', 'quotation') or not has_permission(p_document_type || '.edit') then
+    raise exception 'Not allowed to send this document' using errcode = '42501';
+  end if;
+  if coalesce(trim(p_to), '') !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' then
+    raise exception 'Enter a valid email address for the client';
+  end if;
+
+  if p_document_type = 'invoice' then
+    select invoice_number into v_number from invoices where id::text = p_document_id;
+  else
+    select quotation_number into v_number from quotations where id::text = p_document_id;
+  end if;
+  if v_number is null then
+    raise exception 'Save the document before sending it';
+  end if;
+
+  insert into mail_outbox (template, to_address, data)
+  values ('document', trim(p_to), jsonb_build_object(
+    'subject', p_subject,
+    'body', p_body,
+    'attachment_name', p_attachment_name,
+    'attachment', p_attachment
+  ))
+  returning id into v_mail_id;
+
+  insert into document_emails (document_type, document_id, document_number, to_address, subject, mail_id, sent_by, sent_by_name)
+  values (p_document_type, p_document_id::uuid, v_number, trim(p_to), p_subject, v_mail_id, v_user_id,
+    coalesce((select name from users where id::text = v_user_id), ''));
+
+  if p_document_type = 'quotation' then
+    perform mark_quotation_sent(p_document_id);
+  end if;
+end $$;
+
+-- failed means the send-mail function has used up its attempts (MAX_ATTEMPTS there)
+create or replace function document_email_log(p_document_type text, p_document_id text)
+returns table (
+  id uuid, document_type text, document_id uuid, document_number text, to_address text, subject text,
+  sent_by_name text, status text, last_error text, created_at timestamptz
+)
+language sql stable security definer set search_path = public as $$
+  select e.id, e.document_type, e.document_id, e.document_number, e.to_address, e.subject, e.sent_by_name,
+    case when m.sent_at is not null or m.id is null then 'sent' when m.attempts >= 5 then 'failed' else 'queued' end,
+    m.last_error, e.created_at
+  from document_emails e
+  left join mail_outbox m on m.id = e.mail_id
+  where current_app_role() is not null
+    and e.document_type = p_document_type
+    and e.document_id::text = p_document_id
+  order by e.created_at desc
+$$;
+
+revoke all on function send_document_email(text, text, text, text, text, text, text) from public;
+revoke all on function document_email_log(text, text) from public;
+grant execute on function send_document_email(text, text, text, text, text, text, text) to anon, authenticated;
+grant execute on function document_email_log(text, text) to anon, authenticated;
@@ -0,0 +1,208 @@
+-- Read-only links that let a client open an invoice or quotation without signing in, and accept or reject
+-- a quotation. As with invite links only the SHA-256 hash of the token is stored, so a link can be copied
+-- when it is created but never shown again. Any link can be revoked; quotation links also stop working
+-- after the quotation's valid-until date, if it has one. Creating a link for a draft quotation marks it as sent.
+
+alter table quotations add column if not exists client_response text check (client_response in ('accepted', 'rejected'));
+alter table quotations add column if not exists client_responded_at timestamptz;
+alter table quotations add column if not exists client_response_ip text;
+alter table quotations add column if not exists client_response_user_agent text;
+
+create table if not exists share_links (
+  id uuid primary key default gen_random_uuid(),
+  token_hash text not null unique,
+  document_type text not null check (document_type in ('invoice', 'quotation')),
+  document_id uuid not null,
+  created_by text,
+  created_by_name text not null default '',
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz,
+  view_count integer not null default 0,
+  last_viewed_at timestamptz
+);
+
+create index if not exists share_links_document_idx on share_links (document_type, document_id, created_at desc);
+
+-- Only reachable through the functions below
+alter table share_links enable row level security;
+revoke all on share_links from anon, authenticated;
+
+-- The live link for a token, or nothing once it is revoked, expired or its document is gone
+create or replace function find_share_link(p_token text) returns share_links
+language sql stable security definer set search_path = public, extensions as $$
+  select l.*
+  from share_links l
+  where l.token_hash = encode(digest(p_token, 'sha256'), 'hex')
+    and l.revoked_at is null
+    and case l.document_type
+      -- Invoice links have no end date on purpose: a client may need the invoice until it is paid, and later for their records
+      when 'invoice' then exists (select 1 from invoices i where i.id = l.document_id)
+      else exists (select 1 from quotations q where q.id = l.document_id and (q.valid_until is null or q.valid_until >= current_date))
+    end
+$$;
+
+create or replace function create_share_link(p_document_type text, p_document_id text) returns text
+language plpgsql security definer set search_path = public, extensions as $$
+declare
+  v_number text;
+  v_token text := encode(gen_random_bytes(32), 'hex');
+  v_user_id text := current_app_user_id();
+begin
+  if p_document_type not in ('invoice', 'quotation') or not has_permission(p_document_type || '.edit') then
+    raise exception 'Not allowed to share this document' using errcode = '42501';
+  end if;
+
+  if p_document_type = 'invoice' then
+    select invoice_number into v_number from invoices where id::text = p_document_id;
+  else
+    select quotation_number into v_number from quotations where id::text = p_document_id;
+  end if;
+  if v_number is null then
+    raise exception 'Save the document before sharing it';
+  end if;
+
+  insert into share_links (token_hash, document_type, document_id, created_by, created_by_name)
+  values (encode(digest(v_token, 'sha256'), 'hex'), p_document_type, p_document_id::uuid, v_user_id,
+    coalesce((select name from users where id::text = v_user_id), ''));
+
+  if p_document_type = 'quotation' then
+    perform mark_quotation_sent(p_document_id);
+  end if;
+  return v_token;
+end $$;
+
+create or replace function share_link_list(p_document_type text, p_document_id text)
+returns table (
+  id uuid, document_type text, document_id uuid, created_by_name text, created_at timestamptz, expires_on date,
+  revoked_at timestamptz, view_count integer, last_viewed_at timestamptz
+)
+language sql stable security definer set search_path = public as $$
+  select l.id, l.document_type, l.document_id, l.created_by_name, l.created_at, q.valid_until,
+    l.revoked_at, l.view_count, l.last_viewed_at
+  from share_links l
+  left join quotations q on l.document_type = 'quotation' and q.id = l.document_id
+  where current_app_role() is not null
+    and l.document_type = p_document_type
+    and l.document_id::text = p_document_id
+  order by l.created_at desc
+$$;
+
+create or replace function revoke_share_link(p_link_id text) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_link share_links%rowtype;
+begin
+  select * into v_link from share_links where id::text = p_link_id;
+  if not found then
+    raise exception 'Share link not found';
+  end if;
+  if not has_permission(v_link.document_type || '.edit') then
+    raise exception 'Not allowed to revoke this link' using errcode = '42501';
+  end if;
+  update share_links set revoked_at = now() where id = v_link.id and revoked_at is null;
+end $$;
+
+-- The columns a link holder may see, by table. Ids, editors, versions and response metadata stay private.
+create or replace function shared_document_columns(p_table text) returns text[]
+language sql immutable as $$
+  select case p_table
+    when 'invoices' then array['invoice_number', 'status', 'date', 'due_date', 'client_name', 'client_address', 'client_email',
+      'currency', 'tax_rate', 'discount_type', 'discount_value', 'notes', 'terms']
+    when 'quotations' then array['quotation_number', 'status', 'date', 'valid_until', 'client_name', 'client_address', 'client_email',
+      'currency', 'tax_rate', 'discount_type', 'discount_value', 'notes', 'terms', 'client_response', 'client_responded_at']
+    when 'invoice_payments' then array['date', 'amount', 'method']
+    when 'credit_notes' then array['tax_rate', 'discount_type', 'discount_value'] -- Only needed for the credited total
+    when 'line_items' then array['description', 'quantity', 'rate', 'discount_type', 'discount_value', 'tax_rate', 'tax_exempt']
+  end
+$$;
+
+create or replace function shared_columns(p_table text, p_row jsonb) returns jsonb
+language sql immutable as $$
+  select coalesce(jsonb_object_agg(key, value), '{}') from jsonb_each(p_row) where key = any(shared_document_columns(p_table))
+$$;
+
+-- Line items have no id to share, so their position stands in for the key the page needs
+create or replace function shared_line_items(p_items jsonb) returns jsonb
+language sql immutable as $$
+  select coalesce(jsonb_agg(jsonb_build_object('id', n::text) || shared_columns('line_items', item) order by n), '[]')
+  from jsonb_array_elements(p_items) with ordinality as e(item, n)
+$$;
+
+-- The document nested the way the app's list queries return it, or null for a dead link. Counts the view.
+create or replace function shared_document(p_token text) returns jsonb
+language plpgsql security definer set search_path = public as $$
+declare
+  v_link share_links%rowtype;
+  v_document jsonb;
+begin
+  v_link := find_share_link(p_token);
+  if v_link.id is null then
+    return null;
+  end if;
+
+  if v_link.document_type = 'quotation' then
+    select shared_columns('quotations', to_jsonb(q)) || jsonb_build_object(
+      'quotation_items', shared_line_items((select jsonb_agg(to_jsonb(i)) from quotation_items i where i.quotation_id = q.id))
+    )
+    into v_document
+    from quotations q where q.id = v_link.document_id;
+  else
+    select shared_columns('invoices', to_jsonb(inv)) || jsonb_build_object(
+      'invoice_items', shared_line_items((select jsonb_agg(to_jsonb(i)) from invoice_items i where i.invoice_id = inv.id)),
+      'invoice_payments', coalesce((
+        select jsonb_agg(shared_columns('invoice_payments', to_jsonb(p))) from invoice_payments p where p.invoice_id = inv.id
+      ), '[]'),
+      'credit_notes', coalesce((
+        select jsonb_agg(shared_columns('credit_notes', to_jsonb(c)) || jsonb_build_object(
+          'credit_note_items', shared_line_items((select jsonb_agg(to_jsonb(ci)) from credit_note_items ci where ci.credit_note_id = c.id))
+        ))
+        from credit_notes c where c.invoice_id = inv.id and c.status = 'issued'
+      ), '[]')
+    )
+    into v_document
+    from invoices inv where inv.id = v_link.document_id;
+  end if;
+
+  update share_links set view_count = view_count + 1, last_viewed_at = now() where id = v_link.id;
+  return jsonb_build_object('document_type', v_link.document_type, 'document', v_document);
+end $$;
+
+-- Records the answer with the time, address and browser it came from, and adds it to the audit log
+create or replace function respond_to_shared_quotation(p_token text, p_response text) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_link share_links%rowtype;
+begin
+  if p_response not in ('accepted', 'rejected') then
+    raise exception 'Unknown response';
+  end if;
+  v_link := find_share_link(p_token);
+  if v_link.id is null or v_link.document_type <> 'quotation' then
+    raise exception 'This link is invalid or has expired';
+  end if;
+
+  -- The status change is logged by the quotation's audit triggers
+  perform set_config('app.audit_actor_name', 'Client (share link)', true);
+  update quotations set
+    status = p_response,
+    client_response = p_response,
+    client_responded_at = now(),
+    client_response_ip = request_client_ip(),
+    client_response_user_agent = left(current_setting('request.headers', true)::json ->> 'user-agent', 500)
+  where id = v_link.document_id and status = 'sent';
+  if not found then
+    raise exception 'This quotation is no longer open for a response';
+  end if;
+end $$;
+
+revoke all on function find_share_link(text) from public;
+revoke all on function create_share_link(text, text) from public;
+revoke all on function share_link_list(text, text) from public;
+revoke all on function revoke_share_link(text) from public;
+revoke all on function shared_document(text) from public;
+revoke all on function respond_to_shared_quotation(text, text) from public;
+grant execute on function create_share_link(text, text) to anon, authenticated;
+grant execute on function share_link_list(text, text) to anon, authenticated;
+grant execute on function revoke_share_link(text) to anon, authenticated;
+grant execute on function shared_document(text) to anon, authenticated;
+grant execute on function respond_to_shared_quotation(text, text) to anon, authenticated;
@@ -0,0 +1,148 @@
+-- The language a document's fixed labels are printed in: English, Dhivehi (laid out right to left) or both.
+-- Recurring schedules keep one too so the invoices they generate come out the same way.
+-- save_invoice() and save_quotation() list their columns, so they are recreated to save it.
+
+alter table invoices add column if not exists language text not null default 'en' check (language in ('en', 'dv', 'bilingual'));
+alter table quotations add column if not exists language text not null default 'en' check (language in ('en', 'dv', 'bilingual'));
+alter table recurring_schedules add column if not exists language text not null default 'en' check (language in ('en', 'dv', 'bilingual'));
+
+create or replace function save_invoice(p_invoice jsonb, p_items jsonb, p_payments jsonb, p_version integer)
+returns invoices language plpgsql as $$
+declare
+  v_current invoices%rowtype;
+  v_saved invoices%rowtype;
+begin
+  select * into v_current from invoices where id = (p_invoice ->> 'id')::uuid for update;
+
+  if found then
+    if p_version is distinct from v_current.version then
+      perform raise_stale_document('Invoice ' || v_current.invoice_number, v_current.updated_by);
+    end if;
+    update invoices i set
+      invoice_number = coalesce(r.invoice_number, i.invoice_number),
+      status = r.status,
+      date = r.date,
+      due_date = r.due_date,
+      client_id = r.client_id,
+      client_name = r.client_name,
+      client_address = r.client_address,
+      client_email = r.client_email,
+      currency = r.currency,
+      tax_rate = r.tax_rate,
+      discount_type = r.discount_type,
+      discount_value = r.discount_value,
+      notes = r.notes,
+      terms = r.terms,
+      quotation_id = r.quotation_id,
+      recurring_schedule_id = r.recurring_schedule_id,
+      recurring_period = r.recurring_period,
+      exchange_rate = r.exchange_rate,
+      language = coalesce(r.language, i.language)
+    from jsonb_populate_record(null::invoices, p_invoice) r
+    where i.id = v_current.id
+    returning i.* into v_saved;
+  else
+    insert into invoices (
+      id, invoice_number, status, date, due_date, client_id, client_name, client_address, client_email, currency,
+      tax_rate, discount_type, discount_value, notes, terms, quotation_id, recurring_schedule_id, recurring_period, exchange_rate, language
+    )
+    select coalesce(r.id, gen_random_uuid()), r.invoice_number, r.status, r.date, r.due_date, r.client_id, r.client_name,
+      r.client_address, r.client_email, r.currency, r.tax_rate, r.discount_type, r.discount_value, r.notes, r.terms,
+      r.quotation_id, r.recurring_schedule_id, r.recurring_period, r.exchange_rate, coalesce(r.language, 'en')
+    from jsonb_populate_record(null::invoices, p_invoice) r
+    returning * into v_saved;
+  end if;
+
+  delete from invoice_items where invoice_id = v_saved.id;
+  insert into invoice_items (invoice_id, description, quantity, rate, discount_type, discount_value, tax_rate, tax_exempt, catalog_item_id)
+  select v_saved.id, r.description, r.quantity, r.rate, r.discount_type, r.discount_value, r.tax_rate, r.tax_exempt, r.catalog_item_id
+  from jsonb_populate_recordset(null::invoice_items, p_items) r;
+
+  delete from invoice_payments where invoice_id = v_saved.id;
+  insert into invoice_payments (invoice_id, date, amount, method, reference)
+  select v_saved.id, r.date, r.amount, r.method, r.reference
+  from jsonb_populate_recordset(null::invoice_payments, p_payments) r;
+
+  return v_saved;
+end $$;
+
+create or replace function save_quotation(p_quotation jsonb, p_items jsonb, p_version integer)
+returns quotations language plpgsql as $$
+declare
+  v_current quotations%rowtype;
+  v_saved quotations%rowtype;
+begin
+  select * into v_current from quotations where id = (p_quotation ->> 'id')::uuid for update;
+
+  if found then
+    -- Being sent or shared since the editor opened it is not a conflict (see mark_quotation_sent)
+    if p_version is null or p_version < v_current.edited_version or p_version > v_current.version then
+      perform raise_stale_document('Quotation ' || v_current.quotation_number, v_current.updated_by);
+    end if;
+    update quotations q set
+      quotation_number = coalesce(r.quotation_number, q.quotation_number),
+      -- A draft sent while the editor was open still shows as a draft there
+      status = case when r.status = 'draft' and v_current.status = 'sent' and p_version < v_current.version then 'sent' else r.status end,
+      date = r.date,
+      valid_until = r.valid_until,
+      client_id = r.client_id,
+      client_name = r.client_name,
+      client_address = r.client_address,
+      client_email = r.client_email,
+      currency = r.currency,
+      tax_rate = r.tax_rate,
+      discount_type = r.discount_type,
+      discount_value = r.discount_value,
+      notes = r.notes,
+      terms = r.terms,
+      language = coalesce(r.language, q.language)
+    from jsonb_populate_record(null::quotations, p_quotation) r
+    where q.id = v_current.id
+    returning q.* into v_saved;
+  else
+    insert into quotations (
+      id, quotation_number, status, date, valid_until, client_id, client_name, client_address, client_email, currency,
+      tax_rate, discount_type, discount_value, notes, terms, language
+    )
+    select coalesce(r.id, gen_random_uuid()), r.quotation_number, r.status, r.date, r.valid_until, r.client_id, r.client_name,
+      r.client_address, r.client_email, r.currency, r.tax_rate, r.discount_type, r.discount_value, r.notes, r.terms,
+      coalesce(r.language, 'en')
+    from jsonb_populate_record(null::quotations, p_quotation) r
+    returning * into v_saved;
+  end if;
+
+  delete from quotation_items where quotation_id = v_saved.id;
+  insert into quotation_items (quotation_id, description, quantity, rate, discount_type, discount_value, tax_rate, tax_exempt, catalog_item_id)
+  select v_saved.id, r.description, r.quantity, r.rate, r.discount_type, r.discount_value, r.tax_rate, r.tax_exempt, r.catalog_item_id
+  from jsonb_populate_recordset(null::quotation_items, p_items) r;
+
+  return v_saved;
+end $$;
+
+-- Shared documents print in their own language
+create or replace function shared_document_columns(p_table text) returns text[]
+language sql immutable as $$
+  select case p_table
+    when 'invoices' then array['invoice_number', 'status', 'date', 'due_date', 'client_name', 'client_address', 'client_email',
+      'currency', 'tax_rate', 'discount_type', 'discount_value', 'notes', 'terms', 'language']
+    when 'quotations' then array['quotation_number', 'status', 'date', 'valid_until', 'client_name', 'client_address', 'client_email',
+      'currency', 'tax_rate', 'discount_type', 'discount_value', 'notes', 'terms', 'language', 'client_response', 'client_responded_at']
+    when 'invoice_payments' then array['date', 'amount', 'method']
+    when 'credit_notes' then array['tax_rate', 'discount_type', 'discount_value'] -- Only needed for the credited total
+    when 'line_items' then array['description', 'quantity', 'rate', 'discount_type', 'discount_value', 'tax_rate', 'tax_exempt']
+  end
+$$;
+
+-- The language is logged after the fields recorded by invoice_audit_record and quotation_audit_record
+create or replace function document_audit_record(p_entity_type text, p_id text) returns jsonb
+language sql stable as $$
+  select case p_entity_type
+    when 'invoice' then invoice_audit_record(p_id)
+      || jsonb_build_array(jsonb_build_array('language', (select i.language from invoices i where i.id::text = p_id)))
+    else quotation_audit_record(p_id)
+      || jsonb_build_array(jsonb_build_array('language', (select q.language from quotations q where q.id::text = p_id)))
+  end
+$$;
+
+grant execute on function save_invoice(jsonb, jsonb, jsonb, integer) to anon, authenticated;
+grant execute on function save_quotation(jsonb, jsonb, integer) to anon, authenticated;
@@ -0,0 +1,132 @@
+-- Credit notes and recurring schedules are saved with their line items in one transaction through
+-- save_credit_note() and save_recurring_schedule(), the same way as invoices and quotations.
+-- A credit note cannot take an invoice's credited total past the invoice's own total.
+
+-- Runs with the caller's rights, so the row-level security write policies still apply
+create or replace function save_credit_note(p_credit_note jsonb, p_items jsonb)
+returns credit_notes language plpgsql as $$
+declare
+  v_note credit_notes%rowtype;
+  v_invoice invoices%rowtype;
+  v_saved credit_notes%rowtype;
+  v_creditable numeric;
+begin
+  v_note := jsonb_populate_record(null::credit_notes, p_credit_note);
+  select * into v_invoice from invoices where id = v_note.invoice_id;
+  if not found then
+    raise exception 'The original invoice could not be found';
+  end if;
+
+  -- Notes against the same invoice are saved one at a time so two of them cannot both use up the balance
+  perform pg_advisory_xact_lock(hashtext('credit_note:' || v_invoice.id::text));
+
+  v_creditable := audit_document_total(
+    (select jsonb_agg(to_jsonb(ii)) from invoice_items ii where ii.invoice_id = v_invoice.id),
+    v_invoice.tax_rate, v_invoice.discount_type, v_invoice.discount_value
+  ) - coalesce((
+    select sum(audit_document_total(
+      (select jsonb_agg(to_jsonb(ci)) from credit_note_items ci where ci.credit_note_id = cn.id),
+      cn.tax_rate, cn.discount_type, cn.discount_value
+    ))
+    from credit_notes cn
+    where cn.invoice_id = v_invoice.id and cn.status = 'issued' and cn.id is distinct from v_note.id
+  ), 0);
+  if audit_document_total(p_items, v_note.tax_rate, v_note.discount_type, v_note.discount_value) > greatest(v_creditable, 0) + 0.005 then
+    raise exception 'This credit note exceeds the amount left to credit on % (%)',
+      v_invoice.invoice_number, audit_number(greatest(v_creditable, 0));
+  end if;
+
+  -- Written as a draft first: once the note is issued its lines are locked
+  update credit_notes c set
+    status = 'draft',
+    invoice_id = v_note.invoice_id,
+    date = v_note.date,
+    reason = v_note.reason,
+    client_id = v_note.client_id,
+    client_name = v_note.client_name,
+    client_address = v_note.client_address,
+    client_email = v_note.client_email,
+    currency = v_note.currency,
+    tax_rate = v_note.tax_rate,
+    discount_type = v_note.discount_type,
+    discount_value = v_note.discount_value,
+    refund_amount = v_note.refund_amount,
+    exchange_rate = v_note.exchange_rate
+  where c.id = v_note.id
+  returning c.* into v_saved;
+
+  if not found then
+    insert into credit_notes (
+      id, credit_note_number, status, invoice_id, date, reason, client_id, client_name, client_address, client_email,
+      currency, tax_rate, discount_type, discount_value, refund_amount, exchange_rate
+    )
+    values (
+      coalesce(v_note.id, gen_random_uuid()), v_note.credit_note_number, 'draft', v_note.invoice_id, v_note.date, v_note.reason,
+      v_note.client_id, v_note.client_name, v_note.client_address, v_note.client_email, v_note.currency, v_note.tax_rate,
+      v_note.discount_type, v_note.discount_value, v_note.refund_amount, v_note.exchange_rate
+    )
+    returning * into v_saved;
+  end if;
+
+  delete from credit_note_items where credit_note_id = v_saved.id;
+  insert into credit_note_items (credit_note_id, description, quantity, rate, discount_type, discount_value, tax_rate, tax_exempt, catalog_item_id)
+  select v_saved.id, r.description, r.quantity, r.rate, r.discount_type, r.discount_value, r.tax_rate, r.tax_exempt, r.catalog_item_id
+  from jsonb_populate_recordset(null::credit_note_items, p_items) r;
+
+  if v_note.status = 'issued' then
+    update credit_notes set status = 'issued' where id = v_saved.id returning * into v_saved;
+  end if;
+
+  return v_saved;
+end $$;
+
+create or replace function save_recurring_schedule(p_schedule jsonb, p_items jsonb)
+returns recurring_schedules language plpgsql as $$
+declare
+  v_saved recurring_schedules%rowtype;
+begin
+  update recurring_schedules s set
+    name = r.name,
+    frequency = r.frequency,
+    start_date = r.start_date,
+    end_date = r.end_date,
+    auto_issue = r.auto_issue,
+    payment_terms_days = r.payment_terms_days,
+    active = r.active,
+    client_id = r.client_id,
+    client_name = r.client_name,
+    client_address = r.client_address,
+    client_email = r.client_email,
+    currency = r.currency,
+    tax_rate = r.tax_rate,
+    discount_type = r.discount_type,
+    discount_value = r.discount_value,
+    notes = r.notes,
+    terms = r.terms,
+    language = coalesce(r.language, s.language)
+  from jsonb_populate_record(null::recurring_schedules, p_schedule) r
+  where s.id = r.id
+  returning s.* into v_saved;
+
+  if not found then
+    insert into recurring_schedules (
+      id, name, frequency, start_date, end_date, auto_issue, payment_terms_days, active, client_id, client_name,
+      client_address, client_email, currency, tax_rate, discount_type, discount_value, notes, terms, language
+    )
+    select coalesce(r.id, gen_random_uuid()), r.name, r.frequency, r.start_date, r.end_date, r.auto_issue, r.payment_terms_days,
+      r.active, r.client_id, r.client_name, r.client_address, r.client_email, r.currency, r.tax_rate, r.discount_type,
+      r.discount_value, r.notes, r.terms, coalesce(r.language, 'en')
+    from jsonb_populate_record(null::recurring_schedules, p_schedule) r
+    returning * into v_saved;
+  end if;
+
+  delete from recurring_schedule_items where schedule_id = v_saved.id;
+  insert into recurring_schedule_items (schedule_id, description, quantity, rate, discount_type, discount_value, tax_rate, tax_exempt, catalog_item_id)
+  select v_saved.id, r.description, r.quantity, r.rate, r.discount_type, r.discount_value, r.tax_rate, r.tax_exempt, r.catalog_item_id
+  from jsonb_populate_recordset(null::recurring_schedule_items, p_items) r;
+
+  return v_saved;
+end $$;
+
+grant execute on function save_credit_note(jsonb, jsonb) to anon, authenticated;
+grant execute on function save_recurring_schedule(jsonb, jsonb) to anon, authenticated;
@@ -1,11 +1,31 @@
-export type InvoiceStatus = 'draft' | 'pending' | 'paid';
+export type InvoiceStatus = 'draft' | 'pending' | 'partially_paid' | 'paid';
+export type CreditNoteStatus = 'draft' | 'issued';
+export type RecurringFrequency = 'weekly' | 'monthly' | 'quarterly';
+export type DiscountType = 'percent' | 'fixed';
+export type PaymentMethod = 'cash' | 'bank_transfer' | 'card' | 'other';
 export type QuotationStatus = 'draft' | 'sent' | 'accepted' | 'rejected';
+export type DocumentTemplate = 'classic' | 'compact' | 'modern';
+export type DocumentFont = 'sans' | 'serif' | 'mono';
+export type DocumentLanguage = 'en' | 'dv' | 'bilingual';
 
 export interface InvoiceItem {
   id: string;
   description: string;
   quantity: number;
   rate: number;
+  discountType?: DiscountType;
+  discountValue?: number;
+  taxRate?: number; // Overrides the document rate when set
+  taxExempt?: boolean; // Zero-rated or exempt supply
+  catalogItemId?: string; // Set when the line was picked from the catalog
+}
+
+export interface Payment {
+  id: string;
+  date: string;
+  amount: number;
+  method: PaymentMethod;
+  reference: string;
 }
 
 export interface InvoiceData {
@@ -14,14 +34,25 @@ export interface InvoiceData {
   status: InvoiceStatus;
   date: string;
   dueDate: string;
+  clientId?: string;
   clientName: string;
   clientAddress: string;
   clientEmail: string;
   currency: string;
   taxRate: number;
+  discountType?: DiscountType; // Document-level discount applied after line discounts
+  discountValue?: number;
   notes: string;
   terms: string;
+  language: DocumentLanguage; // Language of the printed labels; notes, terms and lines are printed as typed
   items: InvoiceItem[];
+  payments: Payment[];
+  creditedAmount: number; // Total of issued credit notes against this invoice
+  quotationId?: string; // Source quotation when converted
+  recurringScheduleId?: string;
+  recurringPeriod?: string; // Period start date this invoice was generated for
+  exchangeRate?: number; // Base currency per unit, locked in when the invoice is issued
+  version?: number; // Bumped by the backend on every save; a save from an older version is rejected
 }
 
 export interface QuotationData {
@@ -30,24 +61,177 @@ export interface QuotationData {
   status: QuotationStatus;
   date: string;
   validUntil: string;
+  clientId?: string;
   clientName: string;
   clientAddress: string;
   clientEmail: string;
   currency: string;
   taxRate: number;
+  discountType?: DiscountType; // Document-level discount applied after line discounts
+  discountValue?: number;
   notes: string;
   terms: string;
+  language: DocumentLanguage; // Language of the printed labels; notes, terms and lines are printed as typed
+  items: InvoiceItem[];
+  invoiceId?: string; // Set once converted to an invoice
+  invoiceNumber?: string;
+  clientResponse?: QuotationResponse; // Set when the client accepts or rejects through a share link
+  version?: number;
+}
+
+export interface QuotationResponse {
+  status: 'accepted' | 'rejected';
+  respondedAt: string;
+  clientIp?: string;
+  userAgent?: string;
+}
+
+export interface CreditNote {
+  id: string;
+  creditNoteNumber: string;
+  status: CreditNoteStatus;
+  invoiceId: string;
+  invoiceNumber?: string;
+  date: string;
+  reason: string;
+  clientId?: string;
+  clientName: string;
+  clientAddress: string;
+  clientEmail: string;
+  currency: string;
+  taxRate: number;
+  discountType?: DiscountType;
+  discountValue?: number;
+  refundAmount: number; // Money paid back to the client, if any
+  exchangeRate?: number; // Taken from the original invoice
   items: InvoiceItem[];
 }
 
+export interface RecurringSchedule {
+  id: string;
+  name: string;
+  frequency: RecurringFrequency;
+  startDate: string;
+  endDate?: string;
+  autoIssue: boolean; // Generate as pending instead of draft
+  paymentTermsDays: number;
+  active: boolean;
+  clientId?: string;
+  clientName: string;
+  clientAddress: string;
+  clientEmail: string;
+  currency: string;
+  taxRate: number;
+  discountType?: DiscountType; // Document-level discount applied after line discounts
+  discountValue?: number;
+  notes: string;
+  terms: string;
+  language: DocumentLanguage; // Language of the printed labels; notes, terms and lines are printed as typed
+  items: InvoiceItem[];
+}
+
+export interface CatalogItem {
+  id: string;
+  name: string;
+  description: string; // Copied to the line item when picked
+  unit: string; // e.g. hour, session, night
+  rate: number;
+  taxRate?: number; // Leave empty to follow the document rate
+  taxExempt: boolean;
+  active: boolean; // Inactive items stay on old documents but are not offered in the editors
+}
+
+export interface ExchangeRate {
+  id: string;
+  currency: string;
+  rate: number; // Units of the base currency for one unit of this currency
+  effectiveDate: string;
+}
+
+export interface Client {
+  id: string;
+  name: string;
+  address: string;
+  billingAddress: string; // Printed on documents when set, otherwise address is used
+  email: string;
+  ccEmails: string; // Comma separated
+  phone: string;
+  taxId: string;
+}
+
 export interface User {
   id: string;
   name: string;
   email: string;
   role: 'admin' | 'editor' | 'viewer';
   avatar?: string;
-  password?: string;
   active?: boolean;
+  lockedUntil?: string; // Set after too many failed sign-ins
+  twoFactorEnabled?: boolean;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean; // Required for the user's role in Settings
+  recoveryCodesLeft: number;
+}
+
+export interface LoginAttempt {
+  id: string;
+  identifier: string; // What was typed into the sign-in form
+  userId?: string;
+  clientIp?: string;
+  succeeded: boolean;
+  reason?: 'unknown_user' | 'invalid_password' | 'invalid_code' | 'locked' | 'client_blocked' | 'disabled';
+  createdAt: string;
+}
+
+export type AuditEntityType = 'invoice' | 'quotation' | 'settings' | 'user';
+export type AuditAction = 'create' | 'update';
+export type AuditValue = string | number | boolean | null;
+
+export interface AuditChange {
+  field: string;
+  from: AuditValue;
+  to: AuditValue;
+}
+
+export interface AuditEntry {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityLabel: string; // Document number or user name at the time of the change
+  action: AuditAction;
+  actorId?: string;
+  actorName: string;
+  changes: AuditChange[];
+  createdAt: string;
+}
+
+export interface DocumentEmail {
+  id: string;
+  documentType: 'invoice' | 'quotation';
+  documentId: string;
+  documentNumber: string;
+  toAddress: string;
+  subject: string;
+  sentByName: string;
+  status: 'queued' | 'sent' | 'failed'; // Failed once the mail function has given up retrying
+  lastError?: string;
+  createdAt: string;
+}
+
+// A read-only link that lets a client open a document without signing in
+export interface ShareLink {
+  id: string;
+  documentType: 'invoice' | 'quotation';
+  documentId: string;
+  createdByName: string;
+  createdAt: string;
+  expiresOn?: string; // The quotation's valid-until date; invoice links work until revoked
+  revokedAt?: string;
+  viewCount: number;
+  lastViewedAt?: string;
 }
 
 export interface AppSettings {
@@ -56,6 +240,28 @@ export interface AppSettings {
   companyEmail: string;
   gstNumber?: string;
   defaultTaxRate: number;
+  baseCurrency: string; // Currency code reports are converted into
   currencySymbol: string;
   logoUrl?: string;
-}
\ No newline at end of file
+  invoiceNumberPattern: string;
+  quotationNumberPattern: string;
+  creditNoteNumberPattern: string;
+  sessionIdleMinutes: number; // Sign out after this long without activity
+  loginLockoutThreshold: number; // Failed sign-ins before an account is locked
+  loginLockoutMinutes: number;
+  twoFactorRoles: User['role'][]; // Roles that must sign in with two-factor authentication
+  invoiceTemplate: DocumentTemplate;
+  quotationTemplate: DocumentTemplate;
+  brandColor: string; // Hex colour for headings and rules on printed documents
+  documentFont: DocumentFont;
+  documentFooter: string; // Closing line on printed documents; blank uses each document's own
+  invoiceEmailSubject: string; // Email templates with {placeholders}, see lib/documentEmail.ts
+  invoiceEmailBody: string;
+  quotationEmailSubject: string;
+  quotationEmailBody: string;
+}
+
+// What every printed document shows, and all that can be read without signing in
+export type PublicSettings = Pick<AppSettings,
+  'companyName' | 'companyAddress' | 'companyEmail' | 'gstNumber' | 'logoUrl' | 'baseCurrency' | 'currencySymbol' |
+  'invoiceTemplate' | 'quotationTemplate' | 'brandColor' | 'documentFont' | 'documentFooter'>;
\ No newline at end of file
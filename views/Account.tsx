@@ -0,0 +1,296 @@
+import React, { useState, useEffect } from 'react';
+import { TwoFactorStatus, User } from '../types';
+import { LockIcon, ShieldIcon } from '../components/Icons';
+import { TotpEnrolment, RecoveryCodeList } from '../components/TwoFactor';
+
+interface AccountProps {
+  user: User;
+  issuer: string; // Name shown in authenticator apps
+  onChangePassword: (currentPassword: string, newPassword: string) => Promise<boolean>;
+  onLoadTwoFactorStatus: () => Promise<TwoFactorStatus | null>;
+  onBeginTwoFactor: () => Promise<string | null>;
+  onConfirmTwoFactor: (code: string) => Promise<string[] | null>;
+  onDisableTwoFactor: (password: string) => Promise<boolean>;
+  onRegenerateRecoveryCodes: (password: string) => Promise<string[] | null>;
+}
+
+const emptyForm = { currentPassword: '', newPassword: '', confirmPassword: '' };
+
+export default function Account({
+  user,
+  issuer,
+  onChangePassword,
+  onLoadTwoFactorStatus,
+  onBeginTwoFactor,
+  onConfirmTwoFactor,
+  onDisableTwoFactor,
+  onRegenerateRecoveryCodes
+}: AccountProps) {
+  const [formData, setFormData] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const [twoFactor, setTwoFactor] = useState<TwoFactorStatus | null>(null);
+  const [pendingSecret, setPendingSecret] = useState<string | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [twoFactorInput, setTwoFactorInput] = useState(''); // Code while enrolling, password otherwise
+  const [twoFactorError, setTwoFactorError] = useState<string | null>(null);
+  const [isUpdatingTwoFactor, setIsUpdatingTwoFactor] = useState(false);
+
+  const refreshTwoFactor = () => onLoadTwoFactorStatus().then(setTwoFactor);
+
+  useEffect(() => {
+    refreshTwoFactor();
+  }, [user.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaved(false);
+    if (formData.newPassword.length < 8) {
+      setError('Your new password must be at least 8 characters.');
+      return;
+    }
+    if (formData.newPassword !== formData.confirmPassword) {
+      setError('The new passwords do not match.');
+      return;
+    }
+    setError(null);
+    setIsSaving(true);
+    const changed = await onChangePassword(formData.currentPassword, formData.newPassword);
+    setIsSaving(false);
+    if (changed) {
+      setFormData(emptyForm);
+      setSaved(true);
+    }
+  };
+
+  const runTwoFactorAction = async (action: () => Promise<void>) => {
+    setTwoFactorError(null);
+    setIsUpdatingTwoFactor(true);
+    await action();
+    setIsUpdatingTwoFactor(false);
+  };
+
+  const beginTwoFactor = () => runTwoFactorAction(async () => {
+    setRecoveryCodes(null);
+    setTwoFactorInput('');
+    setPendingSecret(await onBeginTwoFactor());
+  });
+
+  const confirmTwoFactor = (e: React.FormEvent) => {
+    e.preventDefault();
+    runTwoFactorAction(async () => {
+      const codes = await onConfirmTwoFactor(twoFactorInput.trim());
+      setTwoFactorInput('');
+      if (!codes) {
+        setTwoFactorError('That code does not match. Check the time on your device and try the latest code.');
+        return;
+      }
+      setPendingSecret(null);
+      setRecoveryCodes(codes);
+      await refreshTwoFactor();
+    });
+  };
+
+  const regenerateRecoveryCodes = () => runTwoFactorAction(async () => {
+    const codes = await onRegenerateRecoveryCodes(twoFactorInput);
+    if (!codes) {
+      setTwoFactorError('Enter your current password to create new recovery codes.');
+      return;
+    }
+    setTwoFactorInput('');
+    setRecoveryCodes(codes);
+    await refreshTwoFactor();
+  });
+
+  const disableTwoFactor = () => runTwoFactorAction(async () => {
+    if (!window.confirm('Turn off two-factor authentication? Your recovery codes will stop working.')) return;
+    if (!(await onDisableTwoFactor(twoFactorInput))) {
+      setTwoFactorError('Enter your current password to turn off two-factor authentication.');
+      return;
+    }
+    setTwoFactorInput('');
+    setRecoveryCodes(null);
+    await refreshTwoFactor();
+  });
+
+  const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500 transition-shadow";
+
+  return (
+    <div className="p-4 md:p-6 max-w-3xl mx-auto">
+      <h1 className="text-2xl font-bold text-gray-800 mb-6">My Account</h1>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-8">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 mb-4 border-b pb-2">Profile</h3>
+          <dl className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500">Name</dt>
+              <dd className="font-medium text-gray-900">{user.name}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Email</dt>
+              <dd className="font-medium text-gray-900">{user.email}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Role</dt>
+              <dd className="font-medium text-gray-900 capitalize">{user.role}</dd>
+            </div>
+          </dl>
+        </div>
+
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 mb-4 border-b pb-2">Change Password</h3>
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-100 text-red-600 text-sm rounded">{error}</div>
+          )}
+          {saved && (
+            <div className="mb-4 p-3 bg-green-50 border border-green-100 text-green-700 text-sm rounded">
+              Your password has been changed. Other devices have been signed out.
+            </div>
+          )}
+          <form onSubmit={handleSubmit} className="space-y-4 max-w-sm">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Current Password</label>
+              <input
+                type="password"
+                required
+                autoComplete="current-password"
+                value={formData.currentPassword}
+                onChange={e => setFormData({ ...formData, currentPassword: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">New Password</label>
+              <input
+                type="password"
+                required
+                autoComplete="new-password"
+                value={formData.newPassword}
+                onChange={e => setFormData({ ...formData, newPassword: e.target.value })}
+                className={inputClass}
+              />
+              <p className="mt-1 text-xs text-gray-500">At least 8 characters.</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Confirm New Password</label>
+              <input
+                type="password"
+                required
+                autoComplete="new-password"
+                value={formData.confirmPassword}
+                onChange={e => setFormData({ ...formData, confirmPassword: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex items-center gap-2 px-4 py-2 bg-sandpix-600 text-white rounded-lg hover:bg-sandpix-700 transition-colors text-sm font-medium disabled:opacity-70"
+            >
+              <LockIcon className="w-4 h-4" />
+              {isSaving ? 'Saving...' : 'Change Password'}
+            </button>
+          </form>
+        </div>
+
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 mb-4 border-b pb-2">Two-Factor Authentication</h3>
+          {twoFactorError && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-100 text-red-600 text-sm rounded">{twoFactorError}</div>
+          )}
+          {!twoFactor ? (
+            <p className="text-sm text-gray-400">Loading...</p>
+          ) : recoveryCodes ? (
+            <div className="max-w-sm space-y-4">
+              <RecoveryCodeList codes={recoveryCodes} issuer={issuer} />
+              <button type="button" onClick={() => setRecoveryCodes(null)} className="text-sm text-gray-500 hover:text-gray-700">
+                Done
+              </button>
+            </div>
+          ) : pendingSecret ? (
+            <form onSubmit={confirmTwoFactor} className="space-y-4 max-w-sm">
+              <TotpEnrolment secret={pendingSecret} accountName={user.email} issuer={issuer} />
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Code From Your App</label>
+                <input
+                  type="text"
+                  required
+                  autoComplete="one-time-code"
+                  value={twoFactorInput}
+                  onChange={e => setTwoFactorInput(e.target.value)}
+                  className={`${inputClass} tracking-widest`}
+                  placeholder="123456"
+                />
+              </div>
+              <div className="flex items-center gap-4">
+                <button
+                  type="submit"
+                  disabled={isUpdatingTwoFactor}
+                  className="flex items-center gap-2 px-4 py-2 bg-sandpix-600 text-white rounded-lg hover:bg-sandpix-700 transition-colors text-sm font-medium disabled:opacity-70"
+                >
+                  <ShieldIcon className="w-4 h-4" />
+                  Turn On
+                </button>
+                <button type="button" onClick={() => setPendingSecret(null)} className="text-sm text-gray-500 hover:text-gray-700">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : twoFactor.enabled ? (
+            <div className="space-y-4 max-w-sm text-sm">
+              <p className="text-gray-600">
+                <span className="font-medium text-green-700">On.</span> You enter a code from your authenticator app after your password.
+                {' '}{twoFactor.recoveryCodesLeft} of 10 recovery codes left.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Current Password</label>
+                <input
+                  type="password"
+                  autoComplete="current-password"
+                  value={twoFactorInput}
+                  onChange={e => setTwoFactorInput(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div className="flex items-center gap-4">
+                <button
+                  type="button"
+                  onClick={regenerateRecoveryCodes}
+                  disabled={isUpdatingTwoFactor}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium disabled:opacity-70"
+                >
+                  New Recovery Codes
+                </button>
+                {twoFactor.required ? (
+                  <span className="text-xs text-gray-500">Required for your role.</span>
+                ) : (
+                  <button type="button" onClick={disableTwoFactor} disabled={isUpdatingTwoFactor} className="text-red-600 hover:text-red-800 font-medium">
+                    Turn Off
+                  </button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4 max-w-sm text-sm">
+              <p className="text-gray-600">
+                Protect your account with a code from an authenticator app on your phone in addition to your password.
+              </p>
+              <button
+                type="button"
+                onClick={beginTwoFactor}
+                disabled={isUpdatingTwoFactor}
+                className="flex items-center gap-2 px-4 py-2 bg-sandpix-600 text-white rounded-lg hover:bg-sandpix-700 transition-colors font-medium disabled:opacity-70"
+              >
+                <ShieldIcon className="w-4 h-4" />
+                Set Up Two-Factor Authentication
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
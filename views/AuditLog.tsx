@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import { AuditEntityType, AuditEntry, User } from '../types';
+import { HistoryIcon } from '../components/Icons';
+import { AuditChangeList, formatAuditTime } from '../components/AuditHistory';
+import { AuditFilter } from '../lib/audit';
+
+interface AuditLogProps {
+  users: User[];
+  onLoad: (filter: AuditFilter) => Promise<AuditEntry[]>;
+}
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  invoice: 'Invoice',
+  quotation: 'Quotation',
+  settings: 'Settings',
+  user: 'Team member'
+};
+
+export default function AuditLog({ users, onLoad }: AuditLogProps) {
+  const [filter, setFilter] = useState<AuditFilter>({});
+  const [search, setSearch] = useState('');
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setIsLoading(true);
+    onLoad(filter).then(result => {
+      setEntries(result);
+      setIsLoading(false);
+    });
+  }, [filter]);
+
+  const query = search.trim().toLowerCase();
+  const displayedEntries = entries.filter(entry =>
+    !query ||
+    entry.entityLabel.toLowerCase().includes(query) ||
+    entry.changes.some(change => change.field.toLowerCase().includes(query))
+  );
+
+  const inputClass = "px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-1 focus:ring-sandpix-500";
+
+  return (
+    <div className="p-4 md:p-6 max-w-7xl mx-auto">
+      <h1 className="text-2xl font-bold text-gray-800 mb-6">Audit Log</h1>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 mb-6">
+        <select
+          value={filter.entityType || ''}
+          onChange={e => setFilter({ ...filter, entityType: (e.target.value || undefined) as AuditEntityType | undefined })}
+          className={inputClass}
+        >
+          <option value="">All records</option>
+          {(Object.keys(ENTITY_LABELS) as AuditEntityType[]).map(type => (
+            <option key={type} value={type}>{ENTITY_LABELS[type]}</option>
+          ))}
+        </select>
+        <select
+          value={filter.actorId || ''}
+          onChange={e => setFilter({ ...filter, actorId: e.target.value || undefined })}
+          className={inputClass}
+        >
+          <option value="">Anyone</option>
+          {users.map(user => <option key={user.id} value={user.id}>{user.name}</option>)}
+        </select>
+        <input
+          type="date"
+          value={filter.from || ''}
+          onChange={e => setFilter({ ...filter, from: e.target.value || undefined })}
+          title="From"
+          className={inputClass}
+        />
+        <input
+          type="date"
+          value={filter.to || ''}
+          onChange={e => setFilter({ ...filter, to: e.target.value || undefined })}
+          title="To"
+          className={inputClass}
+        />
+        <input
+          placeholder="Search number, name or field..."
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-gray-600 min-w-[800px]">
+            <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+              <tr>
+                <th className="px-6 py-3">When</th>
+                <th className="px-6 py-3">Who</th>
+                <th className="px-6 py-3">Record</th>
+                <th className="px-6 py-3">Action</th>
+                <th className="px-6 py-3 w-[45%]">Changes</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {displayedEntries.map(entry => (
+                <tr key={entry.id} className="align-top hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">{formatAuditTime(entry.createdAt)}</td>
+                  <td className="px-6 py-4 font-medium text-gray-900">{entry.actorName || 'Unknown user'}</td>
+                  <td className="px-6 py-4">
+                    <p className="text-gray-900">{entry.entityLabel}</p>
+                    <p className="text-xs text-gray-400">{ENTITY_LABELS[entry.entityType]}</p>
+                  </td>
+                  <td className="px-6 py-4 capitalize">{entry.action}</td>
+                  <td className="px-6 py-4 text-xs text-gray-500"><AuditChangeList changes={entry.changes} /></td>
+                </tr>
+              ))}
+              {displayedEntries.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-gray-400">
+                    <div className="flex flex-col items-center gap-2">
+                      <HistoryIcon className="w-8 h-8 opacity-20" />
+                      <p>{isLoading ? 'Loading...' : 'No matching changes.'}</p>
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
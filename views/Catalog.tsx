@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { CatalogItem, User } from '../types';
+import { PlusIcon, EditIcon, PackageIcon } from '../components/Icons';
+import { can } from '../lib/permissions';
+
+interface CatalogProps {
+  catalog: CatalogItem[];
+  currency: string;
+  defaultTaxRate: number;
+  onSave: (item: CatalogItem) => Promise<boolean>;
+  currentUser: User;
+}
+
+const emptyItem = (): CatalogItem => ({
+  id: crypto.randomUUID(),
+  name: '',
+  description: '',
+  unit: '',
+  rate: 0,
+  taxRate: undefined,
+  taxExempt: false,
+  active: true
+});
+
+export default function Catalog({ catalog, currency, defaultTaxRate, onSave, currentUser }: CatalogProps) {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CatalogItem>(emptyItem());
+  const [search, setSearch] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canEdit = can(currentUser, 'catalog.edit');
+
+  const query = search.trim().toLowerCase();
+  const displayedItems = [...catalog]
+    .filter(item => showInactive || item.active)
+    .filter(item => !query || item.name.toLowerCase().includes(query) || item.description.toLowerCase().includes(query))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const startAdd = () => {
+    setEditingId(null);
+    setFormData(emptyItem());
+    setIsFormOpen(true);
+  };
+
+  const startEdit = (item: CatalogItem) => {
+    setEditingId(item.id);
+    setFormData(item);
+    setIsFormOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const saved = await onSave(formData);
+    setIsSaving(false);
+    if (saved) {
+      setIsFormOpen(false);
+      setEditingId(null);
+      setFormData(emptyItem());
+    }
+  };
+
+  const taxLabel = (item: CatalogItem) => {
+    if (item.taxExempt) return 'Exempt';
+    return item.taxRate !== undefined ? `${item.taxRate}%` : `Default (${defaultTaxRate}%)`;
+  };
+
+  return (
+    <div className="p-4 md:p-6 max-w-7xl mx-auto">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+        <h1 className="text-2xl font-bold text-gray-800">Catalog</h1>
+        <div className="flex gap-3 w-full sm:w-auto items-center">
+          <label className="flex items-center gap-2 text-sm text-gray-600 whitespace-nowrap">
+            <input type="checkbox" checked={showInactive} onChange={e => setShowInactive(e.target.checked)} />
+            Show inactive
+          </label>
+          <input
+            placeholder="Search items..."
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-1 focus:ring-sandpix-500 flex-1 sm:w-64"
+          />
+          {canEdit && (
+            <button
+              onClick={startAdd}
+              className="flex items-center gap-2 px-4 py-2 bg-sandpix-600 text-white rounded-lg hover:bg-sandpix-700 transition-colors font-medium text-sm justify-center"
+            >
+              <PlusIcon className="w-4 h-4" />
+              <span className="hidden sm:inline">Add Item</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isFormOpen && canEdit && (
+        <div className="bg-gray-50 border border-gray-200 p-4 rounded-lg mb-6 max-w-3xl">
+          <form onSubmit={handleSave} className="flex flex-col gap-4">
+             <h3 className="font-semibold text-gray-700">{editingId ? 'Edit Item' : 'Add New Item'}</h3>
+             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+               <input
+                 required
+                 placeholder="Item Name"
+                 value={formData.name}
+                 onChange={e => setFormData({...formData, name: e.target.value})}
+                 className="px-3 py-2 border rounded focus:outline-none focus:ring-1 focus:ring-sandpix-500"
+               />
+               <input
+                 placeholder="Unit (e.g. session, hour, night)"
+                 value={formData.unit}
+                 onChange={e => setFormData({...formData, unit: e.target.value})}
+                 className="px-3 py-2 border rounded focus:outline-none focus:ring-1 focus:ring-sandpix-500"
+               />
+               <label className="text-sm text-gray-600">
+                 Default rate ({currency})
+                 <input
+                   type="number"
+                   min="0"
+                   step="any"
+                   value={formData.rate}
+                   onChange={e => setFormData({...formData, rate: parseFloat(e.target.value) || 0})}
+                   className="mt-1 w-full px-3 py-2 border rounded focus:outline-none focus:ring-1 focus:ring-sandpix-500"
+                 />
+               </label>
+               <label className="text-sm text-gray-600">
+                 GST
+                 <div className="mt-1 flex items-center gap-3">
+                   <input
+                     type="number"
+                     min="0"
+                     value={formData.taxRate ?? ''}
+                     placeholder={`Default (${defaultTaxRate})`}
+                     disabled={formData.taxExempt}
+                     onChange={e => setFormData({...formData, taxRate: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0})}
+                     className="w-full px-3 py-2 border rounded focus:outline-none focus:ring-1 focus:ring-sandpix-500 disabled:bg-gray-100"
+                   />
+                   <span className="flex items-center gap-1 whitespace-nowrap">
+                     <input
+                       type="checkbox"
+                       checked={formData.taxExempt}
+                       onChange={e => setFormData({...formData, taxExempt: e.target.checked})}
+                     />
+                     Exempt
+                   </span>
+                 </div>
+               </label>
+               <textarea
+                 rows={2}
+                 placeholder="Description printed on documents"
+                 value={formData.description}
+                 onChange={e => setFormData({...formData, description: e.target.value})}
+                 className="px-3 py-2 border rounded focus:outline-none focus:ring-1 focus:ring-sandpix-500 md:col-span-2"
+               />
+               <label className="flex items-center gap-2 text-sm text-gray-600">
+                 <input
+                   type="checkbox"
+                   checked={formData.active}
+                   onChange={e => setFormData({...formData, active: e.target.checked})}
+                 />
+                 Active (offered when adding line items)
+               </label>
+             </div>
+             <div className="flex justify-end gap-2">
+               <button type="button" onClick={() => setIsFormOpen(false)} className="px-3 py-1 text-sm text-gray-500 hover:text-gray-700">Cancel</button>
+               <button type="submit" disabled={isSaving} className="px-3 py-1 text-sm bg-sandpix-600 text-white rounded hover:bg-sandpix-700 disabled:opacity-70">
+                 {isSaving ? 'Saving...' : editingId ? 'Update Item' : 'Save Item'}
+               </button>
+             </div>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-gray-600 min-w-[800px]">
+            <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+              <tr>
+                <th className="px-6 py-3">Name</th>
+                <th className="px-6 py-3">Description</th>
+                <th className="px-6 py-3">Unit</th>
+                <th className="px-6 py-3">Rate</th>
+                <th className="px-6 py-3">GST</th>
+                <th className="px-6 py-3">Status</th>
+                <th className="px-6 py-3 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {displayedItems.map(item => (
+                <tr key={item.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="px-6 py-4 font-medium text-gray-900">{item.name}</td>
+                  <td className="px-6 py-4 max-w-xs truncate">{item.description}</td>
+                  <td className="px-6 py-4">{item.unit}</td>
+                  <td className="px-6 py-4 font-medium">{currency}{item.rate.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                  <td className="px-6 py-4">{taxLabel(item)}</td>
+                  <td className="px-6 py-4">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${item.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}>
+                      {item.active ? 'Active' : 'Inactive'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    {canEdit && (
+                      <button
+                        type="button"
+                        onClick={() => startEdit(item)}
+                        className="text-sandpix-600 hover:text-sandpix-800 font-medium text-xs border border-sandpix-200 rounded px-2 py-1 bg-sandpix-50 inline-flex items-center gap-1"
+                      >
+                        <EditIcon className="w-3 h-3" /> Edit
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {displayedItems.length === 0 && (
+                <tr>
+                   <td colSpan={7} className="px-6 py-12 text-center text-gray-400">
+                     <div className="flex flex-col items-center gap-2">
+                       <PackageIcon className="w-8 h-8 opacity-20" />
+                       <p>No catalog items found.</p>
+                     </div>
+                   </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,147 @@
+import React from 'react';
+import { Client, InvoiceData, QuotationData, ExchangeRate } from '../types';
+import { ChevronLeftIcon, FileTextIcon, ClipboardListIcon } from '../components/Icons';
+import { calculateTotals, amountPaid, balanceDue } from '../lib/invoiceTotals';
+import { toBaseCurrency } from '../lib/exchangeRates';
+
+interface ClientDetailProps {
+  client: Client;
+  invoices: InvoiceData[];
+  quotations: QuotationData[];
+  exchangeRates: ExchangeRate[];
+  baseCurrency: string;
+  onBack: () => void;
+  onViewInvoice: (invoice: InvoiceData) => void;
+  onViewQuotation: (quotation: QuotationData) => void;
+}
+
+const formatAmount = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export default function ClientDetail({ client, invoices, quotations, exchangeRates, baseCurrency, onBack, onViewInvoice, onViewQuotation }: ClientDetailProps) {
+  const clientInvoices = invoices
+    .filter(inv => inv.clientId === client.id)
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const clientQuotations = quotations
+    .filter(q => q.clientId === client.id)
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  // Summary figures are in the base currency; the tables below keep each document's own currency
+  const issuedInvoices = clientInvoices.filter(inv => inv.status !== 'draft');
+  const inBase = (inv: InvoiceData, amount: number) => toBaseCurrency(inv, amount, exchangeRates, baseCurrency) ?? 0;
+  const totalBilled = issuedInvoices.reduce((sum, inv) => sum + inBase(inv, calculateTotals(inv).total), 0);
+  const totalPaid = issuedInvoices.reduce((sum, inv) => sum + inBase(inv, amountPaid(inv)), 0);
+  const outstanding = issuedInvoices.reduce((sum, inv) => sum + inBase(inv, balanceDue(inv)), 0);
+
+  return (
+    <div className="p-4 md:p-6 max-w-7xl mx-auto">
+      <div className="flex items-center gap-4 mb-6">
+        <button onClick={onBack} className="p-2 hover:bg-white rounded-full transition-colors text-gray-500" title="Back to Clients">
+          <ChevronLeftIcon className="w-6 h-6" />
+        </button>
+        <h1 className="text-2xl font-bold text-gray-800 truncate">{client.name}</h1>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100 md:col-span-1 space-y-1 text-sm text-gray-600">
+          <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">Contact</p>
+          {client.email && <p>{client.email}</p>}
+          {client.ccEmails && <p className="text-xs text-gray-400">CC: {client.ccEmails}</p>}
+          {client.phone && <p>{client.phone}</p>}
+          {client.taxId && <p>Tax ID: {client.taxId}</p>}
+          {client.address && <p className="whitespace-pre-line pt-2">{client.address}</p>}
+          {client.billingAddress && (
+            <>
+              <p className="text-xs font-bold text-gray-400 uppercase tracking-wider pt-3">Billing Address</p>
+              <p className="whitespace-pre-line">{client.billingAddress}</p>
+            </>
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 md:col-span-2 grid grid-cols-1 sm:grid-cols-3 divide-y sm:divide-y-0 sm:divide-x divide-gray-100">
+          <div className="p-6">
+            <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Billed</p>
+            <p className="text-2xl font-bold text-gray-900">{baseCurrency}{formatAmount(totalBilled)}</p>
+          </div>
+          <div className="p-6">
+            <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Paid</p>
+            <p className="text-2xl font-bold text-green-600">{baseCurrency}{formatAmount(totalPaid)}</p>
+          </div>
+          <div className="p-6">
+            <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Outstanding</p>
+            <p className="text-2xl font-bold text-orange-500">{baseCurrency}{formatAmount(outstanding)}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden mb-8">
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center gap-2">
+          <FileTextIcon className="w-4 h-4 text-gray-400" />
+          <h3 className="text-lg font-semibold text-gray-800">Invoices</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-gray-600">
+            <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+              <tr>
+                <th className="px-6 py-3">Invoice #</th>
+                <th className="px-6 py-3">Date</th>
+                <th className="px-6 py-3">Amount</th>
+                <th className="px-6 py-3">Balance</th>
+                <th className="px-6 py-3">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {clientInvoices.map(inv => (
+                <tr key={inv.id} onClick={() => onViewInvoice(inv)} className="hover:bg-gray-50 transition-colors cursor-pointer">
+                  <td className="px-6 py-4 font-medium text-gray-900">{inv.invoiceNumber}</td>
+                  <td className="px-6 py-4">{inv.date}</td>
+                  <td className="px-6 py-4">{inv.currency}{formatAmount(calculateTotals(inv).total)}</td>
+                  <td className="px-6 py-4">{inv.status === 'draft' ? '-' : `${inv.currency}${formatAmount(balanceDue(inv))}`}</td>
+                  <td className="px-6 py-4 capitalize">{inv.status.replace('_', ' ')}</td>
+                </tr>
+              ))}
+              {clientInvoices.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-400">No invoices for this client.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center gap-2">
+          <ClipboardListIcon className="w-4 h-4 text-gray-400" />
+          <h3 className="text-lg font-semibold text-gray-800">Quotations</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-gray-600">
+            <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+              <tr>
+                <th className="px-6 py-3">Quote #</th>
+                <th className="px-6 py-3">Date</th>
+                <th className="px-6 py-3">Amount</th>
+                <th className="px-6 py-3">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {clientQuotations.map(q => (
+                <tr key={q.id} onClick={() => onViewQuotation(q)} className="hover:bg-gray-50 transition-colors cursor-pointer">
+                  <td className="px-6 py-4 font-medium text-gray-900">{q.quotationNumber}</td>
+                  <td className="px-6 py-4">{q.date}</td>
+                  <td className="px-6 py-4">{q.currency}{formatAmount(calculateTotals(q).total)}</td>
+                  <td className="px-6 py-4 capitalize">{q.status}</td>
+                </tr>
+              ))}
+              {clientQuotations.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-gray-400">No quotations for this client.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { Client, InvoiceData, User, ExchangeRate } from '../types';
+import { PlusIcon, EditIcon, EyeIcon, UsersIcon } from '../components/Icons';
+import { balanceDue } from '../lib/invoiceTotals';
+import { toBaseCurrency } from '../lib/exchangeRates';
+import { can } from '../lib/permissions';
+
+interface ClientsProps {
+  clients: Client[];
+  invoices: InvoiceData[];
+  exchangeRates: ExchangeRate[];
+  baseCurrency: string;
+  onSave: (client: Client) => Promise<boolean>;
+  onView: (client: Client) => void;
+  currentUser: User;
+}
+
+const emptyClient = (): Client => ({
+  id: crypto.randomUUID(),
+  name: '',
+  address: '',
+  billingAddress: '',
+  email: '',
+  ccEmails: '',
+  phone: '',
+  taxId: ''
+});
+
+export default function Clients({ clients, invoices, exchangeRates, baseCurrency, onSave, onView, currentUser }: ClientsProps) {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<Client>(emptyClient());
+  const [search, setSearch] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canEdit = can(currentUser, 'client.edit');
+
+  const query = search.trim().toLowerCase();
+  const displayedClients = [...clients]
+    .filter(c => !query || c.name.toLowerCase().includes(query) || c.email.toLowerCase().includes(query))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  // Shown in the base currency so clients billed in several currencies add up
+  const outstandingFor = (client: Client) => invoices
+    .filter(inv => inv.clientId === client.id && inv.status !== 'draft')
+    .reduce((sum, inv) => sum + (toBaseCurrency(inv, balanceDue(inv), exchangeRates, baseCurrency) ?? 0), 0);
+
+  const startAdd = () => {
+    setEditingId(null);
+    setFormData(emptyClient());
+    setIsFormOpen(true);
+  };
+
+  const startEdit = (client: Client) => {
+    setEditingId(client.id);
+    setFormData(client);
+    setIsFormOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const saved = await onSave(formData);
+    setIsSaving(false);
+    if (saved) {
+      setIsFormOpen(false);
+      setEditingId(null);
+      setFormData(emptyClient());
+    }
+  };
+
+  return (
+    <div className="p-4 md:p-6 max-w-7xl mx-auto">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+        <h1 className="text-2xl font-bold text-gray-800">Clients</h1>
+        <div className="flex gap-3 w-full sm:w-auto">
+          <input
+            placeholder="Search clients..."
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-1 focus:ring-sandpix-500 flex-1 sm:w-64"
+          />
+          {canEdit && (
+            <button
+              onClick={startAdd}
+              className="flex items-center gap-2 px-4 py-2 bg-sandpix-600 text-white rounded-lg hover:bg-sandpix-700 transition-colors font-medium text-sm justify-center"
+            >
+              <PlusIcon className="w-4 h-4" />
+              <span className="hidden sm:inline">Add Client</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isFormOpen && canEdit && (
+        <div className="bg-gray-50 border border-gray-200 p-4 rounded-lg mb-6 max-w-3xl">
+          <form onSubmit={handleSave} className="flex flex-col gap-4">
+             <h3 className="font-semibold text-gray-700">{editingId ? 'Edit Client' : 'Add New Client'}</h3>
+             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+               <input
+                 required
+                 placeholder="Client / Company Name"
+                 value={formData.name}
+                 onChange={e => setFormData({...formData, name: e.target.value})}
+                 className="px-3 py-2 border rounded focus:outline-none focus:ring-1 focus:ring-sandpix-500"
+               />
+               <input
+                 placeholder="Tax ID / GST Number"
+                 value={formData.taxId}
+                 onChange={e => setFormData({...formData, taxId: e.target.value})}
+                 className="px-3 py-2 border rounded focus:outline-none focus:ring-1 focus:ring-sandpix-500"
+               />
+               <input
+                 type="email"
+                 placeholder="Email Address"
+                 value={formData.email}
+                 onChange={e => setFormData({...formData, email: e.target.value})}
+                 className="px-3 py-2 border rounded focus:outline-none focus:ring-1 focus:ring-sandpix-500"
+               />
+               <input
+                 placeholder="CC Emails (comma separated)"
+                 value={formData.ccEmails}
+                 onChange={e => setFormData({...formData, ccEmails: e.target.value})}
+                 className="px-3 py-2 border rounded focus:outline-none focus:ring-1 focus:ring-sandpix-500"
+               />
+               <input
+                 placeholder="Phone"
+                 value={formData.phone}
+                 onChange={e => setFormData({...formData, phone: e.target.value})}
+                 className="px-3 py-2 border rounded focus:outline-none focus:ring-1 focus:ring-sandpix-500"
+               />
+               <div></div>
+               <textarea
+                 rows={2}
+                 placeholder="Address"
+                 value={formData.address}
+                 onChange={e => setFormData({...formData, address: e.target.value})}
+                 className="px-3 py-2 border rounded focus:outline-none focus:ring-1 focus:ring-sandpix-500"
+               />
+               <textarea
+                 rows={2}
+                 placeholder="Billing Address (if different)"
+                 value={formData.billingAddress}
+                 onChange={e => setFormData({...formData, billingAddress: e.target.value})}
+                 className="px-3 py-2 border rounded focus:outline-none focus:ring-1 focus:ring-sandpix-500"
+               />
+             </div>
+             <div className="flex justify-end gap-2">
+               <button type="button" onClick={() => setIsFormOpen(false)} className="px-3 py-1 text-sm text-gray-500 hover:text-gray-700">Cancel</button>
+               <button type="submit" disabled={isSaving} className="px-3 py-1 text-sm bg-sandpix-600 text-white rounded hover:bg-sandpix-700 disabled:opacity-70">
+                 {isSaving ? 'Saving...' : editingId ? 'Update Client' : 'Save Client'}
+               </button>
+             </div>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-gray-600 min-w-[800px]">
+            <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+              <tr>
+                <th className="px-6 py-3">Name</th>
+                <th className="px-6 py-3">Email</th>
+                <th className="px-6 py-3">Phone</th>
+                <th className="px-6 py-3">Tax ID</th>
+                <th className="px-6 py-3">Outstanding</th>
+                <th className="px-6 py-3 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {displayedClients.map(client => {
+                const outstanding = outstandingFor(client);
+                return (
+                  <tr key={client.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-4 font-medium text-gray-900">{client.name}</td>
+                    <td className="px-6 py-4">{client.email}</td>
+                    <td className="px-6 py-4">{client.phone}</td>
+                    <td className="px-6 py-4">{client.taxId}</td>
+                    <td className={`px-6 py-4 font-medium ${outstanding > 0 ? 'text-orange-600' : ''}`}>
+                      {baseCurrency}{outstanding.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    </td>
+                    <td className="px-6 py-4 text-right flex justify-end gap-2">
+                      <button
+                        type="button"
+                        onClick={() => onView(client)}
+                        className="text-gray-500 hover:text-gray-700 p-1.5 hover:bg-gray-100 rounded transition-colors"
+                        title="View Client"
+                      >
+                        <EyeIcon className="w-4 h-4" />
+                      </button>
+                      {canEdit && (
+                        <button
+                          type="button"
+                          onClick={() => startEdit(client)}
+                          className="text-sandpix-600 hover:text-sandpix-800 font-medium text-xs border border-sandpix-200 rounded px-2 py-1 bg-sandpix-50 flex items-center gap-1"
+                        >
+                          <EditIcon className="w-3 h-3" /> Edit
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+              {displayedClients.length === 0 && (
+                <tr>
+                   <td colSpan={6} className="px-6 py-12 text-center text-gray-400">
+                     <div className="flex flex-col items-center gap-2">
+                       <UsersIcon className="w-8 h-8 opacity-20" />
+                       <p>No clients found.</p>
+                     </div>
+                   </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,363 @@
+import React, { useState, useEffect } from 'react';
+import { CreditNote, CreditNoteStatus, InvoiceData, AppSettings, User } from '../types';
+import { PrinterIcon, TrashIcon, PalmTreeIcon, ChevronLeftIcon, EyeIcon, EditIcon } from '../components/Icons';
+import { TaxBreakdownRows, formatDiscount, lineTaxLabel } from '../components/LineItemFields';
+import { calculateTotals, lineAmount } from '../lib/invoiceTotals';
+import { creditNoteFromInvoice, creditableAmount } from '../lib/creditNotes';
+import { can } from '../lib/permissions';
+
+interface CreditNoteEditorProps {
+  initialData: CreditNote;
+  invoice: InvoiceData | null;
+  creditNotes: CreditNote[];
+  settings: AppSettings;
+  onSave: (data: CreditNote) => void;
+  onBack: () => void;
+  isSaving?: boolean;
+  initialMode?: 'edit' | 'preview';
+  autoPrint?: boolean;
+  currentUser: User;
+}
+
+export default function CreditNoteEditor({ initialData, invoice, creditNotes, settings, onSave, onBack, isSaving = false, initialMode = 'edit', autoPrint = false, currentUser }: CreditNoteEditorProps) {
+  const canEdit = can(currentUser, 'creditNote.edit');
+  const canEditStatus = can(currentUser, 'creditNote.issue');
+  // Issued credit notes are part of the audit trail and can only be viewed
+  const isLocked = !canEdit || initialData.status === 'issued';
+
+  const [data, setData] = useState<CreditNote>(initialData);
+  const [isPreview, setIsPreview] = useState(isLocked ? true : initialMode === 'preview');
+
+  useEffect(() => {
+    if (autoPrint) {
+        setIsPreview(true);
+        setTimeout(() => window.print(), 500);
+    }
+  }, [autoPrint]);
+
+  useEffect(() => {
+      if (isLocked) setIsPreview(true);
+  }, [isLocked]);
+
+  const handleRemoveItem = (id: string) => {
+    if (data.items.length === 1) return;
+    setData({ ...data, items: data.items.filter(item => item.id !== id) });
+  };
+
+  const handleQuantityChange = (id: string, quantity: number) => {
+    setData({ ...data, items: data.items.map(item => item.id === id ? { ...item, quantity } : item) });
+  };
+
+  const handleCreditWholeInvoice = () => {
+    if (!invoice) return;
+    setData({ ...data, items: creditNoteFromInvoice(invoice).items });
+  };
+
+  const { subtotal, discount, taxAmount, total, taxBreakdown } = calculateTotals(data);
+  const showLineDiscounts = data.items.some(item => item.discountValue);
+  const showLineTax = data.items.some(item => item.taxExempt || item.taxRate !== undefined);
+  const maxCredit = invoice ? creditableAmount(invoice, creditNotes, data.id) : 0;
+
+  const handleSaveClick = () => {
+      if (!invoice) {
+          alert('The original invoice could not be found.');
+          return;
+      }
+      if (total <= 0) {
+          alert('A credit note must credit at least one line.');
+          return;
+      }
+      if (total > maxCredit + 0.005) {
+          alert(`This credit note exceeds the amount left to credit on ${invoice.invoiceNumber} (${data.currency}${maxCredit.toFixed(2)}).`);
+          return;
+      }
+      if (data.refundAmount > total) {
+          alert('The refund cannot be larger than the credit note total.');
+          return;
+      }
+      if (data.status === 'issued' && !data.reason.trim()) {
+          alert('Please enter a reason before issuing the credit note.');
+          return;
+      }
+      onSave(data);
+  };
+
+  return (
+    <div className="p-4 md:p-8 max-w-5xl mx-auto print:p-0 print:max-w-none">
+
+      {/* Toolbar */}
+      <div className="flex flex-col md:flex-row justify-between items-center mb-6 gap-4 no-print">
+        <div className="flex items-center gap-4 w-full md:w-auto">
+          <button onClick={onBack} className="p-2 hover:bg-white rounded-full transition-colors text-gray-500" title="Back to List">
+            <ChevronLeftIcon className="w-6 h-6" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-800 truncate">
+            {data.creditNoteNumber ? (isPreview ? 'View Credit Note' : 'Edit Credit Note') : 'New Credit Note'}
+          </h1>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 w-full md:w-auto justify-end">
+           {!isLocked && (
+             <button
+                onClick={() => setIsPreview(!isPreview)}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium flex-1 md:flex-none justify-center"
+             >
+                {isPreview ? <><EditIcon className="w-4 h-4"/> Edit</> : <><EyeIcon className="w-4 h-4"/> Preview</>}
+             </button>
+           )}
+
+           <button
+              onClick={() => window.print()}
+              className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium flex-1 md:flex-none justify-center"
+           >
+              <PrinterIcon className="w-4 h-4"/> Print
+           </button>
+
+           {!isLocked && !isPreview && (
+             <button
+                onClick={handleSaveClick}
+                disabled={isSaving}
+                className="flex items-center gap-2 px-6 py-2 bg-sandpix-600 text-white rounded-lg hover:bg-sandpix-700 transition-colors text-sm font-medium shadow-sm disabled:opacity-70 flex-1 md:flex-none justify-center whitespace-nowrap"
+             >
+                {isSaving ? 'Saving...' : 'Save Credit Note'}
+             </button>
+           )}
+        </div>
+      </div>
+
+      {/* Credit Note Paper */}
+      <div
+        className={`bg-white rounded-xl shadow-lg print:shadow-none print:rounded-none min-h-[500px] md:min-h-[1000px] relative transition-all duration-300
+        ${isPreview
+          ? 'max-w-[210mm] min-w-[210mm] mx-auto p-12 overflow-hidden'
+          : 'p-6 md:p-12 overflow-hidden'}`}
+      >
+
+        {/* Header Section */}
+        <div className={`${isPreview ? 'flex flex-row' : 'flex flex-col md:flex-row'} justify-between items-start gap-8 mb-8 md:mb-12`}>
+           <div className={`flex flex-col items-start gap-2 ${isPreview ? 'w-auto' : 'w-full md:w-auto'}`}>
+              {settings.logoUrl ? (
+                 <img src={settings.logoUrl} alt="Logo" className="h-16 md:h-20 w-auto object-contain" />
+              ) : (
+                 <div className="w-16 h-16 bg-sandpix-50 rounded-lg flex items-center justify-center">
+                    <PalmTreeIcon className="w-8 h-8 text-sandpix-600" />
+                 </div>
+              )}
+              <div className="mt-2 w-full">
+                 <h2 className="font-bold text-gray-900 leading-tight" style={{ fontSize: '14pt' }}>
+                    {settings.companyName}
+                 </h2>
+                 <p className="text-sm text-gray-500 whitespace-pre-line mt-1">{settings.companyAddress}</p>
+                 <p className="text-sm text-gray-500 mt-1">{settings.companyEmail}</p>
+                 {settings.gstNumber && <p className="text-sm text-gray-500">GST: {settings.gstNumber}</p>}
+              </div>
+           </div>
+
+           <div className={`${isPreview ? 'text-right w-auto' : 'text-left md:text-right w-full md:w-auto'}`}>
+              <h1 className="text-3xl md:text-4xl font-light text-gray-300 uppercase tracking-widest mb-4">Credit Note</h1>
+              <div className="space-y-2">
+                 <div className={`${isPreview ? 'flex flex-row justify-end gap-4 items-center' : 'flex flex-col md:flex-row justify-between md:justify-end gap-1 md:gap-4 items-start md:items-center'}`}>
+                    <label className="text-xs md:text-sm font-semibold text-gray-600 uppercase">Credit Note #</label>
+                    {data.creditNoteNumber ? (
+                        <span className="text-gray-900 font-medium">{data.creditNoteNumber}</span>
+                    ) : (
+                        <span className="text-gray-400 italic text-sm">Assigned on save</span>
+                    )}
+                 </div>
+                 <div className={`${isPreview ? 'flex flex-row justify-end gap-4 items-center' : 'flex flex-col md:flex-row justify-between md:justify-end gap-1 md:gap-4 items-start md:items-center'}`}>
+                    <label className="text-xs md:text-sm font-semibold text-gray-600 uppercase">Original Invoice</label>
+                    <span className="text-gray-900 font-medium">{data.invoiceNumber}</span>
+                 </div>
+                 <div className={`${isPreview ? 'flex flex-row justify-end gap-4 items-center' : 'flex flex-col md:flex-row justify-between md:justify-end gap-1 md:gap-4 items-start md:items-center'}`}>
+                    <label className="text-xs md:text-sm font-semibold text-gray-600 uppercase">Date</label>
+                    {isPreview ? (
+                        <span className="text-gray-900">{data.date}</span>
+                    ) : (
+                        <input
+                           type="date"
+                           value={data.date}
+                           onChange={e => setData({...data, date: e.target.value})}
+                           className="text-left md:text-right w-full md:w-32 border-b border-gray-200 focus:border-sandpix-500 focus:outline-none py-1"
+                        />
+                    )}
+                 </div>
+                 <div className={`${isPreview ? 'flex flex-row justify-end gap-4 items-center' : 'flex flex-col md:flex-row justify-between md:justify-end gap-1 md:gap-4 items-start md:items-center'}`}>
+                    <label className="text-xs md:text-sm font-semibold text-gray-600 uppercase">Status</label>
+                    {(!isPreview && canEditStatus) ? (
+                        <select
+                           value={data.status}
+                           onChange={e => setData({...data, status: e.target.value as CreditNoteStatus})}
+                           className="text-left md:text-right w-full md:w-32 border-b border-gray-200 focus:border-sandpix-500 focus:outline-none py-1 bg-transparent print:hidden text-black"
+                        >
+                           <option value="draft">Draft</option>
+                           <option value="issued">Issued</option>
+                        </select>
+                    ) : (
+                        <span className="font-medium capitalize text-black">{data.status}</span>
+                    )}
+                 </div>
+              </div>
+           </div>
+        </div>
+
+        {/* Client Info */}
+        <div className="mb-12">
+           <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-3">Credit To</h3>
+           <div className="text-black">
+              <p className="font-bold text-lg">{data.clientName || 'N/A'}</p>
+              <p className="whitespace-pre-line">{data.clientAddress}</p>
+              <p>{data.clientEmail}</p>
+           </div>
+        </div>
+
+        {/* Items Table */}
+        <div className="mb-8 overflow-x-auto">
+           <table className="w-full min-w-[600px]">
+              <thead>
+                 <tr className="border-b-2 border-gray-100">
+                    <th className="text-left py-3 text-xs font-bold text-gray-400 uppercase tracking-wider w-[40%] md:w-[50%]">Description</th>
+                    <th className="text-right py-3 text-xs font-bold text-gray-400 uppercase tracking-wider w-[20%] md:w-[15%]">Qty</th>
+                    <th className="text-right py-3 text-xs font-bold text-gray-400 uppercase tracking-wider w-[20%] md:w-[15%]">Rate</th>
+                    {showLineDiscounts && <th className="text-right py-3 text-xs font-bold text-gray-400 uppercase tracking-wider w-[10%]">Disc.</th>}
+                    {showLineTax && <th className="text-right py-3 text-xs font-bold text-gray-400 uppercase tracking-wider w-[10%]">GST</th>}
+                    <th className="text-right py-3 text-xs font-bold text-gray-400 uppercase tracking-wider w-[20%] md:w-[15%]">Amount</th>
+                    {!isPreview && <th className="w-[5%]"></th>}
+                 </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                 {data.items.map((item) => (
+                    <tr key={item.id} className="group">
+                       <td className="py-4 align-top">
+                          <span className="text-gray-800 font-medium whitespace-pre-wrap">{item.description}</span>
+                       </td>
+                       <td className="py-4 align-top text-right">
+                          {isPreview ? (
+                             <span className="text-gray-600">{item.quantity}</span>
+                          ) : (
+                             <input
+                                type="number"
+                                min="0"
+                                value={item.quantity}
+                                onChange={e => handleQuantityChange(item.id, parseFloat(e.target.value) || 0)}
+                                className="w-full text-right bg-transparent focus:outline-none text-gray-600"
+                             />
+                          )}
+                       </td>
+                       <td className="py-4 align-top text-right">
+                          <span className="text-gray-600">{item.rate.toLocaleString()}</span>
+                       </td>
+                       {showLineDiscounts && (
+                          <td className="py-4 align-top text-right">
+                             <span className="text-gray-600">{formatDiscount(item.discountType, item.discountValue, data.currency)}</span>
+                          </td>
+                       )}
+                       {showLineTax && (
+                          <td className="py-4 align-top text-right">
+                             <span className="text-gray-600">{lineTaxLabel(item, data.taxRate)}</span>
+                          </td>
+                       )}
+                       <td className="py-4 align-top text-right font-medium text-gray-900">
+                          {lineAmount(item).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                       </td>
+                       {!isPreview && (
+                          <td className="py-4 align-top text-right">
+                             {data.items.length > 1 && (
+                                <button
+                                   onClick={() => handleRemoveItem(item.id)}
+                                   className="text-red-300 hover:text-red-500 transition-colors opacity-100 md:opacity-0 md:group-hover:opacity-100"
+                                >
+                                   <TrashIcon className="w-4 h-4" />
+                                </button>
+                             )}
+                          </td>
+                       )}
+                    </tr>
+                 ))}
+              </tbody>
+           </table>
+
+           {!isPreview && invoice && (
+              <div className="mt-4 flex flex-wrap items-center gap-4 no-print">
+                 <button
+                    onClick={handleCreditWholeInvoice}
+                    className="text-sm font-medium text-sandpix-600 hover:text-sandpix-700 transition-colors"
+                 >
+                    Credit whole invoice
+                 </button>
+                 <span className="text-xs text-gray-400">
+                    Up to {data.currency}{maxCredit.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} can still be credited on {invoice.invoiceNumber}.
+                 </span>
+              </div>
+           )}
+        </div>
+
+        {/* Totals & Reason */}
+        <div className={`${isPreview ? 'flex flex-row gap-12' : 'flex flex-col md:flex-row gap-8 md:gap-12'} border-t border-gray-100 pt-8`}>
+           <div className={`flex-1 space-y-6 ${isPreview ? 'order-1' : 'order-2 md:order-1'}`}>
+              <div>
+                 <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">Reason for Credit</h3>
+                 {isPreview ? (
+                    <p className="text-sm text-gray-600 whitespace-pre-line">{data.reason}</p>
+                 ) : (
+                    <textarea
+                       value={data.reason}
+                       onChange={e => setData({...data, reason: e.target.value})}
+                       rows={3}
+                       className="w-full text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded p-2 focus:outline-none focus:border-sandpix-500"
+                       placeholder="e.g. Cancelled photoshoot, pricing correction..."
+                    />
+                 )}
+              </div>
+           </div>
+
+           <div className={`${isPreview ? 'w-80 order-2' : 'w-full md:w-80 order-1 md:order-2'}`}>
+              <div className="space-y-3">
+                 <div className="flex justify-between text-gray-600">
+                    <span>Subtotal</span>
+                    <span>{data.currency}{subtotal.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                 </div>
+                 {discount > 0 && (
+                    <div className="flex justify-between text-gray-600">
+                       <span>Discount <span className="text-xs text-gray-900">({data.discountValue}%)</span></span>
+                       <span>-{data.currency}{discount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                    </div>
+                 )}
+                 <div className="flex justify-between items-center text-gray-600">
+                    <div className="flex items-center gap-2">
+                       <span>GST</span>
+                       {taxBreakdown.length === 1 && !taxBreakdown[0].exempt && <span className="text-xs text-gray-900">({taxBreakdown[0].rate}%)</span>}
+                    </div>
+                    <span>{data.currency}{taxAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                 </div>
+                 <TaxBreakdownRows breakdown={taxBreakdown} currency={data.currency} />
+                 <div className="flex justify-between text-xl font-bold text-gray-900 border-t border-gray-200 pt-3">
+                    <span>Total Credit</span>
+                    <span>{data.currency}{total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                 </div>
+                 <div className="flex justify-between items-center text-gray-600">
+                    <span>Refunded</span>
+                    {isPreview ? (
+                       <span>{data.currency}{data.refundAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                    ) : (
+                       <input
+                          type="number"
+                          min="0"
+                          value={data.refundAmount}
+                          onChange={e => setData({...data, refundAmount: parseFloat(e.target.value) || 0})}
+                          className="w-28 text-right bg-gray-50 border-b border-gray-200 focus:border-sandpix-500 focus:outline-none py-1 text-black"
+                       />
+                    )}
+                 </div>
+              </div>
+           </div>
+        </div>
+
+        {/* Footer */}
+        <div className="mt-16 text-center text-xs text-gray-400">
+           <p>This credit note is issued against invoice {data.invoiceNumber}.</p>
+        </div>
+
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,104 @@
+import React from 'react';
+import { CreditNote, User } from '../types';
+import { ReceiptIcon, EyeIcon, DownloadIcon, EditIcon } from '../components/Icons';
+import { calculateTotals } from '../lib/invoiceTotals';
+import { can } from '../lib/permissions';
+
+interface CreditNoteListProps {
+  creditNotes: CreditNote[];
+  onView: (creditNote: CreditNote) => void;
+  onEdit: (creditNote: CreditNote) => void;
+  onDownload: (creditNote: CreditNote) => void;
+  currentUser: User;
+}
+
+export default function CreditNoteList({ creditNotes, onView, onEdit, onDownload, currentUser }: CreditNoteListProps) {
+  const canEdit = can(currentUser, 'creditNote.edit');
+  const sorted = [...creditNotes].sort((a, b) => b.date.localeCompare(a.date));
+
+  return (
+    <div className="p-4 md:p-6 max-w-7xl mx-auto">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">Credit Notes</h1>
+          <p className="text-sm text-gray-500">Create a credit note from an issued invoice.</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-gray-600 min-w-[800px]">
+            <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+              <tr>
+                <th className="px-6 py-3">Number</th>
+                <th className="px-6 py-3">Invoice</th>
+                <th className="px-6 py-3">Client</th>
+                <th className="px-6 py-3">Date</th>
+                <th className="px-6 py-3">Amount</th>
+                <th className="px-6 py-3">Status</th>
+                <th className="px-6 py-3 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {sorted.map((cn) => {
+                 const { total } = calculateTotals(cn);
+                 return (
+                  <tr key={cn.id} className="hover:bg-gray-50 transition-colors group">
+                    <td className="px-6 py-4 font-medium text-gray-900">{cn.creditNoteNumber}</td>
+                    <td className="px-6 py-4">{cn.invoiceNumber}</td>
+                    <td className="px-6 py-4">{cn.clientName || <span className="text-gray-400 italic">No Client</span>}</td>
+                    <td className="px-6 py-4">{cn.date}</td>
+                    <td className="px-6 py-4 font-medium">-{cn.currency}{total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                    <td className="px-6 py-4">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize
+                        ${cn.status === 'issued' ? 'bg-purple-100 text-purple-800' : 'bg-gray-100 text-gray-800'}`}>
+                        {cn.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-right flex justify-end gap-2">
+                      <button
+                        type="button"
+                        onClick={() => onView(cn)}
+                        className="text-gray-500 hover:text-gray-700 p-1.5 hover:bg-gray-100 rounded transition-colors"
+                        title="View Credit Note"
+                      >
+                        <EyeIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onDownload(cn)}
+                        className="text-gray-500 hover:text-gray-700 p-1.5 hover:bg-gray-100 rounded transition-colors"
+                        title="Download PDF"
+                      >
+                        <DownloadIcon className="w-4 h-4" />
+                      </button>
+                      {canEdit && cn.status === 'draft' && (
+                        <button
+                          type="button"
+                          onClick={() => onEdit(cn)}
+                          className="text-sandpix-600 hover:text-sandpix-800 font-medium text-xs border border-sandpix-200 rounded px-2 py-1 bg-sandpix-50 flex items-center gap-1"
+                        >
+                          <EditIcon className="w-3 h-3" /> Edit
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                 );
+              })}
+              {sorted.length === 0 && (
+                <tr>
+                   <td colSpan={7} className="px-6 py-12 text-center text-gray-400">
+                     <div className="flex flex-col items-center gap-2">
+                       <ReceiptIcon className="w-8 h-8 opacity-20" />
+                       <p>No credit notes yet. Open an issued invoice to credit it.</p>
+                     </div>
+                   </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -1,27 +1,33 @@
 import React from 'react';
-import { InvoiceData, User } from '../types';
-import { FileTextIcon, UsersIcon, BarChartIcon } from '../components/Icons';
+import { InvoiceData, CreditNote, User, ExchangeRate } from '../types';
+import { FileTextIcon, UsersIcon, BarChartIcon, AlertCircleIcon } from '../components/Icons';
+import { calculateTotals, amountPaid, balanceDue } from '../lib/invoiceTotals';
+import { isOverdue } from '../lib/receivables';
+import { toBaseCurrency } from '../lib/exchangeRates';
 
 interface DashboardProps {
   invoices: InvoiceData[];
+  creditNotes: CreditNote[];
   users: User[];
-  currency: string;
+  exchangeRates: ExchangeRate[];
+  baseCurrency: string;
 }
 
-export default function Dashboard({ invoices, users, currency }: DashboardProps) {
-  const totalRevenue = invoices
-    .filter(i => i.status === 'paid')
-    .reduce((sum, inv) => {
-      const sub = inv.items.reduce((s, item) => s + item.quantity * item.rate, 0);
-      return sum + sub + (sub * (inv.taxRate / 100));
-    }, 0);
+export default function Dashboard({ invoices, creditNotes, users, exchangeRates, baseCurrency }: DashboardProps) {
+  // Card totals are converted to the base currency so mixed-currency invoices add up
+  const inBase = (doc: InvoiceData | CreditNote, amount: number) => toBaseCurrency(doc, amount, exchangeRates, baseCurrency) ?? 0;
 
-  const pendingAmount = invoices
-    .filter(i => i.status === 'pending')
-    .reduce((sum, inv) => {
-      const sub = inv.items.reduce((s, item) => s + item.quantity * item.rate, 0);
-      return sum + sub + (sub * (inv.taxRate / 100));
-    }, 0);
+  // Revenue counts money actually received, including deposits, less refunds on issued credit notes
+  const refunds = creditNotes
+    .filter(cn => cn.status === 'issued')
+    .reduce((sum, cn) => sum + inBase(cn, cn.refundAmount), 0);
+  const totalRevenue = invoices.reduce((sum, inv) => sum + inBase(inv, amountPaid(inv)), 0) - refunds;
+
+  const outstandingInvoices = invoices.filter(i => i.status === 'pending' || i.status === 'partially_paid');
+  const pendingAmount = outstandingInvoices.reduce((sum, inv) => sum + inBase(inv, balanceDue(inv)), 0);
+
+  const overdueInvoices = outstandingInvoices.filter(inv => isOverdue(inv));
+  const overdueAmount = overdueInvoices.reduce((sum, inv) => sum + inBase(inv, balanceDue(inv)), 0);
 
   const recentInvoices = [...invoices].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()).slice(0, 5);
 
@@ -30,11 +36,11 @@ export default function Dashboard({ invoices, users, currency }: DashboardProps)
       <h1 className="text-2xl font-bold text-gray-800 mb-6">Dashboard Overview</h1>
       
       {/* Cards Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6 mb-8">
         <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100 flex items-center justify-between">
           <div>
             <p className="text-sm font-medium text-gray-500 mb-1">Total Revenue</p>
-            <h2 className="text-3xl font-bold text-gray-900">{currency}{totalRevenue.toLocaleString()}</h2>
+            <h2 className="text-3xl font-bold text-gray-900">{baseCurrency}{totalRevenue.toLocaleString()}</h2>
           </div>
           <div className="p-3 bg-green-50 rounded-lg text-green-600">
              <BarChartIcon className="w-6 h-6" />
@@ -44,14 +50,25 @@ export default function Dashboard({ invoices, users, currency }: DashboardProps)
         <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100 flex items-center justify-between">
           <div>
             <p className="text-sm font-medium text-gray-500 mb-1">Pending Invoices</p>
-            <h2 className="text-3xl font-bold text-gray-900">{currency}{pendingAmount.toLocaleString()}</h2>
-            <p className="text-xs text-orange-500 mt-1">{invoices.filter(i => i.status === 'pending').length} invoices waiting</p>
+            <h2 className="text-3xl font-bold text-gray-900">{baseCurrency}{pendingAmount.toLocaleString()}</h2>
+            <p className="text-xs text-orange-500 mt-1">{outstandingInvoices.length} invoices waiting</p>
           </div>
           <div className="p-3 bg-orange-50 rounded-lg text-orange-600">
              <FileTextIcon className="w-6 h-6" />
           </div>
         </div>
 
+        <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100 flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-500 mb-1">Overdue</p>
+            <h2 className={`text-3xl font-bold ${overdueAmount > 0 ? 'text-red-600' : 'text-gray-900'}`}>{baseCurrency}{overdueAmount.toLocaleString()}</h2>
+            <p className="text-xs text-red-500 mt-1">{overdueInvoices.length} invoices past due</p>
+          </div>
+          <div className="p-3 bg-red-50 rounded-lg text-red-600">
+             <AlertCircleIcon className="w-6 h-6" />
+          </div>
+        </div>
+
         <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100 flex items-center justify-between">
           <div>
             <p className="text-sm font-medium text-gray-500 mb-1">Total Clients</p>
@@ -82,19 +99,20 @@ export default function Dashboard({ invoices, users, currency }: DashboardProps)
             </thead>
             <tbody className="divide-y divide-gray-100">
               {recentInvoices.map((inv) => {
-                 const total = inv.items.reduce((s, item) => s + item.quantity * item.rate, 0) * (1 + inv.taxRate/100);
+                 const { total } = calculateTotals(inv);
                  return (
                   <tr key={inv.id} className="hover:bg-gray-50 transition-colors">
                     <td className="px-6 py-4 font-medium text-gray-900">{inv.invoiceNumber}</td>
                     <td className="px-6 py-4">{inv.clientName || 'N/A'}</td>
                     <td className="px-6 py-4">{inv.date}</td>
-                    <td className="px-6 py-4">{currency}{total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                    <td className="px-6 py-4">{inv.currency}{total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
                     <td className="px-6 py-4">
                       <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize
                         ${inv.status === 'paid' ? 'bg-green-100 text-green-800' : 
+                          inv.status === 'partially_paid' ? 'bg-blue-100 text-blue-800' : 
                           inv.status === 'pending' ? 'bg-orange-100 text-orange-800' : 
                           'bg-gray-100 text-gray-800'}`}>
-                        {inv.status}
+                        {inv.status.replace('_', ' ')}
                       </span>
                     </td>
                   </tr>
@@ -1,57 +1,81 @@
 import React, { useState, useEffect } from 'react';
-import { InvoiceData, InvoiceItem, AppSettings, User, InvoiceStatus } from '../types';
-import { PrinterIcon, PlusIcon, TrashIcon, PalmTreeIcon, ChevronLeftIcon, EyeIcon, EditIcon } from '../components/Icons';
+import { InvoiceData, InvoiceItem, AppSettings, User, InvoiceStatus, DocumentLanguage, Payment, Client, CatalogItem, ExchangeRate, AuditEntry, DocumentEmail, ShareLink } from '../types';
+import { PrinterIcon, DownloadIcon, PlusIcon, TrashIcon, PalmTreeIcon, ChevronLeftIcon, EyeIcon, EditIcon, ReceiptIcon, RepeatIcon, MailIcon } from '../components/Icons';
+import ClientAutocomplete from '../components/ClientAutocomplete';
+import CatalogAutocomplete from '../components/CatalogAutocomplete';
+import AuditHistory from '../components/AuditHistory';
+import SendDocumentForm from '../components/SendDocumentForm';
+import EmailLog from '../components/EmailLog';
+import ShareLinks from '../components/ShareLinks';
+import { DiscountField, LineTaxField, TaxBreakdownRows } from '../components/LineItemFields';
+import DocumentLayout from '../components/DocumentLayout';
+import { calculateTotals, lineAmount, amountPaid, balanceDue, derivePaymentStatus } from '../lib/invoiceTotals';
+import { lineFromCatalog } from '../lib/catalog';
+import { can } from '../lib/permissions';
+import { invoiceDocument, pdfFileName } from '../lib/documentModel';
+import { DOCUMENT_LANGUAGES } from '../lib/documentLabels';
+import { EmailMessage, invoiceEmail } from '../lib/documentEmail';
 
 interface InvoiceEditorProps {
   initialData?: InvoiceData | null;
   settings: AppSettings;
-  onSave: (data: InvoiceData) => void;
+  onSave: (data: InvoiceData) => Promise<string | null>; // Resolves to the error to show, or null once saved
   onBack: () => void;
+  onCreateCreditNote: (invoice: InvoiceData) => void;
+  onMakeRecurring: (invoice: InvoiceData) => void;
+  onLoadHistory: (invoiceId: string) => Promise<AuditEntry[]>;
+  onDownload: (invoice: InvoiceData) => void;
+  onSend: (invoice: InvoiceData, message: EmailMessage) => Promise<string | null>; // Resolves to the error to show, or null once queued
+  onLoadEmails: (invoiceId: string) => Promise<DocumentEmail[]>;
+  onCreateShareLink: (invoice: InvoiceData) => Promise<string | null>; // Resolves to the link's URL
+  onRevokeShareLink: (linkId: string) => Promise<boolean>;
+  onLoadShareLinks: (invoiceId: string) => Promise<ShareLink[]>;
+  clients: Client[];
+  currencies: string[];
+  catalog: CatalogItem[];
+  exchangeRates: ExchangeRate[];
   isSaving?: boolean;
   initialMode?: 'edit' | 'preview';
-  autoPrint?: boolean;
   currentUser: User;
 }
 
-export default function InvoiceEditor({ initialData, settings, onSave, onBack, isSaving = false, initialMode = 'edit', autoPrint = false, currentUser }: InvoiceEditorProps) {
-  const isViewer = currentUser.role === 'viewer';
-  const canEditStatus = ['admin', 'editor'].includes(currentUser.role);
+export default function InvoiceEditor({ initialData, settings, onSave, onBack, onCreateCreditNote, onMakeRecurring, onLoadHistory, onDownload, onSend, onLoadEmails, onCreateShareLink, onRevokeShareLink, onLoadShareLinks, clients, currencies, catalog, exchangeRates, isSaving = false, initialMode = 'edit', currentUser }: InvoiceEditorProps) {
+  const canEdit = can(currentUser, 'invoice.edit');
+  const canEditStatus = can(currentUser, 'invoice.markPaid');
   
   const defaultInvoice: InvoiceData = {
     id: crypto.randomUUID(),
-    invoiceNumber: `INV-${Math.floor(Math.random() * 10000)}`,
+    invoiceNumber: '', // Allocated by the server on first save
     status: 'draft',
     date: new Date().toISOString().split('T')[0],
     dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     clientName: '',
     clientAddress: '',
     clientEmail: '',
-    currency: settings.currencySymbol,
+    currency: settings.baseCurrency,
     taxRate: settings.defaultTaxRate,
     notes: 'Thank you for your business. We appreciate the opportunity to work with you.',
     terms: 'Payment is due within 14 days.',
+    language: 'en',
     items: [
       { id: crypto.randomUUID(), description: 'Service Description', quantity: 1, rate: 0 },
     ],
+    payments: [],
+    creditedAmount: 0,
   };
 
   const [data, setData] = useState<InvoiceData>(initialData || defaultInvoice);
-  const [isPreview, setIsPreview] = useState(isViewer ? true : initialMode === 'preview');
-
-  // Handle auto-print
-  useEffect(() => {
-    if (autoPrint) {
-        setIsPreview(true);
-        setTimeout(() => {
-            window.print();
-        }, 500);
-    }
-  }, [autoPrint]);
+  const [isPreview, setIsPreview] = useState(!canEdit || initialMode === 'preview');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [isSendFormOpen, setIsSendFormOpen] = useState(false);
+  const [emailLogKey, setEmailLogKey] = useState(0); // Bumped to reload the log after sending
+  // Someone else saved in the meantime; the latest copy arrives here after the conflicting save
+  const hasNewerVersion = !!initialData && initialData.version !== data.version;
 
   // Viewers locked to preview
   useEffect(() => {
-      if (isViewer) setIsPreview(true);
-  }, [isViewer]);
+      if (!canEdit) setIsPreview(true);
+  }, [canEdit]);
 
   const handleAddItem = () => {
     setData({
@@ -69,27 +93,82 @@ export default function InvoiceEditor({ initialData, settings, onSave, onBack, i
   };
 
   const handleItemChange = (id: string, field: keyof InvoiceItem, value: any) => {
+    handleItemUpdate(id, { [field]: value });
+  };
+
+  const handleItemUpdate = (id: string, changes: Partial<InvoiceItem>) => {
+    setData({
+      ...data,
+      items: data.items.map(item => item.id === id ? { ...item, ...changes } : item)
+    });
+  };
+
+  const handleClientSelect = (client: Client) => {
     setData({
       ...data,
-      items: data.items.map(item => item.id === id ? { ...item, [field]: value } : item)
+      clientId: client.id,
+      clientName: client.name,
+      clientAddress: client.billingAddress || client.address,
+      clientEmail: client.email
     });
   };
 
-  const calculateTotals = () => {
-    const subtotal = data.items.reduce((sum, item) => sum + (item.quantity * item.rate), 0);
-    const taxAmount = subtotal * (data.taxRate / 100);
-    const total = subtotal + taxAmount;
-    return { subtotal, taxAmount, total };
+  // Payment changes re-derive the status so it always matches the ledger
+  const updatePayments = (payments: Payment[]) => {
+    const next = { ...data, payments };
+    setData({ ...next, status: derivePaymentStatus(next) });
+  };
+
+  const handleAddPayment = () => {
+    updatePayments([
+      ...data.payments,
+      { id: crypto.randomUUID(), date: new Date().toISOString().split('T')[0], amount: balanceDue(data), method: 'bank_transfer', reference: '' }
+    ]);
+  };
+
+  const handleRemovePayment = (id: string) => {
+    updatePayments(data.payments.filter(p => p.id !== id));
+  };
+
+  const handlePaymentChange = (id: string, field: keyof Payment, value: any) => {
+    updatePayments(data.payments.map(p => p.id === id ? { ...p, [field]: value } : p));
   };
 
-  const { subtotal, taxAmount, total } = calculateTotals();
+  const { subtotal, discount, taxAmount, total, taxBreakdown } = calculateTotals(data);
+  const paid = amountPaid(data);
+  const balance = balanceDue(data);
 
-  const handleSaveClick = () => {
+  const handleSaveClick = async () => {
       if (!data.clientName) {
-          alert('Please enter a client name');
+          setSaveError('Please enter a client name.');
+          return;
+      }
+      setSaveError(null);
+      setSaveError(await onSave(data));
+  };
+
+  // The attachment is made from the saved copy, so edits have to be saved first
+  const openSendForm = () => {
+      if (JSON.stringify(data) !== JSON.stringify(initialData)) {
+          setSaveError('Save your changes before sending.');
           return;
       }
-      onSave(data);
+      setSaveError(null);
+      setIsSendFormOpen(true);
+  };
+
+  const handleSend = async (message: EmailMessage) => {
+      const error = await onSend(initialData!, message);
+      if (!error) {
+          setIsSendFormOpen(false);
+          setEmailLogKey(key => key + 1);
+      }
+      return error;
+  };
+
+  const loadLatestVersion = () => {
+      setData(initialData!);
+      setSaveError(null);
   };
 
   return (
@@ -111,7 +190,7 @@ export default function InvoiceEditor({ initialData, settings, onSave, onBack, i
         </div>
 
         <div className="flex flex-wrap items-center gap-3 w-full md:w-auto justify-end">
-           {!isViewer && (
+           {canEdit && (
              <button
                 onClick={() => setIsPreview(!isPreview)}
                 className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium flex-1 md:flex-none justify-center"
@@ -120,6 +199,24 @@ export default function InvoiceEditor({ initialData, settings, onSave, onBack, i
              </button>
            )}
            
+           {can(currentUser, 'recurring.edit') && initialData?.invoiceNumber && !initialData.recurringScheduleId && (
+             <button
+                onClick={() => onMakeRecurring(initialData)}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium flex-1 md:flex-none justify-center"
+             >
+                <RepeatIcon className="w-4 h-4"/> Make Recurring
+             </button>
+           )}
+
+           {can(currentUser, 'creditNote.edit') && initialData && initialData.status !== 'draft' && (
+             <button
+                onClick={() => onCreateCreditNote(initialData)}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium flex-1 md:flex-none justify-center"
+             >
+                <ReceiptIcon className="w-4 h-4"/> Credit Note
+             </button>
+           )}
+
            <button
               onClick={() => window.print()}
               className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium flex-1 md:flex-none justify-center"
@@ -127,7 +224,23 @@ export default function InvoiceEditor({ initialData, settings, onSave, onBack, i
               <PrinterIcon className="w-4 h-4"/> Print
            </button>
 
-           {!isViewer && !isPreview && (
+           <button
+              onClick={() => onDownload(data)}
+              className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium flex-1 md:flex-none justify-center"
+           >
+              <DownloadIcon className="w-4 h-4"/> PDF
+           </button>
+
+           {canEdit && initialData?.invoiceNumber && (
+             <button
+                onClick={openSendForm}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium flex-1 md:flex-none justify-center"
+             >
+                <MailIcon className="w-4 h-4"/> Send
+             </button>
+           )}
+
+           {canEdit && !isPreview && (
              <button
                 onClick={handleSaveClick}
                 disabled={isSaving}
@@ -139,296 +252,441 @@ export default function InvoiceEditor({ initialData, settings, onSave, onBack, i
         </div>
       </div>
 
-      {/* Invoice Paper */}
-      <div 
-        className={`bg-white rounded-xl shadow-lg print:shadow-none print:rounded-none min-h-[500px] md:min-h-[1000px] relative transition-all duration-300 
-        ${isPreview 
-          ? 'max-w-[210mm] min-w-[210mm] mx-auto p-12 overflow-hidden' 
-          : 'p-6 md:p-12 overflow-hidden'}`}
-      >
-        
-        {/* Header Section */}
-        <div className={`${isPreview ? 'flex flex-row' : 'flex flex-col md:flex-row'} justify-between items-start gap-8 mb-8 md:mb-12`}>
-           <div className={`flex flex-col items-start gap-2 ${isPreview ? 'w-auto' : 'w-full md:w-auto'}`}> {/* Stacked logo and name */}
-              {settings.logoUrl ? (
-                 <img src={settings.logoUrl} alt="Logo" className="h-16 md:h-20 w-auto object-contain" />
-              ) : (
-                 <div className="w-16 h-16 bg-sandpix-50 rounded-lg flex items-center justify-center">
-                    <PalmTreeIcon className="w-8 h-8 text-sandpix-600" />
-                 </div>
-              )}
-              <div className="mt-2 w-full">
-                 <h2 className="font-bold text-gray-900 leading-tight" style={{ fontSize: '14pt' }}>
-                    {settings.companyName}
-                 </h2>
-                 <p className="text-sm text-gray-500 whitespace-pre-line mt-1">{settings.companyAddress}</p>
-                 <p className="text-sm text-gray-500 mt-1">{settings.companyEmail}</p>
-                 {settings.gstNumber && <p className="text-sm text-gray-500">GST: {settings.gstNumber}</p>}
-              </div>
-           </div>
-
-           <div className={`${isPreview ? 'text-right w-auto' : 'text-left md:text-right w-full md:w-auto'}`}>
-              <h1 className="text-3xl md:text-4xl font-light text-gray-300 uppercase tracking-widest mb-4">Invoice</h1>
-              <div className="space-y-2">
-                 <div className={`${isPreview ? 'flex flex-row justify-end gap-4 items-center' : 'flex flex-col md:flex-row justify-between md:justify-end gap-1 md:gap-4 items-start md:items-center'}`}>
-                    <label className="text-xs md:text-sm font-semibold text-gray-600 uppercase">Invoice #</label>
-                    {isPreview ? (
-                        <span className="text-gray-900 font-medium">{data.invoiceNumber}</span>
-                    ) : (
-                        <input 
-                           value={data.invoiceNumber}
-                           onChange={e => setData({...data, invoiceNumber: e.target.value})}
-                           className="text-left md:text-right w-full md:w-32 border-b border-gray-200 focus:border-sandpix-500 focus:outline-none py-1"
-                        />
-                    )}
-                 </div>
-                 <div className={`${isPreview ? 'flex flex-row justify-end gap-4 items-center' : 'flex flex-col md:flex-row justify-between md:justify-end gap-1 md:gap-4 items-start md:items-center'}`}>
-                    <label className="text-xs md:text-sm font-semibold text-gray-600 uppercase">Date</label>
-                    {isPreview ? (
-                        <span className="text-gray-900">{data.date}</span>
-                    ) : (
-                        <input 
-                           type="date"
-                           value={data.date}
-                           onChange={e => setData({...data, date: e.target.value})}
-                           className="text-left md:text-right w-full md:w-32 border-b border-gray-200 focus:border-sandpix-500 focus:outline-none py-1"
-                        />
-                    )}
-                 </div>
-                 <div className={`${isPreview ? 'flex flex-row justify-end gap-4 items-center' : 'flex flex-col md:flex-row justify-between md:justify-end gap-1 md:gap-4 items-start md:items-center'}`}>
-                    <label className="text-xs md:text-sm font-semibold text-gray-600 uppercase">Due Date</label>
-                    {isPreview ? (
-                        <span className="text-gray-900">{data.dueDate}</span>
-                    ) : (
-                        <input 
-                           type="date"
-                           value={data.dueDate}
-                           onChange={e => setData({...data, dueDate: e.target.value})}
-                           className="text-left md:text-right w-full md:w-32 border-b border-gray-200 focus:border-sandpix-500 focus:outline-none py-1"
-                        />
-                    )}
-                 </div>
-                 <div className={`${isPreview ? 'flex flex-row justify-end gap-4 items-center' : 'flex flex-col md:flex-row justify-between md:justify-end gap-1 md:gap-4 items-start md:items-center'}`}>
-                    <label className="text-xs md:text-sm font-semibold text-gray-600 uppercase">Status</label>
-                    {(!isPreview && canEditStatus) ? (
-                        <>
-                           <select 
-                              value={data.status}
-                              onChange={e => setData({...data, status: e.target.value as InvoiceStatus})}
-                              className="text-left md:text-right w-full md:w-32 border-b border-gray-200 focus:border-sandpix-500 focus:outline-none py-1 bg-transparent print:hidden text-black"
-                           >
-                              <option value="draft">Draft</option>
-                              <option value="pending">Pending</option>
-                              <option value="paid">Paid</option>
-                           </select>
-                           <span className="hidden print:block font-medium capitalize text-black">
-                              {data.status}
-                           </span>
-                        </>
-                    ) : (
-                        <span className="font-medium capitalize text-black">
-                           {data.status}
-                        </span>
-                    )}
-                 </div>
-              </div>
-           </div>
+      {saveError && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-100 text-red-600 text-sm rounded-lg flex flex-col md:flex-row md:items-center justify-between gap-3 no-print">
+          <span>{saveError}</span>
+          {hasNewerVersion && (
+            <button onClick={loadLatestVersion} className="px-4 py-2 bg-white border border-red-200 text-red-600 rounded-lg hover:bg-red-50 transition-colors font-medium whitespace-nowrap">
+              Discard My Changes and Load Latest
+            </button>
+          )}
         </div>
+      )}
 
-        {/* Client Info */}
-        <div className="mb-12">
-           <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-3">Bill To</h3>
-           {isPreview ? (
-              <div className="text-black">
-                 <p className="font-bold text-lg">{data.clientName || 'N/A'}</p>
-                 <p className="whitespace-pre-line">{data.clientAddress}</p>
-                 <p>{data.clientEmail}</p>
-              </div>
-           ) : (
-              <div className="grid gap-3 w-full md:max-w-md bg-gray-50 p-4 rounded-lg border border-gray-100">
-                 <input 
-                    placeholder="Client Name" 
-                    value={data.clientName} 
-                    onChange={e => setData({...data, clientName: e.target.value})}
-                    className="w-full bg-transparent border-b border-gray-200 focus:border-sandpix-500 focus:outline-none py-1 font-medium text-black"
-                 />
-                 <textarea 
-                    placeholder="Client Address" 
-                    value={data.clientAddress} 
-                    onChange={e => setData({...data, clientAddress: e.target.value})}
-                    rows={2}
-                    className="w-full bg-transparent border-b border-gray-200 focus:border-sandpix-500 focus:outline-none py-1 text-sm text-black"
-                 />
-                 <input 
-                    placeholder="Client Email" 
-                    value={data.clientEmail} 
-                    onChange={e => setData({...data, clientEmail: e.target.value})}
-                    className="w-full bg-transparent border-b border-gray-200 focus:border-sandpix-500 focus:outline-none py-1 text-sm text-black"
-                 />
-              </div>
-           )}
-        </div>
+      {isSendFormOpen && initialData && (
+        <SendDocumentForm
+          initialMessage={invoiceEmail(initialData, settings)}
+          attachmentName={pdfFileName(initialData.invoiceNumber, initialData.clientName)}
+          onSend={handleSend}
+          onCancel={() => setIsSendFormOpen(false)}
+        />
+      )}
+
+      {/* Printing always uses the selected template, including from the edit form */}
+      <div className={isPreview ? '' : 'hidden print:block'}>
+        <DocumentLayout document={invoiceDocument(data, settings)} template={settings.invoiceTemplate} settings={settings} />
+      </div>
+
+      {/* Invoice Form */}
+      {!isPreview && (
+        <div className="bg-white rounded-xl shadow-lg min-h-[500px] md:min-h-[1000px] relative transition-all duration-300 p-6 md:p-12 overflow-hidden print:hidden">
+        
+          {/* Header Section */}
+          <div className="flex flex-col md:flex-row justify-between items-start gap-8 mb-8 md:mb-12">
+             <div className="flex flex-col items-start gap-2 w-full md:w-auto"> {/* Stacked logo and name */}
+                {settings.logoUrl ? (
+                   <img src={settings.logoUrl} alt="Logo" className="h-16 md:h-20 w-auto object-contain" />
+                ) : (
+                   <div className="w-16 h-16 bg-sandpix-50 rounded-lg flex items-center justify-center">
+                      <PalmTreeIcon className="w-8 h-8 text-sandpix-600" />
+                   </div>
+                )}
+                <div className="mt-2 w-full">
+                   <h2 className="font-bold text-gray-900 leading-tight" style={{ fontSize: '14pt' }}>
+                      {settings.companyName}
+                   </h2>
+                   <p className="text-sm text-gray-500 whitespace-pre-line mt-1">{settings.companyAddress}</p>
+                   <p className="text-sm text-gray-500 mt-1">{settings.companyEmail}</p>
+                   {settings.gstNumber && <p className="text-sm text-gray-500">GST: {settings.gstNumber}</p>}
+                </div>
+             </div>
+
+             <div className="text-left md:text-right w-full md:w-auto">
+                <h1 className="text-3xl md:text-4xl font-light text-gray-300 uppercase tracking-widest mb-4">Invoice</h1>
+                <div className="space-y-2">
+                   <div className="flex flex-col md:flex-row justify-between md:justify-end gap-1 md:gap-4 items-start md:items-center">
+                      <label className="text-xs md:text-sm font-semibold text-gray-600 uppercase">Invoice #</label>
+                      {data.invoiceNumber ? (
+                          <span className="text-gray-900 font-medium">{data.invoiceNumber}</span>
+                      ) : (
+                          <span className="text-gray-400 italic text-sm">Assigned on save</span>
+                      )}
+                   </div>
+                   <div className="flex flex-col md:flex-row justify-between md:justify-end gap-1 md:gap-4 items-start md:items-center">
+                      <label className="text-xs md:text-sm font-semibold text-gray-600 uppercase">Date</label>
+                      <input 
+                         type="date"
+                         value={data.date}
+                         onChange={e => setData({...data, date: e.target.value})}
+                         className="text-left md:text-right w-full md:w-32 border-b border-gray-200 focus:border-sandpix-500 focus:outline-none py-1"
+                      />
+                   </div>
+                   <div className="flex flex-col md:flex-row justify-between md:justify-end gap-1 md:gap-4 items-start md:items-center">
+                      <label className="text-xs md:text-sm font-semibold text-gray-600 uppercase">Due Date</label>
+                      <input 
+                         type="date"
+                         value={data.dueDate}
+                         onChange={e => setData({...data, dueDate: e.target.value})}
+                         className="text-left md:text-right w-full md:w-32 border-b border-gray-200 focus:border-sandpix-500 focus:outline-none py-1"
+                      />
+                   </div>
+                   <div className="flex flex-col md:flex-row justify-between md:justify-end gap-1 md:gap-4 items-start md:items-center">
+                      <label className="text-xs md:text-sm font-semibold text-gray-600 uppercase">Currency</label>
+                      {data.exchangeRate !== undefined ? (
+                          <span className="text-gray-900">{data.currency}</span>
+                      ) : (
+                          <select
+                             value={data.currency}
+                             onChange={e => setData({...data, currency: e.target.value})}
+                             className="text-left md:text-right w-full md:w-32 border-b border-gray-200 focus:border-sandpix-500 focus:outline-none py-1 bg-transparent text-black"
+                          >
+                             {Array.from(new Set([data.currency, ...currencies])).map(code => <option key={code} value={code}>{code}</option>)}
+                          </select>
+                      )}
+                   </div>
+                   {data.exchangeRate !== undefined && data.currency !== settings.baseCurrency && (
+                      <p className="text-xs text-gray-500">1 {data.currency} = {data.exchangeRate} {settings.baseCurrency}</p>
+                   )}
+                   <div className="flex flex-col md:flex-row justify-between md:justify-end gap-1 md:gap-4 items-start md:items-center">
+                      <label className="text-xs md:text-sm font-semibold text-gray-600 uppercase">Language</label>
+                      <select
+                         value={data.language}
+                         onChange={e => setData({...data, language: e.target.value as DocumentLanguage})}
+                         className="text-left md:text-right w-full md:w-44 border-b border-gray-200 focus:border-sandpix-500 focus:outline-none py-1 bg-transparent text-black"
+                      >
+                         {DOCUMENT_LANGUAGES.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+                      </select>
+                   </div>
+                   <div className="flex flex-col md:flex-row justify-between md:justify-end gap-1 md:gap-4 items-start md:items-center">
+                      <label className="text-xs md:text-sm font-semibold text-gray-600 uppercase">Status</label>
+                      {canEditStatus ? (
+                          <select 
+                             value={data.status}
+                             onChange={e => setData({...data, status: derivePaymentStatus({...data, status: e.target.value as InvoiceStatus})})}
+                             className="text-left md:text-right w-full md:w-32 border-b border-gray-200 focus:border-sandpix-500 focus:outline-none py-1 bg-transparent text-black"
+                          >
+                             <option value="draft">Draft</option>
+                             <option value="pending">Pending</option>
+                             <option value="partially_paid" disabled>Partially Paid</option>
+                             <option value="paid" disabled>Paid</option>
+                          </select>
+                      ) : (
+                          <span className="font-medium capitalize text-black">
+                             {data.status.replace('_', ' ')}
+                          </span>
+                      )}
+                   </div>
+                </div>
+             </div>
+          </div>
+
+          {/* Client Info */}
+          <div className="mb-12">
+             <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-3">Bill To</h3>
+             <div className="grid gap-3 w-full md:max-w-md bg-gray-50 p-4 rounded-lg border border-gray-100">
+                <ClientAutocomplete
+                   value={data.clientName}
+                   clients={clients}
+                   onChange={name => setData({...data, clientName: name, clientId: undefined})}
+                   onSelect={handleClientSelect}
+                   className="w-full bg-transparent border-b border-gray-200 focus:border-sandpix-500 focus:outline-none py-1 font-medium text-black"
+                />
+                <textarea 
+                   dir="auto"
+                   placeholder="Client Address" 
+                   value={data.clientAddress} 
+                   onChange={e => setData({...data, clientAddress: e.target.value})}
+                   rows={2}
+                   className="w-full bg-transparent border-b border-gray-200 focus:border-sandpix-500 focus:outline-none py-1 text-sm text-black"
+                />
+                <input 
+                   placeholder="Client Email" 
+                   value={data.clientEmail} 
+                   onChange={e => setData({...data, clientEmail: e.target.value})}
+                   className="w-full bg-transparent border-b border-gray-200 focus:border-sandpix-500 focus:outline-none py-1 text-sm text-black"
+                />
+             </div>
+          </div>
 
-        {/* Items Table */}
-        <div className="mb-8 overflow-x-auto">
-           <table className="w-full min-w-[600px]">
-              <thead>
-                 <tr className="border-b-2 border-gray-100">
-                    <th className="text-left py-3 text-xs font-bold text-gray-400 uppercase tracking-wider w-[40%] md:w-[50%]">Description</th>
-                    <th className="text-right py-3 text-xs font-bold text-gray-400 uppercase tracking-wider w-[20%] md:w-[15%]">Qty</th>
-                    <th className="text-right py-3 text-xs font-bold text-gray-400 uppercase tracking-wider w-[20%] md:w-[15%]">Rate</th>
-                    <th className="text-right py-3 text-xs font-bold text-gray-400 uppercase tracking-wider w-[20%] md:w-[15%]">Amount</th>
-                    {!isPreview && <th className="w-[5%]"></th>}
-                 </tr>
-              </thead>
-              <tbody className="divide-y divide-gray-50">
-                 {data.items.map((item) => (
-                    <tr key={item.id} className="group">
-                       <td className="py-4 align-top">
-                          {isPreview ? (
-                             <span className="text-gray-800 font-medium whitespace-pre-wrap">{item.description}</span>
-                          ) : (
-                             <textarea
-                                value={item.description}
-                                onChange={e => handleItemChange(item.id, 'description', e.target.value)}
-                                placeholder="Item description"
-                                rows={1}
-                                className="w-full bg-transparent resize-none focus:outline-none font-medium text-gray-800"
-                                onInput={(e) => {
-                                   const target = e.target as HTMLTextAreaElement;
-                                   target.style.height = "auto";
-                                   target.style.height = target.scrollHeight + "px";
-                                }}
-                             />
-                          )}
-                       </td>
-                       <td className="py-4 align-top text-right">
-                          {isPreview ? (
-                             <span className="text-gray-600">{item.quantity}</span>
-                          ) : (
-                             <input
-                                type="number"
-                                min="0"
-                                value={item.quantity}
-                                onChange={e => handleItemChange(item.id, 'quantity', parseFloat(e.target.value) || 0)}
-                                className="w-full text-right bg-transparent focus:outline-none text-gray-600"
-                             />
-                          )}
-                       </td>
-                       <td className="py-4 align-top text-right">
-                          {isPreview ? (
-                             <span className="text-gray-600">{item.rate.toLocaleString()}</span>
-                          ) : (
-                             <input
-                                type="number"
-                                min="0"
-                                value={item.rate}
-                                onChange={e => handleItemChange(item.id, 'rate', parseFloat(e.target.value) || 0)}
-                                className="w-full text-right bg-transparent focus:outline-none text-gray-600"
-                             />
-                          )}
-                       </td>
-                       <td className="py-4 align-top text-right font-medium text-gray-900">
-                          {(item.quantity * item.rate).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                       </td>
-                       {!isPreview && (
-                          <td className="py-4 align-top text-right">
-                             {data.items.length > 1 && (
-                                <button 
-                                   onClick={() => handleRemoveItem(item.id)}
-                                   className="text-red-300 hover:text-red-500 transition-colors opacity-100 md:opacity-0 md:group-hover:opacity-100"
-                                >
-                                   <TrashIcon className="w-4 h-4" />
-                                </button>
-                             )}
-                          </td>
-                       )}
-                    </tr>
-                 ))}
-              </tbody>
-           </table>
+          {/* Items Table */}
+          <div className="mb-8 overflow-x-auto">
+             <table className="w-full min-w-[600px]">
+                <thead>
+                   <tr className="border-b-2 border-gray-100">
+                      <th className="text-left py-3 text-xs font-bold text-gray-400 uppercase tracking-wider w-[40%] md:w-[50%]">Description</th>
+                      <th className="text-right py-3 text-xs font-bold text-gray-400 uppercase tracking-wider w-[20%] md:w-[15%]">Qty</th>
+                      <th className="text-right py-3 text-xs font-bold text-gray-400 uppercase tracking-wider w-[20%] md:w-[15%]">Rate</th>
+                      <th className="text-right py-3 text-xs font-bold text-gray-400 uppercase tracking-wider w-[10%]">Disc.</th>
+                      <th className="text-right py-3 text-xs font-bold text-gray-400 uppercase tracking-wider w-[10%]">GST</th>
+                      <th className="text-right py-3 text-xs font-bold text-gray-400 uppercase tracking-wider w-[20%] md:w-[15%]">Amount</th>
+                      <th className="w-[5%]"></th>
+                   </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-50">
+                   {data.items.map((item) => (
+                      <tr key={item.id} className="group">
+                         <td className="py-4 align-top">
+                            <CatalogAutocomplete
+                               value={item.description}
+                               catalog={catalog}
+                               currency={settings.baseCurrency}
+                               onChange={description => handleItemChange(item.id, 'description', description)}
+                               onSelect={catalogItem => handleItemUpdate(item.id, lineFromCatalog(catalogItem, data.currency, data.date, exchangeRates, settings.baseCurrency))}
+                               className="w-full bg-transparent resize-none focus:outline-none font-medium text-gray-800"
+                            />
+                         </td>
+                         <td className="py-4 align-top text-right">
+                            <input
+                               type="number"
+                               min="0"
+                               value={item.quantity}
+                               onChange={e => handleItemChange(item.id, 'quantity', parseFloat(e.target.value) || 0)}
+                               className="w-full text-right bg-transparent focus:outline-none text-gray-600"
+                            />
+                         </td>
+                         <td className="py-4 align-top text-right">
+                            <input
+                               type="number"
+                               min="0"
+                               value={item.rate}
+                               onChange={e => handleItemChange(item.id, 'rate', parseFloat(e.target.value) || 0)}
+                               className="w-full text-right bg-transparent focus:outline-none text-gray-600"
+                            />
+                         </td>
+                         <td className="py-4 align-top text-right">
+                            <DiscountField
+                               type={item.discountType}
+                               value={item.discountValue}
+                               currency={data.currency}
+                               onChange={(discountType, discountValue) => handleItemUpdate(item.id, { discountType, discountValue })}
+                            />
+                         </td>
+                         <td className="py-4 align-top text-right">
+                            <LineTaxField item={item} documentTaxRate={data.taxRate} onChange={changes => handleItemUpdate(item.id, changes)} />
+                         </td>
+                         <td className="py-4 align-top text-right font-medium text-gray-900">
+                            {lineAmount(item).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                         </td>
+                         <td className="py-4 align-top text-right">
+                            {data.items.length > 1 && (
+                               <button 
+                                  onClick={() => handleRemoveItem(item.id)}
+                                  className="text-red-300 hover:text-red-500 transition-colors opacity-100 md:opacity-0 md:group-hover:opacity-100"
+                               >
+                                  <TrashIcon className="w-4 h-4" />
+                               </button>
+                            )}
+                         </td>
+                      </tr>
+                   ))}
+                </tbody>
+             </table>
            
-           {!isPreview && (
-              <button 
-                 onClick={handleAddItem}
-                 className="mt-4 flex items-center gap-2 text-sm font-medium text-sandpix-600 hover:text-sandpix-700 transition-colors"
-              >
-                 <PlusIcon className="w-4 h-4" /> Add Line Item
-              </button>
-           )}
-        </div>
+             <button 
+                onClick={handleAddItem}
+                className="mt-4 flex items-center gap-2 text-sm font-medium text-sandpix-600 hover:text-sandpix-700 transition-colors"
+             >
+                <PlusIcon className="w-4 h-4" /> Add Line Item
+             </button>
+          </div>
 
-        {/* Totals & Notes */}
-        <div className={`${isPreview ? 'flex flex-row gap-12' : 'flex flex-col md:flex-row gap-8 md:gap-12'} border-t border-gray-100 pt-8`}>
-           <div className={`flex-1 space-y-6 ${isPreview ? 'order-1' : 'order-2 md:order-1'}`}>
-              <div>
-                 <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">Notes</h3>
-                 {isPreview ? (
-                    <p className="text-sm text-gray-600 whitespace-pre-line">{data.notes}</p>
-                 ) : (
-                    <textarea
-                       value={data.notes}
-                       onChange={e => setData({...data, notes: e.target.value})}
-                       rows={3}
-                       className="w-full text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded p-2 focus:outline-none focus:border-sandpix-500"
-                       placeholder="Add notes..."
-                    />
-                 )}
-              </div>
-              <div>
-                 <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">Terms & Conditions</h3>
-                 {isPreview ? (
-                    <p className="text-sm text-gray-600 whitespace-pre-line">{data.terms}</p>
-                 ) : (
-                    <textarea
-                       value={data.terms}
-                       onChange={e => setData({...data, terms: e.target.value})}
-                       rows={2}
-                       className="w-full text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded p-2 focus:outline-none focus:border-sandpix-500"
-                       placeholder="Add terms..."
-                    />
-                 )}
-              </div>
-           </div>
-
-           <div className={`${isPreview ? 'w-80 order-2' : 'w-full md:w-80 order-1 md:order-2'}`}>
-              <div className="space-y-3">
-                 <div className="flex justify-between text-gray-600">
-                    <span>Subtotal</span>
-                    <span>{settings.currencySymbol}{subtotal.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
-                 </div>
-                 <div className="flex justify-between items-center text-gray-600">
-                    <div className="flex items-center gap-2">
-                       <span>GST</span>
-                       {!isPreview && (
-                          <div className="flex items-center bg-gray-100 rounded px-2">
-                             <input
-                                type="number"
-                                value={data.taxRate}
-                                onChange={e => setData({...data, taxRate: parseFloat(e.target.value) || 0})}
-                                className="w-8 bg-transparent text-xs text-right focus:outline-none py-1 text-black"
-                             />
-                             <span className="text-xs">%</span>
-                          </div>
-                       )}
-                       {isPreview && <span className="text-xs text-gray-900">({data.taxRate}%)</span>}
-                    </div>
-                    <span>{settings.currencySymbol}{taxAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
-                 </div>
-                 <div className="flex justify-between text-xl font-bold text-gray-900 border-t border-gray-200 pt-3">
-                    <span>Total</span>
-                    <span>{settings.currencySymbol}{total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
-                 </div>
-              </div>
-           </div>
-        </div>
+          {/* Totals & Notes */}
+          <div className="flex flex-col md:flex-row gap-8 md:gap-12 border-t border-gray-100 pt-8">
+             <div className="flex-1 space-y-6 order-2 md:order-1">
+                <div>
+                   <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">Notes</h3>
+                   <textarea
+                      dir="auto"
+                      value={data.notes}
+                      onChange={e => setData({...data, notes: e.target.value})}
+                      rows={3}
+                      className="w-full text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded p-2 focus:outline-none focus:border-sandpix-500"
+                      placeholder="Add notes..."
+                   />
+                </div>
+                <div>
+                   <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">Terms & Conditions</h3>
+                   <textarea
+                      dir="auto"
+                      value={data.terms}
+                      onChange={e => setData({...data, terms: e.target.value})}
+                      rows={2}
+                      className="w-full text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded p-2 focus:outline-none focus:border-sandpix-500"
+                      placeholder="Add terms..."
+                   />
+                </div>
+             </div>
+
+             <div className="w-full md:w-80 order-1 md:order-2">
+                <div className="space-y-3">
+                   <div className="flex justify-between text-gray-600">
+                      <span>Subtotal</span>
+                      <span>{data.currency}{subtotal.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                   </div>
+                   <div className="flex justify-between items-center text-gray-600">
+                      <div className="flex items-center gap-2">
+                         <span>Discount</span>
+                         <div className="bg-gray-100 rounded px-2 text-xs">
+                            <DiscountField
+                               type={data.discountType}
+                               value={data.discountValue}
+                               currency={data.currency}
+                               onChange={(discountType, discountValue) => setData({...data, discountType, discountValue})}
+                            />
+                         </div>
+                      </div>
+                      <span>-{data.currency}{discount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                   </div>
+                   <div className="flex justify-between items-center text-gray-600">
+                      <div className="flex items-center gap-2">
+                         <span>GST</span>
+                         <div className="flex items-center bg-gray-100 rounded px-2">
+                            <input
+                               type="number"
+                               value={data.taxRate}
+                               onChange={e => setData({...data, taxRate: parseFloat(e.target.value) || 0})}
+                               className="w-8 bg-transparent text-xs text-right focus:outline-none py-1 text-black"
+                            />
+                            <span className="text-xs">%</span>
+                         </div>
+                      </div>
+                      <span>{data.currency}{taxAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                   </div>
+                   <TaxBreakdownRows breakdown={taxBreakdown} currency={data.currency} />
+                   <div className="flex justify-between text-xl font-bold text-gray-900 border-t border-gray-200 pt-3">
+                      <span>Total</span>
+                      <span>{data.currency}{total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                   </div>
+                   {data.creditedAmount > 0 && (
+                      <div className="flex justify-between text-gray-600">
+                         <span>Credited</span>
+                         <span>-{data.currency}{data.creditedAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                      </div>
+                   )}
+                   {(data.payments.length > 0 || data.creditedAmount > 0) && (
+                      <>
+                         <div className="flex justify-between text-gray-600">
+                            <span>Paid</span>
+                            <span>-{data.currency}{paid.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                         </div>
+                         <div className="flex justify-between text-lg font-bold text-gray-900 border-t border-gray-200 pt-3">
+                            <span>Balance Due</span>
+                            <span>{data.currency}{balance.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                         </div>
+                      </>
+                   )}
+                </div>
+             </div>
+          </div>
 
-        {/* Footer */}
-        <div className="mt-16 text-center text-xs text-gray-400">
-           <p>Thank you for your business!</p>
         </div>
+      )}
 
-      </div>
+      {/* Payments */}
+      {(data.payments.length > 0 || (!isPreview && canEditStatus)) && (
+         <div className="mt-6 bg-white rounded-xl shadow-lg p-6 md:p-12 no-print">
+            <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-3">Payments Received</h3>
+            <div className="overflow-x-auto">
+               <table className="w-full min-w-[600px] text-sm">
+                  <thead>
+                     <tr className="border-b border-gray-100">
+                        <th className="text-left py-2 text-xs font-bold text-gray-400 uppercase tracking-wider">Date</th>
+                        <th className="text-left py-2 text-xs font-bold text-gray-400 uppercase tracking-wider">Method</th>
+                        <th className="text-left py-2 text-xs font-bold text-gray-400 uppercase tracking-wider">Reference</th>
+                        <th className="text-right py-2 text-xs font-bold text-gray-400 uppercase tracking-wider">Amount</th>
+                        {!isPreview && canEditStatus && <th className="w-[5%]"></th>}
+                     </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-50">
+                     {data.payments.map(payment => (
+                        <tr key={payment.id} className="group">
+                           {(!isPreview && canEditStatus) ? (
+                              <>
+                                 <td className="py-2">
+                                    <input
+                                       type="date"
+                                       value={payment.date}
+                                       onChange={e => handlePaymentChange(payment.id, 'date', e.target.value)}
+                                       className="bg-transparent focus:outline-none text-gray-700"
+                                    />
+                                 </td>
+                                 <td className="py-2">
+                                    <select
+                                       value={payment.method}
+                                       onChange={e => handlePaymentChange(payment.id, 'method', e.target.value)}
+                                       className="bg-transparent focus:outline-none text-gray-700"
+                                    >
+                                       <option value="bank_transfer">Bank Transfer</option>
+                                       <option value="cash">Cash</option>
+                                       <option value="card">Card</option>
+                                       <option value="other">Other</option>
+                                    </select>
+                                 </td>
+                                 <td className="py-2">
+                                    <input
+                                       value={payment.reference}
+                                       onChange={e => handlePaymentChange(payment.id, 'reference', e.target.value)}
+                                       placeholder="Receipt / transfer ref"
+                                       className="w-full bg-transparent focus:outline-none text-gray-700"
+                                    />
+                                 </td>
+                                 <td className="py-2 text-right">
+                                    <input
+                                       type="number"
+                                       min="0"
+                                       value={payment.amount}
+                                       onChange={e => handlePaymentChange(payment.id, 'amount', parseFloat(e.target.value) || 0)}
+                                       className="w-full text-right bg-transparent focus:outline-none text-gray-900 font-medium"
+                                    />
+                                 </td>
+                                 <td className="py-2 text-right">
+                                    <button
+                                       onClick={() => handleRemovePayment(payment.id)}
+                                       className="text-red-300 hover:text-red-500 transition-colors opacity-100 md:opacity-0 md:group-hover:opacity-100"
+                                    >
+                                       <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                 </td>
+                              </>
+                           ) : (
+                              <>
+                                 <td className="py-2 text-gray-700">{payment.date}</td>
+                                 <td className="py-2 text-gray-700 capitalize">{payment.method.replace('_', ' ')}</td>
+                                 <td className="py-2 text-gray-700">{payment.reference}</td>
+                                 <td className="py-2 text-right font-medium text-gray-900">{data.currency}{payment.amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                              </>
+                           )}
+                        </tr>
+                     ))}
+                     {data.payments.length === 0 && (
+                        <tr>
+                           <td colSpan={5} className="py-4 text-center text-gray-400">No payments recorded.</td>
+                        </tr>
+                     )}
+                  </tbody>
+               </table>
+            </div>
+            {!isPreview && canEditStatus && (
+               <button
+                  onClick={handleAddPayment}
+                  className="mt-4 flex items-center gap-2 text-sm font-medium text-sandpix-600 hover:text-sandpix-700 transition-colors"
+               >
+                  <PlusIcon className="w-4 h-4" /> Record Payment
+               </button>
+            )}
+         </div>
+      )}
+
+      {initialData?.invoiceNumber && <EmailLog key={emailLogKey} load={() => onLoadEmails(initialData.id)} />}
+      {initialData?.invoiceNumber && (
+        <ShareLinks
+          load={() => onLoadShareLinks(initialData.id)}
+          onCreate={() => onCreateShareLink(initialData)}
+          onRevoke={onRevokeShareLink}
+          canManage={canEdit}
+        />
+      )}
+      {initialData?.invoiceNumber && <AuditHistory load={() => onLoadHistory(initialData.id)} />}
     </div>
   );
 }
\ No newline at end of file
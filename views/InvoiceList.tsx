@@ -1,10 +1,12 @@
 import React from 'react';
 import { InvoiceData, User } from '../types';
 import { PlusIcon, FileTextIcon, EyeIcon, DownloadIcon, EditIcon } from '../components/Icons';
+import { calculateTotals, balanceDue } from '../lib/invoiceTotals';
+import { isOverdue, daysPastDue } from '../lib/receivables';
+import { can } from '../lib/permissions';
 
 interface InvoiceListProps {
   invoices: InvoiceData[];
-  currency: string;
   onCreate: () => void;
   onEdit: (invoice: InvoiceData) => void;
   onView: (invoice: InvoiceData) => void;
@@ -12,15 +14,15 @@ interface InvoiceListProps {
   currentUser: User;
 }
 
-export default function InvoiceList({ invoices, currency, onCreate, onEdit, onView, onDownload, currentUser }: InvoiceListProps) {
-  const isViewer = currentUser.role === 'viewer';
-  const isAdmin = currentUser.role === 'admin';
+export default function InvoiceList({ invoices, onCreate, onEdit, onView, onDownload, currentUser }: InvoiceListProps) {
+  const canCreate = can(currentUser, 'invoice.create');
+  const canEdit = can(currentUser, 'invoice.edit');
 
   return (
     <div className="p-4 md:p-6 max-w-7xl mx-auto">
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
         <h1 className="text-2xl font-bold text-gray-800">Invoices</h1>
-        {!isViewer && (
+        {canCreate && (
           <button
             onClick={onCreate}
             className="flex items-center gap-2 px-4 py-2 bg-sandpix-600 text-white rounded-lg hover:bg-sandpix-700 transition-colors font-medium text-sm w-full sm:w-auto justify-center"
@@ -41,27 +43,37 @@ export default function InvoiceList({ invoices, currency, onCreate, onEdit, onVi
                 <th className="px-6 py-3">Date</th>
                 <th className="px-6 py-3">Due Date</th>
                 <th className="px-6 py-3">Amount</th>
+                <th className="px-6 py-3">Balance</th>
                 <th className="px-6 py-3">Status</th>
                 <th className="px-6 py-3 text-right">Actions</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-100">
               {invoices.map((inv) => {
-                 const total = inv.items.reduce((s, item) => s + item.quantity * item.rate, 0) * (1 + inv.taxRate/100);
+                 const { total } = calculateTotals(inv);
+                 const balance = balanceDue(inv);
+                 const overdue = isOverdue(inv);
                  return (
                   <tr key={inv.id} className="hover:bg-gray-50 transition-colors group">
                     <td className="px-6 py-4 font-medium text-gray-900">{inv.invoiceNumber}</td>
                     <td className="px-6 py-4">{inv.clientName || <span className="text-gray-400 italic">No Client</span>}</td>
                     <td className="px-6 py-4">{inv.date}</td>
-                    <td className="px-6 py-4">{inv.dueDate}</td>
-                    <td className="px-6 py-4 font-medium">{currency}{total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                    <td className={`px-6 py-4 ${overdue ? 'text-red-600 font-medium' : ''}`}>{inv.dueDate}</td>
+                    <td className="px-6 py-4 font-medium">{inv.currency}{total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                    <td className="px-6 py-4">{inv.status === 'draft' ? '-' : `${inv.currency}${balance.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}</td>
                     <td className="px-6 py-4">
                       <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize
                         ${inv.status === 'paid' ? 'bg-green-100 text-green-800' : 
+                          inv.status === 'partially_paid' ? 'bg-blue-100 text-blue-800' : 
                           inv.status === 'pending' ? 'bg-orange-100 text-orange-800' : 
                           'bg-gray-100 text-gray-800'}`}>
-                        {inv.status}
+                        {inv.status.replace('_', ' ')}
                       </span>
+                      {overdue && (
+                        <span className="ml-1 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800" title={`${daysPastDue(inv)} days past due`}>
+                          Overdue
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 text-right flex justify-end gap-2">
                       <button
@@ -81,7 +93,7 @@ export default function InvoiceList({ invoices, currency, onCreate, onEdit, onVi
                         <DownloadIcon className="w-4 h-4" />
                       </button>
                       
-                      {!isViewer && (
+                      {canEdit && (
                         <button
                           type="button"
                           onClick={() => onEdit(inv)}
@@ -96,10 +108,10 @@ export default function InvoiceList({ invoices, currency, onCreate, onEdit, onVi
               })}
               {invoices.length === 0 && (
                 <tr>
-                   <td colSpan={7} className="px-6 py-12 text-center text-gray-400">
+                   <td colSpan={8} className="px-6 py-12 text-center text-gray-400">
                      <div className="flex flex-col items-center gap-2">
                        <FileTextIcon className="w-8 h-8 opacity-20" />
-                       <p>No invoices yet. {isViewer ? '' : 'Create your first one!'}</p>
+                       <p>No invoices yet. {canCreate ? 'Create your first one!' : ''}</p>
                      </div>
                    </td>
                 </tr>
@@ -1,46 +1,92 @@
-import React, { useState } from 'react';
-import { supabase } from '../lib/supabaseClient';
-import { PalmTreeIcon, LockIcon, UsersIcon } from '../components/Icons';
+import React, { useState, useEffect } from 'react';
+import { db, LinkTokenInfo, LoginChallenge } from '../lib/data';
+import { PalmTreeIcon, LockIcon, UsersIcon, MailIcon, ShieldIcon } from '../components/Icons';
+import { TotpEnrolment, RecoveryCodeList } from '../components/TwoFactor';
 import { User } from '../types';
+import { Session } from '../lib/session';
 
 interface LoginProps {
-  onLogin: (user: User) => void;
+  onLogin: (user: User, session: Session) => void;
+  notice?: string | null; // Why the previous session ended, e.g. after an idle timeout
   logoUrl?: string;
   companyName?: string;
 }
 
-export default function Login({ onLogin, logoUrl, companyName }: LoginProps) {
+type LoginMode = 'signin' | 'forgot' | 'set-password' | 'two-factor' | 'two-factor-setup' | 'recovery-codes';
+
+const lockedMessage = (retryAfter?: string) =>
+  `Too many failed sign-in attempts. Try again after ${new Date(retryAfter!).toLocaleTimeString()} or ask an administrator to unlock your account.`;
+
+// Invite and password reset emails link back to the app with ?token=...
+const linkToken = () => new URLSearchParams(window.location.search).get('token');
+
+const clearLinkToken = () => window.history.replaceState(null, '', window.location.pathname);
+
+export default function Login({ onLogin, notice, logoUrl, companyName }: LoginProps) {
+  const [mode, setMode] = useState<LoginMode>(linkToken() ? 'set-password' : 'signin');
   const [isLoading, setIsLoading] = useState(false);
   const [identifier, setIdentifier] = useState(''); // Email or Name
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [tokenUser, setTokenUser] = useState<LinkTokenInfo | null>(null);
+  const [challenge, setChallenge] = useState<LoginChallenge | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<{ codes: string[]; user: User; session: Session } | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
+  useEffect(() => {
+    const token = linkToken();
+    if (!token) return;
+    db.auth.checkLinkToken(token).then(({ data }) => {
+      if (data) {
+        setTokenUser(data);
+      } else {
+        clearLinkToken();
+        setMode('signin');
+        setError('This link is invalid or has expired. Ask for a new one.');
+      }
+    });
+  }, []);
+
+  const switchMode = (next: LoginMode) => {
+    setMode(next);
+    setError(null);
+    setInfo(null);
+    setPassword('');
+    setConfirmPassword('');
+    setCode('');
+    setChallenge(null);
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     setError(null);
+    setInfo(null);
 
     try {
-      // Query users table for matching name OR email AND password
-      // Note: This matches the user requirement to login via email OR name using the users table password
-      const { data, error } = await supabase
-        .from('users')
-        .select('*')
-        .or(`email.eq.${identifier},name.eq.${identifier}`)
-        .eq('password', password)
-        .maybeSingle();
+      // Credentials are checked in the database against the salted hash. Repeated failures are throttled there too.
+      const { data, error } = await db.auth.signIn(identifier.trim(), password);
 
       if (error) {
         throw error;
       }
 
-      if (data) {
-        // Check if user is active (default to true if field is missing to avoid lockout)
-        if (data.active === false) {
-           setError('Your account has been disabled. Please contact an administrator.');
-        } else {
-           onLogin(data as User);
-        }
+      if (data.status === 'ok' && data.user && data.session) {
+        onLogin(data.user, data.session);
+      } else if ((data.status === 'two_factor' || data.status === 'two_factor_setup') && data.challenge) {
+        setPassword('');
+        setCode('');
+        setChallenge(data.challenge);
+        setMode(data.status === 'two_factor' ? 'two-factor' : 'two-factor-setup');
+      } else if (data.status === 'disabled') {
+        setError('Your account has been disabled. Please contact an administrator.');
+      } else if (data.status === 'locked') {
+        setError(lockedMessage(data.retryAfter));
+      } else if (data.status === 'throttled') {
+        const seconds = Math.max(1, Math.ceil((Date.parse(data.retryAfter!) - Date.now()) / 1000));
+        setError(`Please wait ${seconds} second${seconds === 1 ? '' : 's'} before trying again.`);
       } else {
         setError('Invalid credentials. Please check your name/email and password.');
       }
@@ -52,6 +98,125 @@ export default function Login({ onLogin, logoUrl, companyName }: LoginProps) {
     }
   };
 
+  const handleTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+    setIsLoading(true);
+    setError(null);
+
+    const { data, error } = await db.auth.completeChallenge(challenge.token, code.trim());
+    setIsLoading(false);
+
+    if (error) {
+      console.error(error);
+      setError('An error occurred during login. Please try again.');
+      return;
+    }
+    if (data.status === 'ok' && data.user && data.session) {
+      const { user, session } = data;
+      if (data.recoveryCodes?.length) {
+        setRecoveryCodes({ codes: data.recoveryCodes, user, session });
+        setMode('recovery-codes');
+      } else {
+        onLogin(user, session);
+      }
+    } else if (data.status === 'invalid') {
+      setCode('');
+      setError(mode === 'two-factor-setup'
+        ? 'That code does not match. Check the time on your device and try the latest code.'
+        : 'That code is not valid. Try the latest code from your app or one of your recovery codes.');
+    } else {
+      switchMode('signin');
+      setError(data.status === 'locked' ? lockedMessage(data.retryAfter) : 'Your sign-in took too long. Please enter your password again.');
+    }
+  };
+
+  const handleForgotPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    const { error } = await db.auth.requestPasswordReset(identifier.trim());
+    if (error) {
+      console.error(error);
+      setError('An error occurred. Please try again.');
+    } else {
+      switchMode('signin');
+      setInfo('If an account uses that email address, a link to reset your password is on its way.');
+    }
+    setIsLoading(false);
+  };
+
+  const handleSetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters.');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('The passwords do not match.');
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    const { data, error } = await db.auth.completeLinkToken(linkToken()!, password);
+    setIsLoading(false);
+    if (error || !data) {
+      if (error) console.error(error);
+      setError('This link is invalid or has expired. Ask for a new one.');
+      return;
+    }
+    clearLinkToken();
+    switchMode('signin');
+    setIdentifier(tokenUser?.email || '');
+    setInfo('Your password has been set. You can now sign in.');
+  };
+
+  const submitButton = (label: string) => (
+    <button
+      type="submit"
+      disabled={isLoading}
+      className="w-full flex justify-center py-2.5 px-4 border border-transparent rounded-lg shadow-sm text-sm font-semibold text-white bg-sandpix-600 hover:bg-sandpix-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sandpix-500 disabled:opacity-50 disabled:cursor-wait transition-all"
+    >
+      {isLoading ? (
+        <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+      ) : (
+        label
+      )}
+    </button>
+  );
+
+  const passwordField = (label: string, value: string, onChange: (value: string) => void, autoComplete: string) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1.5">{label}</label>
+      <div className="relative">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          <LockIcon className="h-5 w-5 text-gray-400" />
+        </div>
+        <input
+          type="password"
+          required
+          autoComplete={autoComplete}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="block w-full pl-10 pr-3 py-2.5 border border-gray-300 rounded-lg focus:ring-sandpix-500 focus:border-sandpix-500 text-sm transition-colors"
+          placeholder="••••••••"
+        />
+      </div>
+    </div>
+  );
+
+  const subtitle = mode === 'forgot'
+    ? 'Enter your email address and we will send you a link to reset your password'
+    : mode === 'two-factor'
+      ? 'Enter the 6-digit code from your authenticator app'
+    : mode === 'two-factor-setup'
+      ? 'Your role requires two-factor authentication. Set it up to continue.'
+    : mode === 'recovery-codes'
+      ? 'Two-factor authentication is on'
+    : mode === 'set-password'
+      ? (tokenUser ? `${tokenUser.purpose === 'invite' ? 'Welcome' : 'Hi'} ${tokenUser.name}, choose a password for ${tokenUser.email}` : 'Checking your link...')
+      : 'Sign in to manage your invoices';
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-100 px-4">
       <div className="bg-white p-8 rounded-2xl shadow-xl w-full max-w-md border border-gray-100">
@@ -66,62 +231,139 @@ export default function Login({ onLogin, logoUrl, companyName }: LoginProps) {
             )}
           </div>
           <h1 className="text-2xl font-bold text-gray-900 tracking-tight">{companyName || 'Sandpix Maldives'}</h1>
-          <p className="text-sm text-gray-500 mt-2">Sign in to manage your invoices</p>
+          <p className="text-sm text-gray-500 mt-2">{subtitle}</p>
         </div>
 
+        {info && !error && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-100 text-green-700 text-sm rounded-lg">{info}</div>
+        )}
+
+        {notice && !info && !error && (
+          <div className="mb-6 p-4 bg-orange-50 border border-orange-200 text-orange-800 text-sm rounded-lg">{notice}</div>
+        )}
+
         {error && (
           <div className="mb-6 p-4 bg-red-50 border border-red-100 text-red-600 text-sm rounded-lg flex items-start gap-2">
             <span className="font-bold">Error:</span> {error}
           </div>
         )}
 
-        <form onSubmit={handleLogin} className="space-y-5">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1.5">Email or Name</label>
-            <div className="relative">
-              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                <UsersIcon className="h-5 w-5 text-gray-400" />
+        {mode === 'signin' && (
+          <form onSubmit={handleLogin} className="space-y-5">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Email or Name</label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <UsersIcon className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  type="text"
+                  required
+                  value={identifier}
+                  onChange={(e) => setIdentifier(e.target.value)}
+                  className="block w-full pl-10 pr-3 py-2.5 border border-gray-300 rounded-lg focus:ring-sandpix-500 focus:border-sandpix-500 text-sm transition-colors"
+                  placeholder="Enter your name or email"
+                />
               </div>
-              <input
-                type="text"
-                required
-                value={identifier}
-                onChange={(e) => setIdentifier(e.target.value)}
-                className="block w-full pl-10 pr-3 py-2.5 border border-gray-300 rounded-lg focus:ring-sandpix-500 focus:border-sandpix-500 text-sm transition-colors"
-                placeholder="Enter your name or email"
-              />
             </div>
-          </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1.5">Password</label>
-            <div className="relative">
-              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                <LockIcon className="h-5 w-5 text-gray-400" />
+            {passwordField('Password', password, setPassword, 'current-password')}
+
+            <div className="text-right -mt-2">
+              <button type="button" onClick={() => switchMode('forgot')} className="text-sm text-sandpix-600 hover:text-sandpix-800">
+                Forgot password?
+              </button>
+            </div>
+
+            {submitButton('Sign In')}
+          </form>
+        )}
+
+        {mode === 'forgot' && (
+          <form onSubmit={handleForgotPassword} className="space-y-5">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Email</label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <MailIcon className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  type="email"
+                  required
+                  value={identifier}
+                  onChange={(e) => setIdentifier(e.target.value)}
+                  className="block w-full pl-10 pr-3 py-2.5 border border-gray-300 rounded-lg focus:ring-sandpix-500 focus:border-sandpix-500 text-sm transition-colors"
+                  placeholder="you@example.com"
+                />
               </div>
-              <input
-                type="password"
-                required
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="block w-full pl-10 pr-3 py-2.5 border border-gray-300 rounded-lg focus:ring-sandpix-500 focus:border-sandpix-500 text-sm transition-colors"
-                placeholder="••••••••"
-              />
             </div>
-          </div>
 
-          <button
-            type="submit"
-            disabled={isLoading}
-            className="w-full flex justify-center py-2.5 px-4 border border-transparent rounded-lg shadow-sm text-sm font-semibold text-white bg-sandpix-600 hover:bg-sandpix-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sandpix-500 disabled:opacity-50 disabled:cursor-wait transition-all"
-          >
-            {isLoading ? (
-              <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-            ) : (
-              'Sign In'
+            {submitButton('Send Reset Link')}
+
+            <button type="button" onClick={() => switchMode('signin')} className="w-full text-sm text-gray-500 hover:text-gray-700">
+              Back to sign in
+            </button>
+          </form>
+        )}
+
+        {mode === 'set-password' && tokenUser && (
+          <form onSubmit={handleSetPassword} className="space-y-5">
+            {passwordField('New Password', password, setPassword, 'new-password')}
+            {passwordField('Confirm Password', confirmPassword, setConfirmPassword, 'new-password')}
+            <p className="text-xs text-gray-500 -mt-2">At least 8 characters.</p>
+            {submitButton('Set Password')}
+          </form>
+        )}
+
+        {(mode === 'two-factor' || mode === 'two-factor-setup') && challenge && (
+          <form onSubmit={handleTwoFactor} className="space-y-5">
+            {mode === 'two-factor-setup' && challenge.totpSecret && (
+              <TotpEnrolment secret={challenge.totpSecret} accountName={challenge.email} issuer={companyName || 'Sandpix Maldives'} />
             )}
-          </button>
-        </form>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                {mode === 'two-factor' ? 'Authentication Code' : 'Code From Your App'}
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <ShieldIcon className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  type="text"
+                  required
+                  autoFocus
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="block w-full pl-10 pr-3 py-2.5 border border-gray-300 rounded-lg focus:ring-sandpix-500 focus:border-sandpix-500 text-sm tracking-widest transition-colors"
+                  placeholder="123456"
+                />
+              </div>
+              {mode === 'two-factor' && (
+                <p className="mt-1 text-xs text-gray-500">Lost your device? Enter one of your recovery codes instead.</p>
+              )}
+            </div>
+
+            {submitButton(mode === 'two-factor' ? 'Verify' : 'Turn On and Sign In')}
+
+            <button type="button" onClick={() => switchMode('signin')} className="w-full text-sm text-gray-500 hover:text-gray-700">
+              Back to sign in
+            </button>
+          </form>
+        )}
+
+        {mode === 'recovery-codes' && recoveryCodes && (
+          <div className="space-y-5">
+            <RecoveryCodeList codes={recoveryCodes.codes} issuer={companyName || 'Sandpix Maldives'} />
+            <button
+              type="button"
+              onClick={() => onLogin(recoveryCodes.user, recoveryCodes.session)}
+              className="w-full flex justify-center py-2.5 px-4 border border-transparent rounded-lg shadow-sm text-sm font-semibold text-white bg-sandpix-600 hover:bg-sandpix-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sandpix-500 transition-all"
+            >
+              I've Saved My Codes
+            </button>
+          </div>
+        )}
         
         <div className="mt-8 pt-6 border-t border-gray-100 text-center">
           <p className="text-xs text-gray-400">© {new Date().getFullYear()} {companyName || 'Sandpix Maldives'}. All rights reserved.</p>
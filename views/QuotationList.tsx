@@ -1,25 +1,29 @@
 import React from 'react';
 import { QuotationData, User } from '../types';
-import { PlusIcon, ClipboardListIcon, EyeIcon, DownloadIcon, EditIcon } from '../components/Icons';
+import { PlusIcon, ClipboardListIcon, EyeIcon, DownloadIcon, EditIcon, FileTextIcon } from '../components/Icons';
+import { calculateTotals } from '../lib/invoiceTotals';
+import { can } from '../lib/permissions';
 
 interface QuotationListProps {
   quotations: QuotationData[];
-  currency: string;
   onCreate: () => void;
   onEdit: (quotation: QuotationData) => void;
   onView: (quotation: QuotationData) => void;
   onDownload: (quotation: QuotationData) => void;
+  onConvert: (quotation: QuotationData) => void;
+  onOpenInvoice: (invoiceId: string) => void;
   currentUser: User;
 }
 
-export default function QuotationList({ quotations, currency, onCreate, onEdit, onView, onDownload, currentUser }: QuotationListProps) {
-  const isViewer = currentUser.role === 'viewer';
+export default function QuotationList({ quotations, onCreate, onEdit, onView, onDownload, onConvert, onOpenInvoice, currentUser }: QuotationListProps) {
+  const canEdit = can(currentUser, 'quotation.edit');
+  const canConvert = can(currentUser, 'quotation.convert');
 
   return (
     <div className="p-4 md:p-6 max-w-7xl mx-auto">
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
         <h1 className="text-2xl font-bold text-gray-800">Quotations</h1>
-        {!isViewer && (
+        {canEdit && (
           <button
             onClick={onCreate}
             className="flex items-center gap-2 px-4 py-2 bg-sandpix-600 text-white rounded-lg hover:bg-sandpix-700 transition-colors font-medium text-sm w-full sm:w-auto justify-center"
@@ -46,14 +50,14 @@ export default function QuotationList({ quotations, currency, onCreate, onEdit,
             </thead>
             <tbody className="divide-y divide-gray-100">
               {quotations.map((q) => {
-                 const total = q.items.reduce((s, item) => s + item.quantity * item.rate, 0) * (1 + q.taxRate/100);
+                 const { total } = calculateTotals(q);
                  return (
                   <tr key={q.id} className="hover:bg-gray-50 transition-colors group">
                     <td className="px-6 py-4 font-medium text-gray-900">{q.quotationNumber}</td>
                     <td className="px-6 py-4">{q.clientName || <span className="text-gray-400 italic">No Client</span>}</td>
                     <td className="px-6 py-4">{q.date}</td>
                     <td className="px-6 py-4">{q.validUntil}</td>
-                    <td className="px-6 py-4 font-medium">{currency}{total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                    <td className="px-6 py-4 font-medium">{q.currency}{total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
                     <td className="px-6 py-4">
                       <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize
                         ${q.status === 'accepted' ? 'bg-green-100 text-green-800' : 
@@ -62,11 +66,21 @@ export default function QuotationList({ quotations, currency, onCreate, onEdit,
                           'bg-gray-100 text-gray-800'}`}>
                         {q.status}
                       </span>
+                      {q.invoiceId && (
+                        <button onClick={() => onOpenInvoice(q.invoiceId!)} className="block mt-1 text-xs text-sandpix-600 hover:text-sandpix-800 hover:underline">
+                          Invoiced as {q.invoiceNumber}
+                        </button>
+                      )}
                     </td>
                     <td className="px-6 py-4 text-right flex justify-end gap-2">
                       <button onClick={() => onView(q)} className="text-gray-500 hover:text-gray-700 p-1.5 hover:bg-gray-100 rounded transition-colors" title="View Quote"><EyeIcon className="w-4 h-4" /></button>
                       <button onClick={() => onDownload(q)} className="text-gray-500 hover:text-gray-700 p-1.5 hover:bg-gray-100 rounded transition-colors" title="Download"><DownloadIcon className="w-4 h-4" /></button>
-                      {!isViewer && (
+                      {canConvert && q.status === 'accepted' && !q.invoiceId && (
+                        <button onClick={() => onConvert(q)} className="text-green-700 hover:text-green-900 font-medium text-xs border border-green-200 rounded px-2 py-1 bg-green-50 flex items-center gap-1" title="Convert to Invoice">
+                          <FileTextIcon className="w-3 h-3" /> Invoice
+                        </button>
+                      )}
+                      {canEdit && (
                         <button onClick={() => onEdit(q)} className="text-sandpix-600 hover:text-sandpix-800 font-medium text-xs border border-sandpix-200 rounded px-2 py-1 bg-sandpix-50 flex items-center gap-1">
                           <EditIcon className="w-3 h-3" /> Edit
                         </button>
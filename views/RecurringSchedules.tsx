@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { RecurringSchedule, RecurringFrequency, InvoiceData, User } from '../types';
+import { EditIcon, RepeatIcon } from '../components/Icons';
+import { calculateTotals } from '../lib/invoiceTotals';
+import { upcomingPeriods } from '../lib/recurring';
+import { can } from '../lib/permissions';
+
+interface RecurringSchedulesProps {
+  schedules: RecurringSchedule[];
+  invoices: InvoiceData[];
+  initialDraft?: RecurringSchedule | null;
+  onSave: (schedule: RecurringSchedule) => Promise<boolean>;
+  onViewInvoice: (invoice: InvoiceData) => void;
+  currentUser: User;
+}
+
+const formatAmount = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export default function RecurringSchedules({ schedules, invoices, initialDraft, onSave, onViewInvoice, currentUser }: RecurringSchedulesProps) {
+  const [formData, setFormData] = useState<RecurringSchedule | null>(initialDraft || null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canEdit = can(currentUser, 'recurring.edit');
+  const today = new Date().toISOString().split('T')[0];
+  const isNew = formData ? !schedules.some(s => s.id === formData.id) : false;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData) return;
+    if (formData.endDate && formData.endDate < formData.startDate) {
+      alert('The end date must be after the start date.');
+      return;
+    }
+    setIsSaving(true);
+    const saved = await onSave(formData);
+    setIsSaving(false);
+    if (saved) setFormData(null);
+  };
+
+  const toggleActive = async (schedule: RecurringSchedule) => {
+    await onSave({ ...schedule, active: !schedule.active });
+  };
+
+  return (
+    <div className="p-4 md:p-6 max-w-7xl mx-auto">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">Recurring Invoices</h1>
+          <p className="text-sm text-gray-500">Open an invoice and choose "Make Recurring" to start a new schedule.</p>
+        </div>
+      </div>
+
+      {formData && canEdit && (
+        <div className="bg-gray-50 border border-gray-200 p-4 rounded-lg mb-6 max-w-3xl">
+          <form onSubmit={handleSave} className="flex flex-col gap-4">
+             <h3 className="font-semibold text-gray-700">{isNew ? 'New Recurring Schedule' : 'Edit Recurring Schedule'}</h3>
+             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+               <label className="text-sm text-gray-600 md:col-span-2">
+                 Name
+                 <input
+                   required
+                   value={formData.name}
+                   onChange={e => setFormData({...formData, name: e.target.value})}
+                   className="mt-1 w-full px-3 py-2 border rounded focus:outline-none focus:ring-1 focus:ring-sandpix-500"
+                 />
+               </label>
+               <label className="text-sm text-gray-600">
+                 Frequency
+                 <select
+                   value={formData.frequency}
+                   onChange={e => setFormData({...formData, frequency: e.target.value as RecurringFrequency})}
+                   className="mt-1 w-full px-3 py-2 border rounded focus:outline-none focus:ring-1 focus:ring-sandpix-500"
+                 >
+                   <option value="weekly">Weekly</option>
+                   <option value="monthly">Monthly</option>
+                   <option value="quarterly">Quarterly</option>
+                 </select>
+               </label>
+               <label className="text-sm text-gray-600">
+                 Payment terms (days)
+                 <input
+                   type="number"
+                   min="0"
+                   value={formData.paymentTermsDays}
+                   onChange={e => setFormData({...formData, paymentTermsDays: parseInt(e.target.value) || 0})}
+                   className="mt-1 w-full px-3 py-2 border rounded focus:outline-none focus:ring-1 focus:ring-sandpix-500"
+                 />
+               </label>
+               <label className="text-sm text-gray-600">
+                 Start date
+                 <input
+                   required
+                   type="date"
+                   value={formData.startDate}
+                   onChange={e => setFormData({...formData, startDate: e.target.value})}
+                   className="mt-1 w-full px-3 py-2 border rounded focus:outline-none focus:ring-1 focus:ring-sandpix-500"
+                 />
+               </label>
+               <label className="text-sm text-gray-600">
+                 End date (optional)
+                 <input
+                   type="date"
+                   value={formData.endDate || ''}
+                   onChange={e => setFormData({...formData, endDate: e.target.value || undefined})}
+                   className="mt-1 w-full px-3 py-2 border rounded focus:outline-none focus:ring-1 focus:ring-sandpix-500"
+                 />
+               </label>
+               <label className="flex items-center gap-2 text-sm text-gray-600 md:col-span-2">
+                 <input
+                   type="checkbox"
+                   checked={formData.autoIssue}
+                   onChange={e => setFormData({...formData, autoIssue: e.target.checked})}
+                 />
+                 Issue automatically (create as Pending instead of Draft)
+               </label>
+             </div>
+             <div className="text-sm text-gray-600 bg-white border border-gray-100 rounded p-3">
+               <p className="font-medium text-gray-800">{formData.clientName}</p>
+               <p className="text-xs text-gray-400 mb-2">{formData.items.length} line items · {formData.currency}{formatAmount(calculateTotals(formData).total)} per invoice</p>
+               <ul className="text-xs space-y-1">
+                 {formData.items.map(item => (
+                   <li key={item.id}>{item.quantity} × {item.description} @ {item.rate.toLocaleString()}</li>
+                 ))}
+               </ul>
+             </div>
+             <div className="flex justify-end gap-2">
+               <button type="button" onClick={() => setFormData(null)} className="px-3 py-1 text-sm text-gray-500 hover:text-gray-700">Cancel</button>
+               <button type="submit" disabled={isSaving} className="px-3 py-1 text-sm bg-sandpix-600 text-white rounded hover:bg-sandpix-700 disabled:opacity-70">
+                 {isSaving ? 'Saving...' : isNew ? 'Create Schedule' : 'Update Schedule'}
+               </button>
+             </div>
+          </form>
+        </div>
+      )}
+
+      <div className="space-y-6">
+        {schedules.map(schedule => {
+          const generated = invoices
+            .filter(inv => inv.recurringScheduleId === schedule.id)
+            .sort((a, b) => b.date.localeCompare(a.date));
+          const upcoming = upcomingPeriods(schedule, today, 3);
+          return (
+            <div key={schedule.id} className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-100 flex flex-col md:flex-row justify-between gap-3">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-800">{schedule.name}</h3>
+                  <p className="text-sm text-gray-500">
+                    {schedule.clientName} · <span className="capitalize">{schedule.frequency}</span> · {schedule.currency}{formatAmount(calculateTotals(schedule).total)}
+                    {schedule.autoIssue && <span className="ml-2 text-xs text-sandpix-600">Auto-issue</span>}
+                  </p>
+                  <p className="text-xs text-gray-400">From {schedule.startDate}{schedule.endDate ? ` until ${schedule.endDate}` : ''}</p>
+                </div>
+                <div className="flex items-start gap-2">
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${schedule.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}>
+                    {schedule.active ? 'Active' : 'Paused'}
+                  </span>
+                  {canEdit && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => toggleActive(schedule)}
+                        className="text-xs border border-gray-200 rounded px-2 py-1 text-gray-600 hover:bg-gray-50"
+                      >
+                        {schedule.active ? 'Pause' : 'Resume'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setFormData(schedule)}
+                        className="text-sandpix-600 hover:text-sandpix-800 font-medium text-xs border border-sandpix-200 rounded px-2 py-1 bg-sandpix-50 flex items-center gap-1"
+                      >
+                        <EditIcon className="w-3 h-3" /> Edit
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 divide-y md:divide-y-0 md:divide-x divide-gray-100">
+                <div className="p-6">
+                  <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">Upcoming</p>
+                  {upcoming.length > 0 ? (
+                    <ul className="text-sm text-gray-700 space-y-1">
+                      {upcoming.map(date => <li key={date}>{date}</li>)}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-gray-400">Nothing scheduled.</p>
+                  )}
+                </div>
+                <div className="p-6 md:col-span-2">
+                  <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">Generated</p>
+                  {generated.length > 0 ? (
+                    <table className="w-full text-left text-sm text-gray-600">
+                      <tbody className="divide-y divide-gray-50">
+                        {generated.map(inv => (
+                          <tr key={inv.id} onClick={() => onViewInvoice(inv)} className="hover:bg-gray-50 cursor-pointer">
+                            <td className="py-2 font-medium text-gray-900">{inv.invoiceNumber}</td>
+                            <td className="py-2">{inv.date}</td>
+                            <td className="py-2 capitalize">{inv.status.replace('_', ' ')}</td>
+                            <td className="py-2 text-right">{inv.currency}{formatAmount(calculateTotals(inv).total)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <p className="text-sm text-gray-400">No invoices generated yet.</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+        {schedules.length === 0 && !formData && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 px-6 py-12 text-center text-gray-400">
+            <div className="flex flex-col items-center gap-2">
+              <RepeatIcon className="w-8 h-8 opacity-20" />
+              <p>No recurring schedules yet.</p>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -1,13 +1,41 @@
 import React, { useState } from 'react';
-import { InvoiceData } from '../types';
+import { InvoiceData, CreditNote, ExchangeRate, CatalogItem } from '../types';
 import { PrinterIcon, FileTextIcon } from '../components/Icons';
+import { calculateTotals, amountPaid, balanceDue, lineAmount, discountFactor } from '../lib/invoiceTotals';
+import { agingReport, AGING_BUCKETS } from '../lib/receivables';
+import { documentRate, toBaseCurrency } from '../lib/exchangeRates';
 
 interface ReportsProps {
   invoices: InvoiceData[];
-  currency: string;
+  creditNotes: CreditNote[];
+  catalog: CatalogItem[];
+  exchangeRates: ExchangeRate[];
+  baseCurrency: string;
 }
 
-export default function Reports({ invoices, currency }: ReportsProps) {
+const emptyStats = () => ({ count: 0, totalAmount: 0, collected: 0, pending: 0, draft: 0, tax: 0 });
+type ReportStats = ReturnType<typeof emptyStats>;
+
+const addInvoice = (acc: ReportStats, inv: InvoiceData, convert: (amount: number) => number) => {
+  const { total, taxAmount } = calculateTotals(inv);
+  acc.count++;
+  acc.totalAmount += convert(total);
+  acc.collected += convert(amountPaid(inv));
+  if (inv.status === 'draft') acc.draft += convert(total);
+  else {
+    acc.pending += convert(balanceDue(inv));
+    acc.tax += convert(taxAmount);
+  }
+};
+
+const addCreditNote = (acc: ReportStats, cn: CreditNote, convert: (amount: number) => number) => {
+  const { total, taxAmount } = calculateTotals(cn);
+  acc.totalAmount -= convert(total);
+  acc.tax -= convert(taxAmount);
+  acc.collected -= convert(cn.refundAmount);
+};
+
+export default function Reports({ invoices, creditNotes, catalog, exchangeRates, baseCurrency }: ReportsProps) {
   // Default to current month
   const now = new Date();
   const firstDay = new Date(now.getFullYear(), now.getMonth(), 1).toISOString().split('T')[0];
@@ -21,20 +49,57 @@ export default function Reports({ invoices, currency }: ReportsProps) {
     return inv.date >= startDate && inv.date <= endDate;
   }).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
-  // Calculate stats
-  const stats = filteredInvoices.reduce((acc, inv) => {
-    const subtotal = inv.items.reduce((s, i) => s + (i.quantity * i.rate), 0);
-    const tax = subtotal * (inv.taxRate / 100);
-    const total = subtotal + tax;
+  // Issued credit notes dated in the period are deducted from revenue and GST
+  const filteredCreditNotes = creditNotes.filter(cn => {
+    return cn.status === 'issued' && cn.date >= startDate && cn.date <= endDate;
+  }).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  // Headline figures are in the base currency, each document converted at its own rate.
+  // The per-currency breakdown keeps the original amounts alongside the converted ones.
+  const inBase = (doc: InvoiceData | CreditNote, amount: number) => toBaseCurrency(doc, amount, exchangeRates, baseCurrency) ?? 0;
+  const missingRate = [...filteredInvoices, ...filteredCreditNotes].filter(doc => documentRate(doc, exchangeRates, baseCurrency) === undefined);
+
+  const stats = emptyStats();
+  const byCurrency: Record<string, { original: ReportStats; base: ReportStats }> = {};
+  const currencyStats = (code: string) => byCurrency[code] = byCurrency[code] || { original: emptyStats(), base: emptyStats() };
+
+  filteredInvoices.forEach(inv => {
+    const entry = currencyStats(inv.currency);
+    addInvoice(entry.original, inv, amount => amount);
+    addInvoice(entry.base, inv, amount => inBase(inv, amount));
+    addInvoice(stats, inv, amount => inBase(inv, amount));
+  });
+
+  filteredCreditNotes.forEach(cn => {
+    const entry = currencyStats(cn.currency);
+    addCreditNote(entry.original, cn, amount => amount);
+    addCreditNote(entry.base, cn, amount => inBase(cn, amount));
+    addCreditNote(stats, cn, amount => inBase(cn, amount));
+  });
+
+  const currencies = Object.keys(byCurrency).sort((a, b) => a === baseCurrency ? -1 : b === baseCurrency ? 1 : a.localeCompare(b));
+  const showCurrencyBreakdown = currencies.some(code => code !== baseCurrency);
 
-    acc.count++;
-    acc.totalAmount += total;
-    if (inv.status === 'paid') acc.collected += total;
-    else if (inv.status === 'pending') acc.pending += total;
-    else if (inv.status === 'draft') acc.draft += total;
+  // Sales per catalog item in the base currency, after discounts and before tax.
+  // Lines typed by hand are grouped under an empty key.
+  const salesByItem: Record<string, { quantity: number; amount: number }> = {};
+  const addSales = (doc: InvoiceData | CreditNote, sign: number) => {
+    const factor = discountFactor(doc);
+    doc.items.forEach(item => {
+      const key = item.catalogItemId || '';
+      const entry = salesByItem[key] = salesByItem[key] || { quantity: 0, amount: 0 };
+      entry.quantity += sign * item.quantity;
+      entry.amount += sign * inBase(doc, lineAmount(item) * factor);
+    });
+  };
+  filteredInvoices.filter(inv => inv.status !== 'draft').forEach(inv => addSales(inv, 1));
+  filteredCreditNotes.forEach(cn => addSales(cn, -1));
+  const itemSales = Object.entries(salesByItem)
+    .map(([id, sales]) => ({ id, name: id ? catalog.find(c => c.id === id)?.name || 'Deleted item' : 'Other (not from catalog)', ...sales }))
+    .sort((a, b) => b.amount - a.amount);
 
-    return acc;
-  }, { count: 0, totalAmount: 0, collected: 0, pending: 0, draft: 0 });
+  // Aging looks at everything still owed today, not only invoices dated inside the period
+  const aging = agingReport(invoices, undefined, inBase);
 
   const handlePrint = () => {
     window.print();
@@ -90,18 +155,22 @@ export default function Reports({ invoices, currency }: ReportsProps) {
         </div>
 
         {/* Summary Cards */}
-        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 divide-y md:divide-y-0 md:divide-x divide-gray-100 border-b border-gray-100">
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-5 divide-y md:divide-y-0 md:divide-x divide-gray-100 border-b border-gray-100">
           <div className="p-6">
             <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Total Revenue</p>
-            <p className="text-2xl font-bold text-gray-900">{currency}{stats.totalAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+            <p className="text-2xl font-bold text-gray-900">{baseCurrency}{stats.totalAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
           </div>
           <div className="p-6">
             <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Collected</p>
-            <p className="text-2xl font-bold text-green-600">{currency}{stats.collected.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+            <p className="text-2xl font-bold text-green-600">{baseCurrency}{stats.collected.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
           </div>
            <div className="p-6">
             <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Pending</p>
-            <p className="text-2xl font-bold text-orange-500">{currency}{stats.pending.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+            <p className="text-2xl font-bold text-orange-500">{baseCurrency}{stats.pending.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+          </div>
+           <div className="p-6">
+            <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Output GST</p>
+            <p className="text-2xl font-bold text-gray-900">{baseCurrency}{stats.tax.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
           </div>
            <div className="p-6">
             <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Invoices</p>
@@ -109,6 +178,87 @@ export default function Reports({ invoices, currency }: ReportsProps) {
           </div>
         </div>
 
+        {missingRate.length > 0 && (
+          <div className="px-6 py-3 bg-orange-50 border-b border-orange-100 text-sm text-orange-800 no-print">
+            {missingRate.length} document{missingRate.length === 1 ? ' has' : 's have'} no exchange rate for {missingRate.length === 1 ? 'its' : 'their'} date and {missingRate.length === 1 ? 'is' : 'are'} left out of the {baseCurrency} totals. Add the missing rates in Settings.
+          </div>
+        )}
+
+        {/* Currency Breakdown */}
+        {showCurrencyBreakdown && (
+          <div className="p-6 border-b border-gray-100 avoid-break overflow-x-auto">
+            <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-4">By Currency</p>
+            <table className="w-full text-left text-sm text-gray-600 min-w-[600px]">
+              <thead className="text-xs uppercase font-semibold text-gray-500 border-b border-gray-100">
+                <tr>
+                  <th className="py-2">Currency</th>
+                  <th className="py-2 text-right">Invoices</th>
+                  <th className="py-2 text-right">Revenue</th>
+                  <th className="py-2 text-right">Collected</th>
+                  <th className="py-2 text-right">Pending</th>
+                  <th className="py-2 text-right">Revenue in {baseCurrency}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {currencies.map(code => {
+                  const { original, base } = byCurrency[code];
+                  return (
+                    <tr key={code}>
+                      <td className="py-2 font-medium text-gray-900">{code}</td>
+                      <td className="py-2 text-right">{original.count}</td>
+                      <td className="py-2 text-right whitespace-nowrap">{code}{original.totalAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                      <td className="py-2 text-right whitespace-nowrap">{code}{original.collected.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                      <td className="py-2 text-right whitespace-nowrap">{code}{original.pending.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                      <td className="py-2 text-right whitespace-nowrap font-medium text-gray-900">{baseCurrency}{base.totalAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Sales by Item */}
+        {itemSales.length > 0 && (
+          <div className="p-6 border-b border-gray-100 avoid-break overflow-x-auto">
+            <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-4">Sales by Item (excl. GST, drafts excluded)</p>
+            <table className="w-full text-left text-sm text-gray-600 min-w-[600px]">
+              <thead className="text-xs uppercase font-semibold text-gray-500 border-b border-gray-100">
+                <tr>
+                  <th className="py-2">Item</th>
+                  <th className="py-2 text-right">Quantity</th>
+                  <th className="py-2 text-right">Sales</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {itemSales.map(row => (
+                  <tr key={row.id}>
+                    <td className={`py-2 ${row.id ? 'font-medium text-gray-900' : 'italic text-gray-400'}`}>{row.name}</td>
+                    <td className="py-2 text-right">{row.quantity.toLocaleString()}</td>
+                    <td className="py-2 text-right whitespace-nowrap font-medium text-gray-900">{baseCurrency}{row.amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Receivables Aging */}
+        <div className="p-6 border-b border-gray-100 avoid-break">
+          <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-4">Receivables Aging (as of today)</p>
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-4">
+            {AGING_BUCKETS.map(({ key, label }) => (
+              <div key={key} className={`rounded-lg border p-4 ${key === 'current' ? 'border-gray-100' : aging[key].amount > 0 ? 'border-red-100 bg-red-50/50' : 'border-gray-100'}`}>
+                <p className="text-xs font-medium text-gray-500 mb-1">{label}</p>
+                <p className={`text-lg font-bold ${key !== 'current' && aging[key].amount > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                  {baseCurrency}{aging[key].amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                </p>
+                <p className="text-xs text-gray-400">{aging[key].count} invoices</p>
+              </div>
+            ))}
+          </div>
+        </div>
+
         {/* Detailed Table */}
         <div className="overflow-x-auto">
           <table className="w-full text-left text-sm text-gray-600 min-w-[600px]">
@@ -122,10 +272,10 @@ export default function Reports({ invoices, currency }: ReportsProps) {
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-100">
-              {filteredInvoices.length > 0 ? (
-                filteredInvoices.map(inv => {
-                  const subtotal = inv.items.reduce((s, i) => s + (i.quantity * i.rate), 0);
-                  const total = subtotal * (1 + inv.taxRate / 100);
+              {filteredInvoices.length > 0 || filteredCreditNotes.length > 0 ? (
+                <>
+                {filteredInvoices.map(inv => {
+                  const { total } = calculateTotals(inv);
                   return (
                     <tr key={inv.id} className="hover:bg-gray-50 print:hover:bg-transparent avoid-break">
                       <td className="px-6 py-4 whitespace-nowrap">{inv.date}</td>
@@ -134,17 +284,43 @@ export default function Reports({ invoices, currency }: ReportsProps) {
                       <td className="px-6 py-4">
                         <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-bold uppercase
                           ${inv.status === 'paid' ? 'bg-green-100 text-green-800 print:bg-transparent print:text-gray-800 print:p-0' : 
+                            inv.status === 'partially_paid' ? 'bg-blue-100 text-blue-800 print:bg-transparent print:text-gray-800 print:p-0' : 
                             inv.status === 'pending' ? 'bg-orange-100 text-orange-800 print:bg-transparent print:text-gray-800 print:p-0' : 
                             'bg-gray-100 text-gray-800 print:bg-transparent print:text-gray-800 print:p-0'}`}>
-                          {inv.status}
+                          {inv.status.replace('_', ' ')}
                         </span>
                       </td>
                       <td className="px-6 py-4 text-right font-medium whitespace-nowrap">
-                        {currency}{total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        {inv.currency}{total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        {inv.currency !== baseCurrency && (
+                          <span className="block text-xs font-normal text-gray-400">{baseCurrency}{inBase(inv, total).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {filteredCreditNotes.map(cn => {
+                  const { total } = calculateTotals(cn);
+                  return (
+                    <tr key={cn.id} className="hover:bg-gray-50 print:hover:bg-transparent avoid-break">
+                      <td className="px-6 py-4 whitespace-nowrap">{cn.date}</td>
+                      <td className="px-6 py-4 font-medium text-gray-900">{cn.creditNoteNumber} <span className="text-xs text-gray-400">({cn.invoiceNumber})</span></td>
+                      <td className="px-6 py-4">{cn.clientName}</td>
+                      <td className="px-6 py-4">
+                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-bold uppercase bg-purple-100 text-purple-800 print:bg-transparent print:text-gray-800 print:p-0">
+                          Credit Note
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-right font-medium whitespace-nowrap text-red-600">
+                        -{cn.currency}{total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        {cn.currency !== baseCurrency && (
+                          <span className="block text-xs font-normal text-gray-400">-{baseCurrency}{inBase(cn, total).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                        )}
                       </td>
                     </tr>
                   );
-                })
+                })}
+                </>
               ) : (
                 <tr>
                   <td colSpan={5} className="px-6 py-12 text-center text-gray-400">
@@ -156,11 +332,11 @@ export default function Reports({ invoices, currency }: ReportsProps) {
                 </tr>
               )}
             </tbody>
-            {filteredInvoices.length > 0 && (
+            {(filteredInvoices.length > 0 || filteredCreditNotes.length > 0) && (
                <tfoot className="bg-gray-50 font-bold text-gray-900 border-t border-gray-200 print:bg-gray-100">
                  <tr>
-                   <td colSpan={4} className="px-6 py-4 text-right uppercase text-xs tracking-wider">Total</td>
-                   <td className="px-6 py-4 text-right whitespace-nowrap">{currency}{stats.totalAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                   <td colSpan={4} className="px-6 py-4 text-right uppercase text-xs tracking-wider">Net Total ({baseCurrency})</td>
+                   <td className="px-6 py-4 text-right whitespace-nowrap">{baseCurrency}{stats.totalAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
                  </tr>
                </tfoot>
             )}
@@ -1,19 +1,33 @@
 import React, { useState, useEffect } from 'react';
-import { AppSettings, User } from '../types';
-import { PalmTreeIcon, LockIcon } from '../components/Icons';
+import { AppSettings, User, ExchangeRate, DocumentTemplate, DocumentFont } from '../types';
+import { PalmTreeIcon, LockIcon, TrashIcon } from '../components/Icons';
+import { formatDocumentNumber } from '../lib/documentNumbers';
+import { parseExchangeRatesCsv } from '../lib/exchangeRates';
+import { can } from '../lib/permissions';
+import { DEFAULT_BRAND_COLOR, DOCUMENT_FONTS, DOCUMENT_TEMPLATES } from '../lib/documentModel';
+import { INVOICE_EMAIL_PLACEHOLDERS, QUOTATION_EMAIL_PLACEHOLDERS } from '../lib/documentEmail';
 
 interface SettingsProps {
   settings: AppSettings;
   setSettings: React.Dispatch<React.SetStateAction<AppSettings>>;
+  exchangeRates: ExchangeRate[];
+  baseCurrencyLocked: boolean; // Rates and documents are all relative to the base currency
+  onSaveExchangeRates: (rates: Omit<ExchangeRate, 'id'>[]) => Promise<boolean>;
+  onDeleteExchangeRate: (id: string) => void;
   currentUser: User;
 }
 
-export default function Settings({ settings, setSettings, currentUser }: SettingsProps) {
+const ROLES: User['role'][] = ['admin', 'editor', 'viewer'];
+
+const emptyRate = () => ({ currency: '', rate: 0, effectiveDate: new Date().toISOString().split('T')[0] });
+
+export default function Settings({ settings, setSettings, exchangeRates, baseCurrencyLocked, onSaveExchangeRates, onDeleteExchangeRate, currentUser }: SettingsProps) {
   const [localSettings, setLocalSettings] = useState<AppSettings>(settings);
   const [isDirty, setIsDirty] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
+  const [newRate, setNewRate] = useState<Omit<ExchangeRate, 'id'>>(emptyRate());
 
-  const isAdmin = currentUser.role === 'admin';
+  const canEdit = can(currentUser, 'settings.edit');
 
   // Reset local state if global settings change externally, though in this flow it's mostly one-way
   useEffect(() => {
@@ -22,14 +36,14 @@ export default function Settings({ settings, setSettings, currentUser }: Setting
   }, [settings]);
 
   const handleChange = (field: keyof AppSettings, value: any) => {
-    if (!isAdmin) return;
+    if (!canEdit) return;
     setLocalSettings(prev => ({ ...prev, [field]: value }));
     setIsDirty(true);
     setShowSuccess(false);
   };
 
   const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!isAdmin) return;
+    if (!canEdit) return;
     const file = e.target.files?.[0];
     if (file) {
       const reader = new FileReader();
@@ -43,20 +57,53 @@ export default function Settings({ settings, setSettings, currentUser }: Setting
   };
 
   const removeLogo = () => {
-    if (!isAdmin) return;
+    if (!canEdit) return;
     setLocalSettings(prev => ({ ...prev, logoUrl: undefined }));
     setIsDirty(true);
     setShowSuccess(false);
   };
 
   const handleSave = () => {
-    if (!isAdmin) return;
+    if (!canEdit) return;
     setSettings(localSettings);
     setIsDirty(false);
     setShowSuccess(true);
     setTimeout(() => setShowSuccess(false), 3000);
   };
 
+  const handleAddRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canEdit) return;
+    if (newRate.currency.trim().toUpperCase() === settings.baseCurrency) {
+      alert(`${settings.baseCurrency} is the base currency and always has a rate of 1.`);
+      return;
+    }
+    if (await onSaveExchangeRates([newRate])) setNewRate(emptyRate());
+  };
+
+  const handleImportRates = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!canEdit) return;
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = async () => {
+      const { rates, errors } = parseExchangeRatesCsv(reader.result as string);
+      if (errors.length > 0) {
+        alert(`These lines could not be read and nothing was imported:\n${errors.slice(0, 10).join('\n')}`);
+        return;
+      }
+      if (rates.length === 0) {
+        alert('The file does not contain any exchange rates.');
+        return;
+      }
+      if (await onSaveExchangeRates(rates)) alert(`Imported ${rates.length} exchange rates.`);
+    };
+    reader.readAsText(file);
+  };
+
+  const sortedRates = [...exchangeRates].sort((a, b) => a.currency.localeCompare(b.currency) || b.effectiveDate.localeCompare(a.effectiveDate));
+
   const handleCancel = () => {
     setLocalSettings(settings);
     setIsDirty(false);
@@ -74,14 +121,14 @@ export default function Settings({ settings, setSettings, currentUser }: Setting
         )}
       </div>
 
-      {!isAdmin && (
+      {!canEdit && (
         <div className="bg-orange-50 border border-orange-200 text-orange-800 px-4 py-3 rounded-lg mb-6 flex items-center gap-3 text-sm">
           <LockIcon className="w-4 h-4" />
           <p>You do not have permission to edit system settings. Contact an administrator.</p>
         </div>
       )}
       
-      <div className={`bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-8 ${!isAdmin ? 'opacity-70 pointer-events-none grayscale-[0.5]' : ''}`}>
+      <div className={`bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-8 ${!canEdit ? 'opacity-70 pointer-events-none grayscale-[0.5]' : ''}`}>
         
         {/* Branding Section */}
         <div>
@@ -99,14 +146,14 @@ export default function Settings({ settings, setSettings, currentUser }: Setting
             <div className="flex-1">
               <label className="block text-sm font-medium text-gray-700 mb-2">Company Logo</label>
               <div className="flex items-center gap-3">
-                <label className={`cursor-pointer px-4 py-2 bg-white border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 transition-colors ${isAdmin ? 'hover:bg-gray-50' : 'cursor-not-allowed'}`}>
+                <label className={`cursor-pointer px-4 py-2 bg-white border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 transition-colors ${canEdit ? 'hover:bg-gray-50' : 'cursor-not-allowed'}`}>
                   <span>Upload new logo</span>
-                  <input type="file" className="hidden" accept="image/*" onChange={handleLogoUpload} disabled={!isAdmin} />
+                  <input type="file" className="hidden" accept="image/*" onChange={handleLogoUpload} disabled={!canEdit} />
                 </label>
                 {localSettings.logoUrl && (
                   <button 
                     onClick={removeLogo}
-                    disabled={!isAdmin}
+                    disabled={!canEdit}
                     className="px-4 py-2 bg-white border border-red-200 text-red-600 rounded-md shadow-sm text-sm font-medium hover:bg-red-50 transition-colors disabled:cursor-not-allowed"
                   >
                     Remove
@@ -118,6 +165,112 @@ export default function Settings({ settings, setSettings, currentUser }: Setting
           </div>
         </div>
 
+        {/* Document Templates */}
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 mb-4 border-b pb-2">Document Templates</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {([['invoiceTemplate', 'Invoice Template'], ['quotationTemplate', 'Quotation Template']] as const).map(([field, label]) => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                <select
+                  value={localSettings[field]}
+                  onChange={(e) => handleChange(field, e.target.value as DocumentTemplate)}
+                  disabled={!canEdit}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500 transition-shadow disabled:bg-gray-50 bg-white"
+                >
+                  {DOCUMENT_TEMPLATES.map(template => <option key={template.id} value={template.id}>{template.name}</option>)}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">{DOCUMENT_TEMPLATES.find(template => template.id === localSettings[field])?.description}</p>
+              </div>
+            ))}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Brand Colour</label>
+              <div className="flex items-center gap-3">
+                <input
+                  type="color"
+                  value={localSettings.brandColor}
+                  onChange={(e) => handleChange('brandColor', e.target.value)}
+                  disabled={!canEdit}
+                  className="h-10 w-14 border border-gray-300 rounded-md cursor-pointer disabled:cursor-not-allowed"
+                />
+                <span className="text-sm text-gray-500 font-mono">{localSettings.brandColor}</span>
+                {localSettings.brandColor !== DEFAULT_BRAND_COLOR && (
+                  <button
+                    onClick={() => handleChange('brandColor', DEFAULT_BRAND_COLOR)}
+                    disabled={!canEdit}
+                    className="text-sm text-sandpix-600 hover:text-sandpix-700"
+                  >
+                    Reset
+                  </button>
+                )}
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Font</label>
+              <select
+                value={localSettings.documentFont}
+                onChange={(e) => handleChange('documentFont', e.target.value as DocumentFont)}
+                disabled={!canEdit}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500 transition-shadow disabled:bg-gray-50 bg-white"
+              >
+                {DOCUMENT_FONTS.map(font => <option key={font.id} value={font.id}>{font.name}</option>)}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Footer Text</label>
+              <textarea
+                rows={2}
+                value={localSettings.documentFooter}
+                onChange={(e) => handleChange('documentFooter', e.target.value)}
+                placeholder="e.g. Bank: BML 7730000123456 · Thank you for your business!"
+                disabled={!canEdit}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500 transition-shadow disabled:bg-gray-50"
+              />
+              <p className="mt-1 text-xs text-gray-500">Printed at the bottom of invoices and quotations. Leave blank for the usual thank-you line.</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Email Templates */}
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 mb-4 border-b pb-2">Email Templates</h3>
+          <p className="mb-4 text-xs text-gray-500">
+            Used to fill in the message when an invoice or quotation is sent to a client. The message can still be changed before sending.
+          </p>
+          <div className="space-y-6">
+            {([
+              ['invoiceEmailSubject', 'invoiceEmailBody', 'Invoice', INVOICE_EMAIL_PLACEHOLDERS],
+              ['quotationEmailSubject', 'quotationEmailBody', 'Quotation', QUOTATION_EMAIL_PLACEHOLDERS]
+            ] as const).map(([subjectField, bodyField, label, placeholders]) => (
+              <div key={label} className="space-y-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{label} Subject</label>
+                  <input
+                    type="text"
+                    value={localSettings[subjectField]}
+                    onChange={(e) => handleChange(subjectField, e.target.value)}
+                    disabled={!canEdit}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500 transition-shadow disabled:bg-gray-50"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{label} Message</label>
+                  <textarea
+                    rows={6}
+                    value={localSettings[bodyField]}
+                    onChange={(e) => handleChange(bodyField, e.target.value)}
+                    disabled={!canEdit}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500 transition-shadow disabled:bg-gray-50"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Placeholders: {placeholders.map(name => `{${name}}`).join(', ')}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
         {/* Company Info */}
         <div>
           <h3 className="text-lg font-medium text-gray-900 mb-4 border-b pb-2">Company Information</h3>
@@ -128,7 +281,7 @@ export default function Settings({ settings, setSettings, currentUser }: Setting
                 type="text"
                 value={localSettings.companyName}
                 onChange={(e) => handleChange('companyName', e.target.value)}
-                disabled={!isAdmin}
+                disabled={!canEdit}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500 transition-shadow disabled:bg-gray-50"
               />
             </div>
@@ -138,7 +291,7 @@ export default function Settings({ settings, setSettings, currentUser }: Setting
                 rows={3}
                 value={localSettings.companyAddress}
                 onChange={(e) => handleChange('companyAddress', e.target.value)}
-                disabled={!isAdmin}
+                disabled={!canEdit}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500 transition-shadow disabled:bg-gray-50"
               />
             </div>
@@ -148,7 +301,7 @@ export default function Settings({ settings, setSettings, currentUser }: Setting
                 type="email"
                 value={localSettings.companyEmail}
                 onChange={(e) => handleChange('companyEmail', e.target.value)}
-                disabled={!isAdmin}
+                disabled={!canEdit}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500 transition-shadow disabled:bg-gray-50"
               />
             </div>
@@ -159,7 +312,7 @@ export default function Settings({ settings, setSettings, currentUser }: Setting
                 value={localSettings.gstNumber || ''}
                 onChange={(e) => handleChange('gstNumber', e.target.value)}
                 placeholder="e.g. GST-12345678"
-                disabled={!isAdmin}
+                disabled={!canEdit}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500 transition-shadow disabled:bg-gray-50"
               />
             </div>
@@ -176,25 +329,228 @@ export default function Settings({ settings, setSettings, currentUser }: Setting
                   type="number"
                   value={localSettings.defaultTaxRate}
                   onChange={(e) => handleChange('defaultTaxRate', parseFloat(e.target.value) || 0)}
-                  disabled={!isAdmin}
+                  disabled={!canEdit}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500 transition-shadow disabled:bg-gray-50"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Base Currency</label>
+                <input
+                  type="text"
+                  value={localSettings.baseCurrency}
+                  onChange={(e) => {
+                    // Totals are labelled with the base currency, so the symbol follows it
+                    handleChange('baseCurrency', e.target.value.toUpperCase());
+                    handleChange('currencySymbol', e.target.value.toUpperCase());
+                  }}
+                  placeholder="e.g. MVR"
+                  maxLength={3}
+                  disabled={!canEdit || baseCurrencyLocked}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500 transition-shadow disabled:bg-gray-50"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  {baseCurrencyLocked
+                    ? 'Exchange rates and saved documents are relative to this currency, so it can no longer be changed.'
+                    : 'New documents use this currency and reports are converted into it.'}
+                </p>
+              </div>
+           </div>
+        </div>
+
+        {/* Exchange Rates */}
+        <div>
+           <h3 className="text-lg font-medium text-gray-900 mb-4 border-b pb-2">Exchange Rates</h3>
+           <p className="mb-4 text-xs text-gray-500">
+             Units of {settings.baseCurrency} for one unit of the foreign currency. Invoices use the latest rate on or before their date
+             and keep it once issued. Rates are saved as soon as they are added.
+           </p>
+           <form onSubmit={handleAddRate} className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end mb-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+                <input
+                  required
+                  type="text"
+                  value={newRate.currency}
+                  onChange={(e) => setNewRate({ ...newRate, currency: e.target.value.toUpperCase() })}
+                  placeholder="USD"
+                  pattern="[A-Za-z]{3}"
+                  maxLength={3}
+                  disabled={!canEdit}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500 transition-shadow disabled:bg-gray-50"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Rate</label>
+                <input
+                  required
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={newRate.rate || ''}
+                  onChange={(e) => setNewRate({ ...newRate, rate: parseFloat(e.target.value) || 0 })}
+                  disabled={!canEdit}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500 transition-shadow disabled:bg-gray-50"
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Currency Symbol</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Effective From</label>
+                <input
+                  required
+                  type="date"
+                  value={newRate.effectiveDate}
+                  onChange={(e) => setNewRate({ ...newRate, effectiveDate: e.target.value })}
+                  disabled={!canEdit}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500 transition-shadow disabled:bg-gray-50"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={!canEdit || !(newRate.rate > 0)}
+                className="px-4 py-2 text-sm font-medium text-white bg-sandpix-600 rounded-lg hover:bg-sandpix-700 transition-colors disabled:opacity-50"
+              >
+                Add Rate
+              </button>
+           </form>
+           {sortedRates.length > 0 && (
+             <table className="w-full text-left text-sm text-gray-600 mb-4">
+               <thead className="text-xs uppercase font-semibold text-gray-500 border-b border-gray-100">
+                 <tr>
+                   <th className="py-2">Currency</th>
+                   <th className="py-2 text-right">Rate</th>
+                   <th className="py-2 text-right">Effective From</th>
+                   <th className="py-2 w-8"></th>
+                 </tr>
+               </thead>
+               <tbody className="divide-y divide-gray-50">
+                 {sortedRates.map(rate => (
+                   <tr key={rate.id}>
+                     <td className="py-2 font-medium text-gray-900">{rate.currency}</td>
+                     <td className="py-2 text-right">{rate.rate}</td>
+                     <td className="py-2 text-right">{rate.effectiveDate}</td>
+                     <td className="py-2 text-right">
+                       <button onClick={() => onDeleteExchangeRate(rate.id)} disabled={!canEdit} className="text-red-300 hover:text-red-500 transition-colors">
+                         <TrashIcon className="w-4 h-4" />
+                       </button>
+                     </td>
+                   </tr>
+                 ))}
+               </tbody>
+             </table>
+           )}
+           <label className={`inline-block cursor-pointer px-4 py-2 bg-white border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 transition-colors ${canEdit ? 'hover:bg-gray-50' : 'cursor-not-allowed'}`}>
+             <span>Import from CSV</span>
+             <input type="file" className="hidden" accept=".csv,text/csv,text/plain" onChange={handleImportRates} disabled={!canEdit} />
+           </label>
+           <p className="mt-2 text-xs text-gray-500">One rate per line as currency,rate,date — for example USD,15.42,2026-10-01.</p>
+        </div>
+
+        {/* Numbering */}
+        <div>
+           <h3 className="text-lg font-medium text-gray-900 mb-4 border-b pb-2">Document Numbering</h3>
+           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Invoice Number Pattern</label>
+                <input
+                  type="text"
+                  value={localSettings.invoiceNumberPattern}
+                  onChange={(e) => handleChange('invoiceNumberPattern', e.target.value)}
+                  disabled={!canEdit}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500 transition-shadow disabled:bg-gray-50 font-mono text-sm"
+                />
+                <p className="mt-1 text-xs text-gray-500">Example: {formatDocumentNumber(localSettings.invoiceNumberPattern, new Date(), 1)}</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Quotation Number Pattern</label>
                 <input
                   type="text"
-                  value={localSettings.currencySymbol}
-                  onChange={(e) => handleChange('currencySymbol', e.target.value)}
-                  disabled={!isAdmin}
+                  value={localSettings.quotationNumberPattern}
+                  onChange={(e) => handleChange('quotationNumberPattern', e.target.value)}
+                  disabled={!canEdit}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500 transition-shadow disabled:bg-gray-50 font-mono text-sm"
+                />
+                <p className="mt-1 text-xs text-gray-500">Example: {formatDocumentNumber(localSettings.quotationNumberPattern, new Date(), 1)}</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Credit Note Number Pattern</label>
+                <input
+                  type="text"
+                  value={localSettings.creditNoteNumberPattern}
+                  onChange={(e) => handleChange('creditNoteNumberPattern', e.target.value)}
+                  disabled={!canEdit}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500 transition-shadow disabled:bg-gray-50 font-mono text-sm"
+                />
+                <p className="mt-1 text-xs text-gray-500">Example: {formatDocumentNumber(localSettings.creditNoteNumberPattern, new Date(), 1)}</p>
+              </div>
+           </div>
+           <p className="mt-3 text-xs text-gray-500">
+             Use {'{YYYY}'}, {'{YY}'} or {'{MM}'} for the date and zeros such as {'{0000}'} for the running number.
+             Patterns containing the year restart the count every January. Numbers are assigned when a document is first saved.
+           </p>
+        </div>
+
+        {/* Security */}
+        <div>
+           <h3 className="text-lg font-medium text-gray-900 mb-4 border-b pb-2">Security</h3>
+           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Sign Out After Inactivity (minutes)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={localSettings.sessionIdleMinutes}
+                  onChange={(e) => handleChange('sessionIdleMinutes', Math.max(1, parseInt(e.target.value) || 1))}
+                  disabled={!canEdit}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500 transition-shadow disabled:bg-gray-50"
+                />
+                <p className="mt-1 text-xs text-gray-500">Sessions also end 12 hours after signing in.</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Lock Account After (failed sign-ins)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={localSettings.loginLockoutThreshold}
+                  onChange={(e) => handleChange('loginLockoutThreshold', Math.max(1, parseInt(e.target.value) || 1))}
+                  disabled={!canEdit}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500 transition-shadow disabled:bg-gray-50"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Lockout Duration (minutes)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={localSettings.loginLockoutMinutes}
+                  onChange={(e) => handleChange('loginLockoutMinutes', Math.max(1, parseInt(e.target.value) || 1))}
+                  disabled={!canEdit}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-sandpix-500 transition-shadow disabled:bg-gray-50"
                 />
+                <p className="mt-1 text-xs text-gray-500">Admins can unlock an account early from Team.</p>
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Require Two-Factor Authentication For</label>
+                <div className="flex flex-wrap gap-6">
+                  {ROLES.map(role => (
+                    <label key={role} className="flex items-center gap-2 text-sm text-gray-700 capitalize">
+                      <input
+                        type="checkbox"
+                        checked={localSettings.twoFactorRoles.includes(role)}
+                        onChange={(e) => handleChange('twoFactorRoles', e.target.checked
+                          ? [...localSettings.twoFactorRoles, role]
+                          : localSettings.twoFactorRoles.filter(r => r !== role))}
+                        disabled={!canEdit}
+                      />
+                      {role}s
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">Team members with these roles set up an authenticator app at their next sign-in. Anyone can turn it on from My Account.</p>
               </div>
            </div>
         </div>
 
         {/* Action Buttons */}
-        {isAdmin && (
+        {canEdit && (
           <div className="pt-6 border-t border-gray-100 flex justify-end gap-3">
              <button
                onClick={handleCancel}
@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { db, SharedDocument as SharedDocumentData } from '../lib/data';
+import { PublicSettings, QuotationResponse } from '../types';
+import DocumentLayout from '../components/DocumentLayout';
+import { PrinterIcon, DownloadIcon, CheckCircleIcon, BanIcon, AlertCircleIcon, PalmTreeIcon } from '../components/Icons';
+import { invoiceDocument, quotationDocument } from '../lib/documentModel';
+
+interface SharedDocumentProps {
+  token: string;
+}
+
+// The page a client sees through a share link. It works without signing in and only reads what the link allows.
+export default function SharedDocument({ token }: SharedDocumentProps) {
+  const [shared, setShared] = useState<SharedDocumentData | null>(null);
+  const [settings, setSettings] = useState<PublicSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isResponding, setIsResponding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    const [documentResult, settingsResult] = await Promise.all([db.shareLinks.open(token), db.settings.getPublic()]);
+    if (documentResult.error || settingsResult.error) {
+      console.error('Error opening shared document:', documentResult.error || settingsResult.error);
+      setError('Could not load this document. Please try again later.');
+    }
+    setShared(documentResult.data);
+    setSettings(settingsResult.data);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+  }, [token]);
+
+  const handleRespond = async (response: QuotationResponse['status']) => {
+    const question = response === 'accepted' ? 'Accept this quotation?' : 'Reject this quotation?';
+    if (!window.confirm(question)) return;
+    setIsResponding(true);
+    setError(null);
+    const { error } = await db.shareLinks.respond(token, response);
+    if (error) {
+      console.error('Error responding to quotation:', error);
+      setError(error.kind === 'invalid' ? error.message : 'Could not record your response. Please try again.');
+    }
+    await load();
+    setIsResponding(false);
+  };
+
+  // The PDF library is only loaded the first time a PDF is made
+  const handleDownload = async () => {
+    try {
+      const pdf = await import('../lib/pdf');
+      if (shared!.documentType === 'invoice') await pdf.downloadInvoicePdf(shared!.invoice, settings!);
+      else await pdf.downloadQuotationPdf(shared!.quotation, settings!);
+    } catch (err) {
+      console.error('Error creating PDF:', err);
+      alert('Could not create the PDF. Please try again.');
+    }
+  };
+
+  if (isLoading) return null;
+
+  if (!shared || !settings) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-lg p-8 max-w-md w-full text-center">
+          <div className="w-16 h-16 bg-sandpix-50 rounded-lg flex items-center justify-center mx-auto mb-4">
+            <PalmTreeIcon className="w-8 h-8 text-sandpix-600" />
+          </div>
+          <h1 className="text-lg font-bold text-gray-900 mb-2">Link unavailable</h1>
+          <p className="text-sm text-gray-500">
+            {error || `This link is invalid or has expired. Please contact ${settings?.companyName || 'us'} for a new one.`}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const quotation = shared.documentType === 'quotation' ? shared.quotation : null;
+  const content = shared.documentType === 'invoice' ? invoiceDocument(shared.invoice, settings) : quotationDocument(shared.quotation, settings);
+  const template = shared.documentType === 'invoice' ? settings.invoiceTemplate : settings.quotationTemplate;
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <div className="p-4 md:p-8 max-w-5xl mx-auto print:p-0 print:max-w-none">
+        <div className="flex flex-col md:flex-row justify-between items-center mb-6 gap-4 no-print">
+          <h1 className="text-xl font-bold text-gray-800 truncate">{content.title} {content.reference} from {settings.companyName}</h1>
+          <div className="flex flex-wrap items-center gap-3 w-full md:w-auto justify-end">
+            <button onClick={() => window.print()} className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium flex-1 md:flex-none justify-center"><PrinterIcon className="w-4 h-4"/> Print</button>
+            <button onClick={handleDownload} className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium flex-1 md:flex-none justify-center"><DownloadIcon className="w-4 h-4"/> PDF</button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-100 text-red-600 text-sm rounded-lg no-print">{error}</div>
+        )}
+
+        {quotation?.status === 'sent' && (
+          <div className="mb-6 p-4 bg-white rounded-xl shadow-sm border border-gray-100 flex flex-col md:flex-row md:items-center justify-between gap-3 no-print">
+            <p className="text-sm text-gray-700">Please review the quotation below and let us know whether you would like to go ahead.</p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => handleRespond('rejected')}
+                disabled={isResponding}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-red-200 text-red-600 rounded-lg hover:bg-red-50 transition-colors text-sm font-medium disabled:opacity-70"
+              >
+                <BanIcon className="w-4 h-4" /> Reject
+              </button>
+              <button
+                onClick={() => handleRespond('accepted')}
+                disabled={isResponding}
+                className="flex items-center gap-2 px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm font-medium shadow-sm disabled:opacity-70"
+              >
+                <CheckCircleIcon className="w-4 h-4" /> Accept
+              </button>
+            </div>
+          </div>
+        )}
+
+        {quotation?.clientResponse && (
+          <div className={`mb-6 p-4 text-sm rounded-lg flex items-center gap-2 no-print ${quotation.clientResponse.status === 'accepted' ? 'bg-green-50 border border-green-100 text-green-700' : 'bg-gray-50 border border-gray-200 text-gray-700'}`}>
+            {quotation.clientResponse.status === 'accepted' ? <CheckCircleIcon className="w-4 h-4" /> : <AlertCircleIcon className="w-4 h-4" />}
+            You {quotation.clientResponse.status} this quotation on {new Date(quotation.clientResponse.respondedAt).toLocaleString()}.
+          </div>
+        )}
+
+        <div className="overflow-x-auto print:overflow-visible">
+          <DocumentLayout document={content} template={template} settings={settings} />
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
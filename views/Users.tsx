@@ -1,26 +1,68 @@
-import React, { useState } from 'react';
-import { User } from '../types';
-import { PlusIcon, EditIcon, CheckCircleIcon, BanIcon } from '../components/Icons';
+import React, { useState, useEffect } from 'react';
+import { User, LoginAttempt } from '../types';
+import { PlusIcon, EditIcon, CheckCircleIcon, BanIcon, MailIcon, LockIcon, ShieldIcon } from '../components/Icons';
+import { can } from '../lib/permissions';
 
 interface UsersProps {
   users: User[];
-  setUsers: React.Dispatch<React.SetStateAction<User[]>>;
+  onSave: (user: User) => Promise<boolean>;
+  onInvite: (user: User) => Promise<boolean>;
+  onUnlock: (user: User) => Promise<boolean>;
+  onResetTwoFactor: (user: User) => Promise<boolean>;
+  onLoadLoginAttempts: (failedOnly: boolean) => Promise<LoginAttempt[]>;
   currentUser: User;
 }
 
-export default function Users({ users, setUsers, currentUser }: UsersProps) {
+const emptyForm = { name: '', email: '', role: 'viewer' as User['role'] };
+
+const isActiveAdmin = (user: User) => user.role === 'admin' && user.active !== false;
+
+const ATTEMPT_REASONS: Record<NonNullable<LoginAttempt['reason']>, string> = {
+  unknown_user: 'Unknown user',
+  invalid_password: 'Wrong password',
+  invalid_code: 'Wrong two-factor code',
+  locked: 'Account locked',
+  client_blocked: 'Device blocked',
+  disabled: 'Account disabled'
+};
+
+const isLocked = (user: User) => !!user.lockedUntil && Date.parse(user.lockedUntil) > Date.now();
+
+export default function Users({ users, onSave, onInvite, onUnlock, onResetTwoFactor, onLoadLoginAttempts, currentUser }: UsersProps) {
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [formData, setFormData] = useState({ name: '', email: '', password: '', role: 'viewer' as User['role'] });
+  const [formData, setFormData] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [togglingId, setTogglingId] = useState<string | null>(null);
+  const [invitingId, setInvitingId] = useState<string | null>(null);
+  const [attempts, setAttempts] = useState<LoginAttempt[]>([]);
+  const [failedOnly, setFailedOnly] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const canManage = can(currentUser, 'team.manage');
 
-  const isAdmin = currentUser.role === 'admin';
+  // Filter users: Team managers see everyone, others see only non-admins
+  const displayedUsers = users.filter(user => canManage || user.role !== 'admin');
 
-  // Filter users: Admins see everyone, others see only non-admins
-  const displayedUsers = users.filter(user => isAdmin || user.role !== 'admin');
+  // Returns why the change would leave the team without an admin, if it would
+  const adminGuard = (before: User, after: User) => {
+    if (!isActiveAdmin(before) || isActiveAdmin(after)) return null;
+    if (before.id === currentUser.id && after.active === false) return 'You cannot disable your own account.';
+    if (!users.some(u => u.id !== before.id && isActiveAdmin(u))) return 'At least one active admin is required.';
+    return null;
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingId(null);
+    setFormData(emptyForm);
+    setError(null);
+  };
 
   const startAdd = () => {
     setEditingId(null);
-    setFormData({ name: '', email: '', password: '', role: 'viewer' });
+    setFormData(emptyForm);
+    setError(null);
     setIsFormOpen(true);
   };
 
@@ -29,55 +71,74 @@ export default function Users({ users, setUsers, currentUser }: UsersProps) {
     setFormData({
       name: user.name,
       email: user.email,
-      password: user.password || '',
       role: user.role
     });
+    setError(null);
     setIsFormOpen(true);
   };
 
-  const handleSave = (e: React.FormEvent) => {
+  const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (editingId) {
-      // Edit Mode
-      setUsers(prev => prev.map(u => 
-        u.id === editingId ? { ...u, ...formData } : u
-      ));
-    } else {
-      // Add Mode
-      const newUser: User = {
-        id: Date.now().toString(),
-        name: formData.name,
-        email: formData.email,
-        password: formData.password,
-        role: formData.role,
-        active: true // Default active
-      };
-      setUsers(prev => [...prev, newUser]);
+    const email = formData.email.trim().toLowerCase();
+    if (users.some(u => u.id !== editingId && u.email.trim().toLowerCase() === email)) {
+      setError('Another team member already uses this email address.');
+      return;
     }
-    
-    setIsFormOpen(false);
-    setEditingId(null);
-    setFormData({ name: '', email: '', password: '', role: 'viewer' });
+
+    const existing = users.find(u => u.id === editingId);
+    const user: User = existing
+      ? { ...existing, ...formData }
+      : { id: crypto.randomUUID(), ...formData, active: true };
+    const guard = existing ? adminGuard(existing, user) : null;
+    if (guard) {
+      setError(guard);
+      return;
+    }
+
+    setError(null);
+    setIsSaving(true);
+    const saved = await onSave(user);
+    setIsSaving(false);
+    if (saved) closeForm();
+  };
+
+  useEffect(() => {
+    if (canManage) onLoadLoginAttempts(failedOnly).then(setAttempts);
+  }, [canManage, failedOnly, users]);
+
+  const sendInvite = async (user: User) => {
+    setInvitingId(user.id);
+    await onInvite(user);
+    setInvitingId(null);
+  };
+
+  const resetTwoFactor = async (user: User) => {
+    if (!window.confirm(`Reset two-factor authentication for ${user.name}? They will be signed out and can set it up again at their next sign-in.`)) return;
+    await onResetTwoFactor(user);
   };
 
-  const toggleStatus = (user: User) => {
-    // Only admins can toggle status
-    if (!isAdmin) return;
+  const toggleStatus = async (user: User) => {
+    // Only team managers can toggle status
+    if (!canManage) return;
 
     // Toggle active state (treat undefined as true initially)
-    const newActiveState = user.active === false ? true : false;
-    
-    setUsers(prev => prev.map(u => 
-      u.id === user.id ? { ...u, active: newActiveState } : u
-    ));
+    const next = { ...user, active: user.active === false };
+    const guard = adminGuard(user, next);
+    if (guard) {
+      alert(guard);
+      return;
+    }
+
+    setTogglingId(user.id);
+    await onSave(next);
+    setTogglingId(null);
   };
 
   return (
     <div className="p-4 md:p-6 max-w-7xl mx-auto">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold text-gray-800">Team Members</h1>
-        {isAdmin && (
+        {canManage && (
           <button
             onClick={startAdd}
             className="flex items-center gap-2 px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 transition-colors font-medium text-sm"
@@ -88,10 +149,13 @@ export default function Users({ users, setUsers, currentUser }: UsersProps) {
         )}
       </div>
 
-      {isFormOpen && isAdmin && (
+      {isFormOpen && canManage && (
         <div className="bg-gray-50 border border-gray-200 p-4 rounded-lg mb-6 max-w-2xl">
           <form onSubmit={handleSave} className="flex flex-col gap-4">
              <h3 className="font-semibold text-gray-700">{editingId ? 'Edit User' : 'Add New User'}</h3>
+             {error && (
+               <div className="p-3 bg-red-50 border border-red-100 text-red-600 text-sm rounded">{error}</div>
+             )}
              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                <input 
                  required
@@ -108,13 +172,6 @@ export default function Users({ users, setUsers, currentUser }: UsersProps) {
                  onChange={e => setFormData({...formData, email: e.target.value})}
                  className="px-3 py-2 border rounded focus:outline-none focus:ring-1 focus:ring-sandpix-500"
                />
-               <input 
-                 type="text"
-                 placeholder="Password" 
-                 value={formData.password}
-                 onChange={e => setFormData({...formData, password: e.target.value})}
-                 className="px-3 py-2 border rounded focus:outline-none focus:ring-1 focus:ring-sandpix-500"
-               />
                <select 
                  value={formData.role}
                  onChange={e => setFormData({...formData, role: e.target.value as User['role']})}
@@ -125,10 +182,13 @@ export default function Users({ users, setUsers, currentUser }: UsersProps) {
                  <option value="admin">Admin</option>
                </select>
              </div>
+             {!editingId && (
+               <p className="text-xs text-gray-500">The new team member receives an email invitation to choose their own password.</p>
+             )}
              <div className="flex justify-end gap-2">
-               <button type="button" onClick={() => setIsFormOpen(false)} className="px-3 py-1 text-sm text-gray-500 hover:text-gray-700">Cancel</button>
-               <button type="submit" className="px-3 py-1 text-sm bg-sandpix-600 text-white rounded hover:bg-sandpix-700">
-                 {editingId ? 'Update User' : 'Save User'}
+               <button type="button" onClick={closeForm} className="px-3 py-1 text-sm text-gray-500 hover:text-gray-700">Cancel</button>
+               <button type="submit" disabled={isSaving} className="px-3 py-1 text-sm bg-sandpix-600 text-white rounded hover:bg-sandpix-700 disabled:opacity-70">
+                 {isSaving ? 'Saving...' : editingId ? 'Update User' : 'Save User'}
                </button>
              </div>
           </form>
@@ -167,17 +227,59 @@ export default function Users({ users, setUsers, currentUser }: UsersProps) {
                           Disabled
                         </span>
                       )}
+                      {isLocked(user) && (
+                        <span className="ml-1 inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-orange-100 text-orange-800" title={`Locked until ${new Date(user.lockedUntil!).toLocaleString()}`}>
+                          <LockIcon className="w-3 h-3" /> Locked
+                        </span>
+                      )}
+                      {user.twoFactorEnabled && (
+                        <span className="ml-1 inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-sandpix-50 text-sandpix-700" title="Signs in with two-factor authentication">
+                          <ShieldIcon className="w-3 h-3" /> 2FA
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 text-right">
-                      {isAdmin && (
+                      {canManage && (
                         <div className="flex justify-end gap-2">
                           <button type="button" onClick={() => startEdit(user)} className="text-sandpix-600 hover:text-sandpix-800" title="Edit User">
                             <EditIcon />
                           </button>
+                          {isLocked(user) && (
+                            <button
+                              type="button"
+                              onClick={() => onUnlock(user)}
+                              className="text-xs font-semibold text-orange-600 border border-orange-200 rounded px-2 py-1 hover:bg-orange-50"
+                              title="Clear the failed sign-in lockout"
+                            >
+                              Unlock
+                            </button>
+                          )}
+                          {user.twoFactorEnabled && (
+                            <button
+                              type="button"
+                              onClick={() => resetTwoFactor(user)}
+                              className="text-gray-500 hover:text-gray-700"
+                              title="Reset two-factor authentication for a lost device"
+                            >
+                              <ShieldIcon />
+                            </button>
+                          )}
+                          {isActive && (
+                            <button
+                              type="button"
+                              onClick={() => sendInvite(user)}
+                              disabled={invitingId === user.id}
+                              className="text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                              title="Email a link to set a new password"
+                            >
+                              <MailIcon />
+                            </button>
+                          )}
                           <button 
                             type="button"
                             onClick={() => toggleStatus(user)} 
-                            className={`flex items-center gap-1 px-2 py-1 rounded text-xs font-semibold border ${
+                            disabled={togglingId === user.id}
+                            className={`flex items-center gap-1 px-2 py-1 rounded text-xs font-semibold border disabled:opacity-50 ${
                               isActive 
                                 ? 'text-red-600 border-red-200 hover:bg-red-50' 
                                 : 'text-green-600 border-green-200 hover:bg-green-50'
@@ -209,6 +311,53 @@ export default function Users({ users, setUsers, currentUser }: UsersProps) {
           </table>
         </div>
       </div>
+
+      {canManage && (
+        <div className="mt-8 bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+            <h3 className="font-semibold text-gray-800">Sign-in Activity</h3>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input type="checkbox" checked={failedOnly} onChange={e => setFailedOnly(e.target.checked)} />
+              Failed only
+            </label>
+          </div>
+          <div className="overflow-x-auto max-h-96">
+            <table className="w-full text-left text-sm text-gray-600 min-w-[700px]">
+              <thead className="bg-gray-50 text-xs uppercase font-semibold text-gray-500">
+                <tr>
+                  <th className="px-6 py-3">When</th>
+                  <th className="px-6 py-3">Signed in as</th>
+                  <th className="px-6 py-3">Team member</th>
+                  <th className="px-6 py-3">Client IP</th>
+                  <th className="px-6 py-3">Result</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {attempts.map(attempt => (
+                  <tr key={attempt.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-3 whitespace-nowrap">{new Date(attempt.createdAt).toLocaleString()}</td>
+                    <td className="px-6 py-3">{attempt.identifier}</td>
+                    <td className="px-6 py-3">{users.find(u => u.id === attempt.userId)?.name || '—'}</td>
+                    <td className="px-6 py-3 font-mono text-xs">{attempt.clientIp || '—'}</td>
+                    <td className="px-6 py-3">
+                      {attempt.succeeded ? (
+                        <span className="text-green-700">Signed in</span>
+                      ) : (
+                        <span className="text-red-600">{attempt.reason ? ATTEMPT_REASONS[attempt.reason] : 'Failed'}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {attempts.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-gray-400">No sign-in attempts recorded.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file